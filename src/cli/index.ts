@@ -10,23 +10,39 @@ import packageJson from '../../package.json';
 import {
   AutoTranslator,
   ConfigValidator,
+  LOCKFILE_NAME,
   Logger,
+  TranslationConverter,
   defaultLogger,
 } from '../index.js';
+import type { ConversionResult } from '../index.js';
+import type { TranslationFormat } from '../core/parser.js';
+import { FORMAT_EXTENSIONS } from '../core/converter.js';
 
 interface CLIConfig {
   watchPath: string;
   baseLanguage: string;
   targetLanguages: string[];
   filePattern: string;
+  pathTemplate?: string;
+  rootLocale?: boolean;
   provider: {
     type: 'openai' | 'anthropic' | 'local';
     config: Record<string, any>;
+    concurrency?: number;
+    rateLimit?: {
+      requestsPerMinute?: number;
+      tokensPerMinute?: number;
+    };
   };
   preserveFormatting: boolean;
   contextInjection: boolean;
+  keyStyle?: 'nested' | 'flat' | 'auto';
   batchSize: number;
   retryAttempts: number;
+  concurrency?: number;
+  onSourceChange?: 'retranslate' | 'review';
+  lockfile?: string;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
 }
 
@@ -142,6 +158,35 @@ class TranslationCLI {
       .action(async (file, options) => {
         await this.translateCommand(file, options);
       });
+
+    // Convert command
+    this.program
+      .command('convert')
+      .description('Convert translation files to another format')
+      .argument(
+        '<input>',
+        'Translation file, or directory of files, to convert'
+      )
+      .requiredOption(
+        '--to <format>',
+        `Format to write (${Object.keys(FORMAT_EXTENSIONS).join(', ')})`
+      )
+      .option(
+        '-o, --out <path>',
+        'Output file, or output directory when converting a directory'
+      )
+      .option(
+        '-l, --language <code>',
+        'Language to read from and write into multi-language files'
+      )
+      .option(
+        '-b, --base <language>',
+        'Language of files whose path has none (e.g. values/)',
+        'en'
+      )
+      .action(async (input, options) => {
+        await this.convertCommand(input, options);
+      });
   }
 
   private async watchCommand(options: any): Promise<void> {
@@ -261,6 +306,7 @@ class TranslationCLI {
         contextInjection: true,
         batchSize: 10,
         retryAttempts: 3,
+        lockfile: LOCKFILE_NAME,
         logLevel: 'info',
       };
 
@@ -429,13 +475,29 @@ locales/
       // Initialize translation manager
       await this.initializeAutoTranslator();
 
+      // Ctrl-C cancels outstanding requests; finished translations are
+      // still written
+      process.once('SIGINT', () => {
+        this.logger.info('Received SIGINT, cancelling translation...');
+        void this.cleanup();
+      });
+
       // Perform translation
       const result = await this.autoTranslator!.translateFile(file);
 
       if (result.success) {
-        this.logger.info('✅ Translation completed successfully!');
+        this.logger.info(
+          result.cancelled
+            ? '⚠️ Translation cancelled, finished translations were saved'
+            : '✅ Translation completed successfully!'
+        );
         this.logger.info(`Batches processed: ${result.batchesProcessed}`);
         this.logger.info(`Total translations: ${result.totalTranslations}`);
+        for (const [language, stats] of Object.entries(result.languages)) {
+          this.logger.info(
+            `- ${language}: ${stats.succeeded}/${stats.requested} translated in ${stats.batches} batches`
+          );
+        }
         this.logger.info(`Files updated: ${result.updatedFiles.join(', ')}`);
       } else {
         this.logger.error('❌ Translation failed');
@@ -456,13 +518,76 @@ locales/
     }
   }
 
+  private async convertCommand(input: string, options: any): Promise<void> {
+    try {
+      if (!(options.to in FORMAT_EXTENSIONS)) {
+        throw new Error(
+          `Unsupported format: ${options.to}. Use one of ${Object.keys(
+            FORMAT_EXTENSIONS
+          ).join(', ')}`
+        );
+      }
+
+      const converter = new TranslationConverter();
+      const convertOptions = {
+        to: options.to as TranslationFormat,
+        baseLanguage: options.base,
+        ...(options.out ? { out: options.out } : {}),
+        ...(options.language ? { language: options.language } : {}),
+      };
+
+      const stats = await fs.stat(input);
+      if (stats.isDirectory()) {
+        this.logger.info(`Converting files in ${input} to ${options.to}...`);
+        const result = await converter.convertDirectory(input, convertOptions);
+
+        result.converted.forEach(file => this.reportConversion(file));
+        result.errors.forEach(error => this.logger.error(`❌ ${error}`));
+        this.logger.info(
+          `Converted ${result.converted.length} files, ${result.errors.length} failed`
+        );
+
+        if (result.errors.length > 0) {
+          process.exit(1);
+        }
+      } else {
+        this.reportConversion(
+          await converter.convertFile(input, convertOptions)
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        'Conversion failed',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      process.exit(1);
+    }
+  }
+
+  private reportConversion(result: ConversionResult): void {
+    this.logger.info(
+      `✅ ${result.input} -> ${result.output} (${result.keyCount} keys)`
+    );
+    result.warnings.forEach(warning =>
+      this.logger.warn(`  ${result.output}: ${warning}`)
+    );
+  }
+
   private async loadOrCreateConfig(options: any): Promise<CLIConfig> {
     try {
       // Try to load from config file
       if (options.config) {
         const configPath = path.resolve(process.cwd(), options.config);
         const configContent = await fs.readFile(configPath, 'utf-8');
-        return JSON.parse(configContent);
+        const config: CLIConfig = JSON.parse(configContent);
+        // The lockfile lives next to the config, wherever the CLI runs from
+        if (config.lockfile) {
+          config.lockfile = path.resolve(
+            path.dirname(configPath),
+            config.lockfile
+          );
+        }
+        return config;
       }
     } catch {
       // Config file not found or invalid, create from CLI options
@@ -537,6 +662,33 @@ locales/
       );
     });
 
+    this.autoTranslator.on('translationsOutdated', (data: any) => {
+      const keys = data.keys.join(', ');
+      if (data.review) {
+        this.logger.warn(
+          `${data.targetLanguage} translations need review, their base text changed: ${keys}`
+        );
+      } else {
+        this.logger.info(
+          `Re-translating ${data.targetLanguage} keys whose base text changed: ${keys}`
+        );
+      }
+    });
+
+    this.autoTranslator.on('rateLimited', (data: any) => {
+      if (!data.nearLimit) {
+        this.logger.info(
+          `Requests to ${data.provider} are no longer throttled`
+        );
+      } else {
+        this.logger.warn(
+          data.waitMs > 0
+            ? `Rate limit of ${data.provider} reached, waiting ${(data.waitMs / 1000).toFixed(1)}s`
+            : `Rate limit of ${data.provider} nearly reached`
+        );
+      }
+    });
+
     this.autoTranslator.on('error', (error: any) => {
       this.logger.error('Translation manager error:', error);
     });
@@ -2,6 +2,7 @@ import { AutoTranslator } from '../auto-translator';
 import { Config } from '../../types/index';
 import fs from 'fs/promises';
 import { EventEmitter } from 'events';
+import path from 'path';
 
 // Mock fs module
 jest.mock('fs/promises');
@@ -12,6 +13,10 @@ jest.mock('../translator');
 const mockOrchestrator = {
   setProvider: jest.fn(),
   processFileChanges: jest.fn(),
+  rememberBaseFile: jest.fn(),
+  saveLockfile: jest.fn(),
+  getOutdatedTranslations: jest.fn(),
+  markReviewed: jest.fn(),
   getStats: jest.fn(),
   on: jest.fn(),
 };
@@ -38,6 +43,7 @@ const mockWatcher = {
 // Mock the imports
 jest.mock('../translator', () => ({
   TranslationOrchestrator: jest.fn().mockImplementation(() => mockOrchestrator),
+  summarizeBatches: jest.requireActual('../translator').summarizeBatches,
 }));
 
 jest.mock('../watcher', () => ({
@@ -81,6 +87,7 @@ describe('AutoTranslator', () => {
     // Reset mock implementations
     mockOrchestrator.setProvider.mockResolvedValue(undefined);
     mockOrchestrator.processFileChanges.mockResolvedValue([]);
+    mockOrchestrator.getOutdatedTranslations.mockReturnValue([]);
     mockOrchestrator.getStats.mockReturnValue({
       isProcessing: false,
       currentBatch: null,
@@ -268,6 +275,107 @@ describe('AutoTranslator', () => {
       expect(result.batchesProcessed).toBe(1);
       expect(result.totalTranslations).toBe(2);
       expect(result.updatedFiles).toHaveLength(2);
+      // The lockfile is saved once the target files hold the translations
+      expect(mockOrchestrator.saveLockfile).toHaveBeenCalledTimes(1);
+      expect(mockOrchestrator.saveLockfile).toHaveBeenCalledWith([
+        {
+          targetFile: expect.stringContaining('fr.json'),
+          targetLanguage: 'fr',
+        },
+        {
+          targetFile: expect.stringContaining('de.json'),
+          targetLanguage: 'de',
+        },
+      ]);
+      expect(
+        mockOrchestrator.saveLockfile.mock.invocationCallOrder[0]
+      ).toBeGreaterThan(
+        Math.max(...mockedFs.writeFile.mock.invocationCallOrder)
+      );
+    });
+
+    it('should only report and record the files that were written', async () => {
+      mockedFs.access.mockResolvedValue(undefined);
+      mockOrchestrator.processFileChanges.mockResolvedValue([
+        {
+          responses: [
+            {
+              success: true,
+              translatedText: '[FR] Hello',
+              targetLanguage: 'fr',
+              key: 'hello',
+            },
+            {
+              success: true,
+              translatedText: '[DE] Hello',
+              targetLanguage: 'de',
+              key: 'hello',
+            },
+          ],
+        },
+      ]);
+      mockedFs.readFile.mockResolvedValue('{"hello": ""}');
+      mockedFs.writeFile.mockImplementation(async file =>
+        String(file).endsWith('fr.json')
+          ? Promise.reject(new Error('EACCES'))
+          : undefined
+      );
+
+      const result = await autoTranslator.translateFile('en.json');
+
+      expect(result.updatedFiles).toEqual([expect.stringContaining('de.json')]);
+      expect(mockOrchestrator.saveLockfile).toHaveBeenCalledWith([
+        {
+          targetFile: expect.stringContaining('de.json'),
+          targetLanguage: 'de',
+        },
+      ]);
+    });
+
+    it('should count only successful translations across all batches', async () => {
+      mockedFs.access.mockResolvedValue(undefined);
+      mockOrchestrator.processFileChanges.mockResolvedValue([
+        {
+          responses: [
+            {
+              success: true,
+              translatedText: 'Un',
+              targetLanguage: 'fr',
+              key: 'one',
+            },
+            {
+              success: false,
+              translatedText: '',
+              targetLanguage: 'fr',
+              key: 'two',
+            },
+          ],
+        },
+        {
+          responses: [
+            {
+              success: true,
+              translatedText: 'Trois',
+              targetLanguage: 'fr',
+              key: 'three',
+            },
+          ],
+        },
+      ]);
+      mockedFs.readFile.mockResolvedValue('{}');
+      mockedFs.writeFile.mockResolvedValue(undefined);
+
+      const result = await autoTranslator.translateFile('en.json');
+
+      expect(result.batchesProcessed).toBe(2);
+      expect(result.totalTranslations).toBe(2);
+      expect(result.languages).toEqual({
+        fr: { batches: 2, requested: 3, succeeded: 2, failed: 1 },
+      });
+      expect(JSON.parse(String(mockedFs.writeFile.mock.calls[0]![1]))).toEqual({
+        one: 'Un',
+        three: 'Trois',
+      });
     });
 
     it('should handle translation processing failure', async () => {
@@ -284,6 +392,53 @@ describe('AutoTranslator', () => {
       expect(result.success).toBe(false);
       expect(result.errors).toContain('Translation failed');
     });
+
+    it('should flag outdated translations for review in the target file', async () => {
+      mockConfig.targetLanguages = ['fr'];
+      autoTranslator = new AutoTranslator(mockConfig, { logger: mockLogger });
+      await autoTranslator.start();
+      mockedFs.access.mockResolvedValue(undefined);
+      mockOrchestrator.getOutdatedTranslations.mockReturnValue([
+        { targetFile: path.join('locales', 'fr.po'), keys: ['Save'] },
+      ]);
+      mockedFs.readFile.mockImplementation(async file =>
+        String(file).endsWith('fr.po')
+          ? 'msgid "Save"\nmsgstr "Enregistrer"\n'
+          : 'msgid "Save"\nmsgstr ""\n'
+      );
+      mockedFs.writeFile.mockResolvedValue(undefined);
+
+      const result = await autoTranslator.translateFile('en.po');
+
+      expect(result.success).toBe(true);
+      expect(mockedFs.writeFile).toHaveBeenCalledWith(
+        path.join('locales', 'fr.po'),
+        '#, fuzzy\nmsgid "Save"\nmsgstr "Enregistrer"\n'
+      );
+    });
+  });
+
+  describe('markReviewed', () => {
+    it('should clear the review flags of reviewed keys', async () => {
+      autoTranslator = new AutoTranslator(mockConfig, { logger: mockLogger });
+      mockedFs.readFile.mockResolvedValue(
+        '#, fuzzy\nmsgid "Save"\nmsgstr "Enregistrer"\n'
+      );
+      mockedFs.writeFile.mockResolvedValue(undefined);
+
+      await autoTranslator.markReviewed('locales/fr.po', ['Save']);
+
+      expect(mockOrchestrator.markReviewed).toHaveBeenCalledWith(
+        'locales/fr.po',
+        ['Save'],
+        undefined
+      );
+      expect(mockedFs.writeFile).toHaveBeenCalledWith(
+        'locales/fr.po',
+        'msgid "Save"\nmsgstr "Enregistrer"\n'
+      );
+      expect(mockOrchestrator.saveLockfile).toHaveBeenCalled();
+    });
   });
 
   describe('getStatus', () => {
@@ -345,6 +500,20 @@ describe('AutoTranslator', () => {
       (autoTranslator as any).watcher.emit('fileChange', mockEvent);
     });
 
+    it('should remember base files found by the watcher without translating', async () => {
+      mockOrchestrator.rememberBaseFile.mockResolvedValue(undefined);
+
+      await (autoTranslator as any).watcher.listeners.get('fileChange')[0]({
+        type: 'add',
+        filePath: 'en.json',
+        language: 'en',
+        timestamp: new Date(),
+      });
+
+      expect(mockOrchestrator.rememberBaseFile).toHaveBeenCalledWith('en.json');
+      expect(mockOrchestrator.processFileChanges).not.toHaveBeenCalled();
+    });
+
     it('should emit error event', done => {
       autoTranslator.on('error', error => {
         expect(error.message).toBe('Test error');
@@ -409,6 +578,56 @@ describe('AutoTranslator', () => {
       await autoTranslator.start();
     });
 
+    it('should cancel a running translation on stop and write what finished', async () => {
+      mockedFs.access.mockResolvedValue(undefined);
+      mockedFs.readFile.mockResolvedValue('{"save": "", "cancel": ""}');
+      mockedFs.writeFile.mockResolvedValue(undefined);
+
+      let signal: AbortSignal | undefined;
+      mockOrchestrator.processFileChanges.mockImplementation(
+        (...args: any[]) =>
+          new Promise(resolve => {
+            signal = args[2];
+            signal!.addEventListener('abort', () =>
+              resolve([
+                {
+                  responses: [
+                    {
+                      success: true,
+                      translatedText: 'Enregistrer',
+                      targetLanguage: 'fr',
+                      key: 'save',
+                    },
+                    {
+                      success: false,
+                      translatedText: '',
+                      targetLanguage: 'fr',
+                      key: 'cancel',
+                      errorKind: 'cancelled',
+                    },
+                  ],
+                },
+              ])
+            );
+          })
+      );
+
+      const running = autoTranslator.translateFile('en.json');
+      await new Promise(resolve => setImmediate(resolve));
+      await autoTranslator.stop();
+
+      expect(signal!.aborted).toBe(true);
+      expect(mockedFs.writeFile).toHaveBeenCalledWith(
+        expect.stringContaining('fr.json'),
+        expect.stringContaining('"save": "Enregistrer"')
+      );
+
+      const result = await running;
+      expect(result.cancelled).toBe(true);
+      expect(result.totalTranslations).toBe(1);
+      expect(autoTranslator.isActive()).toBe(false);
+    });
+
     it('should handle nested key updates correctly', async () => {
       // Mock target files exist
       mockedFs.access.mockResolvedValue(undefined);
@@ -449,6 +668,240 @@ describe('AutoTranslator', () => {
       );
     });
 
+    it('should write array items by index and copy untranslated values', async () => {
+      mockedFs.access.mockResolvedValue(undefined);
+      mockOrchestrator.processFileChanges.mockResolvedValue([
+        {
+          responses: [
+            {
+              success: true,
+              translatedText: 'Trois',
+              targetLanguage: 'fr',
+              key: 'steps.2',
+            },
+            {
+              success: true,
+              translatedText: 'Un',
+              targetLanguage: 'fr',
+              key: 'steps.0',
+            },
+            {
+              success: true,
+              translatedText: 'Deux',
+              targetLanguage: 'fr',
+              key: 'steps.1',
+            },
+          ],
+        },
+      ]);
+      mockedFs.readFile.mockImplementation(async filePath =>
+        String(filePath).includes('en.json')
+          ? JSON.stringify({ steps: ['One', 'Two', 'Three'], max: 3 })
+          : '{}'
+      );
+      mockedFs.writeFile.mockResolvedValue(undefined);
+
+      await autoTranslator.translateFile('en.json');
+
+      const written = mockedFs.writeFile.mock.calls.find(([filePath]) =>
+        String(filePath).includes('fr.json')
+      );
+      expect(JSON.parse(String(written?.[1]))).toEqual({
+        steps: ['Un', 'Deux', 'Trois'],
+        max: 3,
+      });
+    });
+
+    it('should keep flat dotted keys flat in target files', async () => {
+      mockedFs.access.mockResolvedValue(undefined);
+      mockOrchestrator.processFileChanges.mockResolvedValue([
+        {
+          responses: [
+            {
+              success: true,
+              translatedText: 'Connexion',
+              targetLanguage: 'fr',
+              key: 'auth.login',
+            },
+          ],
+        },
+      ]);
+      mockedFs.readFile.mockImplementation(async filePath =>
+        String(filePath).includes('en.json')
+          ? '{\n  "auth.login": "Sign in",\n  "auth.logout": "Sign out"\n}\n'
+          : '{\n  "auth.logout": "Logout FR"\n}\n'
+      );
+      mockedFs.writeFile.mockResolvedValue(undefined);
+
+      await autoTranslator.translateFile('en.json');
+
+      expect(mockedFs.writeFile).toHaveBeenCalledWith(
+        expect.stringContaining('fr.json'),
+        '{\n  "auth.login": "Connexion",\n  "auth.logout": "Logout FR"\n}\n'
+      );
+    });
+
+    it('should create missing namespace files from the path template', async () => {
+      await autoTranslator.stop();
+      autoTranslator = new AutoTranslator(
+        { ...mockConfig, pathTemplate: '{lang}/{ns}.{ext}' },
+        { logger: mockLogger }
+      );
+      await autoTranslator.start();
+
+      mockOrchestrator.processFileChanges.mockResolvedValue([
+        {
+          responses: [
+            {
+              success: true,
+              translatedText: 'Connexion',
+              targetLanguage: 'fr',
+              key: 'login',
+            },
+          ],
+        },
+      ]);
+      mockedFs.readFile.mockImplementation(async filePath => {
+        if (String(filePath).includes('en'))
+          return '{\n  "login": "Sign in"\n}\n';
+        throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      });
+      mockedFs.writeFile.mockResolvedValue(undefined);
+
+      const result = await autoTranslator.translateFile('locales/en/auth.json');
+
+      expect(mockOrchestrator.processFileChanges).toHaveBeenCalledWith(
+        'locales/en/auth.json',
+        [
+          path.join('locales', 'fr', 'auth.json'),
+          path.join('locales', 'de', 'auth.json'),
+        ],
+        expect.any(AbortSignal)
+      );
+      expect(result.success).toBe(true);
+      expect(mockedFs.mkdir).toHaveBeenCalledWith(path.join('locales', 'fr'), {
+        recursive: true,
+      });
+      expect(mockedFs.writeFile).toHaveBeenCalledWith(
+        path.join('locales', 'fr', 'auth.json'),
+        '{\n  "login": "Connexion"\n}\n'
+      );
+    });
+
+    it('should write every language back into a String Catalog', async () => {
+      let catalog = JSON.stringify({
+        sourceLanguage: 'en',
+        strings: { Hello: {} },
+        version: '1.0',
+      });
+
+      mockOrchestrator.processFileChanges.mockResolvedValue([
+        {
+          responses: [
+            {
+              success: true,
+              translatedText: 'Bonjour',
+              targetLanguage: 'fr',
+              key: 'Hello',
+            },
+            {
+              success: true,
+              translatedText: 'Hallo',
+              targetLanguage: 'de',
+              key: 'Hello',
+            },
+          ],
+        },
+      ]);
+      mockedFs.readFile.mockImplementation(async () => catalog);
+      mockedFs.writeFile.mockImplementation(async (_file, content) => {
+        catalog = content as string;
+      });
+
+      const result = await autoTranslator.translateFile(
+        'Localizable.xcstrings'
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockOrchestrator.processFileChanges).toHaveBeenCalledWith(
+        'Localizable.xcstrings',
+        ['Localizable.xcstrings'],
+        expect.any(AbortSignal)
+      );
+      expect(JSON.parse(catalog).strings.Hello.localizations).toEqual({
+        de: { stringUnit: { state: 'translated', value: 'Hallo' } },
+        fr: { stringUnit: { state: 'translated', value: 'Bonjour' } },
+      });
+    });
+
+    it('should write every language into a Vue <i18n> block', async () => {
+      let component =
+        '<template><p>{{ t("hello") }}</p></template>\n\n' +
+        '<i18n lang="json">\n{\n  "en": { "hello": "Hello" }\n}\n</i18n>\n';
+
+      mockOrchestrator.processFileChanges.mockResolvedValue([
+        {
+          responses: [
+            {
+              success: true,
+              translatedText: 'Bonjour',
+              targetLanguage: 'fr',
+              key: 'hello',
+            },
+            {
+              success: true,
+              translatedText: 'Hallo',
+              targetLanguage: 'de',
+              key: 'hello',
+            },
+          ],
+        },
+      ]);
+      mockedFs.readFile.mockImplementation(async () => component);
+      mockedFs.writeFile.mockImplementation(async (_file, content) => {
+        component = content as string;
+      });
+
+      const result = await autoTranslator.translateFile('Hello.vue');
+
+      expect(result.success).toBe(true);
+      expect(mockOrchestrator.processFileChanges).toHaveBeenCalledWith(
+        'Hello.vue',
+        ['Hello.vue'],
+        expect.any(AbortSignal)
+      );
+      expect(component).toBe(
+        '<template><p>{{ t("hello") }}</p></template>\n\n' +
+          '<i18n lang="json">\n{\n  "en": { "hello": "Hello" },\n' +
+          '  "fr": {\n    "hello": "Bonjour"\n  },\n' +
+          '  "de": {\n    "hello": "Hallo"\n  }\n}\n</i18n>\n'
+      );
+    });
+
+    it('should export every language in the watch directory', async () => {
+      const files: Record<string, string> = {
+        'locales/en.json': '{"common": {"save": "Save"}}',
+        'locales/fr.json': '{"common": {"save": "Enregistrer"}}',
+      };
+      mockedFs.readdir.mockResolvedValue([
+        { name: 'en.json', isDirectory: () => false },
+        { name: 'fr.json', isDirectory: () => false },
+        { name: 'notes.txt', isDirectory: () => false },
+      ] as any);
+      mockedFs.readFile.mockImplementation(
+        async file => files[String(file)] ?? ''
+      );
+      mockedFs.writeFile.mockResolvedValue(undefined);
+
+      await autoTranslator.exportSpreadsheet('review.csv');
+
+      expect(mockedFs.writeFile).toHaveBeenCalledWith(
+        'review.csv',
+        '\uFEFFkey,en,fr,de\r\ncommon.save,Save,Enregistrer,\r\n',
+        'utf-8'
+      );
+    });
+
     it("should return error result if target files don't exist", async () => {
       // Mock target files don't exist initially
       mockedFs.access.mockRejectedValue(new Error('File not found'));
@@ -480,6 +933,61 @@ describe('AutoTranslator', () => {
       expect(language).toBe('fr');
     });
 
+    it('should detect language from Android values folders', () => {
+      expect(
+        (autoTranslator as any).detectLanguageFromPath(
+          'app/src/main/res/values-pt-rBR/strings.xml'
+        )
+      ).toBe('pt-BR');
+      expect(
+        (autoTranslator as any).detectLanguageFromPath(
+          'app/src/main/res/values/strings.xml'
+        )
+      ).toBe(mockConfig.baseLanguage);
+    });
+
+    it('should detect language from .lproj folders', () => {
+      expect(
+        (autoTranslator as any).detectLanguageFromPath(
+          'App/de.lproj/Localizable.strings'
+        )
+      ).toBe('de');
+      expect(
+        (autoTranslator as any).detectLanguageFromPath(
+          'App/Base.lproj/Localizable.stringsdict'
+        )
+      ).toBe(mockConfig.baseLanguage);
+    });
+
+    it('should detect language from resource bundle suffixes', () => {
+      const detect = (filePath: string) =>
+        (autoTranslator as any).detectLanguageFromPath(filePath);
+
+      expect(detect('src/main/resources/messages_de.properties')).toBe('de');
+      expect(detect('src/main/resources/messages_pt_BR.properties')).toBe(
+        'pt-BR'
+      );
+      expect(detect('src/main/resources/messages.properties')).toBe(
+        mockConfig.baseLanguage
+      );
+      expect(detect('Resources/Strings.de-DE.resx')).toBe('de-DE');
+      expect(detect('Resources/Strings.resx')).toBe(mockConfig.baseLanguage);
+    });
+
+    it('should detect language from browser extension _locales folders', () => {
+      const detect = (filePath: string) =>
+        (autoTranslator as any).detectLanguageFromPath(filePath);
+
+      expect(detect('extension/_locales/pt_BR/messages.json')).toBe('pt-BR');
+      expect(detect('extension/_locales/de/messages.json')).toBe('de');
+    });
+
+    it('should treat String Catalogs as base language files', () => {
+      expect(
+        (autoTranslator as any).detectLanguageFromPath('Localizable.xcstrings')
+      ).toBe(mockConfig.baseLanguage);
+    });
+
     it('should return null for invalid paths', () => {
       const language = (autoTranslator as any).detectLanguageFromPath(
         'invalid-file.txt'
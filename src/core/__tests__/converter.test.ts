@@ -0,0 +1,202 @@
+import fs from 'fs/promises';
+import { TranslationConverter } from '../converter';
+
+jest.mock('fs/promises');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('TranslationConverter', () => {
+  let converter: TranslationConverter;
+  let files: Record<string, string>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    converter = new TranslationConverter();
+    files = {};
+
+    mockedFs.readFile.mockImplementation(async file => {
+      if (!(String(file) in files)) {
+        throw new Error(`ENOENT: ${file}`);
+      }
+      return files[String(file)]!;
+    });
+    mockedFs.writeFile.mockImplementation(async (file, content) => {
+      files[String(file)] = String(content);
+    });
+    mockedFs.access.mockImplementation(async file => {
+      if (!(String(file) in files)) {
+        throw new Error(`ENOENT: ${file}`);
+      }
+    });
+    mockedFs.mkdir.mockResolvedValue(undefined);
+  });
+
+  describe('convertFile', () => {
+    it('should convert YAML to JSON next to the input', async () => {
+      files['locales/fr.yml'] = 'common:\n  save: Enregistrer\n  count: 3\n';
+
+      const result = await converter.convertFile('locales/fr.yml', {
+        to: 'json',
+      });
+
+      expect(result).toEqual({
+        input: 'locales/fr.yml',
+        output: 'locales/fr.json',
+        from: 'yaml',
+        to: 'json',
+        keyCount: 2,
+        warnings: [],
+      });
+      expect(JSON.parse(files['locales/fr.json']!)).toEqual({
+        common: { save: 'Enregistrer', count: 3 },
+      });
+    });
+
+    it('should flatten nested keys for flat formats', async () => {
+      files['locales/fr.json'] = JSON.stringify({
+        auth: { login: 'Connexion', steps: ['Un', 'Deux'] },
+      });
+
+      const result = await converter.convertFile('locales/fr.json', {
+        to: 'po',
+        out: 'po/fr.po',
+      });
+
+      expect(result.output).toBe('po/fr.po');
+      expect(result.warnings).toEqual([]);
+      expect(files['po/fr.po']).toContain(
+        'msgid "auth.login"\nmsgstr "Connexion"'
+      );
+      expect(files['po/fr.po']).toContain(
+        'msgid "auth.steps.1"\nmsgstr "Deux"'
+      );
+    });
+
+    it('should report comments and value types the format cannot hold', async () => {
+      files['lib/l10n/app_fr.arb'] = JSON.stringify({
+        '@@locale': 'fr',
+        title: 'Bonjour',
+        '@title': { description: 'Home page title' },
+      });
+      files['config/fr.json'] = JSON.stringify({ retries: 3, name: 'Appli' });
+
+      const arb = await converter.convertFile('lib/l10n/app_fr.arb', {
+        to: 'yaml',
+      });
+      const json = await converter.convertFile('config/fr.json', {
+        to: 'properties',
+      });
+
+      expect(arb.warnings).toEqual(['1 comment or description dropped: title']);
+      expect(json.warnings).toEqual(['1 key not written: retries']);
+    });
+
+    it('should report plural groups written as separate keys', async () => {
+      files['config/locales/fr.yml'] =
+        'fr:\n  inbox:\n    one: "%{count} message"\n    other: "%{count} messages"\n';
+
+      const result = await converter.convertFile('config/locales/fr.yml', {
+        to: 'properties',
+      });
+
+      expect(result.warnings).toEqual([
+        '1 plural group written as one key per form: inbox',
+        '2 comments or descriptions dropped: inbox.one, inbox.other',
+        'Root locale key "fr" dropped',
+      ]);
+      expect(files['config/locales/fr.properties']).toContain(
+        'inbox.one=%{count} message'
+      );
+    });
+
+    it('should report placeholders the format cannot hold', async () => {
+      files['_locales/fr/messages.json'] = JSON.stringify({
+        greeting: {
+          message: 'Bonjour $USER$',
+          placeholders: { user: { content: '$1' } },
+        },
+      });
+
+      const result = await converter.convertFile('_locales/fr/messages.json', {
+        to: 'json',
+        out: 'locales/fr.json',
+      });
+
+      expect(result.warnings).toContain(
+        'Placeholders of 1 message dropped: greeting'
+      );
+    });
+
+    it('should not write over the input file', async () => {
+      files['_locales/fr/messages.json'] = JSON.stringify({
+        save: { message: 'Enregistrer' },
+      });
+      const content = files['_locales/fr/messages.json'];
+
+      await expect(
+        converter.convertFile('_locales/fr/messages.json', { to: 'json' })
+      ).rejects.toThrow('is the input file');
+      expect(files['_locales/fr/messages.json']).toBe(content);
+    });
+
+    it('should write the language into multi-language formats', async () => {
+      files['locales/de.json'] = JSON.stringify({ save: 'Speichern' });
+
+      await converter.convertFile('locales/de.json', {
+        to: 'csv',
+        out: 'review.csv',
+      });
+
+      expect(files['review.csv']).toBe('\uFEFFkey,de\r\nsave,Speichern\r\n');
+    });
+  });
+
+  describe('convertDirectory', () => {
+    it('should convert every translation file and keep relative paths', async () => {
+      files['locales/en.yml'] = 'save: Save\n';
+      files['locales/admin/fr.yml'] = 'save: Enregistrer\n';
+      mockedFs.readdir.mockImplementation((async (directory: string) =>
+        directory === 'locales'
+          ? [
+              { name: 'admin', isDirectory: () => true },
+              { name: 'en.yml', isDirectory: () => false },
+              { name: 'de.json', isDirectory: () => false },
+              { name: 'notes.txt', isDirectory: () => false },
+            ]
+          : [{ name: 'fr.yml', isDirectory: () => false }]) as any);
+      files['locales/de.json'] = '{"save": "Speichern"}';
+
+      const result = await converter.convertDirectory('locales', {
+        to: 'json',
+        out: 'out',
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.converted.map(file => file.output)).toEqual([
+        'out/admin/fr.json',
+        'out/en.json',
+      ]);
+      expect(JSON.parse(files['out/admin/fr.json']!)).toEqual({
+        save: 'Enregistrer',
+      });
+    });
+
+    it('should keep converting when a file fails', async () => {
+      files['locales/en.yml'] = 'save: Save\n';
+      files['locales/fr.yml'] = 'save: [unclosed\n';
+      mockedFs.readdir.mockResolvedValue([
+        { name: 'en.yml', isDirectory: () => false },
+        { name: 'fr.yml', isDirectory: () => false },
+      ] as any);
+
+      const result = await converter.convertDirectory('locales', {
+        to: 'json',
+      });
+
+      expect(result.converted.map(file => file.output)).toEqual([
+        'locales/en.json',
+      ]);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatch(/^locales\/fr\.yml: /);
+    });
+  });
+});
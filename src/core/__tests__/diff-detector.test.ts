@@ -1,5 +1,6 @@
 import { TranslationDiffDetector } from '../diff-detector';
 import { TranslationData } from '../parser';
+import { LockEntry, hashText } from '../lockfile';
 
 describe('TranslationDiffDetector', () => {
   let detector: TranslationDiffDetector;
@@ -345,9 +346,9 @@ describe('TranslationDiffDetector', () => {
         'user\\.'
       );
 
-      // The current implementation treats dot-notation keys as added, not modified
-      expect(filteredResult.diff.added).toEqual(['user.name', 'user.email']);
-      expect(filteredResult.diff.modified).toEqual([]);
+      // Flat dot-notation keys are detected and compared as whole keys
+      expect(filteredResult.diff.added).toEqual([]);
+      expect(filteredResult.diff.modified).toEqual(['user.name', 'user.email']);
       expect(filteredResult.diff.removed).toEqual([]);
       expect(filteredResult.diff.unchanged).toEqual([]);
     });
@@ -370,9 +371,9 @@ describe('TranslationDiffDetector', () => {
         /^user\./
       );
 
-      // The current implementation treats dot-notation keys as added, not modified
-      expect(filteredResult.diff.added).toEqual(['user.name', 'user.email']);
-      expect(filteredResult.diff.modified).toEqual([]);
+      // Flat dot-notation keys are detected and compared as whole keys
+      expect(filteredResult.diff.added).toEqual([]);
+      expect(filteredResult.diff.modified).toEqual(['user.name', 'user.email']);
       expect(filteredResult.diff.removed).toEqual([]);
       expect(filteredResult.diff.unchanged).toEqual([]);
     });
@@ -393,14 +394,108 @@ describe('TranslationDiffDetector', () => {
         'user\\.'
       );
 
-      // Only "user.name" should match the pattern and be added (not modified)
-      expect(filteredResult.summary.addedCount).toBe(1);
-      expect(filteredResult.summary.modifiedCount).toBe(0);
+      // Only "user.name" should match the pattern and be modified
+      expect(filteredResult.summary.addedCount).toBe(0);
+      expect(filteredResult.summary.modifiedCount).toBe(1);
       expect(filteredResult.summary.removedCount).toBe(0);
       expect(filteredResult.summary.unchangedCount).toBe(0);
     });
   });
 
+  describe('arrays and non-string values', () => {
+    it('should diff array items by index', () => {
+      const result = detector.detectDiff(
+        { steps: ['Sign up', 'Verify'], limit: 5 },
+        { steps: ['Sign up', 'Confirm', 'Start'], limit: 10 }
+      );
+
+      expect(result.diff.modified).toEqual(['steps.1']);
+      expect(result.diff.added).toEqual(['steps.2']);
+      expect(result.diff.unchanged).toEqual(['steps.0']);
+      expect(result.summary.totalKeys).toBe(3);
+    });
+  });
+
+  describe('keyStyle', () => {
+    it('should compare dotted keys as paths when nested is forced', () => {
+      const nested = new TranslationDiffDetector({ keyStyle: 'nested' });
+      const result = nested.detectDiff(
+        { 'user.name': 'John' },
+        { 'user.name': 'Jane' }
+      );
+
+      expect(result.diff.modified).toEqual(['user\\.name']);
+    });
+
+    it('should read nested data with flat keys', () => {
+      const flat = new TranslationDiffDetector({ keyStyle: 'flat' });
+      const keys = flat.getKeysNeedingIncrementalTranslation(
+        { 'user.name': 'Name', 'user.email': 'Email' },
+        { user: { name: 'Nom' } }
+      );
+
+      expect(keys).toEqual(['user.email']);
+    });
+  });
+
+  describe('classifyKeys', () => {
+    function lockEntry(source: string, translation: string): LockEntry {
+      return {
+        sourceHash: hashText(source),
+        translationHash: hashText(translation),
+        provider: 'openai',
+        translatedAt: '2026-01-01T00:00:00.000Z',
+      };
+    }
+
+    it('should classify keys against the lockfile', () => {
+      const statuses = detector.classifyKeys(
+        {
+          title: 'Welcome',
+          user: { save: 'Save changes', cancel: 'Cancel', help: 'Help' },
+        },
+        {
+          title: 'Bienvenue',
+          user: { save: 'Enregistrer', cancel: 'Fermer', help: ' ' },
+        },
+        {
+          title: lockEntry('Welcome', 'Bienvenue'),
+          'user.save': lockEntry('Save', 'Enregistrer'),
+          'user.cancel': lockEntry('Cancel', 'Annuler'),
+        }
+      );
+
+      expect(statuses).toEqual({
+        title: 'up-to-date',
+        'user.save': 'stale',
+        'user.cancel': 'manual',
+        'user.help': 'missing',
+      });
+    });
+
+    it('should treat values the lockfile does not know as manual', () => {
+      expect(
+        detector.classifyKeys({ save: 'Save' }, { save: 'Enregistrer' })
+      ).toEqual({ save: 'manual' });
+    });
+
+    it('should compare catalogs against their source text', () => {
+      const lockEntries = {
+        save: lockEntry('Save', 'Enregistrer'),
+        cancel: lockEntry('Cancel', 'Annuler'),
+      };
+
+      expect(
+        detector.classifyKeys(
+          { save: '', cancel: '' },
+          { save: 'Enregistrer', cancel: 'Annuler' },
+          lockEntries,
+          { save: 'Save changes', cancel: 'Cancel' }
+        )
+      ).toEqual({ save: 'stale', cancel: 'up-to-date' });
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle empty objects', () => {
       const oldData: TranslationData = {};
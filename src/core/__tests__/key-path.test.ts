@@ -0,0 +1,133 @@
+import {
+  copyScalarValues,
+  detectKeyStyle,
+  formatKeyPath,
+  getKeyValue,
+  listKeys,
+  parseKeyPath,
+  resolveKeyStyle,
+  setKeyValue,
+  setPathValue,
+} from '../key-path';
+import { TranslationData } from '../parser';
+
+describe('key paths', () => {
+  describe('parseKeyPath and formatKeyPath', () => {
+    it('should split on unescaped dots', () => {
+      expect(parseKeyPath('auth.login.title')).toEqual([
+        'auth',
+        'login',
+        'title',
+      ]);
+      expect(parseKeyPath('units.km\\.h')).toEqual(['units', 'km.h']);
+      expect(parseKeyPath('path.C:\\\\temp')).toEqual(['path', 'C:\\temp']);
+    });
+
+    it('should round-trip segments containing dots and backslashes', () => {
+      const path = ['errors', 'e.g.', 'a\\b'];
+      expect(formatKeyPath(path)).toBe('errors.e\\.g\\..a\\\\b');
+      expect(parseKeyPath(formatKeyPath(path))).toEqual(path);
+    });
+  });
+
+  describe('detectKeyStyle', () => {
+    it('should detect flat files with dotted keys', () => {
+      expect(detectKeyStyle({ 'auth.title': 'Sign in', ok: 'OK' })).toBe(
+        'flat'
+      );
+    });
+
+    it('should treat nested or dot-free files as nested', () => {
+      expect(detectKeyStyle({ auth: { title: 'Sign in' } })).toBe('nested');
+      expect(detectKeyStyle({ title: 'Sign in' })).toBe('nested');
+      expect(detectKeyStyle({})).toBe('nested');
+    });
+
+    it('should prefer a configured style over detection', () => {
+      expect(resolveKeyStyle('nested', { 'a.b': 'x' })).toBe('nested');
+      expect(resolveKeyStyle('auto', { 'a.b': 'x' })).toBe('flat');
+      expect(resolveKeyStyle(undefined, { a: { b: 'x' } })).toBe('nested');
+    });
+  });
+
+  describe('listKeys and getKeyValue', () => {
+    const data: TranslationData = {
+      'auth.title': 'Sign in',
+      menu: { 'e.g.': 'Example' },
+    };
+
+    it('should list flat keys joined with plain dots', () => {
+      expect(listKeys(data, 'flat')).toEqual(['auth.title', 'menu.e.g.']);
+      expect(getKeyValue(data, 'auth.title', 'flat')).toBe('Sign in');
+    });
+
+    it('should list nested keys with escaped dots', () => {
+      expect(listKeys(data, 'nested')).toEqual([
+        'auth\\.title',
+        'menu.e\\.g\\.',
+      ]);
+      expect(getKeyValue(data, 'menu.e\\.g\\.', 'nested')).toBe('Example');
+      expect(getKeyValue(data, 'auth.title', 'nested')).toBeUndefined();
+    });
+  });
+
+  describe('setKeyValue', () => {
+    it('should keep flat keys at the top level', () => {
+      const data: TranslationData = {};
+      setKeyValue(data, 'auth.title', 'Connexion', 'flat');
+      expect(data).toEqual({ 'auth.title': 'Connexion' });
+    });
+
+    it('should create arrays where the template has them', () => {
+      const template: TranslationData = { steps: ['One', 'Two', 'Three'] };
+      const data: TranslationData = {};
+      setKeyValue(data, 'steps.2', 'Trois', 'nested', template);
+      setKeyValue(data, 'steps.0', 'Un', 'nested', template);
+
+      expect(Array.isArray(data['steps'])).toBe(true);
+      expect(data['steps']).toEqual(['Un', undefined, 'Trois']);
+    });
+
+    it('should create nested objects and replace strings in the way', () => {
+      const data: TranslationData = { auth: 'old' };
+      setKeyValue(data, 'auth.title', 'Connexion', 'nested');
+      setKeyValue(data, 'units.km\\.h', 'km/h', 'nested');
+      expect(data).toEqual({
+        auth: { title: 'Connexion' },
+        units: { 'km.h': 'km/h' },
+      });
+    });
+  });
+
+  describe('copyScalarValues', () => {
+    it('should carry numbers, booleans and null over untranslated', () => {
+      const source: TranslationData = {
+        title: 'Pricing',
+        plans: [{ name: 'Free', price: 0, popular: false }],
+        limit: null,
+      };
+      const target: TranslationData = { plans: [{ name: 'Gratuit' }] };
+
+      copyScalarValues(target, source);
+
+      expect(target).toEqual({
+        plans: [{ name: 'Gratuit', price: 0, popular: false }],
+        limit: null,
+      });
+    });
+
+    it('should keep values the target already has', () => {
+      const target: TranslationData = { limit: 10 };
+      copyScalarValues(target, { limit: 5 });
+      expect(target).toEqual({ limit: 10 });
+    });
+  });
+
+  describe('setPathValue', () => {
+    it('should replace scalars that are in the way', () => {
+      const data: TranslationData = { steps: 3 };
+      setPathValue(data, ['steps', '0'], 'Un');
+      expect(data).toEqual({ steps: { 0: 'Un' } });
+    });
+  });
+});
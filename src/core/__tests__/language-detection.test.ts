@@ -0,0 +1,36 @@
+import path from 'path';
+import { detectLanguageFromPath } from '../language-detection';
+
+describe('detectLanguageFromPath', () => {
+  const config = { baseLanguage: 'en', watchPath: 'locales' };
+
+  it('should prefer the configured path template', () => {
+    expect(
+      detectLanguageFromPath('locales/common.de.json', {
+        ...config,
+        pathTemplate: '{ns}.{lang}.{ext}',
+      })
+    ).toBe('de');
+  });
+
+  it('should treat files holding every language as the base', () => {
+    expect(detectLanguageFromPath('po/messages.pot', config)).toBe('en');
+    expect(detectLanguageFromPath('Localizable.xcstrings', config)).toBe('en');
+    expect(detectLanguageFromPath('src/App.vue', config)).toBe('en');
+  });
+
+  it('should read platform layouts, file names and locale folders', () => {
+    expect(detectLanguageFromPath('res/values-fr/strings.xml', config)).toBe(
+      'fr'
+    );
+    expect(detectLanguageFromPath('lang/pt_BR/auth.php', config)).toBe('pt-BR');
+    expect(detectLanguageFromPath('locales/pt-BR.json', config)).toBe('pt-BR');
+    expect(
+      detectLanguageFromPath(
+        path.join('app', 'i18n', 'de', 'common.json'),
+        config
+      )
+    ).toBe('de');
+    expect(detectLanguageFromPath('src/config.json', config)).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import fs from 'fs/promises';
+import { TranslationLockfile, hashText } from '../lockfile';
+
+jest.mock('fs/promises');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('TranslationLockfile', () => {
+  const entry = {
+    sourceHash: hashText('Save'),
+    translationHash: hashText('Enregistrer'),
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    translatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedFs.writeFile.mockResolvedValue(undefined);
+  });
+
+  it('should hash texts stably', () => {
+    expect(hashText('Save')).toBe(hashText('Save'));
+    expect(hashText('Save')).not.toBe(hashText('Save '));
+    expect(hashText('Save')).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    mockedFs.readFile.mockRejectedValue(
+      Object.assign(new Error('not found'), { code: 'ENOENT' })
+    );
+    const lockfile = new TranslationLockfile('i18n-copilot.lock.json');
+
+    await lockfile.load();
+    await lockfile.save();
+
+    expect(lockfile.getEntries('en.json', 'fr')).toEqual({});
+    expect(mockedFs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should reject a file that is not a lockfile', async () => {
+    mockedFs.readFile.mockResolvedValue('{ broken');
+
+    await expect(
+      new TranslationLockfile('i18n-copilot.lock.json').load()
+    ).rejects.toThrow('Invalid lockfile i18n-copilot.lock.json');
+  });
+
+  it('should write entries in a stable order', async () => {
+    mockedFs.readFile.mockResolvedValue(
+      JSON.stringify({
+        version: 1,
+        files: { 'en.json': { fr: { save: entry } } },
+      })
+    );
+    const lockfile = new TranslationLockfile('i18n-copilot.lock.json');
+    await lockfile.load();
+
+    lockfile.record('en.json', 'de', 'save', entry);
+    lockfile.record('en.json', 'fr', 'cancel', entry);
+    lockfile.record('admin/en.json', 'fr', 'save', entry);
+    await lockfile.save();
+
+    const [filePath, content] = mockedFs.writeFile.mock.calls[0]!;
+    const document = JSON.parse(content as string);
+    expect(filePath).toBe('i18n-copilot.lock.json');
+    expect(content).toMatch(/\n$/);
+    expect(Object.keys(document.files)).toEqual(['admin/en.json', 'en.json']);
+    expect(Object.keys(document.files['en.json'])).toEqual(['de', 'fr']);
+    expect(Object.keys(document.files['en.json'].fr)).toEqual([
+      'cancel',
+      'save',
+    ]);
+  });
+
+  it('should prune keys the base no longer has', async () => {
+    mockedFs.readFile.mockResolvedValue(
+      JSON.stringify({
+        version: 1,
+        files: { 'en.json': { fr: { save: entry, cancel: entry } } },
+      })
+    );
+    const lockfile = new TranslationLockfile('i18n-copilot.lock.json');
+    await lockfile.load();
+
+    lockfile.prune('en.json', 'fr', ['save', 'cancel']);
+    await lockfile.save();
+    expect(mockedFs.writeFile).not.toHaveBeenCalled();
+
+    lockfile.prune('en.json', 'fr', ['save']);
+    await lockfile.save();
+    expect(lockfile.getEntries('en.json', 'fr')).toEqual({ save: entry });
+    expect(mockedFs.writeFile).toHaveBeenCalledTimes(1);
+  });
+});
@@ -49,6 +49,27 @@ describe('TranslationParser', () => {
       expect(parser.detectFormat('file.ts')).toBe('ts');
     });
 
+    it('should detect gettext format', () => {
+      expect(parser.detectFormat('fr.po')).toBe('po');
+      expect(parser.detectFormat('messages.pot')).toBe('po');
+    });
+
+    it('should detect Android resource format', () => {
+      expect(parser.detectFormat('res/values-fr/strings.xml')).toBe('android');
+    });
+
+    it('should detect Laravel PHP and Vue component formats', () => {
+      expect(parser.detectFormat('lang/en/auth.php')).toBe('php');
+      expect(parser.detectFormat('src/components/Hello.vue')).toBe('vue');
+    });
+
+    it('should detect browser extension messages by their _locales folder', () => {
+      expect(parser.detectFormat('_locales/pt_BR/messages.json')).toBe(
+        'webextension'
+      );
+      expect(parser.detectFormat('locales/en/messages.json')).toBe('json');
+    });
+
     it('should throw error for unsupported format', () => {
       expect(() => parser.detectFormat('file.txt')).toThrow(
         'Unsupported file extension: .txt'
@@ -86,6 +107,45 @@ describe('TranslationParser', () => {
       });
     });
 
+    it('should parse gettext file with metadata', async () => {
+      const mockContent =
+        '#. Login button\nmsgid "Sign in"\nmsgstr "Se connecter"\n';
+      mockedFs.readFile.mockResolvedValue(mockContent);
+
+      const result = await parser.parseFile('fr.po');
+
+      expect(result.format).toBe('po');
+      expect(result.data).toEqual({ 'Sign in': 'Se connecter' });
+      expect(result.metadata?.contexts).toEqual({
+        'Sign in': 'Translator notes: Login button',
+      });
+      expect(parser.getNestedValue(result.data, 'Sign in')).toBe(
+        'Se connecter'
+      );
+    });
+
+    it('should leave ARB metadata out of the extracted keys', async () => {
+      mockedFs.readFile.mockResolvedValue(
+        JSON.stringify({
+          '@@locale': 'en',
+          greeting: 'Hello {name}',
+          '@greeting': {
+            description: 'Greeting on the home page',
+            placeholders: { name: { type: 'String', example: 'Alice' } },
+          },
+        })
+      );
+
+      const result = await parser.parseFile('lib/l10n/app_en.arb');
+
+      expect(result.format).toBe('arb');
+      expect(parser.extractKeys(result.data)).toEqual(['greeting']);
+      expect(result.metadata?.contexts).toEqual({
+        greeting:
+          'Description: Greeting on the home page\nPlaceholders: {name} (String, e.g. Alice)',
+      });
+    });
+
     it('should handle file read errors', async () => {
       const error = new Error('File not found');
       mockedFs.readFile.mockRejectedValue(error);
@@ -96,6 +156,21 @@ describe('TranslationParser', () => {
     });
   });
 
+  describe('parseDocument', () => {
+    it('should parse content in the given format with its metadata', () => {
+      const content = '#. Login button\nmsgid "Sign in"\nmsgstr "Connexion"\n';
+
+      const result = parser.parseDocument(content, 'po', 'out/fr.txt');
+
+      expect(result.data).toEqual({ 'Sign in': 'Connexion' });
+      expect(result.metadata?.contexts).toEqual({
+        'Sign in': 'Translator notes: Login button',
+      });
+      expect(result.path).toBe('out/fr.txt');
+      expect(mockedFs.readFile).not.toHaveBeenCalled();
+    });
+  });
+
   describe('parseContent', () => {
     it('should parse JSON content', async () => {
       const content = '{"key": "value"}';
@@ -112,8 +187,7 @@ describe('TranslationParser', () => {
     it('should parse JavaScript content', async () => {
       const content = 'module.exports = { key: "value" };';
       const result = await parser.parseContent(content, 'js');
-      // The current implementation returns an empty object for JavaScript parsing
-      expect(result).toEqual({});
+      expect(result).toEqual({ key: 'value' });
     });
 
     it('should throw error for unsupported format', async () => {
@@ -184,51 +258,178 @@ describe('TranslationParser', () => {
     });
   });
 
-  describe('parseJavaScript', () => {
-    it('should parse JavaScript module.exports', () => {
+  describe('Rails root-locale YAML', () => {
+    const base =
+      'en:\n' +
+      '  users:\n' +
+      '    title: Users\n' +
+      '    count:\n' +
+      '      one: "%{count} user"\n' +
+      '      other: "%{count} users"\n';
+
+    beforeEach(() => {
+      parser = new TranslationParser({ languages: ['en', 'fr', 'ru'] });
+    });
+
+    it('should unwrap the locale key and note plural forms', async () => {
+      mockedFs.readFile.mockResolvedValue(base);
+
+      const result = await parser.parseFile('config/locales/en.yml');
+
+      expect(result.data).toEqual({
+        users: {
+          title: 'Users',
+          count: { one: '%{count} user', other: '%{count} users' },
+        },
+      });
+      expect(result.metadata?.rootLocale).toBe('en');
+      expect(result.metadata?.contexts?.['users.count.one']).toBe(
+        'Plural form "one"; keep %{count}'
+      );
+    });
+
+    it('should leave single namespaces that are not locales wrapped', async () => {
+      mockedFs.readFile.mockResolvedValue('app:\n  title: Title\n');
+
+      const result = await parser.parseFile('app.yml');
+
+      expect(result.data).toEqual({ app: { title: 'Title' } });
+      expect(result.metadata).toBeUndefined();
+    });
+
+    it('should leave namespaces that look like language codes wrapped', async () => {
+      mockedFs.readFile.mockResolvedValue('nav:\n  home: Accueil\n');
+
+      const result = await parser.parseFile('locales/fr/nav.yml');
+
+      expect(result.data).toEqual({ nav: { home: 'Accueil' } });
+      expect(result.metadata).toBeUndefined();
+      expect(
+        parser.stringify(result.data, 'yaml', {
+          original: result,
+          language: 'fr',
+        })
+      ).toBe('nav:\n  home: Accueil\n');
+    });
+
+    it('should unwrap the language passed for the file', async () => {
+      mockedFs.readFile.mockResolvedValue('de:\n  title: Titel\n');
+
+      const result = await new TranslationParser().parseFile('de.yml', 'de');
+
+      expect(result.data).toEqual({ title: 'Titel' });
+      expect(result.metadata?.rootLocale).toBe('de');
+    });
+
+    it('should not unwrap when root locales are turned off', async () => {
+      mockedFs.readFile.mockResolvedValue(base);
+
+      const result = await new TranslationParser({
+        rootLocale: false,
+      }).parseFile('en.yml');
+
+      expect(Object.keys(result.data)).toEqual(['en']);
+    });
+
+    it('should rewrap new targets in their locale with its plural forms', async () => {
+      mockedFs.readFile.mockResolvedValue(base);
+      const template = await parser.parseFile('config/locales/en.yml');
+
+      const result = parser.stringify(
+        {
+          users: {
+            title: 'Пользователи',
+            count: {
+              one: '%{count} пользователь',
+              other: '%{count} пользователя',
+            },
+          },
+        },
+        'yaml',
+        { template, language: 'ru' }
+      );
+
+      expect(result).toBe(
+        'ru:\n' +
+          '  users:\n' +
+          '    title: Пользователи\n' +
+          '    count:\n' +
+          '      one: "%{count} пользователь"\n' +
+          '      other: "%{count} пользователя"\n' +
+          '      few: "%{count} пользователя"\n' +
+          '      many: "%{count} пользователя"\n'
+      );
+    });
+
+    it('should update existing targets under their own locale', async () => {
+      mockedFs.readFile.mockResolvedValue(
+        '# French\nfr:\n  users:\n    title: Utilisateurs\n'
+      );
+      const original = await parser.parseFile('config/locales/fr.yml');
+
+      const result = parser.stringify(
+        { users: { title: 'Utilisateurs', empty: 'Aucun' } },
+        'yaml',
+        { original, language: 'fr' }
+      );
+
+      expect(result).toBe(
+        '# French\nfr:\n  users:\n    title: Utilisateurs\n    empty: Aucun\n'
+      );
+    });
+  });
+
+  describe('JavaScript and TypeScript', () => {
+    it('should parse JavaScript module.exports', async () => {
       const content = 'module.exports = { key: "value" };';
-      const result = (parser as any).parseJavaScript(content);
-      // The current implementation returns an empty object
-      expect(result).toEqual({});
+      const result = await parser.parseContent(content, 'js');
+      expect(result).toEqual({ key: 'value' });
     });
 
-    it('should parse JavaScript export default', () => {
+    it('should parse JavaScript export default', async () => {
       const content = 'export default { key: "value" };';
-      const result = (parser as any).parseJavaScript(content);
-      // The current implementation returns an empty object
-      expect(result).toEqual({});
+      const result = await parser.parseContent(content, 'js');
+      expect(result).toEqual({ key: 'value' });
     });
 
-    it('should parse JavaScript export statement', () => {
+    it('should parse JavaScript export statement', async () => {
       const content =
         'export { translations };\nconst translations = { key: "value" };';
-      // This case actually throws an error in the current implementation
-      expect(() => (parser as any).parseJavaScript(content)).toThrow(
-        "Invalid JavaScript/TypeScript: ReferenceError: Cannot access 'translations' before initialization"
-      );
+      const result = await parser.parseContent(content, 'js');
+      expect(result).toEqual({ translations: { key: 'value' } });
     });
 
-    it('should handle TypeScript type annotations', () => {
-      const content = 'module.exports = { key: "value" as string };';
-      // This case actually throws an error in the current implementation
-      expect(() => (parser as any).parseJavaScript(content)).toThrow(
-        "Invalid JavaScript/TypeScript: SyntaxError: Unexpected identifier 'as'"
-      );
+    it('should handle TypeScript type assertions', async () => {
+      const content =
+        'export default { key: "value" as string } as const satisfies Record<string, string>;';
+      const result = await parser.parseContent(content, 'ts');
+      expect(result).toEqual({ key: 'value' });
     });
 
-    it('should throw error for require statements', () => {
+    it('should throw error for require statements', async () => {
       const content =
         'const data = require("./other");\nmodule.exports = data;';
-      expect(() => (parser as any).parseJavaScript(content)).toThrow(
-        'require() is not allowed in translation files'
+      await expect(parser.parseContent(content, 'js')).rejects.toThrow(
+        'Expected a static literal but found "require" at line 1, column 14'
       );
     });
 
-    it('should throw error for non-object exports', () => {
+    it('should throw error for non-object exports', async () => {
       const content = 'module.exports = "just a string";';
-      const result = (parser as any).parseJavaScript(content);
-      // The current implementation returns an empty object instead of throwing
-      expect(result).toEqual({});
+      await expect(parser.parseContent(content, 'js')).rejects.toThrow(
+        'The default export must be an object literal at line 1, column 18'
+      );
+    });
+
+    it('should write targets in the export style of the base file', () => {
+      const template = {
+        data: { key: 'value' },
+        format: 'js' as const,
+        originalContent: "export default {\n  key: 'value',\n};\n",
+        path: 'en.js',
+      };
+      const result = parser.stringify({ key: 'valeur' }, 'js', { template });
+      expect(result).toBe("export default {\n  key: 'valeur',\n};\n");
     });
   });
 
@@ -256,6 +457,22 @@ describe('TranslationParser', () => {
       const keys = parser.extractKeys(data, 'prefix');
       expect(keys).toEqual(['prefix.key']);
     });
+
+    it('should address array items by index and skip other scalars', () => {
+      const data: TranslationData = {
+        steps: ['Sign up', { title: 'Verify' }],
+        maxItems: 5,
+        beta: true,
+      };
+      expect(parser.extractKeys(data)).toEqual(['steps.0', 'steps.1.title']);
+      expect(parser.getNestedValue(data, 'steps.1.title')).toBe('Verify');
+      expect(parser.getNestedValue(data, 'maxItems')).toBeUndefined();
+    });
+
+    it('should escape dots inside key segments', () => {
+      const data: TranslationData = { errors: { 'e.g.': 'for example' } };
+      expect(parser.extractKeys(data)).toEqual(['errors.e\\.g\\.']);
+    });
   });
 
   describe('getNestedValue', () => {
@@ -314,6 +531,21 @@ describe('TranslationParser', () => {
       parser.setNestedValue(data, 'level1.level2.key', 'new');
       expect((data as any).level1?.level2?.key).toBe('new');
     });
+
+    it('should set array items in place', () => {
+      const data: TranslationData = { steps: ['One', 'Two'] };
+      parser.setNestedValue(data, 'steps.1', 'Deux');
+      expect(data).toEqual({ steps: ['One', 'Deux'] });
+    });
+
+    it('should keep escaped dots within a segment', () => {
+      const data: TranslationData = {};
+      parser.setNestedValue(data, 'errors.e\\.g\\.', 'for example');
+      expect(data).toEqual({ errors: { 'e.g.': 'for example' } });
+      expect(parser.getNestedValue(data, 'errors.e\\.g\\.')).toBe(
+        'for example'
+      );
+    });
   });
 
   describe('mergeTranslations', () => {
@@ -339,6 +571,14 @@ describe('TranslationParser', () => {
       });
     });
 
+    it('should replace arrays instead of merging them by key', () => {
+      const base: TranslationData = { steps: ['One', 'Two', 'Three'] };
+      const updates: TranslationData = { steps: ['Un', 'Deux'] };
+
+      const result = parser.mergeTranslations(base, updates);
+      expect(result).toEqual({ steps: ['Un', 'Deux'] });
+    });
+
     it('should merge with preserve strategy', () => {
       const base: TranslationData = { key1: 'old1', key2: 'old2' };
       const updates: TranslationData = { key1: 'new1', key3: 'new3' };
@@ -365,18 +605,74 @@ describe('TranslationParser', () => {
     });
 
     it('should detect invalid value types', () => {
-      const data: any = { key: 'value', invalid: 123 };
+      const data: any = { key: 'value', invalid: () => 'value' };
       const result = parser.validateStructure(data);
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Invalid value type at invalid: number');
+      expect(result.errors).toContain(
+        'Invalid value type at invalid: function'
+      );
+    });
+
+    it('should accept arrays and non-string scalars', () => {
+      const data: TranslationData = {
+        steps: ['Sign up', { title: 'Verify' }],
+        count: 3,
+        enabled: false,
+        nullValue: null,
+      };
+      const result = parser.validateStructure(data);
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
     });
 
-    it('should detect null values', () => {
-      const data: any = { key: 'value', nullValue: null };
+    it('should report invalid values inside arrays by index', () => {
+      const data: any = { steps: ['Sign up', undefined] };
       const result = parser.validateStructure(data);
-      expect(result.isValid).toBe(false);
-      expect(result.errors).toContain(
-        'Invalid value type at nullValue: object'
+      expect(result.errors).toEqual([
+        'Invalid value type at steps.1: undefined',
+      ]);
+    });
+  });
+
+  describe('spreadsheets', () => {
+    it('should split a sheet into data per language', async () => {
+      mockedFs.readFile.mockResolvedValue(
+        '\uFEFFkey,description,en,fr\r\n' +
+          'common.save,Button label,Save,Enregistrer\r\n' +
+          'common.intro,,"Hello, ""friend""\nWelcome",\r\n'
+      );
+
+      const languages = await parser.importSpreadsheet('review.csv');
+
+      expect(languages).toEqual({
+        en: {
+          'common.save': 'Save',
+          'common.intro': 'Hello, "friend"\nWelcome',
+        },
+        fr: { 'common.save': 'Enregistrer' },
+      });
+    });
+
+    it('should reject files that are not spreadsheets', async () => {
+      await expect(parser.importSpreadsheet('en.json')).rejects.toThrow(
+        'Not a spreadsheet file: en.json'
+      );
+    });
+
+    it('should build a sheet from nested data', () => {
+      const sheet = parser.buildSpreadsheet(
+        {
+          en: { common: { save: 'Save', tabs: 'A\tB' } },
+          de: { common: { save: 'Speichern' } },
+        },
+        'tsv',
+        { 'common.save': 'Button label' }
+      );
+
+      expect(sheet).toBe(
+        '\uFEFFkey\tdescription\ten\tde\r\n' +
+          'common.save\tButton label\tSave\tSpeichern\r\n' +
+          'common.tabs\t\t"A\tB"\t\r\n'
       );
     });
   });
@@ -406,6 +702,44 @@ describe('TranslationParser', () => {
       expect(result).toBe('{\n    "key": "value"\n}');
     });
 
+    it('should edit the original file when preserving formatting', () => {
+      const original = {
+        data: { key: 'old' },
+        format: 'json' as const,
+        originalContent: '{\n\t"key":  "old",\n\t"other": "kept"\n}',
+        path: 'fr.json',
+      };
+      const result = parser.stringify({ key: 'new', other: 'kept' }, 'json', {
+        original,
+      });
+      expect(result).toBe('{\n\t"key":  "new",\n\t"other": "kept"\n}');
+    });
+
+    it('should rewrite the file when not preserving formatting', () => {
+      const original = {
+        data: { key: 'old' },
+        format: 'json' as const,
+        originalContent: '{\n\t"key":  "old"\n}',
+        path: 'fr.json',
+      };
+      const result = new TranslationParser({
+        preserveFormatting: false,
+      }).stringify({ key: 'new' }, 'json', { original });
+      expect(result).toBe('{\n  "key": "new"\n}');
+    });
+
+    it('should keep YAML comments when preserving formatting', () => {
+      const original = {
+        data: { key: 'old' },
+        format: 'yaml' as const,
+        originalContent: '# Greetings\nkey: old # inline\n',
+        path: 'fr.yml',
+      };
+      expect(parser.stringify({ key: 'new' }, 'yaml', { original })).toBe(
+        '# Greetings\nkey: new # inline\n'
+      );
+    });
+
     it('should throw error for unsupported format', () => {
       const data: TranslationData = { key: 'value' };
       expect(() => parser.stringify(data, 'xml' as any)).toThrow(
@@ -0,0 +1,80 @@
+import path from 'path';
+import {
+  languageFromPathTemplate,
+  matchPathTemplate,
+  pathFromTemplate,
+} from '../path-template';
+
+describe('path templates', () => {
+  describe('matchPathTemplate', () => {
+    it('should read language folders with namespaces', () => {
+      expect(
+        matchPathTemplate(
+          '{lang}/{ns}.{ext}',
+          './locales',
+          'locales/pt-BR/common.json'
+        )
+      ).toEqual({ lang: 'pt-BR', ns: 'common', ext: 'json' });
+      expect(
+        matchPathTemplate(
+          '{lang}/{ns}.{ext}',
+          'locales',
+          path.resolve('locales/en/admin/users.yml')
+        )
+      ).toEqual({ lang: 'en', ns: 'admin/users', ext: 'yml' });
+    });
+
+    it('should read language suffixes', () => {
+      expect(
+        matchPathTemplate('{ns}.{lang}.{ext}', 'i18n', 'i18n/auth.de.json')
+      ).toEqual({ lang: 'de', ns: 'auth', ext: 'json' });
+      expect(
+        matchPathTemplate(
+          '{ns}.{lang}.{ext}',
+          'i18n',
+          'i18n/auth.errors.fr.json'
+        )
+      ).toEqual({ lang: 'fr', ns: 'auth.errors', ext: 'json' });
+    });
+
+    it('should return null for files outside the layout', () => {
+      const template = '{lang}/{ns}.{ext}';
+      expect(matchPathTemplate(template, 'locales', 'locales/en.json')).toBe(
+        null
+      );
+      expect(matchPathTemplate(template, 'locales', 'other/en/a.json')).toBe(
+        null
+      );
+      expect(matchPathTemplate('{ns}.{ext}', 'locales', 'locales/a.json')).toBe(
+        null
+      );
+    });
+  });
+
+  describe('pathFromTemplate', () => {
+    it('should fill placeholders under the watch path', () => {
+      expect(
+        pathFromTemplate('{lang}/{ns}.{ext}', 'locales', {
+          lang: 'fr',
+          ns: 'admin/users',
+          ext: 'json',
+        })
+      ).toBe(path.join('locales', 'fr', 'admin', 'users.json'));
+    });
+  });
+
+  describe('languageFromPathTemplate', () => {
+    it('should ignore paths when no template is configured', () => {
+      expect(
+        languageFromPathTemplate(undefined, 'locales', 'locales/en/a.json')
+      ).toBeNull();
+      expect(
+        languageFromPathTemplate(
+          '{lang}/{ns}.{ext}',
+          'locales',
+          'locales/en/a.json'
+        )
+      ).toBe('en');
+    });
+  });
+});
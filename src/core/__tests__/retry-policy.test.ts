@@ -0,0 +1,42 @@
+import { RetryPolicy } from '../retry-policy';
+import { ProviderError } from '../../providers/errors';
+
+describe('RetryPolicy', () => {
+  const options = { attempts: 4, baseDelay: 1000, maxDelay: 5000, jitter: 0 };
+
+  it('should back off exponentially up to the maximum', () => {
+    const policy = new RetryPolicy(options);
+    const error = new Error('fetch failed');
+
+    expect(
+      [1, 2, 3, 4].map(attempt => policy.delayFor(error, attempt))
+    ).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('should randomize part of each wait', () => {
+    const policy = new RetryPolicy({ ...options, jitter: 0.5 }, () => 0.5);
+
+    expect(policy.delayFor(new Error('fetch failed'), 2)).toBe(1500);
+  });
+
+  it('should wait as long as the server asks', () => {
+    const policy = new RetryPolicy(options);
+    const error = new ProviderError('rate_limit', 'OpenAI', 'Slow down', {
+      status: 429,
+      retryAfterMs: 20000,
+    });
+
+    expect(policy.delayFor(error, 1)).toBe(20000);
+  });
+
+  it('should stop after the last attempt and on permanent errors', () => {
+    const policy = new RetryPolicy(options);
+    const transient = new ProviderError('network', 'OpenAI', 'Bad gateway');
+
+    expect(policy.shouldRetry(transient, 3)).toBe(true);
+    expect(policy.shouldRetry(transient, 4)).toBe(false);
+    expect(
+      policy.shouldRetry(new ProviderError('auth', 'OpenAI', 'Invalid key'), 1)
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+import { ConcurrencyLimiter, RateLimiter, estimateTokens } from '../scheduler';
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe('ConcurrencyLimiter', () => {
+  it('should reject limits below one', () => {
+    expect(() => new ConcurrencyLimiter(0)).toThrow(
+      'Concurrency limit must be a positive integer: 0'
+    );
+    expect(() => new ConcurrencyLimiter(1.5)).toThrow();
+  });
+
+  it('should keep at most limit tasks in flight and start the rest in order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const gates = [deferred(), deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, index) =>
+      limiter.run(async () => {
+        started.push(index);
+        await gate.promise;
+        return index;
+      })
+    );
+    await Promise.resolve();
+
+    expect(started).toEqual([0, 1]);
+    expect(limiter.getActiveCount()).toBe(2);
+    expect(limiter.getPendingCount()).toBe(2);
+
+    gates[1]!.resolve();
+    await runs[1];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates.forEach(gate => gate.resolve());
+    expect(await Promise.all(runs)).toEqual([0, 1, 2, 3]);
+    expect(limiter.getActiveCount()).toBe(0);
+  });
+
+  it('should free the slot of a task that fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(
+      limiter.run(async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(await limiter.run(async () => 'next')).toBe('next');
+    expect(limiter.getActiveCount()).toBe(0);
+  });
+});
+
+describe('RateLimiter', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('should reject limits that are not positive', () => {
+    expect(() => new RateLimiter({ requestsPerMinute: 0 })).toThrow(
+      'Rate limit requestsPerMinute must be positive: 0'
+    );
+  });
+
+  it('should let a full bucket through and make later requests wait', () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 }, 0.1, clock);
+
+    expect(limiter.reserve().waitMs).toBe(0);
+    expect(limiter.reserve()).toEqual({
+      waitMs: 0,
+      requestsRemaining: 0,
+      tokensRemaining: Infinity,
+      nearLimit: true,
+    });
+    // Each queued request waits for its own refill
+    expect(limiter.reserve().waitMs).toBe(30000);
+    expect(limiter.reserve().waitMs).toBe(60000);
+
+    now = 60000;
+    expect(limiter.reserve().waitMs).toBe(30000);
+  });
+
+  it('should refill over time up to the limit', () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 60 }, 0.1, clock);
+    for (let i = 0; i < 60; i++) {
+      limiter.reserve();
+    }
+
+    now = 10000;
+    expect(limiter.reserve()).toMatchObject({
+      waitMs: 0,
+      requestsRemaining: 9,
+      nearLimit: false,
+    });
+
+    now = 10 * 60000;
+    expect(limiter.reserve().requestsRemaining).toBe(59);
+  });
+
+  it('should budget tokens per minute', () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 1000 }, 0.1, clock);
+
+    expect(limiter.reserve(600)).toMatchObject({
+      waitMs: 0,
+      tokensRemaining: 400,
+      nearLimit: false,
+    });
+    expect(limiter.reserve(700)).toMatchObject({
+      waitMs: 18000,
+      tokensRemaining: 0,
+      nearLimit: true,
+    });
+  });
+
+  it('should not wait longer than a minute for an oversized request', () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 1000 }, 0.1, clock);
+
+    expect(limiter.reserve(5000).waitMs).toBe(0);
+    expect(limiter.reserve(5000).waitMs).toBe(60000);
+  });
+
+  it('should never wait without limits', () => {
+    const limiter = new RateLimiter({}, 0.1, clock);
+
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.reserve(10000)).toMatchObject({
+        waitMs: 0,
+        nearLimit: false,
+      });
+    }
+  });
+
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Hello world')).toBe(3);
+  });
+});
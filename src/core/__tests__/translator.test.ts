@@ -2,8 +2,15 @@ import {
   TranslationOrchestrator,
   TranslationProvider,
   TranslationBatch,
+  TranslationRequest,
+  summarizeBatches,
 } from '../translator';
+import { TranslationParser } from '../parser';
 import { Config } from '../../types/index';
+import { ProviderError, toProviderError } from '../../providers/errors';
+import { LockEntry, TranslationLockfile, hashText } from '../lockfile';
+import { XliffFormat } from '../formats/xliff';
+import { RateLimiter } from '../scheduler';
 
 // Mock provider implementation
 class MockProvider implements TranslationProvider {
@@ -153,4 +160,974 @@ describe('TranslationOrchestrator', () => {
       });
     });
   });
+
+  describe('batch translation', () => {
+    const requests: TranslationRequest[] = ['save', 'cancel', 'close'].map(
+      key => ({
+        key,
+        text: key,
+        sourceLanguage: 'en',
+        targetLanguage: 'fr',
+        context: undefined,
+      })
+    );
+
+    beforeEach(() => {
+      orchestrator = new TranslationOrchestrator(mockConfig, {
+        retryAttempts: 1,
+      });
+    });
+
+    it('should translate the whole batch with one provider call', async () => {
+      const translateBatch = jest.fn(async () => ({
+        '1': 'Enregistrer',
+        '2': 'Annuler',
+        '3': 'Fermer',
+      }));
+      const translate = jest.spyOn(mockProvider, 'translate');
+      orchestrator.setProvider(Object.assign(mockProvider, { translateBatch }));
+
+      const batch = await orchestrator['processBatch'](requests);
+
+      expect(translateBatch).toHaveBeenCalledTimes(1);
+      expect(translateBatch).toHaveBeenCalledWith(
+        [
+          { id: '1', text: 'save' },
+          { id: '2', text: 'cancel' },
+          { id: '3', text: 'close' },
+        ],
+        'fr',
+        undefined
+      );
+      expect(translate).not.toHaveBeenCalled();
+      expect(batch.responses.map(response => response.translatedText)).toEqual([
+        'Enregistrer',
+        'Annuler',
+        'Fermer',
+      ]);
+      expect(batch.successCount).toBe(3);
+    });
+
+    it('should translate keys missing from the response one by one', async () => {
+      const translateBatch = jest.fn(async () => ({ '1': 'Enregistrer' }));
+      const translate = jest.spyOn(mockProvider, 'translate');
+      orchestrator.setProvider(Object.assign(mockProvider, { translateBatch }));
+
+      const batch = await orchestrator['processBatch'](requests);
+
+      expect(translate).toHaveBeenCalledTimes(2);
+      expect(batch.responses.map(response => response.translatedText)).toEqual([
+        'Enregistrer',
+        'translated_cancel_fr',
+        'translated_close_fr',
+      ]);
+    });
+
+    it('should fall back to single keys when the batch call fails', async () => {
+      const translateBatch = jest.fn(async () => {
+        throw new Error('Bad gateway');
+      });
+      const failed = jest.fn();
+      orchestrator.on('batchTranslationFailed', failed);
+      orchestrator.setProvider(Object.assign(mockProvider, { translateBatch }));
+
+      const batch = await orchestrator['processBatch'](requests);
+
+      expect(failed).toHaveBeenCalledWith({ requests, error: 'Bad gateway' });
+      expect(batch.successCount).toBe(3);
+      expect(batch.responses[0]!.translatedText).toBe('translated_save_fr');
+    });
+
+    it('should fail the whole batch on errors single keys would repeat', async () => {
+      const translateBatch = jest.fn(async () => {
+        throw new ProviderError('auth', 'mock', 'Invalid mock API key', {
+          status: 401,
+        });
+      });
+      const translate = jest.spyOn(mockProvider, 'translate');
+      const failed = jest.fn();
+      orchestrator.on('translationFailed', failed);
+      orchestrator.setProvider(Object.assign(mockProvider, { translateBatch }));
+
+      const batch = await orchestrator['processBatch'](requests);
+
+      expect(translate).not.toHaveBeenCalled();
+      expect(batch.errorCount).toBe(3);
+      expect(batch.responses).toEqual(
+        requests.map(request =>
+          expect.objectContaining({
+            key: request.key,
+            success: false,
+            error: 'Invalid mock API key',
+            errorKind: 'auth',
+          })
+        )
+      );
+      expect(failed).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('language pairs', () => {
+    it('should return every batch of a language pair', async () => {
+      orchestrator = new TranslationOrchestrator(mockConfig, {
+        rateLimitDelay: 0,
+      });
+      orchestrator.setProvider(mockProvider);
+      const data = Object.fromEntries(
+        Array.from({ length: 12 }, (_, index) => [
+          `key${index}`,
+          `text${index}`,
+        ])
+      );
+
+      const result = await orchestrator['processLanguagePair'](
+        { data, format: 'json', originalContent: '', path: 'en.json' },
+        { data: {}, format: 'json', originalContent: '', path: 'fr.json' },
+        'en',
+        'fr.json'
+      );
+
+      expect(result!.batches.map(batch => batch.requests.length)).toEqual([
+        5, 5, 2,
+      ]);
+      expect(result!.targetLanguage).toBe('fr');
+      expect(result!.stats).toEqual({
+        batches: 3,
+        requested: 12,
+        succeeded: 12,
+        failed: 0,
+      });
+    });
+
+    it('should return null when nothing is missing', async () => {
+      orchestrator.setProvider(mockProvider);
+
+      const result = await orchestrator['processLanguagePair'](
+        {
+          data: { a: 'A' },
+          format: 'json',
+          originalContent: '',
+          path: 'en.json',
+        },
+        {
+          data: { a: 'À' },
+          format: 'json',
+          originalContent: '',
+          path: 'fr.json',
+        },
+        'en',
+        'fr.json'
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it("should request every plural form of the target's language", async () => {
+      orchestrator = new TranslationOrchestrator(mockConfig, {
+        rateLimitDelay: 0,
+      });
+      orchestrator.setProvider(mockProvider);
+      const parser = new TranslationParser();
+      const entry =
+        '\nmsgid "One file"\nmsgid_plural "%d files"\n' +
+        'msgstr[0] ""\nmsgstr[1] ""\n';
+
+      const result = await orchestrator['processLanguagePair'](
+        parser.parseDocument(entry, 'po', 'en.po'),
+        parser.parseDocument(
+          'msgid ""\nmsgstr ""\n' +
+            '"Plural-Forms: nplurals=3; plural=(n%10==1 ? 0 : n%10<5 ? 1 : 2);\\n"\n' +
+            entry,
+          'po',
+          'ru.po'
+        ),
+        'en',
+        'ru.po'
+      );
+
+      expect(result!.batches[0]!.requests).toEqual([
+        expect.objectContaining({ key: 'One file[0]', text: 'One file' }),
+        expect.objectContaining({ key: 'One file[1]', text: '%d files' }),
+        expect.objectContaining({ key: 'One file[2]', text: '%d files' }),
+      ]);
+    });
+
+    it('should total batches per target language', () => {
+      const response = (targetLanguage: string, success: boolean) =>
+        ({ targetLanguage, success }) as TranslationBatch['responses'][number];
+      const batch = (...responses: TranslationBatch['responses']) =>
+        ({ responses }) as TranslationBatch;
+
+      expect(
+        summarizeBatches([
+          batch(response('fr', true), response('fr', false)),
+          batch(response('fr', true), response('de', true)),
+        ])
+      ).toEqual({
+        fr: { batches: 2, requested: 3, succeeded: 2, failed: 1 },
+        de: { batches: 1, requested: 1, succeeded: 1, failed: 0 },
+      });
+    });
+  });
+
+  describe('concurrency', () => {
+    const targetFiles = ['fr.json', 'de.json', 'es.json', 'it.json'];
+
+    function stubFiles(target: TranslationOrchestrator): void {
+      jest
+        .spyOn(target['parser'], 'parseFile')
+        .mockImplementation(async filePath => ({
+          data:
+            filePath === 'en.json' ? { save: 'Save', cancel: 'Cancel' } : {},
+          format: 'json',
+          originalContent: '',
+          path: filePath,
+        }));
+    }
+
+    it('should translate languages side by side within the limits', async () => {
+      mockConfig.targetLanguages = ['fr', 'de', 'es', 'it'];
+      orchestrator = new TranslationOrchestrator(
+        { ...mockConfig, concurrency: 2 },
+        { rateLimitDelay: 0 }
+      );
+      stubFiles(orchestrator);
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      jest
+        .spyOn(mockProvider, 'translate')
+        .mockImplementation(async (text, targetLanguage) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          inFlight--;
+          return `${text}_${targetLanguage}`;
+        });
+      orchestrator.setProvider(mockProvider);
+
+      const batches = await orchestrator.processFileChanges(
+        'en.json',
+        targetFiles
+      );
+
+      expect(maxInFlight).toBe(2);
+      expect(batches.map(batch => batch.targetLanguage)).toEqual([
+        'fr',
+        'de',
+        'es',
+        'it',
+      ]);
+      expect(batches[1]!.responses.map(response => response.key)).toEqual([
+        'save',
+        'cancel',
+      ]);
+      expect(orchestrator.getActiveBatches()).toEqual([]);
+      expect(orchestrator.getCurrentBatch()).toBeNull();
+    });
+
+    it('should cap provider requests separately from languages', async () => {
+      mockConfig.targetLanguages = ['fr', 'de', 'es', 'it'];
+      orchestrator = new TranslationOrchestrator(
+        {
+          ...mockConfig,
+          concurrency: 4,
+          provider: { ...mockConfig.provider, concurrency: 1 },
+        },
+        { rateLimitDelay: 0 }
+      );
+      stubFiles(orchestrator);
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      jest.spyOn(mockProvider, 'translate').mockImplementation(async text => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        inFlight--;
+        return text;
+      });
+      orchestrator.setProvider(mockProvider);
+
+      const started: string[] = [];
+      orchestrator.on('batchStarted', ({ batch }) =>
+        started.push(batch.targetFile)
+      );
+      const completed: string[] = [];
+      orchestrator.on('translationCompleted', ({ request }) =>
+        completed.push(`${request.targetLanguage}:${request.key}`)
+      );
+
+      await orchestrator.processFileChanges('en.json', targetFiles);
+
+      expect(maxInFlight).toBe(1);
+      expect(started).toEqual(targetFiles);
+      expect(completed.filter(entry => entry.startsWith('fr:'))).toEqual([
+        'fr:save',
+        'fr:cancel',
+      ]);
+    });
+  });
+
+  describe('retries', () => {
+    const request: TranslationRequest = {
+      key: 'save',
+      text: 'Save',
+      sourceLanguage: 'en',
+      targetLanguage: 'fr',
+      context: undefined,
+    };
+
+    let delay: jest.SpyInstance;
+
+    beforeEach(() => {
+      orchestrator = new TranslationOrchestrator(mockConfig, {
+        retryAttempts: 3,
+        retryDelay: 1000,
+        retryJitter: 0,
+      });
+      delay = jest
+        .spyOn(orchestrator as any, 'delay')
+        .mockResolvedValue(undefined);
+      orchestrator.setProvider(mockProvider);
+    });
+
+    it('should fail fast on errors that cannot succeed', async () => {
+      const translate = jest
+        .spyOn(mockProvider, 'translate')
+        .mockRejectedValue(
+          new ProviderError('auth', 'mock', 'Invalid mock API key')
+        );
+
+      const batch = await orchestrator['processBatch']([request]);
+
+      expect(translate).toHaveBeenCalledTimes(1);
+      expect(delay).not.toHaveBeenCalled();
+      expect(batch.responses[0]).toMatchObject({
+        success: false,
+        error: 'Invalid mock API key',
+        errorKind: 'auth',
+      });
+    });
+
+    it('should back off exponentially and honor Retry-After', async () => {
+      const translate = jest
+        .spyOn(mockProvider, 'translate')
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockRejectedValueOnce(
+          new ProviderError('rate_limit', 'mock', 'Slow down', {
+            status: 429,
+            retryAfterMs: 7000,
+          })
+        )
+        .mockResolvedValue('Enregistrer');
+
+      const batch = await orchestrator['processBatch']([request]);
+
+      expect(translate).toHaveBeenCalledTimes(3);
+      expect(delay.mock.calls).toEqual([[1000], [7000]]);
+      expect(batch.responses[0]!.translatedText).toBe('Enregistrer');
+    });
+
+    it('should not retry requests the provider rejected as invalid', async () => {
+      const translate = jest.spyOn(mockProvider, 'translate').mockRejectedValue(
+        toProviderError(
+          Object.assign(new Error('The model does not exist'), {
+            status: 404,
+          }),
+          'mock',
+          'mock translation failed'
+        )
+      );
+
+      const batch = await orchestrator['processBatch']([request]);
+
+      expect(translate).toHaveBeenCalledTimes(1);
+      expect(delay).not.toHaveBeenCalled();
+      expect(batch.responses[0]).toMatchObject({
+        success: false,
+        errorKind: 'invalid_request',
+      });
+    });
+  });
+
+  describe('changed base text', () => {
+    let files: Record<string, Record<string, string>>;
+
+    function createOrchestrator(
+      onSourceChange?: 'retranslate' | 'review'
+    ): void {
+      mockConfig.targetLanguages = ['fr'];
+      orchestrator = new TranslationOrchestrator(
+        { ...mockConfig, ...(onSourceChange ? { onSourceChange } : {}) },
+        { rateLimitDelay: 0 }
+      );
+      jest
+        .spyOn(orchestrator['parser'], 'parseFile')
+        .mockImplementation(async filePath => ({
+          data: { ...files[filePath] },
+          format: 'json',
+          originalContent: '',
+          path: filePath,
+        }));
+      orchestrator.setProvider(mockProvider);
+    }
+
+    beforeEach(() => {
+      files = {
+        'en.json': { save: 'Save', cancel: 'Cancel' },
+        'fr.json': { save: 'Enregistrer', cancel: 'Annuler' },
+      };
+    });
+
+    it('should re-translate keys whose base text changed since the last run', async () => {
+      createOrchestrator();
+      const outdated = jest.fn();
+      orchestrator.on('translationsOutdated', outdated);
+
+      expect(
+        await orchestrator.processFileChanges('en.json', ['fr.json'])
+      ).toEqual([]);
+
+      files['en.json']!['save'] = 'Save changes';
+      const batches = await orchestrator.processFileChanges('en.json', [
+        'fr.json',
+      ]);
+
+      expect(batches).toHaveLength(1);
+      expect(batches[0]!.responses).toEqual([
+        expect.objectContaining({
+          key: 'save',
+          translatedText: 'translated_Save changes_fr',
+        }),
+      ]);
+      expect(outdated).toHaveBeenCalledWith({
+        targetFile: 'fr.json',
+        targetLanguage: 'fr',
+        keys: ['save'],
+        review: false,
+      });
+      expect(orchestrator.getOutdatedTranslations()).toEqual([]);
+    });
+
+    it('should compare the first change against a remembered base file', async () => {
+      createOrchestrator();
+      await orchestrator.rememberBaseFile('en.json');
+
+      files['en.json']!['cancel'] = 'Dismiss';
+      const batches = await orchestrator.processFileChanges('en.json', [
+        'fr.json',
+      ]);
+
+      expect(batches[0]!.requests.map(request => request.key)).toEqual([
+        'cancel',
+      ]);
+    });
+
+    it('should only report outdated keys when they need review', async () => {
+      createOrchestrator('review');
+      const translate = jest.spyOn(mockProvider, 'translate');
+      await orchestrator.rememberBaseFile('en.json');
+
+      files['en.json']!['save'] = 'Save changes';
+      delete files['fr.json']!['cancel'];
+      const batches = await orchestrator.processFileChanges('en.json', [
+        'fr.json',
+      ]);
+
+      // Missing keys are still translated
+      expect(batches[0]!.requests.map(request => request.key)).toEqual([
+        'cancel',
+      ]);
+      expect(translate).toHaveBeenCalledTimes(1);
+      expect(orchestrator.getOutdatedTranslations()).toEqual([
+        { targetFile: 'fr.json', keys: ['save'] },
+      ]);
+
+      // Still outdated on the next run, until reviewed
+      await orchestrator.processFileChanges('en.json', ['fr.json']);
+      expect(orchestrator.getOutdatedTranslations()).toHaveLength(1);
+
+      orchestrator.markReviewed('fr.json', ['save']);
+      expect(orchestrator.getOutdatedTranslations()).toEqual([]);
+    });
+
+    it('should re-translate units whose XLIFF source changed', async () => {
+      createOrchestrator();
+      const xliff = (source: string, target?: string) =>
+        `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en" target-language="fr" datatype="plaintext" original="app">
+    <body>
+      <trans-unit id="save">
+        <source>${source}</source>${target ? `\n        <target state="translated">${target}</target>` : ''}
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+      const contents: Record<string, string> = {
+        'en.xlf': xliff('Save'),
+        'fr.xlf': xliff('Save', 'Enregistrer'),
+      };
+      jest
+        .spyOn(orchestrator['parser'], 'parseFile')
+        .mockImplementation(async filePath => ({
+          ...new XliffFormat().parse(contents[filePath]!),
+          format: 'xliff',
+          originalContent: contents[filePath]!,
+          path: filePath,
+        }));
+      await orchestrator.rememberBaseFile('en.xlf');
+
+      contents['en.xlf'] = xliff('Save changes');
+      const batches = await orchestrator.processFileChanges('en.xlf', [
+        'fr.xlf',
+      ]);
+
+      expect(batches[0]!.requests).toEqual([
+        expect.objectContaining({ key: 'save', text: 'Save changes' }),
+      ]);
+    });
+
+    it('should report keys the target file flags for review', async () => {
+      createOrchestrator('review');
+      const translate = jest.spyOn(mockProvider, 'translate');
+      jest
+        .spyOn(orchestrator['parser'], 'parseFile')
+        .mockImplementation(async filePath => ({
+          data: { ...files[filePath] },
+          format: 'json',
+          originalContent: '',
+          path: filePath,
+          ...(filePath === 'fr.json'
+            ? { metadata: { needsReview: ['cancel'] } }
+            : {}),
+        }));
+
+      const batches = await orchestrator.processFileChanges('en.json', [
+        'fr.json',
+      ]);
+
+      expect(batches).toEqual([]);
+      expect(translate).not.toHaveBeenCalled();
+      expect(orchestrator.getOutdatedTranslations()).toEqual([
+        { targetFile: 'fr.json', keys: ['cancel'] },
+      ]);
+    });
+
+    it('should forget outdated keys removed from the base', async () => {
+      createOrchestrator('review');
+      await orchestrator.rememberBaseFile('en.json');
+
+      files['en.json']!['save'] = 'Save changes';
+      await orchestrator.processFileChanges('en.json', ['fr.json']);
+      delete files['en.json']!['save'];
+      await orchestrator.processFileChanges('en.json', ['fr.json']);
+
+      expect(orchestrator.getOutdatedTranslations()).toEqual([]);
+    });
+  });
+
+  describe('lockfile', () => {
+    let files: Record<string, Record<string, string>>;
+    let lockfile: TranslationLockfile;
+
+    function lockEntry(source: string, translation: string): LockEntry {
+      return {
+        sourceHash: hashText(source),
+        translationHash: hashText(translation),
+        provider: 'mock',
+        translatedAt: '2026-01-01T00:00:00.000Z',
+      };
+    }
+
+    function createOrchestrator(
+      onSourceChange?: 'retranslate' | 'review'
+    ): void {
+      mockConfig.targetLanguages = ['fr'];
+      mockConfig.provider.config['model'] = 'mock-1';
+      orchestrator = new TranslationOrchestrator(
+        {
+          ...mockConfig,
+          lockfile: 'i18n-copilot.lock.json',
+          ...(onSourceChange ? { onSourceChange } : {}),
+        },
+        { rateLimitDelay: 0 }
+      );
+      jest
+        .spyOn(orchestrator['parser'], 'parseFile')
+        .mockImplementation(async filePath => ({
+          data: { ...files[filePath] },
+          format: 'json',
+          originalContent: '',
+          path: filePath,
+        }));
+      lockfile = orchestrator['lockfile']!;
+      jest.spyOn(lockfile, 'load').mockResolvedValue(undefined);
+      orchestrator.setProvider(mockProvider);
+    }
+
+    beforeEach(() => {
+      files = {
+        'locales/en.json': { save: 'Save', cancel: 'Cancel' },
+        'locales/fr.json': { save: 'Enregistrer', cancel: '' },
+      };
+    });
+
+    it('should record how each key was translated', async () => {
+      createOrchestrator();
+      const save = jest.spyOn(lockfile, 'save').mockResolvedValue(undefined);
+
+      await orchestrator.processFileChanges('locales/en.json', [
+        'locales/fr.json',
+      ]);
+      await orchestrator.saveLockfile([
+        { targetFile: 'locales/fr.json', targetLanguage: 'fr' },
+      ]);
+
+      expect(lockfile.getEntries('en.json', 'fr')).toEqual({
+        cancel: {
+          sourceHash: hashText('Cancel'),
+          translationHash: hashText('translated_Cancel_fr'),
+          provider: 'mock',
+          model: 'mock-1',
+          translatedAt: expect.any(String),
+        },
+      });
+      expect(save).toHaveBeenCalled();
+    });
+
+    it('should not record translations that were not written', async () => {
+      createOrchestrator();
+      jest.spyOn(lockfile, 'save').mockResolvedValue(undefined);
+
+      await orchestrator.processFileChanges('locales/en.json', [
+        'locales/fr.json',
+      ]);
+      await orchestrator.saveLockfile([]);
+
+      expect(lockfile.getEntries('en.json', 'fr')).toEqual({});
+    });
+
+    it('should re-translate stale keys without a previous run', async () => {
+      createOrchestrator();
+      const translate = jest.spyOn(mockProvider, 'translate');
+      files['locales/en.json']!['save'] = 'Save changes';
+      files['locales/fr.json']!['cancel'] = 'Fermer';
+      lockfile.record(
+        'en.json',
+        'fr',
+        'save',
+        lockEntry('Save', 'Enregistrer')
+      );
+      // Edited by hand after it was translated
+      lockfile.record(
+        'en.json',
+        'fr',
+        'cancel',
+        lockEntry('Dismiss', 'Annuler')
+      );
+
+      const batches = await orchestrator.processFileChanges('locales/en.json', [
+        'locales/fr.json',
+      ]);
+
+      expect(batches[0]!.requests.map(request => request.key)).toEqual([
+        'save',
+      ]);
+      expect(translate).toHaveBeenCalledTimes(1);
+
+      jest.spyOn(lockfile, 'save').mockResolvedValue(undefined);
+      await orchestrator.saveLockfile([
+        { targetFile: 'locales/fr.json', targetLanguage: 'fr' },
+      ]);
+      expect(lockfile.getEntries('en.json', 'fr')['save']!.sourceHash).toBe(
+        hashText('Save changes')
+      );
+    });
+
+    it('should accept reviewed translations for the current base text', async () => {
+      createOrchestrator('review');
+      files['locales/en.json']!['save'] = 'Save changes';
+      files['locales/fr.json']!['cancel'] = 'Annuler';
+      lockfile.record(
+        'en.json',
+        'fr',
+        'save',
+        lockEntry('Save', 'Enregistrer')
+      );
+      lockfile.record(
+        'en.json',
+        'fr',
+        'cancel',
+        lockEntry('Cancel', 'Annuler')
+      );
+
+      await orchestrator.processFileChanges('locales/en.json', [
+        'locales/fr.json',
+      ]);
+      expect(orchestrator.getOutdatedTranslations()).toEqual([
+        { targetFile: 'locales/fr.json', keys: ['save'] },
+      ]);
+
+      orchestrator.markReviewed('locales/fr.json', ['save']);
+
+      expect(lockfile.getEntries('en.json', 'fr')['save']).toEqual(
+        lockEntry('Save changes', 'Enregistrer')
+      );
+    });
+
+    it('should hash the source text of catalogs', async () => {
+      createOrchestrator();
+      jest.spyOn(lockfile, 'save').mockResolvedValue(undefined);
+      const parseFile = orchestrator['parser'].parseFile as jest.Mock;
+      parseFile.mockImplementation(async filePath => ({
+        data: filePath === 'locales/en.json' ? { cancel: '' } : {},
+        format: 'json',
+        originalContent: '',
+        path: filePath,
+        metadata: { sources: { cancel: 'Cancel' } },
+      }));
+
+      await orchestrator.processFileChanges('locales/en.json', [
+        'locales/fr.json',
+      ]);
+      await orchestrator.saveLockfile([
+        { targetFile: 'locales/fr.json', targetLanguage: 'fr' },
+      ]);
+
+      expect(lockfile.getEntries('en.json', 'fr')['cancel']!.sourceHash).toBe(
+        hashText('Cancel')
+      );
+    });
+
+    it('should forget keys removed from the base', async () => {
+      createOrchestrator();
+      files['locales/fr.json']!['cancel'] = 'Annuler';
+      lockfile.record(
+        'en.json',
+        'fr',
+        'save',
+        lockEntry('Save', 'Enregistrer')
+      );
+      lockfile.record('en.json', 'fr', 'close', lockEntry('Close', 'Fermer'));
+
+      await orchestrator.processFileChanges('locales/en.json', [
+        'locales/fr.json',
+      ]);
+
+      expect(Object.keys(lockfile.getEntries('en.json', 'fr'))).toEqual([
+        'save',
+      ]);
+    });
+  });
+
+  describe('cancellation', () => {
+    beforeEach(() => {
+      mockConfig.targetLanguages = ['fr', 'de'];
+      orchestrator = new TranslationOrchestrator(mockConfig, {
+        batchSize: 1,
+        rateLimitDelay: 0,
+      });
+      jest
+        .spyOn(orchestrator['parser'], 'parseFile')
+        .mockImplementation(async filePath => ({
+          data:
+            filePath === 'en.json' ? { save: 'Save', cancel: 'Cancel' } : {},
+          format: 'json',
+          originalContent: '',
+          path: filePath,
+        }));
+    });
+
+    it('should abort in-flight requests on stop and keep finished batches', async () => {
+      const signals: AbortSignal[] = [];
+      let pending!: () => void;
+      const started = new Promise<void>(resolve => {
+        pending = resolve;
+      });
+      const translate = jest
+        .spyOn(mockProvider, 'translate')
+        .mockImplementation(async (text, targetLanguage, context, signal) => {
+          if (text === 'Save') {
+            return 'Enregistrer';
+          }
+          // Stays pending until the run is cancelled
+          signals.push(signal!);
+          pending();
+          return new Promise<string>((resolve, reject) =>
+            signal!.addEventListener('abort', () =>
+              reject(
+                Object.assign(new Error('aborted'), { name: 'AbortError' })
+              )
+            )
+          );
+        });
+      orchestrator.setProvider(mockProvider);
+
+      const failed = jest.fn();
+      orchestrator.on('translationFailed', failed);
+
+      const running = orchestrator.processFileChanges('en.json', [
+        'fr.json',
+        'de.json',
+      ]);
+      await started;
+      orchestrator.stop();
+      const batches = await running;
+
+      expect(signals).toHaveLength(1);
+      expect(signals[0]!.aborted).toBe(true);
+      expect(translate).toHaveBeenCalledTimes(2);
+      expect(batches.map(batch => batch.responses[0])).toEqual([
+        expect.objectContaining({ key: 'save', translatedText: 'Enregistrer' }),
+        expect.objectContaining({
+          key: 'cancel',
+          success: false,
+          errorKind: 'cancelled',
+        }),
+      ]);
+      expect(failed).not.toHaveBeenCalled();
+      expect(orchestrator.isTranslating()).toBe(false);
+    });
+
+    it('should not call the provider once the signal has fired', async () => {
+      const translate = jest.spyOn(mockProvider, 'translate');
+      orchestrator.setProvider(mockProvider);
+
+      const controller = new AbortController();
+      controller.abort();
+      const batches = await orchestrator.processFileChanges(
+        'en.json',
+        ['fr.json'],
+        controller.signal
+      );
+
+      expect(batches).toEqual([]);
+      expect(translate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should share the provider limit across languages and report throttling', async () => {
+      mockConfig.targetLanguages = ['fr', 'de'];
+      orchestrator = new TranslationOrchestrator(
+        { ...mockConfig, concurrency: 2 },
+        { rateLimitDelay: 0 }
+      );
+      jest
+        .spyOn(orchestrator['parser'], 'parseFile')
+        .mockImplementation(async filePath => ({
+          data: filePath === 'en.json' ? { save: 'Save' } : {},
+          format: 'json',
+          originalContent: '',
+          path: filePath,
+        }));
+      const delay = jest
+        .spyOn(orchestrator as any, 'delay')
+        .mockResolvedValue(undefined);
+      Object.assign(mockProvider, {
+        getCapabilities: () => ({ rateLimitPerMinute: 1 }),
+      });
+      orchestrator.setProvider(mockProvider);
+
+      const events: any[] = [];
+      orchestrator.on('rateLimited', event => events.push(event));
+
+      await orchestrator.processFileChanges('en.json', ['fr.json', 'de.json']);
+
+      // The second request waits, but throttling was already reported
+      expect(events).toEqual([
+        expect.objectContaining({
+          provider: 'mock',
+          requestsPerMinute: 1,
+          waitMs: 0,
+          nearLimit: true,
+        }),
+      ]);
+      expect(delay).toHaveBeenCalledTimes(1);
+      expect(delay.mock.calls[0]![0]).toBeGreaterThan(59000);
+    });
+
+    it('should report when throttling starts and ends', async () => {
+      let now = 0;
+      orchestrator.setProvider(mockProvider);
+      orchestrator['rateLimiters'].set(
+        'mock',
+        new RateLimiter({ requestsPerMinute: 10 }, 0.1, () => now)
+      );
+      jest.spyOn(orchestrator as any, 'delay').mockResolvedValue(undefined);
+      const events: any[] = [];
+      orchestrator.on('rateLimited', event => events.push(event));
+
+      for (let request = 0; request < 12; request++) {
+        await orchestrator['waitForRateLimit'](0);
+      }
+      now += 60000;
+      await orchestrator['waitForRateLimit'](0);
+
+      expect(
+        events.map(({ nearLimit, requestsRemaining }) => ({
+          nearLimit,
+          requestsRemaining,
+        }))
+      ).toEqual([
+        { nearLimit: true, requestsRemaining: 0 },
+        { nearLimit: false, requestsRemaining: 7 },
+      ]);
+    });
+
+    it('should prefer limits from the config', async () => {
+      orchestrator = new TranslationOrchestrator({
+        ...mockConfig,
+        provider: {
+          ...mockConfig.provider,
+          rateLimit: { requestsPerMinute: 500, tokensPerMinute: 20000 },
+        },
+      });
+      Object.assign(mockProvider, {
+        getCapabilities: () => ({ rateLimitPerMinute: 1 }),
+      });
+      orchestrator.setProvider(mockProvider);
+
+      expect(orchestrator['rateLimits']()).toEqual({
+        requestsPerMinute: 500,
+        tokensPerMinute: 20000,
+      });
+    });
+  });
+
+  describe('context extraction', () => {
+    it('should prefer notes stored with the key', () => {
+      const context = orchestrator['extractContext'](
+        {
+          data: { greeting: 'Hello {name}', farewell: 'Bye' },
+          format: 'arb',
+          originalContent: '',
+          path: 'app_en.arb',
+          metadata: {
+            contexts: { greeting: 'Description: Home page greeting' },
+          },
+        },
+        'greeting'
+      );
+
+      expect(context).toBe('Description: Home page greeting');
+    });
+
+    it('should fall back to sibling keys', () => {
+      const context = orchestrator['extractContext'](
+        {
+          data: { nav: { home: 'Home', about: 'About' } },
+          format: 'json',
+          originalContent: '',
+          path: 'en.json',
+        },
+        'nav.home'
+      );
+
+      expect(context).toBe('Related: about: About');
+    });
+  });
 });
@@ -1,9 +1,28 @@
 import { EventEmitter } from 'events';
 import path from 'path';
 import fs from 'fs/promises';
-import { TranslationOrchestrator } from './translator';
+import {
+  LanguageTranslationStats,
+  OutdatedTranslations,
+  TranslationBatch,
+  TranslationOrchestrator,
+  WrittenTranslations,
+  summarizeBatches,
+} from './translator';
 import { TranslationWatcher } from './watcher';
+import { ParsedFile, TranslationData, TranslationParser } from './parser';
 import { Config } from '../types/index';
+import { resourcePathForLanguage } from './formats/resource-paths';
+import { detectLanguageFromPath } from './language-detection';
+import { matchPathTemplate, pathFromTemplate } from './path-template';
+import {
+  KeyStyle,
+  copyScalarValues,
+  getKeyValue,
+  listKeys,
+  resolveKeyStyle,
+  setKeyValue,
+} from './key-path';
 import { defaultLogger, Logger } from '../utils/logger';
 import { OpenAIProvider } from '../providers/openai';
 import { AnthropicProvider } from '../providers/anthropic';
@@ -17,7 +36,12 @@ export interface AutoTranslatorOptions {
 export interface TranslationResult {
   success: boolean;
   batchesProcessed: number;
+  /** Keys translated successfully */
   totalTranslations: number;
+  /** Totals per target language */
+  languages: Record<string, LanguageTranslationStats>;
+  /** The run was stopped before every key was translated */
+  cancelled: boolean;
   errors: string[];
   updatedFiles: string[];
 }
@@ -25,10 +49,13 @@ export interface TranslationResult {
 export class AutoTranslator extends EventEmitter {
   private orchestrator: TranslationOrchestrator;
   private watcher: TranslationWatcher;
+  private parser: TranslationParser;
   private config: Config;
   private logger: Logger;
   private isRunning = false;
   private isProcessing = false;
+  private abortController: AbortController | null = null;
+  private processingDone: Promise<void> | null = null;
 
   constructor(config: Config, options: AutoTranslatorOptions = {}) {
     super();
@@ -37,6 +64,11 @@ export class AutoTranslator extends EventEmitter {
 
     this.orchestrator = new TranslationOrchestrator(config);
     this.watcher = new TranslationWatcher(config);
+    this.parser = new TranslationParser({
+      preserveFormatting: config.preserveFormatting,
+      rootLocale: config.rootLocale ?? 'auto',
+      languages: [config.baseLanguage, ...config.targetLanguages],
+    });
 
     this.setupEventListeners();
 
@@ -70,13 +102,17 @@ export class AutoTranslator extends EventEmitter {
   }
 
   /**
-   * Stop the translation manager
+   * Stop the translation manager. A translation in progress is cancelled,
+   * and what it translated so far is written before this resolves.
    */
   async stop(): Promise<void> {
     if (!this.isActive()) {
       return;
     }
 
+    this.abortController?.abort();
+    await this.processingDone;
+
     try {
       await this.watcher.stop();
       this.isRunning = false;
@@ -117,10 +153,19 @@ export class AutoTranslator extends EventEmitter {
     }
 
     this.isProcessing = true;
+    const controller = new AbortController();
+    let finishProcessing!: () => void;
+    this.abortController = controller;
+    this.processingDone = new Promise(resolve => {
+      finishProcessing = resolve;
+    });
+
     const result: TranslationResult = {
       success: false,
       batchesProcessed: 0,
       totalTranslations: 0,
+      languages: {},
+      cancelled: false,
       errors: [],
       updatedFiles: [],
     };
@@ -133,7 +178,7 @@ export class AutoTranslator extends EventEmitter {
       }
 
       // Get target language files
-      const targetFiles = await this.getTargetLanguageFiles();
+      const targetFiles = await this.getTargetLanguageFiles(filePath);
       if (targetFiles.length === 0) {
         throw new Error('No target language files found');
       }
@@ -145,28 +190,51 @@ export class AutoTranslator extends EventEmitter {
       // Process translations
       const batches = await this.orchestrator.processFileChanges(
         filePath,
-        targetFiles
+        targetFiles,
+        controller.signal
       );
+      result.cancelled = controller.signal.aborted;
+
+      // Update target files with translations, and flag outdated ones for
+      // review in formats that can
+      const outdated = this.orchestrator.getOutdatedTranslations();
+      const written =
+        batches.length > 0 || outdated.length > 0
+          ? await this.updateTargetFiles(
+              batches,
+              targetFiles,
+              filePath,
+              outdated
+            )
+          : [];
+      // Catalogs hold several languages in one file
+      result.updatedFiles = [...new Set(written.map(file => file.targetFile))];
 
       if (batches.length > 0) {
-        // Update target files with translations
-        await this.updateTargetFiles(batches, targetFiles);
-
         result.success = true;
         result.batchesProcessed = batches.length;
-        result.totalTranslations = batches.reduce(
-          (sum, batch) => sum + batch.responses.length,
+        result.languages = summarizeBatches(batches);
+        result.totalTranslations = Object.values(result.languages).reduce(
+          (sum, stats) => sum + stats.succeeded,
           0
         );
-        result.updatedFiles = targetFiles;
 
         this.logger.info(
-          `Translation completed(): ${batches.length} batches processed`
+          result.cancelled
+            ? `Translation cancelled: ${result.totalTranslations} translations saved`
+            : `Translation completed(): ${batches.length} batches processed`
         );
       } else {
         result.success = true;
-        this.logger.info('No translations needed - files are up to date');
+        this.logger.info(
+          result.cancelled
+            ? 'Translation cancelled before anything was translated'
+            : 'No translations needed - files are up to date'
+        );
       }
+
+      // Only now do the target files hold what the lockfile records
+      await this.orchestrator.saveLockfile(written);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -174,11 +242,53 @@ export class AutoTranslator extends EventEmitter {
       this.logger.error('Translation failed', error as Error);
     } finally {
       this.isProcessing = false;
+      this.abortController = null;
+      this.processingDone = null;
+      finishProcessing();
     }
 
     return result;
   }
 
+  /**
+   * Accept outdated translations of a target as they are, all of them when
+   * no keys are given, and clear their review flags in the target file
+   */
+  async markReviewed(
+    targetFile: string,
+    keys?: string[],
+    targetLanguage?: string
+  ): Promise<void> {
+    this.orchestrator.markReviewed(targetFile, keys, targetLanguage);
+
+    for (const lang of targetLanguage
+      ? [targetLanguage]
+      : this.targetLanguagesOf(targetFile)) {
+      const file = await this.readTargetFile(
+        targetFile,
+        this.isMultiLanguageFile(targetFile) ? lang : undefined
+      );
+      if (!file.metadata?.needsReview?.length) {
+        continue;
+      }
+
+      const content = this.parser.stringify(file.data, file.format, {
+        original: file,
+        language: lang,
+        needsReview: reviewKeys(
+          this.orchestrator.getOutdatedTranslations(),
+          targetFile,
+          lang
+        ),
+      });
+      if (content !== file.originalContent) {
+        await fs.writeFile(targetFile, content);
+      }
+    }
+
+    await this.orchestrator.saveLockfile();
+  }
+
   /**
    * Get current status and statistics
    */
@@ -197,6 +307,66 @@ export class AutoTranslator extends EventEmitter {
     };
   }
 
+  /**
+   * Export every language in the watch directory to a CSV/TSV sheet with
+   * one row per key and one column per language. Base language contexts
+   * fill the `description` column.
+   */
+  async exportSpreadsheet(outputPath: string): Promise<void> {
+    const format = this.parser.detectFormat(outputPath);
+    if (format !== 'csv' && format !== 'tsv') {
+      throw new Error(`Unsupported spreadsheet format: ${outputPath}`);
+    }
+
+    const languages = [
+      this.config.baseLanguage,
+      ...this.config.targetLanguages.filter(
+        lang => lang !== this.config.baseLanguage
+      ),
+    ];
+    const sheet: Record<string, TranslationData> = Object.fromEntries(
+      languages.map(lang => [lang, {}])
+    );
+    const contexts: Record<string, string> = {};
+
+    for (const filePath of await this.listTranslationFiles(
+      this.config.watchPath
+    )) {
+      if (path.resolve(filePath) === path.resolve(outputPath)) {
+        continue;
+      }
+
+      const fileLanguages = this.isMultiLanguageFile(filePath)
+        ? languages
+        : [this.detectLanguageFromPath(filePath)];
+
+      for (const lang of fileLanguages) {
+        if (!lang || !sheet[lang]) {
+          continue;
+        }
+
+        const parsed = await this.parser.parseFile(
+          filePath,
+          this.isMultiLanguageFile(filePath) ? lang : undefined
+        );
+        const keyStyle = this.keyStyleOf(parsed);
+        for (const key of listKeys(parsed.data, keyStyle)) {
+          sheet[lang]![key] = getKeyValue(parsed.data, key, keyStyle)!;
+        }
+        if (lang === this.config.baseLanguage) {
+          Object.assign(contexts, parsed.metadata?.contexts);
+        }
+      }
+    }
+
+    await fs.writeFile(
+      outputPath,
+      this.parser.buildSpreadsheet(sheet, format, contexts),
+      'utf-8'
+    );
+    this.logger.info(`Exported ${languages.length} languages to ${outputPath}`);
+  }
+
   /**
    * Set up the translation provider
    */
@@ -235,6 +405,21 @@ export class AutoTranslator extends EventEmitter {
    */
   private setupEventListeners(): void {
     this.watcher.on('fileChange', async event => {
+      // Base files found when watching starts are the baseline that later
+      // edits are compared against
+      if (event.type === 'add' && event.language === this.config.baseLanguage) {
+        try {
+          await this.orchestrator.rememberBaseFile(event.filePath);
+        } catch (error) {
+          this.logger.warn(
+            `Could not read base language file ${event.filePath}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+        return;
+      }
+
       if (
         event.type === 'change' &&
         event.language === this.config.baseLanguage
@@ -267,16 +452,50 @@ export class AutoTranslator extends EventEmitter {
     this.orchestrator.on('translationFailed', data => {
       this.emit('translationFailed', data);
     });
+
+    this.orchestrator.on('rateLimited', data => {
+      this.emit('rateLimited', data);
+    });
+
+    this.orchestrator.on('translationsOutdated', data => {
+      this.emit('translationsOutdated', data);
+    });
   }
 
   /**
    * Get target language files
    */
-  private async getTargetLanguageFiles(): Promise<string[]> {
+  private async getTargetLanguageFiles(
+    baseFilePath: string
+  ): Promise<string[]> {
     const targetFiles: string[] = [];
+    const baseExtension = path.extname(baseFilePath).toLowerCase();
+
+    // String Catalogs and Vue components are read from and written back
+    // into the base file
+    if (baseExtension === '.xcstrings' || baseExtension === '.vue') {
+      return this.config.targetLanguages.length > 0 ? [baseFilePath] : [];
+    }
+
+    // Namespaced layouts pair each base file with the same namespace in
+    // every language; missing files are created when translations land
+    const { pathTemplate, watchPath } = this.config;
+    const parts = pathTemplate
+      ? matchPathTemplate(pathTemplate, watchPath, baseFilePath)
+      : null;
+    if (pathTemplate && parts) {
+      return this.config.targetLanguages.map(lang =>
+        pathFromTemplate(pathTemplate, watchPath, { ...parts, lang })
+      );
+    }
+
+    // Gettext templates (.pot) are translated into per-language .po catalogs
+    const extension = baseExtension === '.pot' ? '.po' : baseExtension;
 
     for (const lang of this.config.targetLanguages) {
-      const filePath = path.join(this.config.watchPath, `${lang}.json`);
+      const filePath =
+        resourcePathForLanguage(baseFilePath, lang, this.config.baseLanguage) ??
+        path.join(this.config.watchPath, `${lang}${extension || '.json'}`);
       try {
         await fs.access(filePath);
         targetFiles.push(filePath);
@@ -289,20 +508,30 @@ export class AutoTranslator extends EventEmitter {
   }
 
   /**
-   * Update target language files with translations
+   * Update target language files with translations and flag their
+   * `outdated` keys for review. Returns the target languages whose file
+   * was written.
    */
   private async updateTargetFiles(
-    batches: any[],
-    targetFiles: string[]
-  ): Promise<void> {
+    batches: TranslationBatch[],
+    targetFiles: string[],
+    baseFilePath: string,
+    outdated: OutdatedTranslations[] = []
+  ): Promise<WrittenTranslations[]> {
+    const written: WrittenTranslations[] = [];
+
     try {
       // Group responses by target language
       const translationsByLanguage = new Map<string, Map<string, string>>();
+      const targetFileByLanguage = new Map<string, string>();
 
-      // Initialize maps for each target language
+      // Initialize maps for each target language; a multi-language
+      // catalog is the target file of every configured language
       for (const targetFile of targetFiles) {
-        const lang = path.basename(targetFile, path.extname(targetFile));
-        translationsByLanguage.set(lang, new Map());
+        for (const lang of this.targetLanguagesOf(targetFile)) {
+          translationsByLanguage.set(lang, new Map());
+          targetFileByLanguage.set(lang, targetFile);
+        }
       }
 
       // Extract translations from all batches
@@ -319,38 +548,77 @@ export class AutoTranslator extends EventEmitter {
         }
       }
 
+      // The base file is the template for entries new to a target file
+      let baseFile: ParsedFile | undefined;
+      try {
+        baseFile = await this.parser.parseFile(
+          baseFilePath,
+          this.isMultiLanguageFile(baseFilePath)
+            ? this.config.baseLanguage
+            : undefined
+        );
+      } catch {
+        baseFile = undefined;
+      }
+
       // Update each target language file
       for (const [lang, translations] of translationsByLanguage) {
-        if (translations.size === 0) continue;
+        const targetFilePath = targetFileByLanguage.get(lang)!;
+        const fileName = path.basename(targetFilePath);
+        const needsReview = reviewKeys(outdated, targetFilePath, lang);
 
-        const targetFilePath = path.join(this.config.watchPath, `${lang}.json`);
+        if (translations.size === 0 && needsReview.length === 0) continue;
 
         try {
-          // Read existing file to preserve structure
-          let existingData = {};
-          try {
-            const existingContent = await fs.readFile(targetFilePath, 'utf-8');
-            existingData = JSON.parse(existingContent);
-          } catch {
-            // File doesn't exist or is invalid, start with empty object
-            existingData = {};
-          }
+          // Read existing file to preserve structure; catalogs are re-read
+          // for every language so earlier writes are kept
+          const targetFile = await this.readTargetFile(
+            targetFilePath,
+            this.isMultiLanguageFile(targetFilePath) ? lang : undefined
+          );
+          // Targets keep the base file's key style
+          const keyStyle = this.keyStyleOf(baseFile ?? targetFile);
 
           // Update with new translations
           for (const [key, translatedText] of translations) {
-            this.setNestedValue(existingData, key, translatedText);
+            setKeyValue(
+              targetFile.data,
+              key,
+              translatedText,
+              keyStyle,
+              baseFile?.data
+            );
+          }
+          if (baseFile) {
+            copyScalarValues(targetFile.data, baseFile.data);
           }
 
-          // Write updated file
-          await fs.writeFile(
-            targetFilePath,
-            JSON.stringify(existingData, null, 2)
+          const content = this.parser.stringify(
+            targetFile.data,
+            targetFile.format,
+            {
+              original: targetFile,
+              ...(baseFile ? { template: baseFile } : {}),
+              language: lang,
+              needsReview,
+            }
           );
+          if (
+            translations.size === 0 &&
+            content === targetFile.originalContent
+          ) {
+            continue;
+          }
+
+          // Write updated file; namespaced layouts may need a new folder
+          await fs.mkdir(path.dirname(targetFilePath), { recursive: true });
+          await fs.writeFile(targetFilePath, content);
+          written.push({ targetFile: targetFilePath, targetLanguage: lang });
           this.logger.info(
-            `Updated ${lang}.json with ${translations.size} translations`
+            `Updated ${fileName} with ${translations.size} translations`
           );
         } catch (error) {
-          this.logger.error(`Failed to update ${lang}.json:`, error as Error);
+          this.logger.error(`Failed to update ${fileName}:`, error as Error);
         }
       }
 
@@ -358,56 +626,127 @@ export class AutoTranslator extends EventEmitter {
     } catch (error) {
       this.logger.error('Failed to update target files:', error as Error);
     }
+
+    return written;
   }
 
   /**
-   * Set nested value in object by dot notation path
+   * Translation files below a directory that match the file pattern.
+   * Spreadsheets are left out since they are exports, not sources.
    */
-  private setNestedValue(obj: any, path: string, value: string): void {
-    const keys = path
-      .split('.')
-      .filter((key): key is string => key !== undefined && key !== '');
-    let current = obj;
-
-    for (let i = 0; i < keys.length - 1; i++) {
-      const key = keys[i];
-      if (!(key in current) || typeof current[key] !== 'object') {
-        current[key] = {};
+  private async listTranslationFiles(directory: string): Promise<string[]> {
+    const pattern = this.config.filePattern
+      ? new RegExp(this.config.filePattern)
+      : null;
+    const files: string[] = [];
+
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const entryPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && entry.name !== 'node_modules') {
+          files.push(...(await this.listTranslationFiles(entryPath)));
+        }
+        continue;
       }
-      current = current[key];
-    }
 
-    const lastKey = keys[keys.length - 1];
-    if (lastKey) {
-      current[lastKey] = value;
+      if (pattern && !pattern.test(entry.name)) {
+        continue;
+      }
+
+      try {
+        const format = this.parser.detectFormat(entryPath);
+        if (format !== 'csv' && format !== 'tsv') {
+          files.push(entryPath);
+        }
+      } catch {
+        // Not a translation file
+      }
     }
+
+    return files.sort();
   }
 
   /**
-   * Detect language from file path
+   * Languages a target file holds: every target language for catalogs,
+   * otherwise the one its path names
    */
-  private detectLanguageFromPath(filePath: string): string | null {
-    const fileName = path.basename(filePath, path.extname(filePath));
-
-    // Try to extract language from filename (e.g., en.json, fr.json)
-    const languageMatch = fileName.match(/^([a-z]{2,3}(-[A-Z]{2})?)$/);
-    if (languageMatch) {
-      return languageMatch[1] || null;
+  private targetLanguagesOf(targetFile: string): string[] {
+    if (this.isMultiLanguageFile(targetFile)) {
+      return this.config.targetLanguages;
     }
 
-    // Try to extract from directory structure (e.g., /locales/en/file.json)
-    const pathParts = filePath.split(path.sep);
-    const localesIndex = pathParts.findIndex(part =>
-      ['locales', 'i18n', 'translations', 'lang'].includes(part.toLowerCase())
-    );
+    return [
+      detectLanguageFromPath(targetFile, this.config) ??
+        path.basename(targetFile, path.extname(targetFile)),
+    ];
+  }
 
-    if (localesIndex !== -1 && pathParts[localesIndex + 1]) {
-      const potentialLang = pathParts[localesIndex + 1];
-      if (potentialLang && /^[a-z]{2,3}(-[A-Z]{2})?$/.test(potentialLang)) {
-        return potentialLang;
-      }
+  /**
+   * Whether a file keeps every language, like `.xcstrings` catalogs
+   */
+  private isMultiLanguageFile(filePath: string): boolean {
+    try {
+      return this.parser.isMultiLanguageFormat(
+        this.parser.detectFormat(filePath)
+      );
+    } catch {
+      return false;
     }
+  }
 
-    return null;
+  /**
+   * Read a target file, falling back to an empty file of the same format
+   */
+  private async readTargetFile(
+    filePath: string,
+    language?: string
+  ): Promise<ParsedFile> {
+    try {
+      return await this.parser.parseFile(filePath, language);
+    } catch {
+      // File doesn't exist or is invalid, start with empty data
+      return {
+        data: {},
+        format: this.parser.detectFormat(filePath),
+        originalContent: '',
+        path: filePath,
+      };
+    }
   }
+
+  /**
+   * Key style of a parsed file: flat formats always use whole keys, other
+   * formats follow the configured or detected style
+   */
+  private keyStyleOf(file: ParsedFile): KeyStyle {
+    return this.parser.isFlatFormat(file.format)
+      ? 'flat'
+      : resolveKeyStyle(this.config.keyStyle, file.data);
+  }
+
+  /**
+   * Detect language from file path
+   */
+  private detectLanguageFromPath(filePath: string): string | null {
+    return detectLanguageFromPath(filePath, this.config);
+  }
+}
+
+/**
+ * Outdated keys of one language of a target file
+ */
+function reviewKeys(
+  outdated: OutdatedTranslations[],
+  targetFile: string,
+  language: string
+): string[] {
+  return outdated
+    .filter(
+      entry =>
+        entry.targetFile === targetFile &&
+        (entry.targetLanguage === undefined ||
+          entry.targetLanguage === language)
+    )
+    .flatMap(entry => entry.keys);
 }
@@ -0,0 +1,434 @@
+import path from 'path';
+import fs from 'fs/promises';
+import {
+  ParsedFile,
+  ParserOptions,
+  TranslationData,
+  TranslationFormat,
+  TranslationParser,
+  TranslationValue,
+} from './parser';
+import { languageFromResourcePath } from './formats/resource-paths';
+import { isPluralGroup } from './formats/rails-yaml';
+import {
+  KeyPath,
+  formatKeyPath,
+  getPathNode,
+  isContainer,
+  parseKeyPath,
+} from './key-path';
+
+/** File extension written for each output format */
+export const FORMAT_EXTENSIONS: Record<TranslationFormat, string> = {
+  json: '.json',
+  yaml: '.yaml',
+  js: '.js',
+  ts: '.ts',
+  po: '.po',
+  xliff: '.xlf',
+  android: '.xml',
+  strings: '.strings',
+  stringsdict: '.stringsdict',
+  xcstrings: '.xcstrings',
+  arb: '.arb',
+  properties: '.properties',
+  resx: '.resx',
+  fluent: '.ftl',
+  csv: '.csv',
+  tsv: '.tsv',
+  php: '.php',
+  vue: '.vue',
+  webextension: '.json',
+};
+
+export interface ConvertOptions {
+  /** Format to write */
+  to: TranslationFormat;
+  /**
+   * Output file, or output directory when converting a directory. Defaults
+   * to the input path with the extension of the new format.
+   */
+  out?: string;
+  /**
+   * Language read from multi-language files and written into the output;
+   * detected from the input path when not set
+   */
+  language?: string;
+  /** Language of files without a language in their path, e.g. `values/` */
+  baseLanguage?: string;
+  indent?: number;
+}
+
+export interface ConversionResult {
+  input: string;
+  output: string;
+  from: TranslationFormat;
+  to: TranslationFormat;
+  /** Number of values written */
+  keyCount: number;
+  /** What the output format couldn't represent */
+  warnings: string[];
+}
+
+export interface DirectoryConversionResult {
+  converted: ConversionResult[];
+  /** Files that couldn't be converted, with the reason */
+  errors: string[];
+}
+
+/** Number of keys named in a warning before the rest are counted */
+const LISTED_KEYS = 5;
+
+export class TranslationConverter {
+  private parser: TranslationParser;
+
+  constructor(parserOptions: ParserOptions = {}) {
+    this.parser = new TranslationParser({
+      ...parserOptions,
+      preserveFormatting: false,
+    });
+  }
+
+  /**
+   * Convert one translation file into another format. The result lists
+   * whatever the new format can't hold (comments, plural groups, value
+   * types, review states) so nothing is dropped silently.
+   */
+  async convertFile(
+    inputPath: string,
+    options: ConvertOptions
+  ): Promise<ConversionResult> {
+    const from = this.parser.detectFormat(inputPath);
+    const to = options.to;
+    const output = options.out ?? this.outputPath(inputPath, to);
+    // Formats can share an extension, e.g. messages.json and JSON
+    if (path.resolve(output) === path.resolve(inputPath)) {
+      throw new Error(
+        `Output ${output} is the input file; choose another output path`
+      );
+    }
+    const language =
+      options.language ?? this.detectLanguage(inputPath, options);
+
+    // YAML files are only unwrapped from a root key in their own language
+    const source = await this.parser.parseFile(
+      inputPath,
+      this.parser.isMultiLanguageFormat(from) || from === 'yaml'
+        ? language
+        : undefined
+    );
+    const sourceFlat = this.parser.isFlatFormat(from);
+    const targetFlat = this.parser.isFlatFormat(to);
+    const leaves = collectLeaves(source.data, sourceFlat);
+
+    const data: TranslationData = {};
+    if (!sourceFlat && targetFlat) {
+      for (const [leafPath, value] of leaves) {
+        data[leafPath.join('.')] = value;
+      }
+    } else {
+      Object.assign(data, source.data);
+    }
+
+    // Catalogs that hold several languages are written into, not replaced
+    const multiLanguage = this.parser.isMultiLanguageFormat(to);
+    const original =
+      multiLanguage && (await this.exists(output))
+        ? this.parser.parseDocument(
+            await fs.readFile(output, 'utf-8'),
+            to,
+            output,
+            language
+          )
+        : undefined;
+
+    const content = this.parser.stringify(data, to, {
+      ...(original ? { original } : {}),
+      ...(language ? { language } : {}),
+      ...(options.indent !== undefined ? { indent: options.indent } : {}),
+    });
+
+    await fs.mkdir(path.dirname(output), { recursive: true });
+    await fs.writeFile(output, content, 'utf-8');
+
+    // Read the output back to find what it couldn't hold
+    const written = this.parser.parseDocument(
+      content,
+      to,
+      output,
+      multiLanguage || to === 'yaml' ? language : undefined
+    );
+
+    return {
+      input: inputPath,
+      output,
+      from,
+      to,
+      keyCount: leaves.length,
+      warnings: this.reportLosses(source, written, leaves, targetFlat),
+    };
+  }
+
+  /**
+   * Convert every translation file below a directory, keeping their
+   * relative paths. Files already in the target format and spreadsheets
+   * are skipped; files that fail are reported and the rest still convert.
+   */
+  async convertDirectory(
+    inputDir: string,
+    options: ConvertOptions
+  ): Promise<DirectoryConversionResult> {
+    const outputDir = options.out ?? inputDir;
+    const result: DirectoryConversionResult = { converted: [], errors: [] };
+
+    for (const file of await this.listFiles(inputDir, options.to)) {
+      const relative = path.relative(inputDir, file);
+      try {
+        result.converted.push(
+          await this.convertFile(file, {
+            ...options,
+            out: this.outputPath(path.join(outputDir, relative), options.to),
+          })
+        );
+      } catch (error) {
+        result.errors.push(
+          `${file}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Path of a file with the extension of another format
+   */
+  outputPath(filePath: string, format: TranslationFormat): string {
+    const extension = path.extname(filePath);
+    return (
+      filePath.slice(0, filePath.length - extension.length) +
+      FORMAT_EXTENSIONS[format]
+    );
+  }
+
+  /**
+   * Compare the written file with the source and describe what got lost
+   */
+  private reportLosses(
+    source: ParsedFile,
+    written: ParsedFile,
+    leaves: Array<[KeyPath, TranslationValue]>,
+    targetFlat: boolean
+  ): string[] {
+    const sourceFlat = this.parser.isFlatFormat(source.format);
+    // Nested keys become dotted keys in flat formats
+    const targetKey = (leafPath: KeyPath): KeyPath =>
+      !sourceFlat && targetFlat ? [leafPath.join('.')] : leafPath;
+    const warnings: string[] = [];
+    const keyOf = (leafPath: KeyPath) =>
+      sourceFlat ? leafPath[0]! : formatKeyPath(leafPath);
+
+    const missing: string[] = [];
+    const changed: string[] = [];
+    for (const [leafPath, value] of leaves) {
+      const writtenValue = getPathNode(written.data, targetKey(leafPath));
+      if (writtenValue === undefined) {
+        missing.push(keyOf(leafPath));
+      } else if (writtenValue !== value) {
+        changed.push(keyOf(leafPath));
+      }
+    }
+    if (missing.length > 0) {
+      warnings.push(`${countOf(missing, 'key')} not written: ${list(missing)}`);
+    }
+    if (changed.length > 0) {
+      warnings.push(
+        `${countOf(changed, 'value')} changed type or text: ${list(changed)}`
+      );
+    }
+
+    if (targetFlat && !sourceFlat) {
+      const groups = collectPluralGroups(source.data);
+      if (groups.length > 0) {
+        warnings.push(
+          `${countOf(groups, 'plural group')} written as one key per form: ${list(groups)}`
+        );
+      }
+    }
+
+    // Metadata keys of the source, as the written file would key them
+    const writtenKey = (key: string): string => {
+      const leafPath = targetKey(sourceFlat ? [key] : parseKeyPath(key));
+      return targetFlat ? leafPath[0]! : formatKeyPath(leafPath);
+    };
+    const lost = (
+      entries: Record<string, string> = {},
+      kept: Record<string, string> = {}
+    ): string[] =>
+      Object.keys(entries).filter(
+        key => entries[key] && !kept[writtenKey(key)]
+      );
+
+    const comments = lost(
+      source.metadata?.contexts,
+      written.metadata?.contexts
+    );
+    if (comments.length > 0) {
+      warnings.push(
+        `${countOf(comments, 'comment or description', 'comments or descriptions')} dropped: ${list(comments)}`
+      );
+    }
+
+    const sources = lost(source.metadata?.sources, written.metadata?.sources);
+    if (sources.length > 0) {
+      warnings.push(
+        `Source text of ${countOf(sources, 'unit')} dropped: ${list(sources)}`
+      );
+    }
+
+    const placeholders = lost(
+      source.metadata?.placeholders,
+      written.metadata?.placeholders
+    );
+    if (placeholders.length > 0) {
+      warnings.push(
+        `Placeholders of ${countOf(placeholders, 'message')} dropped: ${list(placeholders)}`
+      );
+    }
+
+    const states = lost(source.metadata?.states, written.metadata?.states);
+    if (states.length > 0) {
+      warnings.push(
+        `Review state of ${countOf(states, 'unit')} dropped: ${list(states)}`
+      );
+    }
+
+    const rootLocale = source.metadata?.rootLocale;
+    if (rootLocale && written.metadata?.rootLocale !== rootLocale) {
+      warnings.push(`Root locale key "${rootLocale}" dropped`);
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Language of an input file from its platform layout or its name
+   */
+  private detectLanguage(
+    filePath: string,
+    options: ConvertOptions
+  ): string | undefined {
+    const resourceLanguage = languageFromResourcePath(
+      filePath,
+      options.baseLanguage ?? 'en'
+    );
+    if (resourceLanguage) {
+      return resourceLanguage;
+    }
+
+    const fileName = path.basename(filePath, path.extname(filePath));
+    return fileName.match(/^[a-z]{2,3}([-_][A-Za-z]{2,4})?$/)
+      ? fileName.replace(/_/g, '-')
+      : options.baseLanguage;
+  }
+
+  /**
+   * Translation files below a directory that aren't in `format` already
+   */
+  private async listFiles(
+    directory: string,
+    format: TranslationFormat
+  ): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const entryPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && entry.name !== 'node_modules') {
+          files.push(...(await this.listFiles(entryPath, format)));
+        }
+        continue;
+      }
+
+      try {
+        const fileFormat = this.parser.detectFormat(entryPath);
+        if (
+          fileFormat !== format &&
+          fileFormat !== 'csv' &&
+          fileFormat !== 'tsv'
+        ) {
+          files.push(entryPath);
+        }
+      } catch {
+        // Not a translation file
+      }
+    }
+
+    return files.sort();
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    return fs.access(filePath).then(
+      () => true,
+      () => false
+    );
+  }
+}
+
+/**
+ * Path and value of every leaf; flat data has one-segment paths
+ */
+function collectLeaves(
+  data: TranslationData,
+  flat: boolean
+): Array<[KeyPath, TranslationValue]> {
+  const leaves: Array<[KeyPath, TranslationValue]> = [];
+
+  const visit = (value: TranslationValue, leafPath: KeyPath): void => {
+    if (isContainer(value) && !(flat && leafPath.length > 0)) {
+      for (const [key, item] of Object.entries(value)) {
+        visit(item, [...leafPath, key]);
+      }
+    } else {
+      leaves.push([leafPath, value]);
+    }
+  };
+
+  visit(data, []);
+  return leaves;
+}
+
+function collectPluralGroups(data: TranslationData): string[] {
+  const groups: string[] = [];
+
+  const visit = (value: TranslationValue, groupPath: KeyPath): void => {
+    if (isPluralGroup(value)) {
+      groups.push(formatKeyPath(groupPath));
+    } else if (isContainer(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        visit(item, [...groupPath, key]);
+      }
+    }
+  };
+
+  visit(data, []);
+  return groups;
+}
+
+function countOf(
+  items: string[],
+  singular: string,
+  plural = `${singular}s`
+): string {
+  return `${items.length} ${items.length === 1 ? singular : plural}`;
+}
+
+function list(keys: string[]): string {
+  const listed = keys.slice(0, LISTED_KEYS).join(', ');
+  return keys.length > LISTED_KEYS
+    ? `${listed} and ${keys.length - LISTED_KEYS} more`
+    : listed;
+}
+
+export default TranslationConverter;
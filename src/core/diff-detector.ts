@@ -1,4 +1,12 @@
 import { TranslationData } from './parser.js';
+import {
+  KeyStyle,
+  KeyStyleOption,
+  getKeyValue,
+  listKeys,
+  resolveKeyStyle,
+} from './key-path';
+import { LockEntries, hashText } from './lockfile';
 
 export interface TranslationDiff {
   added: string[];
@@ -12,6 +20,12 @@ export interface DiffOptions {
   ignoreWhitespace?: boolean;
   deepComparison?: boolean;
   contextLines?: number;
+  /**
+   * `nested` keys are dot-separated paths, `flat` keys are whole property
+   * names (e.g. gettext msgids); `auto` detects the style from the newer
+   * or base data
+   */
+  keyStyle?: KeyStyleOption;
 }
 
 export interface DiffResult {
@@ -32,6 +46,16 @@ export interface DiffResult {
   };
 }
 
+/**
+ * State of a target value according to the lockfile:
+ * - `missing`: the target has no value for the key
+ * - `up-to-date`: translated from the current base text
+ * - `stale`: translated from an older base text
+ * - `manual`: the lockfile doesn't know the value, e.g. it was written or
+ *   edited by hand
+ */
+export type KeyStatus = 'missing' | 'up-to-date' | 'stale' | 'manual';
+
 export class TranslationDiffDetector {
   private options: DiffOptions;
 
@@ -41,6 +65,7 @@ export class TranslationDiffDetector {
       ignoreWhitespace: true,
       deepComparison: true,
       contextLines: 3,
+      keyStyle: 'auto',
       ...options,
     };
   }
@@ -49,8 +74,9 @@ export class TranslationDiffDetector {
    * Compare two translation objects and detect differences
    */
   detectDiff(oldData: TranslationData, newData: TranslationData): DiffResult {
-    const oldKeys = this.extractAllKeys(oldData);
-    const newKeys = this.extractAllKeys(newData);
+    const style = this.keyStyle(newData);
+    const oldKeys = this.extractAllKeys(oldData, style);
+    const newKeys = this.extractAllKeys(newData, style);
 
     const added: string[] = [];
     const modified: string[] = [];
@@ -60,8 +86,8 @@ export class TranslationDiffDetector {
 
     // Find added and modified keys
     for (const key of newKeys) {
-      const oldValue = this.getNestedValue(oldData, key);
-      const newValue = this.getNestedValue(newData, key);
+      const oldValue = this.getNestedValue(oldData, key, style);
+      const newValue = this.getNestedValue(newData, key, style);
 
       if (oldValue === undefined) {
         added.push(key);
@@ -90,7 +116,7 @@ export class TranslationDiffDetector {
     for (const key of oldKeys) {
       if (!newKeys.includes(key)) {
         removed.push(key);
-        const oldValue = this.getNestedValue(oldData, key);
+        const oldValue = this.getNestedValue(oldData, key, style);
         details[key] = {
           oldValue: oldValue || '',
           changeType: 'removed',
@@ -122,8 +148,9 @@ export class TranslationDiffDetector {
    * Detect only new keys (for translation workflow)
    */
   detectNewKeys(oldData: TranslationData, newData: TranslationData): string[] {
-    const oldKeys = this.extractAllKeys(oldData);
-    const newKeys = this.extractAllKeys(newData);
+    const style = this.keyStyle(newData);
+    const oldKeys = this.extractAllKeys(oldData, style);
+    const newKeys = this.extractAllKeys(newData, style);
 
     return newKeys.filter(key => !oldKeys.includes(key));
   }
@@ -135,36 +162,32 @@ export class TranslationDiffDetector {
     oldData: TranslationData,
     newData: TranslationData
   ): string[] {
-    const oldKeys = this.extractAllKeys(oldData);
-    const newKeys = this.extractAllKeys(newData);
+    const style = this.keyStyle(newData);
+    const oldKeys = this.extractAllKeys(oldData, style);
+    const newKeys = this.extractAllKeys(newData, style);
 
     return newKeys.filter(key => {
       if (!oldKeys.includes(key)) return false;
 
-      const oldValue = this.getNestedValue(oldData, key);
-      const newValue = this.getNestedValue(newData, key);
+      const oldValue = this.getNestedValue(oldData, key, style);
+      const newValue = this.getNestedValue(newData, key, style);
 
       return this.valuesAreDifferent(oldValue || '', newValue || '');
     });
   }
 
   /**
-   * Extract all keys from translation data using dot notation
+   * Key style used to compare data laid out like `data`
    */
-  private extractAllKeys(data: TranslationData, prefix = ''): string[] {
-    const keys: string[] = [];
-
-    for (const [key, value] of Object.entries(data)) {
-      const fullKey = prefix ? `${prefix}.${key}` : key;
-
-      if (typeof value === 'string') {
-        keys.push(fullKey);
-      } else if (typeof value === 'object' && value !== null) {
-        keys.push(...this.extractAllKeys(value, fullKey));
-      }
-    }
+  private keyStyle(data: TranslationData): KeyStyle {
+    return resolveKeyStyle(this.options.keyStyle, data);
+  }
 
-    return keys;
+  /**
+   * Extract all keys from translation data using dot notation
+   */
+  private extractAllKeys(data: TranslationData, style: KeyStyle): string[] {
+    return listKeys(data, style);
   }
 
   /**
@@ -172,20 +195,10 @@ export class TranslationDiffDetector {
    */
   private getNestedValue(
     data: TranslationData,
-    key: string
+    key: string,
+    style: KeyStyle
   ): string | undefined {
-    const keys = key.split('.');
-    let current: any = data;
-
-    for (const k of keys) {
-      if (current && typeof current === 'object' && k in current) {
-        current = current[k];
-      } else {
-        return undefined;
-      }
-    }
-
-    return typeof current === 'string' ? current : undefined;
+    return getKeyValue(data, key, style);
   }
 
   /**
@@ -285,11 +298,12 @@ export class TranslationDiffDetector {
     baseData: TranslationData,
     targetData: TranslationData
   ): string[] {
-    const baseKeys = this.extractAllKeys(baseData);
+    const style = this.keyStyle(baseData);
+    const baseKeys = this.extractAllKeys(baseData, style);
     const keysNeedingTranslation: string[] = [];
 
     for (const key of baseKeys) {
-      const targetValue = this.getNestedValue(targetData, key);
+      const targetValue = this.getNestedValue(targetData, key, style);
 
       // Key is missing or is an empty/whitespace-only string
       if (targetValue === undefined || targetValue.trim() === '') {
@@ -300,23 +314,70 @@ export class TranslationDiffDetector {
     return keysNeedingTranslation;
   }
 
+  /**
+   * Classify every base key by comparing the base and target values with
+   * the hashes the lockfile recorded when the key was translated. Needs no
+   * previous copy of the base file, so the result is the same on every
+   * machine that has the lockfile. `sources` holds the base text of
+   * catalogs that keep it apart from the value, such as gettext and XLIFF.
+   */
+  classifyKeys(
+    baseData: TranslationData,
+    targetData: TranslationData,
+    lockEntries: LockEntries = {},
+    sources: Record<string, string> = {}
+  ): Record<string, KeyStatus> {
+    const style = this.keyStyle(baseData);
+    const statuses: Record<string, KeyStatus> = {};
+
+    for (const key of this.extractAllKeys(baseData, style)) {
+      const targetValue = this.getNestedValue(targetData, key, style);
+      const entry = lockEntries[key];
+
+      if (targetValue === undefined || targetValue.trim() === '') {
+        statuses[key] = 'missing';
+      } else if (!entry || entry.translationHash !== hashText(targetValue)) {
+        statuses[key] = 'manual';
+      } else if (
+        entry.sourceHash !==
+        hashText(
+          sources[key] ?? this.getNestedValue(baseData, key, style) ?? ''
+        )
+      ) {
+        statuses[key] = 'stale';
+      } else {
+        statuses[key] = 'up-to-date';
+      }
+    }
+
+    return statuses;
+  }
+
   /**
    * Detect keys that have changed between two versions of base data
-   * This is used to identify which keys need re-translation when base content changes
+   * This is used to identify which keys need re-translation when base content changes.
+   * Keys with source text (e.g. XLIFF `<source>`) are compared by it instead of their value.
    */
   getChangedKeys(
     currentBaseData: TranslationData,
-    previousBaseData: TranslationData
+    previousBaseData: TranslationData,
+    currentSources: Record<string, string> = {},
+    previousSources: Record<string, string> = {}
   ): string[] {
-    const currentKeys = this.extractAllKeys(currentBaseData);
-    const previousKeys = this.extractAllKeys(previousBaseData);
+    const style = this.keyStyle(currentBaseData);
+    const currentKeys = this.extractAllKeys(currentBaseData, style);
+    const previousKeys = this.extractAllKeys(previousBaseData, style);
     const changedKeys: string[] = [];
 
     // Check for modified existing keys
     for (const key of currentKeys) {
       if (previousKeys.includes(key)) {
-        const currentValue = this.getNestedValue(currentBaseData, key);
-        const previousValue = this.getNestedValue(previousBaseData, key);
+        const currentValue =
+          currentSources[key] ??
+          this.getNestedValue(currentBaseData, key, style);
+        const previousValue =
+          previousSources[key] ??
+          this.getNestedValue(previousBaseData, key, style);
 
         if (this.valuesAreDifferent(currentValue || '', previousValue || '')) {
           changedKeys.push(key);
@@ -0,0 +1,262 @@
+import path from 'path';
+import {
+  AndroidStringsFormat,
+  androidLanguageFromPath,
+  androidResourcePath,
+  escapeAndroidString,
+  unescapeAndroidString,
+} from '../android';
+import { parsedFileFactory } from './parsed-file';
+
+const strings = `<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <string name="app_name" translatable="false">Notes</string>
+    <!-- Greeting on the home screen -->
+    <string name="welcome">Welcome, %1$s!</string>
+    <string name="quote">Don\\'t say \\"never\\"\\nagain</string>
+    <string name="styled">Tap <b>here</b></string>
+    <plurals name="notes">
+        <item quantity="one">%d note</item>
+        <item quantity="other">%d notes</item>
+    </plurals>
+    <string-array name="sort_options">
+        <item>Newest</item>
+        <item>Oldest</item>
+    </string-array>
+</resources>
+`;
+
+const parsedFile = parsedFileFactory('android', 'res/values/strings.xml');
+
+describe('AndroidStringsFormat', () => {
+  let format: AndroidStringsFormat;
+
+  beforeEach(() => {
+    format = new AndroidStringsFormat();
+  });
+
+  describe('parse', () => {
+    it('should read strings, plurals and string arrays', () => {
+      const { data } = format.parse(strings);
+
+      expect(data).toEqual({
+        welcome: 'Welcome, %1$s!',
+        quote: 'Don\'t say "never"\nagain',
+        styled: 'Tap <b>here</b>',
+        'notes[one]': '%d note',
+        'notes[other]': '%d notes',
+        'sort_options[0]': 'Newest',
+        'sort_options[1]': 'Oldest',
+      });
+    });
+
+    it('should describe comments, quantities and format arguments', () => {
+      const { metadata } = format.parse(strings);
+
+      expect(metadata?.contexts?.['welcome']).toBe(
+        'Notes: Greeting on the home screen\nKeep format arguments unchanged: %1$s'
+      );
+      expect(metadata?.contexts?.['notes[one]']).toBe(
+        'Plural quantity: one\nKeep format arguments unchanged: %d'
+      );
+      expect(metadata?.contexts?.['sort_options[1]']).toBe(
+        'String array item 1'
+      );
+    });
+
+    it('should reject files without a resources root', () => {
+      expect(() => format.parse('<manifest/>')).toThrow(
+        'Expected <resources> root element'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should return the original content when nothing changed', () => {
+      const { data } = format.parse(strings);
+
+      expect(format.stringify(data, { original: parsedFile(strings) })).toBe(
+        strings
+      );
+    });
+
+    it('should replace changed values in place with Android escaping', () => {
+      const { data } = format.parse(strings);
+      data['quote'] = "N'dites pas « jamais » & co";
+      data['styled'] = 'Appuyez <b>ici</b>';
+      data['notes[other]'] = '%d notes';
+
+      const result = format.stringify(data, { original: parsedFile(strings) });
+
+      expect(result).toContain(
+        '<string name="quote">N\\\'dites pas « jamais » &amp; co</string>'
+      );
+      expect(result).toContain(
+        '<string name="styled">Appuyez <b>ici</b></string>'
+      );
+      expect(result).toContain(
+        '<string name="app_name" translatable="false">Notes</string>'
+      );
+    });
+
+    it('should escape the text around inline markup', () => {
+      const { data } = format.parse(strings);
+      data['styled'] = "Tap <b>here</b> & <see> what's new";
+
+      const result = format.stringify(data, { original: parsedFile(strings) });
+
+      expect(result).toContain(
+        '<string name="styled">Tap <b>here</b> &amp; &lt;see&gt; what\\\'s new</string>'
+      );
+    });
+
+    it('should write markup whose tags do not nest as plain text', () => {
+      const { data } = format.parse(strings);
+      data['styled'] = 'Appuyez <b>ici';
+
+      const result = format.stringify(data, { original: parsedFile(strings) });
+
+      expect(result).toContain(
+        '<string name="styled">Appuyez &lt;b&gt;ici</string>'
+      );
+    });
+
+    it('should add missing plural quantities to an existing element', () => {
+      const original = `<resources>
+  <plurals name="notes">
+    <item quantity="one">%d notatka</item>
+  </plurals>
+</resources>
+`;
+      const result = format.stringify(
+        { 'notes[one]': '%d notatka', 'notes[few]': '%d notatki' },
+        { original: parsedFile(original) }
+      );
+
+      expect(result).toBe(`<resources>
+  <plurals name="notes">
+    <item quantity="one">%d notatka</item>
+    <item quantity="few">%d notatki</item>
+  </plurals>
+</resources>
+`);
+    });
+
+    it('should create a new file from the template', () => {
+      const result = format.stringify(
+        {
+          welcome: 'Bienvenue, %1$s !',
+          'notes[one]': '%d note',
+          'notes[other]': '%d notes',
+        },
+        { template: parsedFile(strings), language: 'fr' }
+      );
+
+      expect(result).toBe(`<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <!-- Greeting on the home screen -->
+    <string name="welcome">Bienvenue, %1$s !</string>
+    <plurals name="notes">
+        <item quantity="one">%d note</item>
+        <item quantity="many">%d notes</item>
+        <item quantity="other">%d notes</item>
+    </plurals>
+</resources>
+`);
+    });
+
+    it('should complete plural quantities for the language', () => {
+      const original = `<resources>
+  <plurals name="notes">
+    <item quantity="one">%d notatka</item>
+    <item quantity="other">%d notatki</item>
+  </plurals>
+</resources>
+`;
+      const result = format.stringify(
+        {
+          'notes[one]': '%d notatka',
+          'notes[few]': '%d notatki',
+          'notes[other]': '%d notatki',
+        },
+        { original: parsedFile(original), language: 'pl' }
+      );
+
+      expect(result).toBe(`<resources>
+  <plurals name="notes">
+    <item quantity="one">%d notatka</item>
+    <item quantity="other">%d notatki</item>
+    <item quantity="few">%d notatki</item>
+    <item quantity="many">%d notatki</item>
+  </plurals>
+</resources>
+`);
+    });
+  });
+
+  describe('baseForTarget', () => {
+    it('should add the quantities the target language needs', () => {
+      const base = { ...parsedFile(strings), ...format.parse(strings) };
+
+      const result = format.baseForTarget(base, parsedFile(''), 'ru');
+
+      expect(result.data['notes[few]']).toBe('%d notes');
+      expect(result.data['notes[many]']).toBe('%d notes');
+      expect(result.metadata?.contexts?.['notes[few]']).toBe(
+        'Plural quantity: few\nKeep format arguments unchanged: %d'
+      );
+      expect(format.baseForTarget(base, parsedFile(''), 'ja').data).toEqual(
+        base.data
+      );
+    });
+  });
+
+  describe('escaping', () => {
+    it('should collapse unquoted whitespace and keep quoted text', () => {
+      expect(unescapeAndroidString('  a   b  ')).toBe('a b');
+      expect(unescapeAndroidString('"  a   b  "')).toBe('  a   b  ');
+      expect(unescapeAndroidString('\\u00e9t\\u00e9')).toBe('été');
+    });
+
+    it('should escape references and significant whitespace', () => {
+      expect(escapeAndroidString('@home')).toBe('\\@home');
+      expect(escapeAndroidString('a  b')).toBe('"a  b"');
+      expect(escapeAndroidString('50% off')).toBe('50% off');
+    });
+  });
+
+  describe('language paths', () => {
+    it('should detect languages from values folders', () => {
+      expect(androidLanguageFromPath('res/values/strings.xml', 'en')).toBe(
+        'en'
+      );
+      expect(androidLanguageFromPath('res/values-fr/strings.xml', 'en')).toBe(
+        'fr'
+      );
+      expect(
+        androidLanguageFromPath('res/values-pt-rBR/strings.xml', 'en')
+      ).toBe('pt-BR');
+      expect(
+        androidLanguageFromPath('res/values-b+sr+Latn/strings.xml', 'en')
+      ).toBe('sr-Latn');
+      expect(
+        androidLanguageFromPath('res/values-night/strings.xml', 'en')
+      ).toBeNull();
+      expect(androidLanguageFromPath('locales/fr.json', 'en')).toBeNull();
+    });
+
+    it('should build target paths next to the base values folder', () => {
+      const base = path.join('app', 'res', 'values', 'strings.xml');
+
+      expect(androidResourcePath(base, 'pt-BR')).toBe(
+        path.join('app', 'res', 'values-pt-rBR', 'strings.xml')
+      );
+      expect(androidResourcePath(base, 'de')).toBe(
+        path.join('app', 'res', 'values-de', 'strings.xml')
+      );
+      expect(androidResourcePath(base, 'zh-Hant-TW')).toBe(
+        path.join('app', 'res', 'values-b+zh+Hant+TW', 'strings.xml')
+      );
+    });
+  });
+});
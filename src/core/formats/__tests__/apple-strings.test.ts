@@ -0,0 +1,104 @@
+import path from 'path';
+import {
+  AppleStringsFormat,
+  appleLanguageFromPath,
+  appleResourcePath,
+} from '../apple-strings';
+import { parsedFileFactory } from './parsed-file';
+
+const strings = `/* Localizable.strings */
+
+/* Title of the settings screen */
+"settings.title" = "Settings";
+
+// Shown when the list is empty
+"empty_state" = "Nothing here \\"yet\\"\\nAdd an item";
+
+unquoted_key = "Value";
+`;
+
+const parsedFile = parsedFileFactory('strings', 'en.lproj/Localizable.strings');
+
+describe('AppleStringsFormat', () => {
+  let format: AppleStringsFormat;
+
+  beforeEach(() => {
+    format = new AppleStringsFormat();
+  });
+
+  describe('parse', () => {
+    it('should read key/value pairs and unescape values', () => {
+      const { data } = format.parse(strings);
+
+      expect(data).toEqual({
+        'settings.title': 'Settings',
+        empty_state: 'Nothing here "yet"\nAdd an item',
+        unquoted_key: 'Value',
+      });
+    });
+
+    it('should use the comment directly above an entry as context', () => {
+      const { metadata } = format.parse(strings);
+
+      expect(metadata?.contexts).toEqual({
+        'settings.title': 'Notes: Title of the settings screen',
+        empty_state: 'Notes: Shown when the list is empty',
+      });
+    });
+
+    it('should throw on invalid syntax', () => {
+      expect(() => format.parse('"a" = "b"\n"c" = "d";')).toThrow(
+        'Invalid .strings syntax at line 1'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should only rewrite changed values', () => {
+      const result = format.stringify(
+        { 'settings.title': 'Einstellungen', unquoted_key: 'Value' },
+        { original: parsedFile(strings) }
+      );
+
+      expect(result).toBe(strings.replace('"Settings"', '"Einstellungen"'));
+    });
+
+    it('should append new entries with their template comment', () => {
+      const result = format.stringify(
+        { 'settings.title': 'Réglages', empty_state: 'Rien "ici"' },
+        {
+          original: parsedFile('"settings.title" = "";\n'),
+          template: parsedFile(strings),
+        }
+      );
+
+      expect(result).toBe(
+        '"settings.title" = "Réglages";\n\n// Shown when the list is empty\n"empty_state" = "Rien \\"ici\\"";\n'
+      );
+    });
+  });
+
+  describe('language paths', () => {
+    it('should detect languages from .lproj folders', () => {
+      expect(
+        appleLanguageFromPath('App/fr.lproj/Localizable.strings', 'en')
+      ).toBe('fr');
+      expect(
+        appleLanguageFromPath('App/pt_BR.lproj/Plurals.stringsdict', 'en')
+      ).toBe('pt-BR');
+      expect(
+        appleLanguageFromPath('App/Base.lproj/Localizable.strings', 'en')
+      ).toBe('en');
+      expect(appleLanguageFromPath('App/Localizable.strings', 'en')).toBeNull();
+    });
+
+    it('should build target paths next to the base .lproj folder', () => {
+      expect(
+        appleResourcePath(
+          path.join('App', 'en.lproj', 'Localizable.strings'),
+          'de'
+        )
+      ).toBe(path.join('App', 'de.lproj', 'Localizable.strings'));
+    });
+  });
+});
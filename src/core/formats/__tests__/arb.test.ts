@@ -0,0 +1,134 @@
+import path from 'path';
+import { ArbFormat, arbLanguageFromPath, arbResourcePath } from '../arb';
+import { parsedFileFactory } from './parsed-file';
+
+const arb = `{
+  "@@locale": "en",
+  "appTitle": "Notes",
+  "@appTitle": {
+    "description": "Title shown in the app bar"
+  },
+  "itemCount": "{count, plural, =1{1 item} other{{count} items}}",
+  "@itemCount": {
+    "description": "Number of items in the list",
+    "placeholders": {
+      "count": {
+        "type": "int",
+        "example": "3"
+      }
+    }
+  }
+}
+`;
+
+const parsedFile = parsedFileFactory('arb', 'lib/l10n/app_en.arb');
+
+describe('ArbFormat', () => {
+  let format: ArbFormat;
+
+  beforeEach(() => {
+    format = new ArbFormat();
+  });
+
+  describe('parse', () => {
+    it('should skip @ metadata and @@ globals', () => {
+      const { data } = format.parse(arb);
+
+      expect(data).toEqual({
+        appTitle: 'Notes',
+        itemCount: '{count, plural, =1{1 item} other{{count} items}}',
+      });
+    });
+
+    it('should turn descriptions and placeholders into context', () => {
+      const { metadata } = format.parse(arb);
+
+      expect(metadata?.contexts).toEqual({
+        appTitle: 'Description: Title shown in the app bar',
+        itemCount:
+          'Description: Number of items in the list\nPlaceholders: {count} (int, e.g. 3)',
+      });
+    });
+
+    it('should reject content that is not an object', () => {
+      expect(() => format.parse('[]')).toThrow(
+        'Invalid ARB: file must contain a JSON object'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should write @@locale and messages in template order', () => {
+      const result = format.stringify(
+        {
+          itemCount: '{count, plural, other{{count} éléments}}',
+          appTitle: 'Notes',
+        },
+        { template: parsedFile(arb), language: 'pt-BR' }
+      );
+
+      expect(result).toBe(`{
+  "@@locale": "pt_BR",
+  "appTitle": "Notes",
+  "itemCount": "{count, plural, other{{count} éléments}}"
+}
+`);
+    });
+
+    it('should keep metadata and order of an existing file', () => {
+      const original = `{
+    "@@locale": "de",
+    "appTitle": "",
+    "@appTitle": {
+        "description": "Kept as is"
+    }
+}`;
+      const result = format.stringify(
+        { appTitle: 'Notizen', itemCount: '{count} Einträge' },
+        {
+          original: parsedFile(original),
+          template: parsedFile(arb),
+          language: 'de',
+        }
+      );
+
+      expect(result).toBe(`{
+    "@@locale": "de",
+    "appTitle": "Notizen",
+    "@appTitle": {
+        "description": "Kept as is"
+    },
+    "itemCount": "{count} Einträge"
+}`);
+    });
+
+    it('should return the original content when nothing changed', () => {
+      const { data } = format.parse(arb);
+
+      expect(
+        format.stringify(data, { original: parsedFile(arb), language: 'en' })
+      ).toBe(arb);
+    });
+  });
+
+  describe('language paths', () => {
+    it('should detect the locale suffix of ARB files', () => {
+      expect(arbLanguageFromPath('lib/l10n/app_en.arb')).toBe('en');
+      expect(arbLanguageFromPath('lib/l10n/intl_pt_BR.arb')).toBe('pt-BR');
+      expect(arbLanguageFromPath('lib/l10n/app_zh_Hant_TW.arb')).toBe(
+        'zh-Hant-TW'
+      );
+      expect(arbLanguageFromPath('lib/l10n/fr.arb')).toBe('fr');
+      expect(arbLanguageFromPath('lib/l10n/app_en.json')).toBeNull();
+    });
+
+    it('should build target paths next to the base file', () => {
+      expect(
+        arbResourcePath(path.join('lib', 'l10n', 'app_en.arb'), 'pt-BR')
+      ).toBe(path.join('lib', 'l10n', 'app_pt_BR.arb'));
+      expect(arbResourcePath(path.join('l10n', 'en.arb'), 'de')).toBe(
+        path.join('l10n', 'de.arb')
+      );
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { FluentFormat } from '../fluent';
+import { parsedFileFactory } from './parsed-file';
+
+const ftl = `### Main window strings
+
+-brand-name = Firefox
+
+## Greetings
+
+# Shown on the start page
+welcome = Welcome to { -brand-name }, { $user }!
+login-input = Predefined value
+    .placeholder = email@example.com
+
+emails =
+    { $unreadEmails ->
+        [one] You have one unread email.
+       *[other] You have { $unreadEmails } unread emails.
+    }
+about =
+    Multiline text
+    for the about page.
+`;
+
+const parsedFile = parsedFileFactory('fluent', 'locales/en-US/main.ftl');
+
+describe('FluentFormat', () => {
+  let format: FluentFormat;
+
+  beforeEach(() => {
+    format = new FluentFormat();
+  });
+
+  describe('parse', () => {
+    it('should map messages, terms, attributes and variants to keys', () => {
+      const { data } = format.parse(ftl);
+
+      expect(data).toEqual({
+        '-brand-name': 'Firefox',
+        welcome: 'Welcome to { -brand-name }, { $user }!',
+        'login-input': 'Predefined value',
+        'login-input.placeholder': 'email@example.com',
+        'emails[one]': 'You have one unread email.',
+        'emails[other]': 'You have { $unreadEmails } unread emails.',
+        about: 'Multiline text\nfor the about page.',
+      });
+    });
+
+    it('should describe comments, attributes and placeables as context', () => {
+      const { metadata } = format.parse(ftl);
+
+      expect(metadata?.contexts?.['welcome']).toBe(
+        'Notes: Shown on the start page\nKeep placeables and term references unchanged: { -brand-name }, { $user }'
+      );
+      expect(metadata?.contexts?.['-brand-name']).toBe(
+        'Term, referenced from other messages as { -brand-name }'
+      );
+      expect(metadata?.contexts?.['login-input.placeholder']).toBe(
+        'Attribute .placeholder of login-input'
+      );
+      expect(metadata?.contexts?.['emails[other]']).toBe(
+        'Select variant [other] (default) of { $unreadEmails }\nKeep placeables and term references unchanged: { $unreadEmails }'
+      );
+    });
+
+    it('should keep patterns with text around a select whole', () => {
+      const { data } = format.parse(
+        'count = Found { $n ->\n    [one] one\n   *[other] { $n }\n} items\n'
+      );
+
+      expect(Object.keys(data)).toEqual(['count']);
+    });
+  });
+
+  describe('stringify', () => {
+    it('should replace changed patterns and keep comments and grouping', () => {
+      const original = `## Greetings
+
+# Shown on the start page
+welcome = Willkommen
+
+emails =
+    { $unreadEmails ->
+        [one] Eine ungelesene E-Mail.
+       *[other] E-Mails
+    }
+`;
+      const result = format.stringify(
+        {
+          welcome: 'Willkommen bei { -brand-name }, { $user }!',
+          'emails[other]': '{ $unreadEmails } ungelesene E-Mails.',
+        },
+        { original: parsedFile(original), template: parsedFile(ftl) }
+      );
+
+      expect(result).toBe(`## Greetings
+
+# Shown on the start page
+welcome = Willkommen bei { -brand-name }, { $user }!
+
+emails =
+    { $unreadEmails ->
+        [one] Eine ungelesene E-Mail.
+       *[other] { $unreadEmails } ungelesene E-Mails.
+    }
+`);
+    });
+
+    it('should render new messages from the template structure', () => {
+      const result = format.stringify(
+        {
+          '-brand-name': 'Firefox',
+          welcome: 'Bienvenue dans { -brand-name }, { $user } !',
+          'login-input': 'Valeur prédéfinie',
+          'login-input.placeholder': 'courriel@exemple.com',
+          'emails[one]': 'Vous avez un courriel non lu.',
+          'emails[other]': 'Vous avez { $unreadEmails } courriels non lus.',
+          about: 'Texte sur\nplusieurs lignes.',
+        },
+        { template: parsedFile(ftl) }
+      );
+
+      expect(result).toBe(`### Main window strings
+
+-brand-name = Firefox
+
+## Greetings
+
+# Shown on the start page
+welcome = Bienvenue dans { -brand-name }, { $user } !
+login-input = Valeur prédéfinie
+    .placeholder = courriel@exemple.com
+
+emails =
+    { $unreadEmails ->
+        [one] Vous avez un courriel non lu.
+       *[other] Vous avez { $unreadEmails } courriels non lus.
+    }
+about =
+    Texte sur
+    plusieurs lignes.
+`);
+    });
+
+    it('should add variants the target language needs', () => {
+      const original = `emails =
+    { $unreadEmails ->
+        [one] Jeden e-mail
+       *[other] E-maile
+    }
+`;
+      const result = format.stringify(
+        {
+          'emails[one]': 'Jeden e-mail',
+          'emails[few]': '{ $unreadEmails } e-maile',
+          'emails[other]': 'E-maile',
+        },
+        { original: parsedFile(original) }
+      );
+
+      expect(result).toBe(`emails =
+    { $unreadEmails ->
+        [one] Jeden e-mail
+       *[other] E-maile
+        [few] { $unreadEmails } e-maile
+    }
+`);
+    });
+
+    it('should read and rewrite a select closed at the start of a line', () => {
+      const original =
+        'emails = { $unreadEmails ->\n    [one] Eine E-Mail\n   *[other] E-Mails\n}\nwelcome = Willkommen\n';
+
+      expect(format.parse(original).data).toEqual({
+        'emails[one]': 'Eine E-Mail',
+        'emails[other]': 'E-Mails',
+        welcome: 'Willkommen',
+      });
+      expect(
+        format.stringify(
+          {
+            'emails[one]': 'Eine E-Mail',
+            'emails[other]': '{ $unreadEmails } E-Mails',
+            welcome: 'Willkommen',
+          },
+          { original: parsedFile(original) }
+        )
+      ).toBe(
+        'emails = { $unreadEmails ->\n    [one] Eine E-Mail\n   *[other] { $unreadEmails } E-Mails\n}\nwelcome = Willkommen\n'
+      );
+    });
+
+    it('should return the original content when nothing changed', () => {
+      const { data } = format.parse(ftl);
+
+      expect(format.stringify(data, { original: parsedFile(ftl) })).toBe(ftl);
+    });
+  });
+});
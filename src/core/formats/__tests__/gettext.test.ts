@@ -0,0 +1,292 @@
+import { GettextFormat, GETTEXT_CONTEXT_SEPARATOR } from '../gettext';
+import { ParsedFile } from '../../parser';
+import { parsedFileFactory } from './parsed-file';
+
+const catalog = `# French translations for the web app.
+msgid ""
+msgstr ""
+"Language: fr\\n"
+"Plural-Forms: nplurals=2; plural=(n > 1);\\n"
+
+#. Shown on the login button
+#: src/login.tsx:12
+msgid "Sign in"
+msgstr ""
+
+#, fuzzy
+msgctxt "menu"
+msgid "Open"
+msgstr "Ouvrir"
+
+#: src/files.tsx:40
+msgid "One file"
+msgid_plural "%d files"
+msgstr[0] ""
+msgstr[1] ""
+
+#~ msgid "Old string"
+#~ msgstr "Ancienne chaîne"
+`;
+
+const parsedFile = parsedFileFactory('po', 'fr.po');
+
+describe('GettextFormat', () => {
+  let format: GettextFormat;
+
+  beforeEach(() => {
+    format = new GettextFormat();
+  });
+
+  describe('parse', () => {
+    it('should map msgid and msgctxt to keys', () => {
+      const { data } = format.parse(catalog);
+
+      expect(data).toEqual({
+        'Sign in': '',
+        [`menu${GETTEXT_CONTEXT_SEPARATOR}Open`]: 'Ouvrir',
+        'One file[0]': '',
+        'One file[1]': '',
+      });
+    });
+
+    it('should expose comments and references as context', () => {
+      const { metadata } = format.parse(catalog);
+
+      expect(metadata?.contexts?.['Sign in']).toBe(
+        'Translator notes: Shown on the login button\nReferences: src/login.tsx:12'
+      );
+      expect(metadata?.contexts?.[`menu${GETTEXT_CONTEXT_SEPARATOR}Open`]).toBe(
+        'Message context: menu'
+      );
+      expect(metadata?.contexts?.['One file[1]']).toContain('Plural form 1');
+    });
+
+    it('should expose msgid and msgid_plural as source text', () => {
+      const { metadata } = format.parse(catalog);
+
+      expect(metadata?.sources?.['Sign in']).toBe('Sign in');
+      expect(metadata?.sources?.['One file[0]']).toBe('One file');
+      expect(metadata?.sources?.['One file[1]']).toBe('%d files');
+    });
+
+    it('should report fuzzy entries as needing review', () => {
+      const { metadata } = format.parse(catalog);
+
+      expect(metadata?.needsReview).toEqual([
+        `menu${GETTEXT_CONTEXT_SEPARATOR}Open`,
+      ]);
+    });
+
+    it('should join multi-line strings and unescape them', () => {
+      const { data } = format.parse(
+        'msgid ""\n"Line one\\n"\n"Line \\"two\\""\nmsgstr "x"\n'
+      );
+
+      expect(data).toEqual({ 'Line one\nLine "two"': 'x' });
+    });
+
+    it('should throw on invalid syntax', () => {
+      expect(() => format.parse('msgid "a"\nnonsense\nmsgstr ""\n')).toThrow(
+        'Invalid PO syntax at line 2'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should only rewrite msgstr lines of changed entries', () => {
+      const { data } = format.parse(catalog);
+      data['Sign in'] = 'Se connecter';
+      data['One file[0]'] = 'Un fichier';
+      data['One file[1]'] = '%d fichiers';
+
+      const result = format.stringify(data, {
+        original: parsedFile(catalog),
+      });
+
+      expect(result).toBe(
+        catalog
+          .replace(
+            'msgid "Sign in"\nmsgstr ""',
+            'msgid "Sign in"\nmsgstr "Se connecter"'
+          )
+          .replace('msgstr[0] ""', 'msgstr[0] "Un fichier"')
+          .replace('msgstr[1] ""', 'msgstr[1] "%d fichiers"')
+      );
+    });
+
+    it('should return the original content when nothing changed', () => {
+      const { data } = format.parse(catalog);
+
+      expect(format.stringify(data, { original: parsedFile(catalog) })).toBe(
+        catalog
+      );
+    });
+
+    it('should clear the fuzzy flag of entries it rewrites', () => {
+      const { data } = format.parse(catalog);
+      data[`menu${GETTEXT_CONTEXT_SEPARATOR}Open`] = 'Ouvrir…';
+
+      const result = format.stringify(data, {
+        original: parsedFile(catalog),
+      });
+
+      expect(result).toContain(
+        '\nmsgctxt "menu"\nmsgid "Open"\nmsgstr "Ouvrir…"'
+      );
+      expect(result).not.toContain('#, fuzzy\nmsgctxt');
+    });
+
+    it('should flag entries for review and clear the flag of others', () => {
+      const { data } = format.parse(catalog);
+
+      const result = format.stringify(data, {
+        original: parsedFile(catalog),
+        needsReview: ['One file[1]'],
+      });
+
+      expect(result).toBe(
+        catalog
+          .replace('#, fuzzy\nmsgctxt', 'msgctxt')
+          .replace('#: src/files.tsx:40\n', '#: src/files.tsx:40\n#, fuzzy\n')
+      );
+    });
+
+    it('should keep CRLF line endings', () => {
+      const crlf = 'msgid "Hello"\r\nmsgstr ""\r\n';
+      const result = format.stringify(
+        { Hello: 'Bonjour' },
+        { original: parsedFile(crlf) }
+      );
+
+      expect(result).toBe('msgid "Hello"\r\nmsgstr "Bonjour"\r\n');
+    });
+
+    it('should append new entries using template comments', () => {
+      const template = `#. Greeting on the home page
+# Translator comment in the template
+msgid "Hello"
+msgstr ""
+`;
+      const result = format.stringify(
+        { Hello: 'Bonjour' },
+        {
+          original: parsedFile('msgid ""\nmsgstr ""\n'),
+          template: parsedFile(template),
+        }
+      );
+
+      expect(result).toBe(
+        'msgid ""\nmsgstr ""\n\n#. Greeting on the home page\nmsgid "Hello"\nmsgstr "Bonjour"\n'
+      );
+    });
+
+    it('should create a header for new files', () => {
+      const result = format.stringify(
+        { [`nav${GETTEXT_CONTEXT_SEPARATOR}Home`]: 'Accueil' },
+        { language: 'fr' }
+      );
+
+      expect(result).toContain('"Language: fr\\n"');
+      expect(result).toContain(
+        '"Plural-Forms: nplurals=2; plural=(n > 1);\\n"'
+      );
+      expect(result).toContain('msgctxt "nav"\nmsgid "Home"\nmsgstr "Accueil"');
+    });
+
+    it('should split multi-line translations', () => {
+      const result = format.stringify(
+        { Text: 'Ligne un\nLigne deux' },
+        { original: parsedFile('msgid "Text"\nmsgstr ""\n') }
+      );
+
+      expect(result).toBe(
+        'msgid "Text"\nmsgstr ""\n"Ligne un\\n"\n"Ligne deux"\n'
+      );
+    });
+
+    it('should write every plural form the target header asks for', () => {
+      const russian = catalog.replace(
+        'nplurals=2; plural=(n > 1);',
+        'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : 1);'
+      );
+
+      const result = format.stringify(
+        { 'One file[2]': '%d файлов' },
+        { original: parsedFile(russian) }
+      );
+
+      expect(result).toContain(
+        'msgstr[0] ""\nmsgstr[1] ""\nmsgstr[2] "%d файлов"'
+      );
+    });
+  });
+
+  describe('plural forms', () => {
+    it("should add the language's Plural-Forms to a header without one", () => {
+      const result = format.stringify(
+        { Hello: 'Witaj' },
+        {
+          original: parsedFile(
+            'msgid ""\nmsgstr ""\n"Language: pl\\n"\n\nmsgid "Hello"\nmsgstr ""\n'
+          ),
+          language: 'pl',
+        }
+      );
+
+      expect(result).toBe(
+        'msgid ""\nmsgstr ""\n"Language: pl\\n"\n"Plural-Forms: nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);\\n"\n\nmsgid "Hello"\nmsgstr "Witaj"\n'
+      );
+    });
+
+    const russian = `msgid ""
+msgstr ""
+"Language: ru\\n"
+"Plural-Forms: nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);\\n"
+
+msgid "One file"
+msgid_plural "%d files"
+msgstr[0] "%d файл"
+msgstr[1] "%d файла"
+`;
+
+    function base(): ParsedFile {
+      return { ...parsedFile(catalog), ...format.parse(catalog) };
+    }
+
+    it('should read as many forms as the header declares', () => {
+      const { data } = format.parse(russian.replace(/msgstr\[1\].*\n/, ''));
+
+      expect(Object.keys(data)).toEqual([
+        'One file[0]',
+        'One file[1]',
+        'One file[2]',
+      ]);
+    });
+
+    it("should give the base the target's plural forms", () => {
+      const result = format.baseForTarget(base(), parsedFile(russian), 'ru');
+
+      expect(result.data['One file[2]']).toBe('');
+      expect(result.metadata?.sources?.['One file[2]']).toBe('%d files');
+      expect(result.metadata?.contexts?.['One file[2]']).toContain(
+        'Plural form 2'
+      );
+    });
+
+    it('should fall back to the plural forms gettext uses for the language', () => {
+      const polish = format.baseForTarget(base(), parsedFile(''), 'pl');
+      const spanish = format.baseForTarget(base(), parsedFile(''), 'es');
+      const japanese = format.baseForTarget(base(), parsedFile(''), 'ja');
+
+      expect(
+        Object.keys(polish.data).filter(key => key.startsWith('One file'))
+      ).toHaveLength(3);
+      expect(
+        Object.keys(spanish.data).filter(key => key.startsWith('One file'))
+      ).toHaveLength(2);
+      expect(
+        Object.keys(japanese.data).filter(key => key.startsWith('One file'))
+      ).toEqual(['One file[0]']);
+    });
+  });
+});
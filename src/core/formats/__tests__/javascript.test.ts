@@ -0,0 +1,148 @@
+import { JavaScriptFormat } from '../javascript';
+import { parsedFileFactory } from './parsed-file';
+
+const typescript = `import type { Messages } from './types';
+
+// Shared labels
+const messages = {
+  common: {
+    save: 'Save',
+    cancel: \`Cancel\`,
+  },
+  'page.title': 'It\\'s here',
+  count: 3,
+} as const satisfies Messages;
+
+export default messages;
+`;
+
+const parsedFile = parsedFileFactory('ts', 'locales/en.ts');
+
+describe('JavaScriptFormat', () => {
+  let format: JavaScriptFormat;
+
+  beforeEach(() => {
+    format = new JavaScriptFormat('esm');
+  });
+
+  describe('parse', () => {
+    it('should read TypeScript modules without running them', () => {
+      expect(format.parse(typescript).data).toEqual({
+        common: { save: 'Save', cancel: 'Cancel' },
+        'page.title': "It's here",
+        count: 3,
+      });
+    });
+
+    it('should read module.exports and typed declarations', () => {
+      const content = `'use strict';
+/* eslint-disable */
+module.exports = {
+  greeting: "Hello\\n\\u00e9", // trailing comment
+  list: ['a', 'b',],
+};`;
+
+      expect(format.parse(content).data).toEqual({
+        greeting: 'Hello\né',
+        list: ['a', 'b'],
+      });
+    });
+
+    it('should read named exports as top-level keys', () => {
+      const content = `type Labels = Record<string, string>;
+export const labels: Labels = { ok: 'OK' };
+const errors = { missing: 'Missing' }
+export { errors as validation };
+`;
+
+      expect(format.parse(content).data).toEqual({
+        labels: { ok: 'OK' },
+        validation: { missing: 'Missing' },
+      });
+    });
+
+    it('should reject code with its location', () => {
+      expect(() =>
+        format.parse('export default {\n  title: t("title"),\n};')
+      ).toThrow('Expected a static literal but found "t" at line 2, column 10');
+      expect(() => format.parse('export default { a: `Hi ${name}` };')).toThrow(
+        'Template literals with ${} substitutions are not static at line 1, column 21'
+      );
+      expect(() =>
+        format.parse("const data = require('./other');\nmodule.exports = data;")
+      ).toThrow('Expected a static literal but found "require" at line 1');
+      expect(() => format.parse('export default { ...common };')).toThrow(
+        'Spread properties are not supported at line 1, column 18'
+      );
+      expect(() => format.parse('export default messages;')).toThrow(
+        '"messages" is not a top-level constant at line 1, column 16'
+      );
+      expect(() => format.parse('export default "text";')).toThrow(
+        'The default export must be an object literal'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should keep the export style of the template', () => {
+      const result = format.stringify(
+        {
+          count: 3,
+          'page.title': "C'est ici",
+          common: { cancel: 'Annuler', save: 'Enregistrer' },
+        },
+        {
+          original: parsedFile('', 'locales/fr.ts'),
+          template: parsedFile(typescript),
+        }
+      );
+
+      expect(result).toBe(`import type { Messages } from './types';
+
+// Shared labels
+const messages = {
+  common: {
+    save: 'Enregistrer',
+    cancel: 'Annuler',
+  },
+  'page.title': 'C\\'est ici',
+  count: 3,
+} as const satisfies Messages;
+
+export default messages;
+`);
+    });
+
+    it('should write named exports back to their declarations', () => {
+      const original = `export const labels = {\n\t"ok": "OK"\n};\n`;
+
+      expect(
+        format.stringify(
+          { labels: { ok: 'D’accord' }, extra: 'Plus' },
+          { original: parsedFile(original) }
+        )
+      ).toBe(
+        `export const labels = {\n\t"ok": "D’accord"\n};\n\nexport const extra = "Plus";\n`
+      );
+    });
+
+    it('should return the original text when nothing changed', () => {
+      expect(
+        format.stringify(format.parse(typescript).data, {
+          original: parsedFile(typescript),
+        })
+      ).toBe(typescript);
+    });
+
+    it('should use the module style when there is no file to copy', () => {
+      const data = { a: { b: 'c' } };
+
+      expect(format.stringify(data)).toBe(
+        'export default {\n  "a": {\n    "b": "c"\n  }\n};'
+      );
+      expect(new JavaScriptFormat('commonjs').stringify(data)).toBe(
+        'module.exports = {\n  "a": {\n    "b": "c"\n  }\n};'
+      );
+    });
+  });
+});
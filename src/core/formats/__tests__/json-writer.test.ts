@@ -0,0 +1,108 @@
+import { writeJson } from '../json-writer';
+import { parsedFileFactory } from './parsed-file';
+
+const parsedFile = parsedFileFactory('json', 'locales/fr.json');
+
+const template = `{
+    "common": {
+        "save": "Save",
+        "cancel": "Cancel",
+        "delete": "Delete"
+    },
+    "title": "Settings"
+}
+`;
+
+describe('writeJson', () => {
+  it('should only change touched values', () => {
+    const original = `{
+    "title":"Paramètres",
+    "common": { "save": "", "cancel": "Annuler" }
+}`;
+
+    const result = writeJson(
+      {
+        title: 'Paramètres',
+        common: { save: 'Enregistrer', cancel: 'Annuler' },
+      },
+      { original: parsedFile(original) }
+    );
+
+    expect(result).toBe(`{
+    "title":"Paramètres",
+    "common": { "save": "Enregistrer", "cancel": "Annuler" }
+}`);
+  });
+
+  it('should insert new keys in template order with the file indent', () => {
+    const original =
+      '{\r\n\t"common": {\r\n\t\t"delete": "Supprimer"\r\n\t}\r\n}\r\n';
+
+    const result = writeJson(
+      {
+        common: { delete: 'Supprimer', save: 'Enregistrer', cancel: 'Annuler' },
+        title: 'Paramètres',
+        extra: { hint: 'Astuce' },
+      },
+      { original: parsedFile(original), template: parsedFile(template) }
+    );
+
+    expect(result).toBe(
+      '{\r\n' +
+        '\t"common": {\r\n' +
+        '\t\t"save": "Enregistrer",\r\n' +
+        '\t\t"cancel": "Annuler",\r\n' +
+        '\t\t"delete": "Supprimer"\r\n' +
+        '\t},\r\n' +
+        '\t"title": "Paramètres",\r\n' +
+        '\t"extra": {\r\n' +
+        '\t\t"hint": "Astuce"\r\n' +
+        '\t}\r\n' +
+        '}\r\n'
+    );
+  });
+
+  it('should lay out a new file like the template', () => {
+    const result = writeJson(
+      {
+        title: 'Einstellungen',
+        common: { delete: 'Löschen', save: 'Speichern' },
+      },
+      { original: parsedFile(''), template: parsedFile(template) }
+    );
+
+    expect(result).toBe(`{
+    "common": {
+        "save": "Speichern",
+        "delete": "Löschen"
+    },
+    "title": "Einstellungen"
+}
+`);
+  });
+
+  it('should remove keys that are no longer in the data', () => {
+    const original = `{
+  "a": "1",
+  "b": "2"
+}`;
+
+    expect(writeJson({ b: '2' }, { original: parsedFile(original) })).toBe(`{
+  "b": "2"
+}`);
+  });
+
+  it('should return the original text when nothing changed', () => {
+    const original = '\uFEFF{ "a" : "1",\n\n  "b": { "c": "2" } }\n';
+
+    expect(
+      writeJson({ a: '1', b: { c: '2' } }, { original: parsedFile(original) })
+    ).toBe(original);
+  });
+
+  it('should reject content that is not a JSON object', () => {
+    expect(() => writeJson({}, { original: parsedFile('{ "a": ') })).toThrow(
+      'Invalid JSON'
+    );
+  });
+});
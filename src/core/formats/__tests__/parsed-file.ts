@@ -0,0 +1,17 @@
+import type { ParsedFile, TranslationFormat } from '../../parser';
+
+/**
+ * Builds the files a format's tests pass as `original` or `template`:
+ * only their content matters to the writers
+ */
+export function parsedFileFactory(
+  format: TranslationFormat,
+  defaultPath: string
+) {
+  return (content: string, path = defaultPath): ParsedFile => ({
+    data: {},
+    format,
+    originalContent: content,
+    path,
+  });
+}
@@ -0,0 +1,175 @@
+import { PhpArrayFormat, phpLanguageFromPath, phpResourcePath } from '../php';
+import { parsedFileFactory } from './parsed-file';
+
+const laravel = `<?php
+
+declare(strict_types=1);
+
+// Authentication messages
+return [
+
+    'failed' => 'These credentials do not match our records.',
+    'throttle' => "Too many attempts.\\nTry again in :seconds seconds.",
+    'password' => [
+        'reset' => 'Your password has been reset!', # done
+        'steps' => ['Open the link', 'Choose a password'],
+    ],
+    'limit' => 5,
+
+];
+`;
+
+const parsedFile = parsedFileFactory('php', 'lang/en/auth.php');
+
+describe('PhpArrayFormat', () => {
+  let format: PhpArrayFormat;
+
+  beforeEach(() => {
+    format = new PhpArrayFormat();
+  });
+
+  describe('parse', () => {
+    it('should read the returned array of a Laravel language file', () => {
+      expect(format.parse(laravel).data).toEqual({
+        failed: 'These credentials do not match our records.',
+        throttle: 'Too many attempts.\nTry again in :seconds seconds.',
+        password: {
+          reset: 'Your password has been reset!',
+          steps: ['Open the link', 'Choose a password'],
+        },
+        limit: 5,
+      });
+    });
+
+    it('should read array() syntax and escaped quotes', () => {
+      const content = `<?php
+return array(
+    'quote' => 'It\\'s a \\\\ path',
+    'dollar' => "Costs \\$5",
+    0 => 'zero',
+    'next',
+);`;
+
+      expect(format.parse(content).data).toEqual({
+        quote: "It's a \\ path",
+        dollar: 'Costs $5',
+        0: 'zero',
+        1: 'next',
+      });
+    });
+
+    it('should reject values that need PHP to run', () => {
+      expect(() => format.parse("<?php\nreturn ['a' => 'b' . 'c'];")).toThrow(
+        'String concatenation is not supported at line 2'
+      );
+      expect(() =>
+        format.parse('<?php\nreturn [\'a\' => "Hi $name"];')
+      ).toThrow('Strings with interpolated variables are not static');
+      expect(() => format.parse("<?php\nreturn ['a' => __('b')];")).toThrow(
+        'Expected a static value but found "__" at line 2, column 16'
+      );
+      expect(() => format.parse('<?php\necho 1;')).toThrow(
+        'No return statement found'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should only replace the values that changed', () => {
+      const data = format.parse(laravel).data;
+      (data['password'] as Record<string, unknown>)['reset'] =
+        'Votre mot de passe a été réinitialisé !';
+      data['new'] = "L'essai";
+      delete data['failed'];
+
+      const result = format.stringify(data, {
+        original: parsedFile(laravel),
+      });
+
+      expect(result).toBe(`<?php
+
+declare(strict_types=1);
+
+// Authentication messages
+return [
+
+    'throttle' => "Too many attempts.\\nTry again in :seconds seconds.",
+    'password' => [
+        'reset' => 'Votre mot de passe a été réinitialisé !', # done
+        'steps' => ['Open the link', 'Choose a password'],
+    ],
+    'limit' => 5,
+    'new' => 'L\\'essai',
+
+];
+`);
+    });
+
+    it('should keep comments and the quotes of unchanged values', () => {
+      const content = `<?php
+return [
+    // Buttons
+    'save' => "Save", /* primary */
+    'cancel' => 'Cancel'
+];
+`;
+
+      expect(
+        format.stringify(
+          { save: 'Save', cancel: 'Annuler', close: 'Fermer' },
+          { original: parsedFile(content) }
+        )
+      ).toBe(`<?php
+return [
+    // Buttons
+    'save' => "Save", /* primary */
+    'cancel' => 'Annuler',
+    'close' => 'Fermer'
+];
+`);
+    });
+
+    it('should return the original when nothing changed', () => {
+      const data = format.parse(laravel).data;
+      expect(format.stringify(data, { original: parsedFile(laravel) })).toBe(
+        laravel
+      );
+    });
+
+    it('should copy array() syntax, double quotes and tab indents', () => {
+      const content = '<?php\nreturn array(\n\t"a" => "A"\n);\n';
+
+      expect(
+        format.stringify(
+          { a: 'Á', b: 'Costs $5' },
+          { original: parsedFile(content) }
+        )
+      ).toBe(
+        '<?php\nreturn array(\n\t"a" => "Á",\n\t"b" => "Costs \\$5"\n);\n'
+      );
+    });
+
+    it('should build new files from the template in its key order', () => {
+      const template = parsedFile(
+        "<?php\n\nreturn [\n  'a' => 'A',\n  'b' => 'B',\n];\n"
+      );
+
+      expect(
+        format.stringify({ b: 'Bé', a: 'À' }, { template, original: undefined })
+      ).toBe("<?php\n\nreturn [\n  'a' => 'À',\n  'b' => 'Bé',\n];\n");
+      expect(format.stringify({ a: 'A' })).toBe(
+        "<?php\n\nreturn [\n    'a' => 'A',\n];\n"
+      );
+    });
+  });
+
+  describe('paths', () => {
+    it('should map Laravel language folders', () => {
+      expect(phpLanguageFromPath('lang/pt_BR/auth.php')).toBe('pt-BR');
+      expect(phpLanguageFromPath('app/Models/User.php')).toBeNull();
+      expect(phpResourcePath('resources/lang/en/auth.php', 'pt-BR')).toBe(
+        'resources/lang/pt_BR/auth.php'
+      );
+    });
+  });
+});
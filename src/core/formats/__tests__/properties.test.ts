@@ -0,0 +1,142 @@
+import path from 'path';
+import {
+  PropertiesFormat,
+  propertiesLanguageFromPath,
+  propertiesResourcePath,
+} from '../properties';
+import { parsedFileFactory } from './parsed-file';
+
+const properties = `# Shown on the start page
+welcome = Welcome to {0}!
+! Legacy comment marker
+farewell:Goodbye
+
+long.message=This message spans \\
+    two lines
+umlaut=Gr\\u00fc\\u00dfe
+key\\ with\\ spaces=value
+empty=
+`;
+
+const parsedFile = parsedFileFactory(
+  'properties',
+  'src/main/resources/messages.properties'
+);
+
+describe('PropertiesFormat', () => {
+  let format: PropertiesFormat;
+
+  beforeEach(() => {
+    format = new PropertiesFormat();
+  });
+
+  describe('parse', () => {
+    it('should read separators, continuations and escapes', () => {
+      const { data } = format.parse(properties);
+
+      expect(data).toEqual({
+        welcome: 'Welcome to {0}!',
+        farewell: 'Goodbye',
+        'long.message': 'This message spans two lines',
+        umlaut: 'Grüße',
+        'key with spaces': 'value',
+        empty: '',
+      });
+    });
+
+    it('should turn comments above an entry into context', () => {
+      const { metadata } = format.parse(properties);
+
+      expect(metadata?.contexts).toEqual({
+        welcome: 'Notes: Shown on the start page',
+        farewell: 'Notes: Legacy comment marker',
+      });
+    });
+
+    it('should resolve escaped line breaks and tabs', () => {
+      const { data } = format.parse('lines=one\\ntwo\\tthree\n');
+
+      expect(data['lines']).toBe('one\ntwo\tthree');
+    });
+  });
+
+  describe('stringify', () => {
+    it('should replace changed values in place', () => {
+      const original = `# Greeting
+welcome = Willkommen
+long.message=Eine \\
+    lange Nachricht
+`;
+      const result = format.stringify(
+        { welcome: 'Willkommen bei {0}!', 'long.message': 'Kurz' },
+        { original: parsedFile(original) }
+      );
+
+      expect(result).toBe(`# Greeting
+welcome = Willkommen bei {0}!
+long.message=Kurz
+`);
+    });
+
+    it('should escape non-ASCII text when the file uses escapes', () => {
+      const result = format.stringify(
+        { umlaut: 'Grüße', farewell: 'Tschüss' },
+        {
+          original: parsedFile('umlaut=Gr\\u00fc\\u00dfe\n'),
+          template: parsedFile(properties),
+        }
+      );
+
+      expect(result).toBe(`umlaut=Gr\\u00fc\\u00dfe
+! Legacy comment marker
+farewell=Tsch\\u00fcss
+`);
+    });
+
+    it('should write UTF-8 text when the file does not use escapes', () => {
+      const result = format.stringify(
+        { farewell: 'Tschüss', 'key with spaces': ' leading' },
+        { original: parsedFile('farewell=Bye\n') }
+      );
+
+      expect(result).toBe(`farewell=Tschüss
+key\\ with\\ spaces=\\ leading
+`);
+    });
+
+    it('should return the original content when nothing changed', () => {
+      const { data } = format.parse(properties);
+
+      expect(format.stringify(data, { original: parsedFile(properties) })).toBe(
+        properties
+      );
+    });
+  });
+
+  describe('language paths', () => {
+    it('should detect the locale suffix of bundles', () => {
+      expect(propertiesLanguageFromPath('messages_de.properties', 'en')).toBe(
+        'de'
+      );
+      expect(
+        propertiesLanguageFromPath('i18n/messages_pt_BR.properties', 'en')
+      ).toBe('pt-BR');
+      expect(propertiesLanguageFromPath('messages.properties', 'en')).toBe(
+        'en'
+      );
+      expect(propertiesLanguageFromPath('messages_de.json', 'en')).toBeNull();
+    });
+
+    it('should build target paths next to the base bundle', () => {
+      expect(
+        propertiesResourcePath(path.join('i18n', 'messages.properties'), 'de')
+      ).toBe(path.join('i18n', 'messages_de.properties'));
+      expect(
+        propertiesResourcePath(
+          path.join('i18n', 'messages_en.properties'),
+          'pt-BR'
+        )
+      ).toBe(path.join('i18n', 'messages_pt_BR.properties'));
+    });
+  });
+});
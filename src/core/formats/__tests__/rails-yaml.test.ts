@@ -0,0 +1,83 @@
+import {
+  completePluralForms,
+  detectRootLocale,
+  isPluralGroup,
+} from '../rails-yaml';
+
+describe('Rails YAML helpers', () => {
+  describe('detectRootLocale', () => {
+    it('should accept language codes with regions', () => {
+      expect(
+        detectRootLocale({ pt_BR: { title: 'Olá' } }, 'auto', ['pt-BR'])
+      ).toBe('pt_BR');
+      expect(
+        detectRootLocale({ 'zh-TW': { title: '' } }, 'auto', ['zh_TW'])
+      ).toBe('zh-TW');
+    });
+
+    it('should ignore files without a single locale mapping', () => {
+      const languages = ['en', 'fr'];
+      expect(detectRootLocale({ en: 'English' }, 'auto', languages)).toBe(
+        undefined
+      );
+      expect(
+        detectRootLocale({ en: {}, fr: {} }, 'auto', languages)
+      ).toBeUndefined();
+      expect(
+        detectRootLocale({ common: { title: '' } }, 'auto', languages)
+      ).toBeUndefined();
+    });
+
+    it('should only unwrap the languages of the file', () => {
+      // Namespaces that Intl would accept as language codes
+      for (const namespace of ['nav', 'new', 'cat', 'per']) {
+        expect(
+          detectRootLocale({ [namespace]: { title: '' } }, 'auto', ['en', 'fr'])
+        ).toBeUndefined();
+      }
+      expect(detectRootLocale({ en: { title: '' } })).toBeUndefined();
+    });
+
+    it('should unwrap any single key when forced', () => {
+      expect(detectRootLocale({ common: { title: '' } }, true)).toBe('common');
+      expect(detectRootLocale({ en: { title: '' } }, false)).toBeUndefined();
+    });
+  });
+
+  describe('isPluralGroup', () => {
+    it('should require plural categories including other', () => {
+      expect(isPluralGroup({ one: 'a', other: 'b' })).toBe(true);
+      expect(isPluralGroup({ zero: 'none', other: 'b' })).toBe(true);
+      expect(isPluralGroup({ one: 'a' })).toBe(false);
+      expect(isPluralGroup({ one: 'a', other: 'b', title: 'c' })).toBe(false);
+    });
+  });
+
+  describe('completePluralForms', () => {
+    it('should add the categories the language needs from other', () => {
+      const data = {
+        inbox: { count: { zero: 'No mail', one: '1 mail', other: 'n mails' } },
+        steps: [{ one: 'a', other: 'b' }],
+      };
+
+      expect(completePluralForms(data, 'pl')).toEqual({
+        inbox: {
+          count: {
+            zero: 'No mail',
+            one: '1 mail',
+            other: 'n mails',
+            few: 'n mails',
+            many: 'n mails',
+          },
+        },
+        steps: [{ one: 'a', other: 'b', few: 'b', many: 'b' }],
+      });
+    });
+
+    it('should keep forms the language does not use', () => {
+      expect(
+        completePluralForms({ n: { one: 'a', other: 'b' } }, 'ja')
+      ).toEqual({ n: { one: 'a', other: 'b' } });
+    });
+  });
+});
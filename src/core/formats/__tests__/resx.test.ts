@@ -0,0 +1,133 @@
+import path from 'path';
+import { ResxFormat, resxLanguageFromPath, resxResourcePath } from '../resx';
+import { parsedFileFactory } from './parsed-file';
+
+const resx = `<?xml version="1.0" encoding="utf-8"?>
+<root>
+  <resheader name="resmimetype">
+    <value>text/microsoft-resx</value>
+  </resheader>
+  <data name="Greeting" xml:space="preserve">
+    <value>Hello, {0} &amp; friends</value>
+    <comment>Shown after sign-in</comment>
+  </data>
+  <data name="Farewell" xml:space="preserve">
+    <value>Goodbye</value>
+  </data>
+  <data name="Logo" type="System.Resources.ResXFileRef, System.Windows.Forms">
+    <value>Resources\\logo.png;System.Drawing.Bitmap, System.Drawing</value>
+  </data>
+</root>
+`;
+
+const parsedFile = parsedFileFactory('resx', 'Resources/Strings.resx');
+
+describe('ResxFormat', () => {
+  let format: ResxFormat;
+
+  beforeEach(() => {
+    format = new ResxFormat();
+  });
+
+  describe('parse', () => {
+    it('should read string data entries and skip typed resources', () => {
+      const { data } = format.parse(resx);
+
+      expect(data).toEqual({
+        Greeting: 'Hello, {0} & friends',
+        Farewell: 'Goodbye',
+      });
+    });
+
+    it('should pass comments along as context', () => {
+      const { metadata } = format.parse(resx);
+
+      expect(metadata?.contexts).toEqual({
+        Greeting: 'Notes: Shown after sign-in',
+      });
+    });
+
+    it('should reject documents without a <root> element', () => {
+      expect(() => format.parse('<resources/>')).toThrow(
+        'Expected <root> element in .resx, got <resources>'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should create a target file from the template headers', () => {
+      const result = format.stringify(
+        { Greeting: 'Hallo, {0} & Freunde', Farewell: 'Tschüss' },
+        { template: parsedFile(resx) }
+      );
+
+      expect(result).toBe(`<?xml version="1.0" encoding="utf-8"?>
+<root>
+  <resheader name="resmimetype">
+    <value>text/microsoft-resx</value>
+  </resheader>
+  <data name="Logo" type="System.Resources.ResXFileRef, System.Windows.Forms">
+    <value>Resources\\logo.png;System.Drawing.Bitmap, System.Drawing</value>
+  </data>
+  <data name="Greeting" xml:space="preserve">
+    <value>Hallo, {0} &amp; Freunde</value>
+    <comment>Shown after sign-in</comment>
+  </data>
+  <data name="Farewell" xml:space="preserve">
+    <value>Tschüss</value>
+  </data>
+</root>
+`);
+    });
+
+    it('should replace changed values in place', () => {
+      const original = `<root>
+  <data name="Greeting" xml:space="preserve">
+    <value>Hallo</value>
+  </data>
+  <data name="Farewell" xml:space="preserve">
+    <value />
+  </data>
+</root>`;
+      const result = format.stringify(
+        { Greeting: 'Hallo, {0}', Farewell: 'Tschüss' },
+        { original: parsedFile(original) }
+      );
+
+      expect(result).toBe(`<root>
+  <data name="Greeting" xml:space="preserve">
+    <value>Hallo, {0}</value>
+  </data>
+  <data name="Farewell" xml:space="preserve">
+    <value>Tschüss</value>
+  </data>
+</root>`);
+    });
+
+    it('should return the original content when nothing changed', () => {
+      const { data } = format.parse(resx);
+
+      expect(format.stringify(data, { original: parsedFile(resx) })).toBe(resx);
+    });
+  });
+
+  describe('language paths', () => {
+    it('should detect the culture suffix of resource files', () => {
+      expect(resxLanguageFromPath('Strings.de-DE.resx', 'en')).toBe('de-DE');
+      expect(resxLanguageFromPath('Resources/Strings.fr.resx', 'en')).toBe(
+        'fr'
+      );
+      expect(resxLanguageFromPath('Resources/Strings.resx', 'en')).toBe('en');
+      expect(resxLanguageFromPath('Strings.de-DE.json', 'en')).toBeNull();
+    });
+
+    it('should build target paths next to the neutral file', () => {
+      expect(
+        resxResourcePath(path.join('Resources', 'Strings.resx'), 'de-DE')
+      ).toBe(path.join('Resources', 'Strings.de-DE.resx'));
+      expect(
+        resxResourcePath(path.join('Resources', 'Strings.en.resx'), 'fr')
+      ).toBe(path.join('Resources', 'Strings.fr.resx'));
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { SpreadsheetFormat, parseDelimited } from '../spreadsheet';
+import { parsedFileFactory } from './parsed-file';
+
+const csv =
+  '\uFEFFkey,description,en,pt_BR\r\n' +
+  'greeting,Shown on the home page,"Hello, world",Olá\r\n' +
+  'intro,,"Line one\r\nLine ""two""",\r\n';
+
+const parsedFile = parsedFileFactory('csv', 'review.csv');
+
+describe('SpreadsheetFormat', () => {
+  let format: SpreadsheetFormat;
+
+  beforeEach(() => {
+    format = new SpreadsheetFormat(',');
+  });
+
+  describe('parse', () => {
+    it('should read the first language column by default', () => {
+      const { data } = format.parse(csv);
+
+      expect(data).toEqual({
+        greeting: 'Hello, world',
+        intro: 'Line one\r\nLine "two"',
+      });
+    });
+
+    it('should read a language column and leave out empty cells', () => {
+      const { data } = format.parse(csv, { language: 'pt-BR' });
+
+      expect(data).toEqual({ greeting: 'Olá' });
+    });
+
+    it('should pass descriptions along as context', () => {
+      const { metadata } = format.parse(csv, { language: 'pt-BR' });
+
+      expect(metadata?.contexts).toEqual({
+        greeting: 'Description: Shown on the home page',
+      });
+    });
+
+    it('should read tab separated sheets', () => {
+      const { data } = new SpreadsheetFormat('\t').parse(
+        'key\ten\tde\ngreeting\tHello, world\tHallo\n',
+        { language: 'de' }
+      );
+
+      expect(data).toEqual({ greeting: 'Hallo' });
+    });
+
+    it('should reject unterminated quoted cells', () => {
+      expect(() => format.parse('key,en\nintro,"open\n')).toThrow(
+        'Unterminated quoted cell'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should fill a language column and keep the other cells', () => {
+      const result = format.stringify(
+        { greeting: 'Olá, mundo', intro: 'Linha um\nLinha "dois"' },
+        { original: parsedFile(csv), language: 'pt-BR' }
+      );
+
+      expect(result).toBe(
+        '\uFEFFkey,description,en,pt_BR\r\n' +
+          'greeting,Shown on the home page,"Hello, world","Olá, mundo"\r\n' +
+          'intro,,"Line one\r\nLine ""two""","Linha um\nLinha ""dois"""\r\n'
+      );
+    });
+
+    it('should add a column for a new language and rows for new keys', () => {
+      const result = format.stringify(
+        { greeting: 'Hallo', farewell: 'Tschüss' },
+        { original: parsedFile('key,en\ngreeting,Hello\n'), language: 'de' }
+      );
+
+      expect(result).toBe(
+        'key,en,de\ngreeting,Hello,Hallo\nfarewell,,Tschüss\n'
+      );
+    });
+
+    it('should return the original content when nothing changed', () => {
+      const { data } = format.parse(csv);
+
+      expect(
+        format.stringify(data, { original: parsedFile(csv), language: 'en' })
+      ).toBe(csv);
+    });
+  });
+
+  describe('parseDelimited', () => {
+    it('should handle quotes, delimiters and line breaks in cells', () => {
+      expect(parseDelimited('a,"b,c"\r\n"d\ne","f""g"', ',')).toEqual([
+        ['a', 'b,c'],
+        ['d\ne', 'f"g'],
+      ]);
+    });
+  });
+});
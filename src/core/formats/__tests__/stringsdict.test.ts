@@ -0,0 +1,121 @@
+import { StringsdictFormat } from '../stringsdict';
+import { parsedFileFactory } from './parsed-file';
+
+const stringsdict = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+	<key>files_count</key>
+	<dict>
+		<key>NSStringLocalizedFormatKey</key>
+		<string>%#@files@</string>
+		<key>files</key>
+		<dict>
+			<key>NSStringFormatSpecTypeKey</key>
+			<string>NSStringPluralRuleType</string>
+			<key>NSStringFormatValueTypeKey</key>
+			<string>d</string>
+			<key>one</key>
+			<string>%d file</string>
+			<key>other</key>
+			<string>%d files</string>
+		</dict>
+	</dict>
+	<key>selection</key>
+	<dict>
+		<key>NSStringLocalizedFormatKey</key>
+		<string>Selected %#@items@</string>
+		<key>items</key>
+		<dict>
+			<key>NSStringFormatSpecTypeKey</key>
+			<string>NSStringPluralRuleType</string>
+			<key>NSStringFormatValueTypeKey</key>
+			<string>d</string>
+			<key>other</key>
+			<string>%d items</string>
+		</dict>
+	</dict>
+</dict>
+</plist>
+`;
+
+const parsedFile = parsedFileFactory(
+  'stringsdict',
+  'en.lproj/Localizable.stringsdict'
+);
+
+describe('StringsdictFormat', () => {
+  let format: StringsdictFormat;
+
+  beforeEach(() => {
+    format = new StringsdictFormat();
+  });
+
+  describe('parse', () => {
+    it('should key plural categories by rule and variable', () => {
+      const { data, metadata } = format.parse(stringsdict);
+
+      expect(data).toEqual({
+        'files_count[files.one]': '%d file',
+        'files_count[files.other]': '%d files',
+        'selection[NSStringLocalizedFormatKey]': 'Selected %#@items@',
+        'selection[items.other]': '%d items',
+      });
+      expect(metadata?.contexts?.['files_count[files.one]']).toBe(
+        'Plural category: one'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should return the original content when nothing changed', () => {
+      const { data } = format.parse(stringsdict);
+
+      expect(
+        format.stringify(data, { original: parsedFile(stringsdict) })
+      ).toBe(stringsdict);
+    });
+
+    it('should update strings and add missing categories', () => {
+      const result = format.stringify(
+        {
+          'files_count[files.one]': '%d plik',
+          'files_count[files.few]': '%d pliki',
+        },
+        { original: parsedFile(stringsdict) }
+      );
+
+      expect(result).toContain(
+        '\t\t\t<key>one</key>\n\t\t\t<string>%d plik</string>'
+      );
+      expect(result).toContain(
+        '\t\t\t<string>%d files</string>\n\t\t\t<key>few</key>\n\t\t\t<string>%d pliki</string>\n\t\t</dict>'
+      );
+      expect(format.parse(result).data['files_count[files.few]']).toBe(
+        '%d pliki'
+      );
+    });
+
+    it('should build new rules from the template', () => {
+      const result = format.stringify(
+        {
+          'files_count[files.one]': '%d fichier',
+          'files_count[files.other]': '%d fichiers',
+        },
+        { template: parsedFile(stringsdict), language: 'fr' }
+      );
+
+      expect(format.parse(result).data).toEqual({
+        'files_count[files.one]': '%d fichier',
+        'files_count[files.other]': '%d fichiers',
+      });
+      expect(result).toContain(
+        '\t<key>files_count</key>\n\t<dict>\n\t\t<key>NSStringLocalizedFormatKey</key>\n\t\t<string>%#@files@</string>'
+      );
+      expect(result).toContain(
+        '\t\t\t<key>NSStringFormatValueTypeKey</key>\n\t\t\t<string>d</string>'
+      );
+      expect(result).not.toContain('selection');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { VueI18nFormat } from '../vue-i18n';
+import { parsedFileFactory } from './parsed-file';
+
+const component = `<template>
+  <i18n-t keypath="hello" tag="p" />
+</template>
+
+<script setup lang="ts">
+const { t } = useI18n();
+</script>
+
+<i18n lang="json">
+{
+  "en": {
+    "hello": "Hello!",
+    "menu": { "save": "Save" }
+  },
+  "fr": {
+    "hello": "Bonjour !"
+  }
+}
+</i18n>
+
+<style scoped>
+p { color: red; }
+</style>
+`;
+
+const parsedFile = parsedFileFactory('vue', 'src/components/Hello.vue');
+
+describe('VueI18nFormat', () => {
+  let format: VueI18nFormat;
+
+  beforeEach(() => {
+    format = new VueI18nFormat();
+  });
+
+  describe('parse', () => {
+    it('should read one locale from a JSON block', () => {
+      expect(format.parse(component, { language: 'en' }).data).toEqual({
+        hello: 'Hello!',
+        menu: { save: 'Save' },
+      });
+      expect(format.parse(component, { language: 'fr' }).data).toEqual({
+        hello: 'Bonjour !',
+      });
+      expect(format.parse(component, { language: 'de' }).data).toEqual({});
+    });
+
+    it('should read YAML blocks and blocks for a single locale', () => {
+      const content = `<script>export default {}</script>
+<i18n lang="yaml">
+en:
+  hello: Hello
+</i18n>
+<i18n locale="de">
+{ "hello": "Hallo" }
+</i18n>
+`;
+
+      expect(format.parse(content).data).toEqual({ hello: 'Hello' });
+      expect(format.parse(content, { language: 'de' }).data).toEqual({
+        hello: 'Hallo',
+      });
+    });
+
+    it('should reject components without blocks or with unknown languages', () => {
+      expect(() => format.parse('<template><p /></template>')).toThrow(
+        'No <i18n> block found'
+      );
+      expect(() => format.parse('<i18n lang="json5">{}</i18n>')).toThrow(
+        'Unsupported <i18n> block language: json5'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should edit the block in place and keep the rest of the file', () => {
+      const result = format.stringify(
+        { hello: 'Bonjour !', menu: { save: 'Enregistrer' } },
+        { original: parsedFile(component), language: 'fr' }
+      );
+
+      expect(result).toBe(
+        component.replace(
+          '    "hello": "Bonjour !"\n',
+          '    "hello": "Bonjour !",\n' +
+            '    "menu": {\n' +
+            '      "save": "Enregistrer"\n' +
+            '    }\n'
+        )
+      );
+    });
+
+    it('should add new locales to the block', () => {
+      const result = format.stringify(
+        { hello: 'Hallo!' },
+        { original: parsedFile(component), language: 'de' }
+      );
+
+      expect(result).toContain(
+        '  "fr": {\n    "hello": "Bonjour !"\n  },\n  "de": {\n    "hello": "Hallo!"\n  }\n}\n</i18n>\n\n<style scoped>'
+      );
+      expect(
+        result.startsWith(component.slice(0, component.indexOf('{')))
+      ).toBe(true);
+    });
+
+    it('should keep comments in YAML blocks', () => {
+      const content = `<i18n lang="yaml">
+# Greeting
+en:
+  hello: Hello
+</i18n>
+`;
+
+      expect(
+        format.stringify(
+          { hello: 'Hola' },
+          { original: parsedFile(content), language: 'es' }
+        )
+      ).toBe(`<i18n lang="yaml">
+# Greeting
+en:
+  hello: Hello
+es:
+  hello: Hola
+</i18n>
+`);
+    });
+
+    it('should add a block when every block holds a single locale', () => {
+      const content = '<i18n locale="en">\n{ "hello": "Hello" }\n</i18n>\n';
+
+      expect(
+        format.stringify(
+          { hello: 'Ciao' },
+          { original: parsedFile(content), language: 'it' }
+        )
+      ).toBe(
+        '<i18n locale="en">\n{ "hello": "Hello" }\n</i18n>\n\n' +
+          '<i18n locale="it" lang="json">\n{\n  "hello": "Ciao"\n}\n</i18n>\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  WebExtensionFormat,
+  isWebExtensionMessages,
+  webExtensionLanguageFromPath,
+  webExtensionResourcePath,
+} from '../webextension';
+import { parsedFileFactory } from './parsed-file';
+
+const messages = `{
+  "extName": {
+    "message": "Tab Keeper",
+    "description": "Name of the extension"
+  },
+  "greeting": {
+    "message": "Hello, $user$!",
+    "description": "Greeting on the popup",
+    "placeholders": {
+      "user": {
+        "content": "$1",
+        "example": "Ada"
+      }
+    }
+  }
+}
+`;
+
+const parsedFile = parsedFileFactory(
+  'webextension',
+  '_locales/en/messages.json'
+);
+
+describe('WebExtensionFormat', () => {
+  let format: WebExtensionFormat;
+
+  beforeEach(() => {
+    format = new WebExtensionFormat();
+  });
+
+  describe('parse', () => {
+    it('should read each message as the translatable value', () => {
+      expect(format.parse(messages).data).toEqual({
+        extName: 'Tab Keeper',
+        greeting: 'Hello, $user$!',
+      });
+    });
+
+    it('should give descriptions and placeholders as context', () => {
+      expect(format.parse(messages).metadata?.contexts).toEqual({
+        extName: 'Description: Name of the extension',
+        greeting:
+          'Description: Greeting on the popup\n' +
+          'Placeholders, keep as written: $user$ (e.g. Ada)',
+      });
+    });
+
+    it('should ignore a byte order mark', () => {
+      expect(format.parse('\uFEFF{"ok": {"message": "OK"}}').data).toEqual({
+        ok: 'OK',
+      });
+    });
+
+    it('should reject files that are not a JSON object', () => {
+      expect(() => format.parse('[]')).toThrow(
+        'Invalid messages.json: file must contain a JSON object'
+      );
+      expect(() => format.parse('{')).toThrow('Invalid messages.json');
+    });
+  });
+
+  describe('stringify', () => {
+    it('should only replace messages, keeping descriptions and placeholders', () => {
+      const output = format.stringify(
+        { extName: 'Gardien', greeting: 'Bonjour, $user$ !' },
+        { original: parsedFile(messages, '_locales/fr/messages.json') }
+      );
+
+      expect(output).toBe(
+        messages
+          .replace('"Tab Keeper"', '"Gardien"')
+          .replace('"Hello, $user$!"', '"Bonjour, $user$ !"')
+      );
+    });
+
+    it('should copy placeholders of new entries from the template', () => {
+      const target = `{
+  "extName": {
+    "message": "Gardien"
+  }
+}
+`;
+      const output = format.stringify(
+        { extName: 'Gardien', greeting: 'Bonjour, $user$ !' },
+        {
+          original: parsedFile(target, '_locales/fr/messages.json'),
+          template: parsedFile(messages),
+        }
+      );
+
+      expect(JSON.parse(output)).toEqual({
+        extName: { message: 'Gardien' },
+        greeting: {
+          message: 'Bonjour, $user$ !',
+          description: 'Greeting on the popup',
+          placeholders: { user: { content: '$1', example: 'Ada' } },
+        },
+      });
+    });
+
+    it('should write a new file from the template', () => {
+      const output = format.stringify(
+        { extName: 'Gardien' },
+        { template: parsedFile(messages) }
+      );
+
+      expect(JSON.parse(output)).toEqual({
+        extName: { message: 'Gardien', description: 'Name of the extension' },
+      });
+    });
+  });
+});
+
+describe('webextension paths', () => {
+  it('should recognise messages files inside _locales', () => {
+    expect(isWebExtensionMessages('ext/_locales/en/messages.json')).toBe(true);
+    expect(isWebExtensionMessages('ext/locales/en/messages.json')).toBe(false);
+    expect(isWebExtensionMessages('ext/_locales/en/strings.json')).toBe(false);
+  });
+
+  it('should read underscore locale folders as language codes', () => {
+    expect(webExtensionLanguageFromPath('_locales/pt_BR/messages.json')).toBe(
+      'pt-BR'
+    );
+    expect(webExtensionLanguageFromPath('_locales/fr/messages.json')).toBe(
+      'fr'
+    );
+    expect(webExtensionLanguageFromPath('src/fr.json')).toBeNull();
+  });
+
+  it('should place target files in underscore locale folders', () => {
+    expect(
+      webExtensionResourcePath('ext/_locales/en/messages.json', 'pt-BR')
+    ).toBe('ext/_locales/pt_BR/messages.json');
+  });
+});
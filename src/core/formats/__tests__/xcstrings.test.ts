@@ -0,0 +1,157 @@
+import { XcstringsFormat } from '../xcstrings';
+import { parsedFileFactory } from './parsed-file';
+
+const catalog = `{
+  "sourceLanguage" : "en",
+  "strings" : {
+    "%lld items" : {
+      "localizations" : {
+        "en" : {
+          "variations" : {
+            "plural" : {
+              "one" : {
+                "stringUnit" : {
+                  "state" : "translated",
+                  "value" : "%lld item"
+                }
+              },
+              "other" : {
+                "stringUnit" : {
+                  "state" : "translated",
+                  "value" : "%lld items"
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "Done" : {
+      "comment" : "Button that closes the editor",
+      "localizations" : {
+        "fr" : {
+          "stringUnit" : {
+            "state" : "needs_review",
+            "value" : "Fini"
+          }
+        }
+      }
+    },
+    "Version" : {
+      "shouldTranslate" : false
+    }
+  },
+  "version" : "1.0"
+}`;
+
+const parsedFile = parsedFileFactory('xcstrings', 'Localizable.xcstrings');
+
+describe('XcstringsFormat', () => {
+  let format: XcstringsFormat;
+
+  beforeEach(() => {
+    format = new XcstringsFormat();
+  });
+
+  describe('parse', () => {
+    it('should read the source language by default', () => {
+      const { data, metadata } = format.parse(catalog);
+
+      expect(data).toEqual({
+        '%lld items[plural.one]': '%lld item',
+        '%lld items[plural.other]': '%lld items',
+        Done: 'Done',
+      });
+      expect(metadata?.contexts?.['Done']).toBe(
+        'Notes: Button that closes the editor'
+      );
+      expect(metadata?.contexts?.['%lld items[plural.one]']).toBe(
+        'Plural variation: one'
+      );
+    });
+
+    it('should read a target language with its states', () => {
+      const { data, metadata } = format.parse(catalog, { language: 'fr' });
+
+      expect(data).toEqual({ Done: 'Fini' });
+      expect(metadata?.states).toEqual({ Done: 'needs_review' });
+      expect(metadata?.needsTranslation).toEqual([]);
+      expect(metadata?.needsReview).toEqual(['Done']);
+    });
+
+    it('should reject files that are not String Catalogs', () => {
+      expect(() => format.parse('{"version": "1.0"}')).toThrow(
+        'Invalid String Catalog'
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should return the original content when nothing changed', () => {
+      const { data } = format.parse(catalog);
+
+      expect(
+        format.stringify(data, {
+          original: parsedFile(catalog),
+          language: 'en',
+        })
+      ).toBe(catalog);
+    });
+
+    it('should write one language and keep the others', () => {
+      const result = format.stringify(
+        {
+          Done: 'Terminé',
+          '%lld items[plural.one]': '%lld élément',
+          '%lld items[plural.other]': '%lld éléments',
+        },
+        { original: parsedFile(catalog), language: 'fr' }
+      );
+      const written = JSON.parse(result);
+
+      expect(written.strings['Done'].localizations.fr).toEqual({
+        stringUnit: { state: 'translated', value: 'Terminé' },
+      });
+      expect(Object.keys(written.strings['%lld items'].localizations)).toEqual([
+        'en',
+        'fr',
+      ]);
+      expect(
+        written.strings['%lld items'].localizations.fr.variations.plural.other
+      ).toEqual({
+        stringUnit: { state: 'translated', value: '%lld éléments' },
+      });
+      expect(written.strings['Version']).toEqual({ shouldTranslate: false });
+      expect(result).toContain('"sourceLanguage" : "en"');
+      expect(format.parse(result, { language: 'fr' }).data).toEqual({
+        Done: 'Terminé',
+        '%lld items[plural.one]': '%lld élément',
+        '%lld items[plural.other]': '%lld éléments',
+      });
+    });
+
+    it('should mark translations that need review', () => {
+      const result = format.stringify(
+        {
+          Done: 'Fini',
+          '%lld items[plural.other]': '%lld éléments',
+        },
+        {
+          original: parsedFile(catalog),
+          language: 'fr',
+          needsReview: ['%lld items[plural.other]'],
+        }
+      );
+
+      expect(format.parse(result, { language: 'fr' }).metadata).toEqual(
+        expect.objectContaining({
+          states: {
+            Done: 'translated',
+            '%lld items[plural.other]': 'needs_review',
+          },
+          needsReview: ['%lld items[plural.other]'],
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { XliffFormat } from '../xliff';
+import { parsedFileFactory } from './parsed-file';
+
+const xliff12 = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en" target-language="fr" datatype="plaintext" original="app">
+    <body>
+      <trans-unit id="greeting">
+        <source>Hello &amp; welcome</source>
+        <target state="final">Bonjour et bienvenue</target>
+        <note>Shown on the home page</note>
+      </trans-unit>
+      <trans-unit id="farewell">
+        <source>Goodbye</source>
+        <target state="needs-translation">Goodbye</target>
+      </trans-unit>
+      <trans-unit id="cart.items">
+        <source>Items in <g id="1">cart</g></source>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+
+const xliff20 = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="de">
+  <file id="f1">
+    <unit id="title">
+      <notes>
+        <note>Page title</note>
+      </notes>
+      <segment state="initial">
+        <source>Settings</source>
+      </segment>
+    </unit>
+  </file>
+</xliff>
+`;
+
+const parsedFile = parsedFileFactory('xliff', 'x.xlf');
+
+describe('XliffFormat', () => {
+  let format: XliffFormat;
+
+  beforeEach(() => {
+    format = new XliffFormat();
+  });
+
+  describe('parse', () => {
+    it('should read XLIFF 1.2 targets, sources and notes', () => {
+      const { data, metadata } = format.parse(xliff12);
+
+      expect(data).toEqual({
+        greeting: 'Bonjour et bienvenue',
+        farewell: 'Goodbye',
+        'cart.items': '',
+      });
+      expect(metadata?.sources?.['greeting']).toBe('Hello & welcome');
+      expect(metadata?.sources?.['cart.items']).toBe(
+        'Items in <g id="1">cart</g>'
+      );
+      expect(metadata?.contexts?.['greeting']).toBe(
+        'Notes: Shown on the home page'
+      );
+    });
+
+    it('should report states and units needing translation', () => {
+      const { metadata } = format.parse(xliff12);
+
+      expect(metadata?.states).toEqual({
+        greeting: 'final',
+        farewell: 'needs-translation',
+      });
+      expect(metadata?.needsTranslation).toEqual(['farewell']);
+      expect(metadata?.needsReview).toEqual([]);
+    });
+
+    it('should read XLIFF 2.0 segments', () => {
+      const { data, metadata } = format.parse(xliff20);
+
+      expect(data).toEqual({ title: '' });
+      expect(metadata?.sources).toEqual({ title: 'Settings' });
+      expect(metadata?.contexts).toEqual({ title: 'Notes: Page title' });
+      expect(metadata?.needsTranslation).toEqual(['title']);
+    });
+  });
+
+  describe('stringify', () => {
+    it('should leave the document untouched when nothing changed', () => {
+      const { data } = format.parse(xliff12);
+      delete data['farewell'];
+
+      expect(format.stringify(data, { original: parsedFile(xliff12) })).toBe(
+        xliff12
+      );
+    });
+
+    it('should update targets and mark them translated', () => {
+      const { data } = format.parse(xliff12);
+      data['farewell'] = 'Au revoir';
+      data['cart.items'] = 'Articles dans le <g id="1">panier</g>';
+
+      const result = format.stringify(data, {
+        original: parsedFile(xliff12),
+      });
+
+      expect(result).toContain(
+        '<target state="final">Bonjour et bienvenue</target>'
+      );
+      expect(result).toContain('<target state="translated">Au revoir</target>');
+      expect(result).toContain(
+        '        <source>Items in <g id="1">cart</g></source>\n        <target state="translated">Articles dans le <g id="1">panier</g></target>'
+      );
+    });
+
+    it('should flag targets for review and clear the flag of others', () => {
+      const { data } = format.parse(xliff12);
+      delete data['farewell'];
+
+      const flagged = format.stringify(data, {
+        original: parsedFile(xliff12),
+        needsReview: ['greeting'],
+      });
+
+      expect(flagged).toContain(
+        '<target state="needs-review-translation">Bonjour et bienvenue</target>'
+      );
+      expect(format.parse(flagged).metadata?.needsReview).toEqual(['greeting']);
+      expect(
+        format.stringify(data, {
+          original: parsedFile(flagged),
+          needsReview: [],
+        })
+      ).toContain('<target state="translated">Bonjour et bienvenue</target>');
+    });
+
+    it('should set the segment state for XLIFF 2.0', () => {
+      const result = format.stringify(
+        { title: 'Einstellungen & Optionen' },
+        { original: parsedFile(xliff20) }
+      );
+
+      expect(result).toContain('<segment state="translated">');
+      expect(result).toContain(
+        '        <source>Settings</source>\n        <target>Einstellungen &amp; Optionen</target>'
+      );
+    });
+
+    it('should create a new document from the template', () => {
+      const result = format.stringify(
+        { title: 'Paramètres' },
+        { template: parsedFile(xliff20), language: 'fr' }
+      );
+
+      expect(result).toContain('trgLang="fr"');
+      expect(result).toContain('<note>Page title</note>');
+      expect(result).toContain('<target>Paramètres</target>');
+      expect(format.parse(result).data).toEqual({ title: 'Paramètres' });
+    });
+  });
+});
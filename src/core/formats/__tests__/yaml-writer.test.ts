@@ -0,0 +1,93 @@
+import { writeYaml } from '../yaml-writer';
+import { parsedFileFactory } from './parsed-file';
+
+const parsedFile = parsedFileFactory('yaml', 'locales/fr.yml');
+
+const template = `# Settings screen
+common:
+  save: Save
+  cancel: Cancel
+  delete: Delete
+title: Settings
+`;
+
+describe('writeYaml', () => {
+  it('should keep comments, anchors and quoting', () => {
+    const original = `# Écran des paramètres
+defaults: &defaults
+  save: Enregistrer
+
+common:
+  <<: *defaults
+  # Button label
+  cancel: "Annuler"
+title: ''
+`;
+
+    const result = writeYaml(
+      {
+        defaults: { save: 'Enregistrer' },
+        common: { '<<': { save: 'Enregistrer' }, cancel: 'Annuler' },
+        title: 'Paramètres',
+      },
+      { original: parsedFile(original) }
+    );
+
+    expect(result).toBe(`# Écran des paramètres
+defaults: &defaults
+  save: Enregistrer
+
+common:
+  <<: *defaults
+  # Button label
+  cancel: "Annuler"
+title: 'Paramètres'
+`);
+  });
+
+  it('should insert new keys in template order', () => {
+    const original = `common:
+    delete: Supprimer
+`;
+
+    const result = writeYaml(
+      {
+        common: { delete: 'Supprimer', save: 'Enregistrer' },
+        title: 'Paramètres',
+      },
+      { original: parsedFile(original), template: parsedFile(template) }
+    );
+
+    expect(result).toBe(`common:
+    save: Enregistrer
+    delete: Supprimer
+title: Paramètres
+`);
+  });
+
+  it('should lay out a new file like the template', () => {
+    const result = writeYaml(
+      { title: 'Einstellungen', common: { save: 'Speichern' } },
+      { original: parsedFile(''), template: parsedFile(template) }
+    );
+
+    expect(result).toBe(`common:
+  save: Speichern
+title: Einstellungen
+`);
+  });
+
+  it('should return the original text when nothing changed', () => {
+    const original = 'a:   "1"   # note\r\nb:\r\n  c: two\r\n';
+
+    expect(
+      writeYaml({ a: '1', b: { c: 'two' } }, { original: parsedFile(original) })
+    ).toBe(original);
+  });
+
+  it('should reject documents that are not a mapping', () => {
+    expect(() => writeYaml({}, { original: parsedFile('- a\n- b\n') })).toThrow(
+      'Expected a YAML mapping'
+    );
+  });
+});
@@ -0,0 +1,794 @@
+import path from 'path';
+import type { ParsedFile, TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+  getFlatValue,
+  pluralCategories,
+} from './base-format';
+import { applyEdits, rank } from './format-helpers';
+import {
+  XmlEdit,
+  XmlElement,
+  childElements,
+  escapeXml,
+  hasChildElements,
+  indentationOf,
+  innerXml,
+  parseXml,
+  textContent,
+} from './xml';
+
+type AndroidResourceKind = 'string' | 'plurals' | 'string-array';
+
+interface AndroidEntry {
+  key: string;
+  /** Plural quantity or array index; undefined for plain strings */
+  item?: string;
+  element: XmlElement;
+}
+
+interface AndroidResource {
+  kind: AndroidResourceKind;
+  name: string;
+  element: XmlElement;
+  /** Comment directly above the resource, usually a note for translators */
+  comment?: string;
+  entries: AndroidEntry[];
+}
+
+interface AndroidDocument {
+  content: string;
+  root: XmlElement;
+  resources: AndroidResource[];
+}
+
+const RESOURCE_KINDS: AndroidResourceKind[] = [
+  'string',
+  'plurals',
+  'string-array',
+];
+
+const ITEM_KEY = /^(.*)\[([^[\]]+)\]$/;
+
+const PLURAL_QUANTITIES = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+const FORMAT_ARGUMENT =
+  /%(?:\d+\$)?[-#+ 0,(]*\d*(?:\.\d+)?[sSdfxXoceEgGbBhHaA]/g;
+
+/** Inline tags Android styles strings with */
+const MARKUP_TAGS = new Set([
+  'a',
+  'annotation',
+  'b',
+  'big',
+  'font',
+  'i',
+  'li',
+  'small',
+  'strike',
+  'sub',
+  'sup',
+  'tt',
+  'u',
+  'xliff:g',
+]);
+
+const MARKUP_TAG = /<\/?([a-zA-Z][\w:.-]*)(?:\s[^<>]*)?\/?>/g;
+
+const XML_ENTITY = /&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);)/g;
+
+const DEFAULT_INDENT = '    ';
+
+const SKELETON =
+  '<?xml version="1.0" encoding="utf-8"?>\n<resources>\n</resources>\n';
+
+export class AndroidStringsFormat implements FormatHandler {
+  readonly flatKeys = true;
+
+  /**
+   * Parse an Android `strings.xml` resource file.
+   *
+   * `<string>` elements are keyed by name, `<plurals>` items by
+   * `name[quantity]` and `<string-array>` items by `name[index]`.
+   * Resources marked `translatable="false"` are left out.
+   */
+  parse(content: string): ParsedContent {
+    const document = this.parseDocument(content);
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+
+    for (const resource of document.resources) {
+      for (const entry of resource.entries) {
+        const value = this.elementValue(content, entry.element);
+        data[entry.key] = value;
+
+        const context = this.describeEntry(resource, entry, value);
+        if (context) {
+          contexts[entry.key] = context;
+        }
+      }
+    }
+
+    return { data, metadata: { contexts } };
+  }
+
+  /**
+   * Write translation data into an Android resource file.
+   *
+   * Changed values are replaced in place. Resources missing from the
+   * original are rendered from the template, including its comment, and
+   * appended before `</resources>`. `<plurals>` get every quantity the
+   * file's language needs; missing ones start out as the `other` item.
+   */
+  stringify(data: TranslationData, options: FormatWriteOptions = {}): string {
+    if (options.language) {
+      data = completePluralItems(data, options.language);
+    }
+
+    const template = options.template?.originalContent
+      ? this.parseDocument(options.template.originalContent)
+      : null;
+    const content = options.original?.originalContent || SKELETON;
+    const document = this.parseDocument(content);
+    const eol = detectLineEnding(content);
+    const indent = this.detectIndent(document);
+    const markupKeys = this.markupKeys(template);
+    const edits: XmlEdit[] = [];
+    const knownNames = new Set<string>();
+
+    for (const resource of document.resources) {
+      knownNames.add(resource.name);
+
+      for (const entry of resource.entries) {
+        const edit = this.entryEdit(content, entry, data, markupKeys);
+        if (edit) {
+          edits.push(edit);
+        }
+      }
+
+      if (resource.kind !== 'string') {
+        const edit = this.missingItemsEdit(
+          document,
+          resource,
+          data,
+          markupKeys,
+          indent,
+          eol
+        );
+        if (edit) {
+          edits.push(edit);
+        }
+      }
+    }
+
+    const rendered = this.buildNewResources(
+      data,
+      knownNames,
+      template,
+      markupKeys,
+      indent,
+      eol
+    );
+    if (rendered.length > 0) {
+      edits.push(this.insertResourcesEdit(document, rendered, indent, eol));
+    }
+
+    return applyEdits(content, edits);
+  }
+
+  /**
+   * Add the plural quantities the target language needs and the base file
+   * lacks, e.g. `few` and `many` for Polish, so they get translated from
+   * the `other` item
+   */
+  baseForTarget(
+    base: ParsedFile,
+    _target: ParsedFile,
+    language: string
+  ): ParsedFile {
+    const data = completePluralItems(base.data, language);
+    const contexts = { ...base.metadata?.contexts };
+
+    for (const key of Object.keys(data)) {
+      if (key in base.data) {
+        continue;
+      }
+
+      const [, name, quantity] = key.match(ITEM_KEY)!;
+      contexts[key] =
+        contexts[`${name}[other]`]?.replace(
+          'Plural quantity: other',
+          `Plural quantity: ${quantity}`
+        ) ?? `Plural quantity: ${quantity}`;
+    }
+
+    return { ...base, data, metadata: { ...base.metadata, contexts } };
+  }
+
+  private parseDocument(content: string): AndroidDocument {
+    const root = parseXml(content);
+
+    if (root.name !== 'resources') {
+      throw new Error(`Expected <resources> root element, got <${root.name}>`);
+    }
+
+    const resources: AndroidResource[] = [];
+    let comment: string | undefined;
+
+    for (const node of root.children) {
+      if (node.type === 'comment') {
+        comment = node.value.trim();
+        continue;
+      }
+
+      if (node.type !== 'element') {
+        if (node.value.trim() !== '') {
+          comment = undefined;
+        }
+        continue;
+      }
+
+      const resource = this.readResource(node, comment);
+      comment = undefined;
+
+      if (resource) {
+        resources.push(resource);
+      }
+    }
+
+    return { content, root, resources };
+  }
+
+  private readResource(
+    element: XmlElement,
+    comment: string | undefined
+  ): AndroidResource | null {
+    const kind = element.name as AndroidResourceKind;
+    const name = element.attributes['name'];
+
+    if (
+      !RESOURCE_KINDS.includes(kind) ||
+      !name ||
+      element.attributes['translatable'] === 'false'
+    ) {
+      return null;
+    }
+
+    const items = childElements(element, 'item');
+    const entries: AndroidEntry[] =
+      kind === 'string'
+        ? [{ key: name, element }]
+        : items.map((item, index) => {
+            const itemKey =
+              kind === 'plurals'
+                ? (item.attributes['quantity'] ?? String(index))
+                : String(index);
+            return { key: `${name}[${itemKey}]`, item: itemKey, element: item };
+          });
+
+    return {
+      kind,
+      name,
+      element,
+      ...(comment ? { comment } : {}),
+      entries,
+    };
+  }
+
+  /**
+   * Translator context for an entry: its comment, plural quantity or array
+   * position, and the format arguments that must survive translation
+   */
+  private describeEntry(
+    resource: AndroidResource,
+    entry: AndroidEntry,
+    value: string
+  ): string {
+    const parts: string[] = [];
+
+    if (resource.comment) {
+      parts.push(`Notes: ${resource.comment}`);
+    }
+    if (resource.kind === 'plurals') {
+      parts.push(`Plural quantity: ${entry.item}`);
+    }
+    if (resource.kind === 'string-array') {
+      parts.push(`String array item ${entry.item}`);
+    }
+
+    const formatArguments = [...new Set(value.match(FORMAT_ARGUMENT) ?? [])];
+    if (formatArguments.length > 0) {
+      parts.push(
+        `Keep format arguments unchanged: ${formatArguments.join(', ')}`
+      );
+    }
+
+    return parts.join('\n');
+  }
+
+  /**
+   * Decoded value of a string or item; inline markup is kept as raw XML
+   */
+  private elementValue(content: string, element: XmlElement): string {
+    return hasChildElements(element)
+      ? innerXml(content, element)
+      : unescapeAndroidString(textContent(element));
+  }
+
+  /**
+   * Keys whose template value contains inline markup such as `<b>`
+   */
+  private markupKeys(template: AndroidDocument | null): Set<string> {
+    const keys = new Set<string>();
+
+    for (const resource of template?.resources ?? []) {
+      for (const entry of resource.entries) {
+        if (hasChildElements(entry.element)) {
+          keys.add(entry.key);
+        }
+      }
+    }
+
+    return keys;
+  }
+
+  private encodeValue(
+    key: string,
+    value: string,
+    markupKeys: Set<string>,
+    element?: XmlElement
+  ): string {
+    const markup =
+      markupKeys.has(key) || (element ? hasChildElements(element) : false);
+    return markup ? escapeMarkup(value) : escapeXml(escapeAndroidString(value));
+  }
+
+  private entryEdit(
+    content: string,
+    entry: AndroidEntry,
+    data: TranslationData,
+    markupKeys: Set<string>
+  ): XmlEdit | null {
+    const value = getFlatValue(data, entry.key);
+
+    if (
+      value === undefined ||
+      value === this.elementValue(content, entry.element)
+    ) {
+      return null;
+    }
+
+    const { element } = entry;
+    const text = this.encodeValue(entry.key, value, markupKeys, element);
+
+    if (element.selfClosing) {
+      const openTag = content
+        .slice(element.start, element.end - 2)
+        .replace(/\s*$/, '');
+      return {
+        start: element.start,
+        end: element.end,
+        text: `${openTag}>${text}</${element.name}>`,
+      };
+    }
+
+    return { start: element.contentStart, end: element.contentEnd, text };
+  }
+
+  /**
+   * Add plural quantities or array items that the original element lacks
+   */
+  private missingItemsEdit(
+    document: AndroidDocument,
+    resource: AndroidResource,
+    data: TranslationData,
+    markupKeys: Set<string>,
+    indent: string,
+    eol: string
+  ): XmlEdit | null {
+    const { content } = document;
+    const { element } = resource;
+    const existing = new Set(resource.entries.map(entry => entry.item));
+    const missing = this.itemsFor(data, resource.name).filter(
+      ([item]) => !existing.has(item)
+    );
+
+    if (missing.length === 0) {
+      return null;
+    }
+
+    const lastItem = resource.entries[resource.entries.length - 1]?.element;
+    const itemIndent = lastItem
+      ? indentationOf(content, lastItem)
+      : indentationOf(content, element) + indent;
+    const lines = missing.map(
+      ([item, value]) =>
+        `${eol}${itemIndent}${this.renderItem(resource.kind, resource.name, item, value, markupKeys)}`
+    );
+
+    if (element.selfClosing) {
+      const openTag = content
+        .slice(element.start, element.end - 2)
+        .replace(/\s*$/, '');
+      return {
+        start: element.start,
+        end: element.end,
+        text: `${openTag}>${lines.join('')}${eol}${indentationOf(content, element)}</${element.name}>`,
+      };
+    }
+
+    const insertAt =
+      element.contentStart + innerXml(content, element).trimEnd().length;
+    return { start: insertAt, end: insertAt, text: lines.join('') };
+  }
+
+  /**
+   * Item values stored in flat data for a plurals or string-array resource
+   */
+  private itemsFor(data: TranslationData, name: string): [string, string][] {
+    const items: [string, string][] = [];
+
+    for (const [key, value] of Object.entries(data)) {
+      const match = key.match(ITEM_KEY);
+      if (match && match[1] === name && typeof value === 'string') {
+        items.push([match[2]!, value]);
+      }
+    }
+
+    return items;
+  }
+
+  private renderItem(
+    kind: AndroidResourceKind,
+    name: string,
+    item: string,
+    value: string,
+    markupKeys: Set<string>
+  ): string {
+    const text = this.encodeValue(`${name}[${item}]`, value, markupKeys);
+    return kind === 'plurals'
+      ? `<item quantity="${escapeXml(item, true)}">${text}</item>`
+      : `<item>${text}</item>`;
+  }
+
+  /**
+   * Render resources for data that has no element in the written document
+   */
+  private buildNewResources(
+    data: TranslationData,
+    knownNames: Set<string>,
+    template: AndroidDocument | null,
+    markupKeys: Set<string>,
+    indent: string,
+    eol: string
+  ): string[] {
+    const rendered: string[] = [];
+    const handled = new Set<string>(knownNames);
+
+    // Keep the template's order for resources it defines
+    for (const resource of template?.resources ?? []) {
+      if (handled.has(resource.name)) {
+        continue;
+      }
+
+      const markup = this.renderResource(
+        resource.kind,
+        resource.name,
+        data,
+        markupKeys,
+        indent,
+        eol,
+        resource.entries.map(entry => entry.item ?? '')
+      );
+      if (markup) {
+        handled.add(resource.name);
+        rendered.push(
+          resource.comment
+            ? `<!-- ${resource.comment} -->${eol}${indent}${markup}`
+            : markup
+        );
+      }
+    }
+
+    for (const key of Object.keys(data)) {
+      const match = key.match(ITEM_KEY);
+      const name = match ? match[1]! : key;
+
+      if (handled.has(name)) {
+        continue;
+      }
+
+      const kind: AndroidResourceKind = !match
+        ? 'string'
+        : /^\d+$/.test(match[2]!)
+          ? 'string-array'
+          : 'plurals';
+      const markup = this.renderResource(
+        kind,
+        name,
+        data,
+        markupKeys,
+        indent,
+        eol
+      );
+      if (markup) {
+        handled.add(name);
+        rendered.push(markup);
+      }
+    }
+
+    return rendered;
+  }
+
+  private renderResource(
+    kind: AndroidResourceKind,
+    name: string,
+    data: TranslationData,
+    markupKeys: Set<string>,
+    indent: string,
+    eol: string,
+    itemOrder: string[] = []
+  ): string | null {
+    const nameAttribute = escapeXml(name, true);
+
+    if (kind === 'string') {
+      const value = getFlatValue(data, name);
+      return value === undefined
+        ? null
+        : `<string name="${nameAttribute}">${this.encodeValue(name, value, markupKeys)}</string>`;
+    }
+
+    const order = kind === 'plurals' ? PLURAL_QUANTITIES : itemOrder;
+    const items = this.itemsFor(data, name).sort(
+      ([a], [b]) => rank(order, a) - rank(order, b)
+    );
+    if (items.length === 0) {
+      return null;
+    }
+
+    const lines = items.map(
+      ([item, value]) =>
+        `${indent}${indent}${this.renderItem(kind, name, item, value, markupKeys)}`
+    );
+
+    return [
+      `<${kind} name="${nameAttribute}">`,
+      ...lines,
+      `${indent}</${kind}>`,
+    ].join(eol);
+  }
+
+  /**
+   * Insert rendered resources after the last element in `<resources>`
+   */
+  private insertResourcesEdit(
+    document: AndroidDocument,
+    resources: string[],
+    indent: string,
+    eol: string
+  ): XmlEdit {
+    const { content, root } = document;
+
+    if (root.selfClosing) {
+      return {
+        start: root.start,
+        end: root.end,
+        text: `<resources>${resources.map(resource => `${eol}${indent}${resource}`).join('')}${eol}</resources>`,
+      };
+    }
+
+    const insertAt =
+      root.contentStart + innerXml(content, root).trimEnd().length;
+
+    return {
+      start: insertAt,
+      end: insertAt,
+      text: resources.map(resource => `${eol}${indent}${resource}`).join(''),
+    };
+  }
+
+  private detectIndent(document: AndroidDocument): string {
+    const first = childElements(document.root)[0];
+    const indent = first ? indentationOf(document.content, first) : '';
+    return indent || DEFAULT_INDENT;
+  }
+}
+
+/**
+ * Copy of flat data whose plurals have every quantity of `language`.
+ * Missing quantities start out as the `other` item, which Android falls
+ * back to anyway.
+ */
+function completePluralItems(
+  data: TranslationData,
+  language: string
+): TranslationData {
+  const completed = { ...data };
+
+  for (const [key, value] of Object.entries(data)) {
+    const match = key.match(ITEM_KEY);
+    if (match?.[2] !== 'other' || typeof value !== 'string') {
+      continue;
+    }
+
+    for (const quantity of pluralCategories(language)) {
+      completed[`${match[1]}[${quantity}]`] ??= value;
+    }
+  }
+
+  return completed;
+}
+
+/**
+ * Encode a value with inline markup: known Android tags are kept, any other
+ * tag and every bare `&`, `<`, `>` and quote in the text is escaped. Values
+ * whose tags don't nest are written as plain text rather than as broken XML.
+ */
+function escapeMarkup(value: string): string {
+  let escaped = '';
+  let last = 0;
+
+  for (const match of value.matchAll(MARKUP_TAG)) {
+    escaped += escapeMarkupText(value.slice(last, match.index));
+    escaped += MARKUP_TAGS.has(match[1]!.toLowerCase())
+      ? match[0]
+      : escapeMarkupText(match[0]);
+    last = match.index! + match[0].length;
+  }
+  escaped += escapeMarkupText(value.slice(last));
+
+  try {
+    parseXml(`<string>${escaped}</string>`);
+  } catch {
+    return escapeXml(escapeAndroidString(value));
+  }
+  return escaped;
+}
+
+/**
+ * Escape text between tags; character references already in it are kept
+ */
+function escapeMarkupText(text: string): string {
+  return text
+    .replace(XML_ENTITY, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\\?(['"])/g, '\\$1');
+}
+
+/**
+ * Resolve Android string escapes: `\'`, `\"`, `\n`, `\t`, `\uXXXX` and
+ * `\@`. Unquoted whitespace collapses to single spaces the way aapt does,
+ * while text inside unescaped double quotes is kept verbatim.
+ */
+export function unescapeAndroidString(raw: string): string {
+  let result = '';
+  let quoted = false;
+  let pendingSpace = false;
+  const source = raw.trim();
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!;
+
+    if (!quoted && /\s/.test(char)) {
+      pendingSpace = true;
+      continue;
+    }
+
+    if (pendingSpace) {
+      result += ' ';
+      pendingSpace = false;
+    }
+
+    if (char === '"') {
+      quoted = !quoted;
+      continue;
+    }
+
+    if (char !== '\\' || i === source.length - 1) {
+      result += char;
+      continue;
+    }
+
+    const next = source[++i]!;
+    if (next === 'n') {
+      result += '\n';
+    } else if (next === 't') {
+      result += '\t';
+    } else if (
+      next === 'u' &&
+      /^[0-9a-fA-F]{4}$/.test(source.slice(i + 1, i + 5))
+    ) {
+      result += String.fromCharCode(parseInt(source.slice(i + 1, i + 5), 16));
+      i += 4;
+    } else {
+      result += next;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Escape a plain value for an Android string resource (before XML escaping)
+ */
+export function escapeAndroidString(value: string): string {
+  let escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t');
+
+  // A leading @ or ? would be read as a resource or attribute reference
+  if (/^[@?]/.test(escaped)) {
+    escaped = `\\${escaped}`;
+  }
+
+  // Quote values whose spacing aapt would otherwise collapse
+  if (/^\s|\s$|\s\s/.test(escaped)) {
+    escaped = `"${escaped}"`;
+  }
+
+  return escaped;
+}
+
+const VALUES_DIRECTORY = /^values-([a-z]{2,3})(?:-r([A-Z]{2}|\d{3}))?$/;
+const VALUES_BCP47_DIRECTORY = /^values-b\+([a-zA-Z]{2,3}(?:\+[a-zA-Z0-9]+)*)$/;
+
+/**
+ * Language of an Android resource file from its `values-xx-rRR` folder.
+ *
+ * The unqualified `values` folder holds the default strings and resolves
+ * to `baseLanguage`. Returns null for files outside a values folder.
+ */
+export function androidLanguageFromPath(
+  filePath: string,
+  baseLanguage: string
+): string | null {
+  if (path.extname(filePath).toLowerCase() !== '.xml') {
+    return null;
+  }
+
+  const directory = path.basename(path.dirname(filePath));
+  if (directory === 'values') {
+    return baseLanguage;
+  }
+
+  const match = directory.match(VALUES_DIRECTORY);
+  if (match) {
+    return match[2] ? `${match[1]}-${match[2]}` : match[1]!;
+  }
+
+  const bcp47 = directory.match(VALUES_BCP47_DIRECTORY);
+  return bcp47 ? bcp47[1]!.replace(/\+/g, '-') : null;
+}
+
+/**
+ * Path of the resource file for a language next to the base `values` file,
+ * e.g. `res/values/strings.xml` + `pt-BR` -> `res/values-pt-rBR/strings.xml`
+ */
+export function androidResourcePath(
+  baseFilePath: string,
+  language: string
+): string {
+  const [lang, ...subtags] = language.split(/[-_]/);
+  let directory = `values-${lang}`;
+
+  if (subtags.length === 1 && /^([a-zA-Z]{2}|\d{3})$/.test(subtags[0]!)) {
+    directory = `values-${lang}-r${subtags[0]!.toUpperCase()}`;
+  } else if (subtags.length > 0) {
+    directory = `values-b+${[lang, ...subtags].join('+')}`;
+  }
+
+  return path.join(
+    path.dirname(path.dirname(baseFilePath)),
+    directory,
+    path.basename(baseFilePath)
+  );
+}
+
+export default AndroidStringsFormat;
@@ -0,0 +1,329 @@
+import path from 'path';
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+  getFlatValue,
+} from './base-format';
+
+interface StringsEntry {
+  key: string;
+  value: string;
+  /** Comment block directly above the entry */
+  comment?: string;
+  /** Raw comment markup, copied when the entry is added to another file */
+  rawComment?: string;
+  /** Offsets of the quoted value token */
+  valueStart: number;
+  valueEnd: number;
+}
+
+interface StringsToken {
+  type: 'string' | 'word' | 'symbol' | 'comment';
+  value: string;
+  start: number;
+  end: number;
+}
+
+export class AppleStringsFormat implements FormatHandler {
+  readonly flatKeys = true;
+
+  /**
+   * Parse an Apple `.strings` file of `"key" = "value";` pairs. The
+   * comment above an entry is passed to the translator as context.
+   */
+  parse(content: string): ParsedContent {
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+
+    for (const entry of this.readEntries(content)) {
+      data[entry.key] = entry.value;
+      if (entry.comment) {
+        contexts[entry.key] = `Notes: ${entry.comment}`;
+      }
+    }
+
+    return { data, metadata: { contexts } };
+  }
+
+  /**
+   * Write translation data into a `.strings` file.
+   *
+   * Only the value tokens of changed entries are rewritten. Entries the
+   * file lacks are appended together with their comment from the template.
+   */
+  stringify(data: TranslationData, options: FormatWriteOptions = {}): string {
+    const content = options.original?.originalContent ?? '';
+    const eol = detectLineEnding(content);
+    const entries = this.readEntries(content);
+    const known = new Set(entries.map(entry => entry.key));
+    let result = content;
+
+    for (const entry of [...entries].reverse()) {
+      const value = getFlatValue(data, entry.key);
+      if (value === undefined || value === entry.value) {
+        continue;
+      }
+
+      result =
+        result.slice(0, entry.valueStart) +
+        `"${escapeStringsValue(value)}"` +
+        result.slice(entry.valueEnd);
+    }
+
+    const templateEntries = new Map(
+      this.readEntries(options.template?.originalContent ?? '').map(entry => [
+        entry.key,
+        entry,
+      ])
+    );
+    const added: string[] = [];
+
+    for (const [key, value] of Object.entries(data)) {
+      if (typeof value !== 'string' || known.has(key)) {
+        continue;
+      }
+
+      const comment = templateEntries.get(key)?.rawComment;
+      added.push(
+        `${comment ? comment + eol : ''}"${escapeStringsValue(key)}" = "${escapeStringsValue(value)}";`
+      );
+    }
+
+    if (added.length === 0) {
+      return result;
+    }
+
+    const head = result.trimEnd();
+    return `${head ? head + eol + eol : ''}${added.join(eol + eol)}${eol}`;
+  }
+
+  private readEntries(content: string): StringsEntry[] {
+    const tokens = tokenize(content);
+    const entries: StringsEntry[] = [];
+    let comments: StringsToken[] = [];
+    let index = 0;
+
+    while (index < tokens.length) {
+      const token = tokens[index]!;
+
+      if (token.type === 'comment') {
+        comments.push(token);
+        index++;
+        continue;
+      }
+
+      const key = token;
+      const equals = tokens[index + 1];
+      const value = tokens[index + 2];
+      const semicolon = tokens[index + 3];
+
+      if (
+        (key.type !== 'string' && key.type !== 'word') ||
+        equals?.value !== '=' ||
+        (value?.type !== 'string' && value?.type !== 'word') ||
+        semicolon?.value !== ';'
+      ) {
+        throw new Error(
+          `Invalid .strings syntax at line ${lineOf(content, token.start)}`
+        );
+      }
+
+      // Only the comment block right above the key describes it
+      const related = comments.filter(
+        comment => !/\n\s*\n/.test(content.slice(comment.end, key.start))
+      );
+      const comment = related[related.length - 1];
+
+      entries.push({
+        key: key.value,
+        value: value.value,
+        ...(comment
+          ? {
+              comment: commentText(comment.value),
+              rawComment: content.slice(comment.start, comment.end),
+            }
+          : {}),
+        valueStart: value.start,
+        valueEnd: value.end,
+      });
+
+      comments = [];
+      index += 4;
+    }
+
+    return entries;
+  }
+}
+
+function tokenize(content: string): StringsToken[] {
+  const tokens: StringsToken[] = [];
+  let index = content.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (index < content.length) {
+    const char = content[index]!;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (content.startsWith('/*', index)) {
+      const end = content.indexOf('*/', index + 2);
+      if (end === -1) {
+        throw new Error(
+          `Unterminated comment at line ${lineOf(content, index)}`
+        );
+      }
+      tokens.push({
+        type: 'comment',
+        value: content.slice(index + 2, end),
+        start: index,
+        end: end + 2,
+      });
+      index = end + 2;
+      continue;
+    }
+
+    if (content.startsWith('//', index)) {
+      const newline = content.indexOf('\n', index);
+      const end = newline === -1 ? content.length : newline;
+      tokens.push({
+        type: 'comment',
+        value: content.slice(index + 2, end),
+        start: index,
+        end: content[end - 1] === '\r' ? end - 1 : end,
+      });
+      index = end;
+      continue;
+    }
+
+    if (char === '"') {
+      let end = index + 1;
+      while (end < content.length && content[end] !== '"') {
+        end += content[end] === '\\' ? 2 : 1;
+      }
+      if (end >= content.length) {
+        throw new Error(
+          `Unterminated string at line ${lineOf(content, index)}`
+        );
+      }
+      tokens.push({
+        type: 'string',
+        value: unescapeStringsValue(content.slice(index + 1, end)),
+        start: index,
+        end: end + 1,
+      });
+      index = end + 1;
+      continue;
+    }
+
+    if (char === '=' || char === ';') {
+      tokens.push({
+        type: 'symbol',
+        value: char,
+        start: index,
+        end: index + 1,
+      });
+      index++;
+      continue;
+    }
+
+    const word = content.slice(index).match(/^[^\s"=;/]+/);
+    if (!word) {
+      throw new Error(
+        `Invalid .strings syntax at line ${lineOf(content, index)}`
+      );
+    }
+    tokens.push({
+      type: 'word',
+      value: word[0],
+      start: index,
+      end: index + word[0].length,
+    });
+    index += word[0].length;
+  }
+
+  return tokens;
+}
+
+function commentText(raw: string): string {
+  return raw
+    .split('\n')
+    .map(line => line.replace(/^\s*\*?\s?/, '').trim())
+    .filter(line => line !== '')
+    .join(' ');
+}
+
+function lineOf(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Resolve `\"`, `\\`, `\n`, `\t`, `\r` and `\Uxxxx` escapes
+ */
+export function unescapeStringsValue(raw: string): string {
+  return raw.replace(
+    /\\(?:[uU]([0-9a-fA-F]{4})|(.))/gs,
+    (_match, hex: string | undefined, char: string | undefined) => {
+      if (hex) return String.fromCharCode(parseInt(hex, 16));
+      if (char === 'n') return '\n';
+      if (char === 't') return '\t';
+      if (char === 'r') return '\r';
+      return char ?? '';
+    }
+  );
+}
+
+/**
+ * Escape a value for a double-quoted `.strings` token
+ */
+export function escapeStringsValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Language of a `.strings` or `.stringsdict` file from its `xx.lproj`
+ * folder. `Base.lproj` holds the base language; returns null outside an
+ * `.lproj` folder.
+ */
+export function appleLanguageFromPath(
+  filePath: string,
+  baseLanguage: string
+): string | null {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension !== '.strings' && extension !== '.stringsdict') {
+    return null;
+  }
+
+  const match = path.basename(path.dirname(filePath)).match(/^(.+)\.lproj$/);
+  if (!match) {
+    return null;
+  }
+
+  return match[1] === 'Base' ? baseLanguage : match[1]!.replace(/_/g, '-');
+}
+
+/**
+ * Path of the file for a language next to the base `.lproj` folder,
+ * e.g. `en.lproj/Localizable.strings` + `de` -> `de.lproj/Localizable.strings`
+ */
+export function appleResourcePath(
+  baseFilePath: string,
+  language: string
+): string {
+  return path.join(
+    path.dirname(path.dirname(baseFilePath)),
+    `${language}.lproj`,
+    path.basename(baseFilePath)
+  );
+}
+
+export default AppleStringsFormat;
@@ -0,0 +1,199 @@
+import path from 'path';
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+} from './base-format';
+
+interface ArbPlaceholder {
+  type?: string;
+  example?: string;
+  description?: string;
+  format?: string;
+}
+
+interface ArbMetadata {
+  description?: string;
+  context?: string;
+  placeholders?: Record<string, ArbPlaceholder>;
+}
+
+type ArbDocument = Record<string, unknown>;
+
+const LOCALE_KEY = '@@locale';
+
+/** Locale suffix of an ARB file name, e.g. `app_pt_BR` -> `pt_BR` */
+const ARB_LOCALE =
+  /(?:^|_)([a-z]{2,3}(?:_[A-Z][a-z]{3})?(?:_(?:[A-Z]{2}|\d{3}))?)$/;
+
+export class ArbFormat implements FormatHandler {
+  readonly flatKeys = true;
+
+  /**
+   * Parse a Flutter ARB file. `@key` metadata and `@@` globals are not
+   * translatable; descriptions and placeholders become translator context.
+   */
+  parse(content: string): ParsedContent {
+    const document = this.parseDocument(content);
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(document)) {
+      if (key.startsWith('@') || typeof value !== 'string') {
+        continue;
+      }
+
+      data[key] = value;
+
+      const metadata = document[`@${key}`];
+      const context =
+        metadata && typeof metadata === 'object'
+          ? this.describeMetadata(metadata as ArbMetadata)
+          : '';
+      if (context) {
+        contexts[key] = context;
+      }
+    }
+
+    return { data, metadata: { contexts } };
+  }
+
+  /**
+   * Write an ARB file, keeping the original's metadata and key order.
+   * New messages follow the template's order and `@@locale` is set to the
+   * written language.
+   */
+  stringify(data: TranslationData, options: FormatWriteOptions = {}): string {
+    const content = options.original?.originalContent ?? '';
+    const original = content ? this.parseDocument(content) : {};
+    const template = options.template?.originalContent
+      ? this.parseDocument(options.template.originalContent)
+      : {};
+    const locale = options.language?.replace(/-/g, '_');
+    const result: ArbDocument =
+      locale && !(LOCALE_KEY in original) ? { [LOCALE_KEY]: locale } : {};
+
+    for (const [key, value] of Object.entries(original)) {
+      const update = data[key];
+      if (key === LOCALE_KEY) {
+        result[key] = locale ?? value;
+      } else {
+        result[key] =
+          !key.startsWith('@') && typeof update === 'string' ? update : value;
+      }
+    }
+
+    const order = [
+      ...Object.keys(template),
+      ...Object.keys(data).filter(key => !(key in template)),
+    ];
+    for (const key of order) {
+      const value = data[key];
+      if (
+        !key.startsWith('@') &&
+        !(key in result) &&
+        typeof value === 'string'
+      ) {
+        result[key] = value;
+      }
+    }
+
+    const indent = content.match(/^[ \t]+(?=")/m)?.[0] ?? '  ';
+    const eol = detectLineEnding(content);
+    const serialized = JSON.stringify(result, null, indent).replace(/\n/g, eol);
+
+    const trailing = content && !/\n$/.test(content) ? '' : eol;
+    const output = serialized + trailing;
+
+    // Keep the file byte-identical when nothing changed
+    return content && JSON.stringify(original) === JSON.stringify(result)
+      ? content
+      : output;
+  }
+
+  private describeMetadata(metadata: ArbMetadata): string {
+    const parts: string[] = [];
+
+    if (metadata.description) {
+      parts.push(`Description: ${metadata.description}`);
+    }
+    if (metadata.context) {
+      parts.push(`Context: ${metadata.context}`);
+    }
+
+    const placeholders = Object.entries(metadata.placeholders ?? {}).map(
+      ([name, placeholder]) => {
+        const details = [
+          placeholder.type,
+          placeholder.example !== undefined
+            ? `e.g. ${placeholder.example}`
+            : undefined,
+          placeholder.description,
+        ].filter(Boolean);
+        return details.length > 0
+          ? `{${name}} (${details.join(', ')})`
+          : `{${name}}`;
+      }
+    );
+    if (placeholders.length > 0) {
+      parts.push(`Placeholders: ${placeholders.join('; ')}`);
+    }
+
+    return parts.join('\n');
+  }
+
+  private parseDocument(content: string): ArbDocument {
+    let document: unknown;
+
+    try {
+      document = JSON.parse(content.replace(/^\uFEFF/, ''));
+    } catch (error) {
+      throw new Error(
+        `Invalid ARB: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+      throw new Error('Invalid ARB: file must contain a JSON object');
+    }
+
+    return document as ArbDocument;
+  }
+}
+
+/**
+ * Language of an ARB file from its name, e.g. `app_pt_BR.arb` -> `pt-BR`
+ */
+export function arbLanguageFromPath(filePath: string): string | null {
+  if (path.extname(filePath).toLowerCase() !== '.arb') {
+    return null;
+  }
+
+  const match = path.basename(filePath, '.arb').match(ARB_LOCALE);
+  return match ? match[1]!.replace(/_/g, '-') : null;
+}
+
+/**
+ * Path of the ARB file for a language next to the base file,
+ * e.g. `l10n/app_en.arb` + `pt-BR` -> `l10n/app_pt_BR.arb`
+ */
+export function arbResourcePath(
+  baseFilePath: string,
+  language: string
+): string {
+  const name = path.basename(baseFilePath, '.arb');
+  const locale = language.replace(/-/g, '_');
+  const renamed = ARB_LOCALE.test(name)
+    ? name.replace(
+        ARB_LOCALE,
+        (match, current: string) =>
+          match.slice(0, match.length - current.length) + locale
+      )
+    : `${name}_${locale}`;
+
+  return path.join(path.dirname(baseFilePath), `${renamed}.arb`);
+}
+
+export default ArbFormat;
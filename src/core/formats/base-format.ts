@@ -0,0 +1,159 @@
+import type {
+  ParsedFile,
+  ParsedFileMetadata,
+  TranslationData,
+} from '../parser';
+
+export interface ParsedContent {
+  data: TranslationData;
+  metadata?: ParsedFileMetadata;
+}
+
+export interface FormatParseOptions {
+  /** Language to read from files that hold several languages */
+  language?: string;
+}
+
+export interface FormatWriteOptions {
+  /** The file being rewritten; used to keep headers, comments and ordering */
+  original?: ParsedFile;
+  /** File new entries are derived from, usually the base language file */
+  template?: ParsedFile;
+  /** Language code of the file being written */
+  language?: string;
+  /**
+   * Keys to flag for review, in formats that have a marker for it. When
+   * given, the marker is removed from every other key.
+   */
+  needsReview?: string[];
+}
+
+export interface FormatHandler {
+  /**
+   * Whether keys are opaque strings (e.g. gettext msgids) rather than
+   * dot-separated paths into nested objects
+   */
+  readonly flatKeys: boolean;
+  /**
+   * Whether one file holds every language (e.g. `.xcstrings` catalogs), so
+   * targets are read from and written back into the base file
+   */
+  readonly multiLanguage?: boolean;
+  parse(
+    // eslint-disable-next-line
+    content: string,
+    // eslint-disable-next-line
+    options?: FormatParseOptions
+  ): ParsedContent;
+  stringify(
+    // eslint-disable-next-line
+    data: TranslationData,
+    // eslint-disable-next-line
+    options?: FormatWriteOptions
+  ): string;
+  /**
+   * The base file as a target in `language` needs it, e.g. with the plural
+   * forms the target language has and the base language lacks. Optional;
+   * without it every target is translated from the base as it is.
+   */
+  baseForTarget?(
+    // eslint-disable-next-line
+    base: ParsedFile,
+    // eslint-disable-next-line
+    target: ParsedFile,
+    // eslint-disable-next-line
+    language: string
+  ): ParsedFile;
+}
+
+/**
+ * Read a top-level string value from flat translation data
+ */
+export function getFlatValue(
+  data: TranslationData,
+  key: string
+): string | undefined {
+  const value = Object.prototype.hasOwnProperty.call(data, key)
+    ? data[key]
+    : undefined;
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Detect the line ending used by a document
+ */
+export function detectLineEnding(content: string): string {
+  return content.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * Key order after adding `added` to `existing`: each new key goes after
+ * the closest key that precedes it in `reference` (usually the base
+ * file), or before the closest one that follows it, or at the end
+ */
+export function insertionOrder(
+  existing: string[],
+  added: string[],
+  reference: string[] = []
+): string[] {
+  const order = [...existing];
+  const rank = (key: string) => {
+    const index = reference.indexOf(key);
+    return index === -1 ? reference.length : index;
+  };
+
+  for (const key of [...added].sort((a, b) => rank(a) - rank(b))) {
+    const index = reference.indexOf(key);
+    const before = reference
+      .slice(0, Math.max(index, 0))
+      .reverse()
+      .find(candidate => order.includes(candidate));
+    const after = reference
+      .slice(index + 1)
+      .find(candidate => order.includes(candidate));
+
+    if (index !== -1 && before !== undefined) {
+      order.splice(order.indexOf(before) + 1, 0, key);
+    } else if (index !== -1 && after !== undefined) {
+      order.splice(order.indexOf(after), 0, key);
+    } else {
+      order.push(key);
+    }
+  }
+
+  return order;
+}
+
+/**
+ * CLDR plural categories of a language, e.g. `one`, `few`, `many` and
+ * `other` for Russian. Unknown languages get `one` and `other`.
+ */
+export function pluralCategories(language: string): string[] {
+  try {
+    return new Intl.PluralRules(language.replace(/_/g, '-')).resolvedOptions()
+      .pluralCategories;
+  } catch {
+    return ['one', 'other'];
+  }
+}
+
+/**
+ * Copy of `value` whose object keys follow the order of `reference`
+ */
+export function orderLike(value: unknown, reference: unknown): unknown {
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const template = isPlainObject(reference) ? reference : {};
+  return Object.fromEntries(
+    insertionOrder([], Object.keys(value), Object.keys(template)).map(key => [
+      key,
+      orderLike(value[key], template[key]),
+    ])
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,653 @@
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+  getFlatValue,
+} from './base-format';
+import { TextEdit, applyEdits, rank } from './format-helpers';
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface FluentPattern {
+  /** Dedented pattern source, placeables kept as written */
+  text: string;
+  /** Offset right after the `=` or variant key */
+  start: number;
+  /** End of the pattern's last non-blank line */
+  end: number;
+}
+
+interface FluentVariant {
+  key: string;
+  isDefault: boolean;
+  pattern: FluentPattern;
+}
+
+interface FluentSelect {
+  selector: string;
+  variants: FluentVariant[];
+  /** Indentation of the variant lines */
+  indent: string;
+}
+
+interface FluentPart {
+  /** Data key: message id, optionally followed by `.attribute` */
+  key: string;
+  pattern: FluentPattern;
+  select?: FluentSelect;
+  /** Indentation of the part's own line, for attributes */
+  indent: string;
+}
+
+interface FluentEntry {
+  id: string;
+  /** `#` comment attached to the entry */
+  comment?: string;
+  /** Comment and blank lines between the previous entry and this one */
+  leading: string[];
+  value?: FluentPart;
+  attributes: FluentPart[];
+  end: number;
+}
+
+const ENTRY_START = /^(-?[a-zA-Z][\w-]*)[ \t]*=/;
+
+const ATTRIBUTE_START = /^([ \t]+)\.([a-zA-Z][\w-]*)[ \t]*=/;
+
+const VARIANT_START = /^([ \t]*)(\*?)\[[ \t]*([^\]\s]+)[ \t]*\]/;
+
+const SELECT_START = /^\{\s*([^{}]+?)\s*->\s*$/;
+
+/** `{ $var }`, `{ -term }`, `{ message.attr }`, `{ NUMBER($n) }`, ... */
+const PLACEABLE = /\{[^{}]*\}/g;
+
+/** Data key split into message id, attribute and select variant */
+const DATA_KEY = /^(-?[a-zA-Z][\w-]*)(?:\.([a-zA-Z][\w-]*))?(?:\[([^\]]+)\])?$/;
+
+const DEFAULT_INDENT = '    ';
+
+export class FluentFormat implements FormatHandler {
+  readonly flatKeys = true;
+
+  /**
+   * Parse a Fluent `.ftl` resource.
+   *
+   * Messages and terms (`-brand`) are keyed by id, attributes by
+   * `id.attribute`. A pattern made of a single select expression is split
+   * into its variants, e.g. `emails[one]` and `emails[other]`.
+   */
+  parse(content: string): ParsedContent {
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+
+    for (const entry of this.readEntries(content)) {
+      for (const part of this.parts(entry)) {
+        const units: [string, FluentPattern, string[]][] = part.select
+          ? part.select.variants.map(variant => [
+              `${part.key}[${variant.key}]`,
+              variant.pattern,
+              [
+                `Select variant [${variant.key}]${variant.isDefault ? ' (default)' : ''} of { ${part.select!.selector} }`,
+              ],
+            ])
+          : [[part.key, part.pattern, []]];
+
+        for (const [key, pattern, notes] of units) {
+          data[key] = pattern.text;
+
+          const context = this.describe(entry, part, pattern.text, notes);
+          if (context) {
+            contexts[key] = context;
+          }
+        }
+      }
+    }
+
+    return { data, metadata: { contexts } };
+  }
+
+  /**
+   * Write a Fluent resource. Changed patterns are replaced in place so
+   * comments and blank-line grouping stay untouched; new messages are
+   * rendered from the template, with its comments and grouping.
+   */
+  stringify(data: TranslationData, options: FormatWriteOptions = {}): string {
+    const content = options.original?.originalContent ?? '';
+    const templateContent = options.template?.originalContent ?? '';
+    const eol = detectLineEnding(content || templateContent);
+    const entries = this.readEntries(content);
+    const edits: TextEdit[] = [];
+
+    for (const entry of entries) {
+      edits.push(...this.entryEdits(content, entry, data, eol));
+    }
+
+    let result = applyEdits(content, edits);
+
+    const known = new Set(entries.map(entry => entry.id));
+    const templateEntries = this.readEntries(templateContent);
+    const order = [
+      ...templateEntries.map(entry => entry.id),
+      ...Object.keys(data).map(key => key.match(DATA_KEY)?.[1] ?? key),
+    ];
+    const rendered: string[] = [];
+
+    for (const id of order) {
+      if (known.has(id)) {
+        continue;
+      }
+      known.add(id);
+
+      const template = templateEntries.find(entry => entry.id === id);
+      const body = this.renderEntry(id, data, template, eol);
+      if (!body) {
+        continue;
+      }
+
+      const leading = (template?.leading ?? []).filter(
+        line => !/^##/.test(line) || !result.split(/\r?\n/).includes(line)
+      );
+      rendered.push([...leading, body].join(eol));
+      result = `${result.replace(/\s*$/, '')}${eol}${rendered[rendered.length - 1]}`;
+    }
+
+    if (rendered.length === 0) {
+      return result;
+    }
+
+    return `${result.replace(/^(\r?\n)+/, '').replace(/\s*$/, '')}${eol}`;
+  }
+
+  private parts(entry: FluentEntry): FluentPart[] {
+    return [...(entry.value ? [entry.value] : []), ...entry.attributes];
+  }
+
+  /**
+   * Translator context: the attached comment, what the key refers to and
+   * the placeables that must survive translation
+   */
+  private describe(
+    entry: FluentEntry,
+    part: FluentPart,
+    text: string,
+    notes: string[]
+  ): string {
+    const parts: string[] = [];
+
+    if (entry.comment) {
+      parts.push(`Notes: ${entry.comment}`);
+    }
+    if (entry.id.startsWith('-') && part.key === entry.id) {
+      parts.push(`Term, referenced from other messages as { ${entry.id} }`);
+    }
+    if (part.key !== entry.id) {
+      parts.push(
+        `Attribute .${part.key.slice(entry.id.length + 1)} of ${entry.id}`
+      );
+    }
+    parts.push(...notes);
+
+    const placeables = [...new Set(text.match(PLACEABLE) ?? [])];
+    if (placeables.length > 0) {
+      parts.push(
+        `Keep placeables and term references unchanged: ${placeables.join(', ')}`
+      );
+    }
+
+    return parts.join('\n');
+  }
+
+  private readEntries(content: string): FluentEntry[] {
+    const entries: FluentEntry[] = [];
+    const lines = splitLines(content);
+    let comment: string[] = [];
+    let leading: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+      const line = lines[index]!;
+
+      if (line.text.trim() === '' || /^#/.test(line.text)) {
+        // A comment is attached only when it directly precedes the entry
+        if (/^#(?!#)/.test(line.text)) {
+          comment.push(line.text.replace(/^#\s?/, ''));
+        } else {
+          comment = [];
+        }
+        leading.push(line.text);
+        index++;
+        continue;
+      }
+
+      const match = line.text.match(ENTRY_START);
+      let last = index;
+      for (let next = index + 1; next < lines.length; next++) {
+        const text = lines[next]!.text;
+        // A placeable may close at the start of a line, e.g. a select's `}`
+        if (/^([ \t]|\})/.test(text) && text.trim() !== '') {
+          last = next;
+        } else if (text.trim() !== '') {
+          break;
+        }
+      }
+
+      if (match) {
+        entries.push(
+          this.readEntry(
+            match[1]!,
+            lines.slice(index, last + 1),
+            comment,
+            leading
+          )
+        );
+      }
+
+      comment = [];
+      leading = [];
+      index = last + 1;
+    }
+
+    return entries;
+  }
+
+  private readEntry(
+    id: string,
+    lines: Line[],
+    comment: string[],
+    leading: string[]
+  ): FluentEntry {
+    const segments: Line[][] = [[]];
+
+    for (const line of lines) {
+      if (ATTRIBUTE_START.test(line.text)) {
+        segments.push([]);
+      }
+      segments[segments.length - 1]!.push(line);
+    }
+
+    const [valueLines, ...attributeLines] = segments;
+    const value = this.readPart(id, valueLines!, '');
+    const attributes = attributeLines.map(part => {
+      const match = part[0]!.text.match(ATTRIBUTE_START)!;
+      return this.readPart(`${id}.${match[2]}`, part, match[1]!)!;
+    });
+
+    return {
+      id,
+      ...(comment.length > 0 ? { comment: comment.join(' ').trim() } : {}),
+      leading,
+      ...(value ? { value } : {}),
+      attributes,
+      end: lines[lines.length - 1]!.end,
+    };
+  }
+
+  private readPart(
+    key: string,
+    lines: Line[],
+    indent: string
+  ): FluentPart | undefined {
+    const first = lines[0]!;
+    const start = first.start + first.text.indexOf('=') + 1;
+    const pattern = readPattern(first, start, lines.slice(1));
+
+    if (!pattern) {
+      return undefined;
+    }
+
+    const select = this.readSelect(first, start, lines.slice(1));
+    return { key, pattern, ...(select ? { select } : {}), indent };
+  }
+
+  /**
+   * Split a pattern that consists of one select expression into variants.
+   * Patterns with text around the selector or nested selects stay whole.
+   */
+  private readSelect(
+    first: Line,
+    start: number,
+    rest: Line[]
+  ): FluentSelect | undefined {
+    const lines = [
+      { text: first.text.slice(start - first.start), start, end: first.end },
+      ...rest,
+    ].filter(line => line.text.trim() !== '');
+
+    const opening = lines[0]?.text.trim().match(SELECT_START);
+    if (
+      !opening ||
+      lines.length < 3 ||
+      lines[lines.length - 1]!.text.trim() !== '}'
+    ) {
+      return undefined;
+    }
+
+    const variants: { match: RegExpMatchArray; lines: Line[] }[] = [];
+    for (const line of lines.slice(1, -1)) {
+      const match = line.text.match(VARIANT_START);
+      if (match) {
+        variants.push({ match, lines: [line] });
+      } else if (variants.length > 0) {
+        variants[variants.length - 1]!.lines.push(line);
+      } else {
+        return undefined;
+      }
+    }
+
+    const parsed: FluentVariant[] = [];
+    for (const { match, lines: variantLines } of variants) {
+      const head = variantLines[0]!;
+      const variantPattern = readPattern(
+        head,
+        head.start + match[0].length,
+        variantLines.slice(1)
+      );
+
+      // Nested selects are kept as one pattern
+      if (!variantPattern || variantPattern.text.includes('->')) {
+        return undefined;
+      }
+
+      parsed.push({
+        key: match[3]!,
+        isDefault: match[2] === '*',
+        pattern: variantPattern,
+      });
+    }
+
+    if (!parsed.some(variant => variant.isDefault)) {
+      return undefined;
+    }
+
+    const firstVariant = variants[0]!;
+    return {
+      selector: opening[1]!,
+      variants: parsed,
+      indent: firstVariant.match[1]! + (firstVariant.match[2] ? ' ' : ''),
+    };
+  }
+
+  private entryEdits(
+    content: string,
+    entry: FluentEntry,
+    data: TranslationData,
+    eol: string
+  ): TextEdit[] {
+    const edits: TextEdit[] = [];
+    const attributeIndent = entry.attributes[0]?.indent ?? DEFAULT_INDENT;
+
+    for (const part of this.parts(entry)) {
+      const indent = part.indent + DEFAULT_INDENT;
+
+      if (!part.select) {
+        const value = getFlatValue(data, part.key);
+        if (value !== undefined && value !== part.pattern.text) {
+          edits.push({
+            start: part.pattern.start,
+            end: part.pattern.end,
+            text: renderPattern(value, indent, eol),
+          });
+        }
+        continue;
+      }
+
+      const { select } = part;
+      const variantIndent = select.indent;
+      for (const variant of select.variants) {
+        const value = getFlatValue(data, `${part.key}[${variant.key}]`);
+        if (value !== undefined && value !== variant.pattern.text) {
+          edits.push({
+            start: variant.pattern.start,
+            end: variant.pattern.end,
+            text: renderPattern(value, variantIndent + DEFAULT_INDENT, eol),
+          });
+        }
+      }
+
+      // Variants the target language needs beyond the original's
+      const existing = new Set(select.variants.map(variant => variant.key));
+      const missing = variantsFor(data, part.key).filter(
+        ([key]) => !existing.has(key)
+      );
+      if (missing.length > 0) {
+        const end = select.variants[select.variants.length - 1]!.pattern.end;
+        edits.push({
+          start: end,
+          end,
+          text: missing
+            .map(
+              ([key, value]) =>
+                `${eol}${variantIndent}[${key}]${renderPattern(value, variantIndent + DEFAULT_INDENT, eol)}`
+            )
+            .join(''),
+        });
+      }
+    }
+
+    const existing = new Set(entry.attributes.map(part => part.key));
+    const added = attributesFor(data, entry.id).filter(
+      ([name]) => !existing.has(`${entry.id}.${name}`)
+    );
+    if (added.length > 0) {
+      edits.push({
+        start: entry.end,
+        end: entry.end,
+        text: added
+          .map(
+            ([name, value]) =>
+              `${eol}${attributeIndent}.${name} =${renderPattern(value, attributeIndent + DEFAULT_INDENT, eol)}`
+          )
+          .join(''),
+      });
+    }
+
+    return edits;
+  }
+
+  /**
+   * Render a message missing from the written file, following the
+   * template's structure for attributes and select expressions
+   */
+  private renderEntry(
+    id: string,
+    data: TranslationData,
+    template: FluentEntry | undefined,
+    eol: string
+  ): string | null {
+    const templateParts = new Map(
+      (template ? this.parts(template) : []).map(part => [part.key, part])
+    );
+    const lines: string[] = [];
+
+    const value = this.renderPart(id, data, templateParts.get(id), '', eol);
+    lines.push(`${id} =${value ?? ''}`);
+
+    const attributeNames = [
+      ...(template?.attributes ?? []).map(part =>
+        part.key.slice(id.length + 1)
+      ),
+      ...attributesFor(data, id).map(([name]) => name),
+    ];
+    let hasAttributes = false;
+
+    for (const name of new Set(attributeNames)) {
+      const key = `${id}.${name}`;
+      const rendered = this.renderPart(
+        key,
+        data,
+        templateParts.get(key),
+        DEFAULT_INDENT,
+        eol
+      );
+      if (rendered !== null) {
+        lines.push(`${DEFAULT_INDENT}.${name} =${rendered}`);
+        hasAttributes = true;
+      }
+    }
+
+    return value !== null || hasAttributes ? lines.join(eol) : null;
+  }
+
+  private renderPart(
+    key: string,
+    data: TranslationData,
+    template: FluentPart | undefined,
+    indent: string,
+    eol: string
+  ): string | null {
+    const variants = variantsFor(data, key);
+
+    if (variants.length === 0) {
+      const value = getFlatValue(data, key);
+      return value === undefined
+        ? null
+        : renderPattern(value, indent + DEFAULT_INDENT, eol);
+    }
+
+    if (!template?.select) {
+      throw new Error(
+        `Cannot write Fluent variants of "${key}" without a select expression in the template`
+      );
+    }
+
+    const { select } = template;
+    const order = select.variants.map(variant => variant.key);
+    const defaultKey =
+      select.variants.find(variant => variant.isDefault)?.key ??
+      variants[variants.length - 1]![0];
+    const expressionIndent = indent + DEFAULT_INDENT;
+    const variantIndent = expressionIndent + DEFAULT_INDENT;
+
+    const sorted = [...variants].sort(
+      ([a], [b]) => rank(order, a) - rank(order, b)
+    );
+    const rendered = sorted.map(
+      ([name, value]) =>
+        `${name === defaultKey ? variantIndent.slice(1) + '*' : variantIndent}[${name}]${renderPattern(value, variantIndent + DEFAULT_INDENT, eol)}`
+    );
+
+    return [
+      '',
+      `${expressionIndent}{ ${select.selector} ->`,
+      ...rendered,
+      `${expressionIndent}}`,
+    ].join(eol);
+  }
+}
+
+function splitLines(content: string): Line[] {
+  const lines: Line[] = [];
+  const pattern = /([^\r\n]*)(\r\n|\r|\n|$)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content)) !== null) {
+    if (match[0] === '') {
+      break;
+    }
+    lines.push({
+      text: match[1]!,
+      start: match.index,
+      end: match.index + match[1]!.length,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Read a pattern that starts inline at `start` and continues on indented
+ * lines, dedenting the continuation lines the way Fluent does
+ */
+function readPattern(
+  first: Line,
+  start: number,
+  rest: Line[]
+): FluentPattern | undefined {
+  const inline = first.text.slice(start - first.start).trim();
+  const block = rest.filter(line => line.text.trim() !== '');
+  const lastLine = block[block.length - 1];
+  // A closing `}` at the start of a line doesn't count towards the indent
+  const indented = block.filter(line => /^[ \t]/.test(line.text));
+  const indent =
+    indented.length > 0
+      ? Math.min(...indented.map(line => line.text.match(/^[ \t]*/)![0].length))
+      : 0;
+
+  const lines = [
+    ...(inline ? [inline] : []),
+    ...rest.map(line => line.text.slice(indent).trimEnd()),
+  ];
+  const text = lines.join('\n').trim();
+
+  if (!text) {
+    return undefined;
+  }
+
+  return { text, start, end: lastLine ? lastLine.end : first.end };
+}
+
+/**
+ * Render a pattern after `=` or a variant key. Multiline text goes on
+ * indented lines; characters that would start syntax are escaped.
+ */
+function renderPattern(value: string, indent: string, eol: string): string {
+  if (!value.includes('\n')) {
+    return value ? ` ${value}` : ' {""}';
+  }
+
+  return value
+    .split('\n')
+    .map(line =>
+      line ? `${eol}${indent}${line.replace(/^([[*.])/, '{"$1"}')}` : eol
+    )
+    .join('');
+}
+
+/**
+ * Select variants stored in flat data for a message or attribute
+ */
+function variantsFor(data: TranslationData, key: string): [string, string][] {
+  const variants: [string, string][] = [];
+
+  for (const [dataKey, value] of Object.entries(data)) {
+    if (
+      typeof value === 'string' &&
+      dataKey.startsWith(`${key}[`) &&
+      dataKey.endsWith(']')
+    ) {
+      variants.push([dataKey.slice(key.length + 1, -1), value]);
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * Plain attribute values stored in flat data for a message
+ */
+function attributesFor(data: TranslationData, id: string): [string, string][] {
+  const attributes = new Map<string, string>();
+
+  for (const [dataKey, value] of Object.entries(data)) {
+    const match = dataKey.match(DATA_KEY);
+    if (
+      match &&
+      match[1] === id &&
+      match[2] &&
+      !match[3] &&
+      typeof value === 'string'
+    ) {
+      attributes.set(match[2], value);
+    }
+  }
+
+  return [...attributes];
+}
+
+export default FluentFormat;
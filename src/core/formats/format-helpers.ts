@@ -0,0 +1,27 @@
+/** Replacement of the text between two offsets of a document */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Apply non-overlapping edits to a document
+ */
+export function applyEdits(content: string, edits: TextEdit[]): string {
+  let result = content;
+
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  return result;
+}
+
+/**
+ * Sort position of `item` in `order`; items not in it sort last
+ */
+export function rank(order: string[], item: string): number {
+  const index = order.indexOf(item);
+  return index === -1 ? order.length : index;
+}
@@ -0,0 +1,761 @@
+import type { ParsedFile, TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+  getFlatValue,
+} from './base-format';
+
+/** Separator gettext uses between msgctxt and msgid in lookup keys */
+export const GETTEXT_CONTEXT_SEPARATOR = '\u0004';
+
+const PLURAL_FORMS_FIELD = /^Plural-Forms:.*\bnplurals\s*=\s*(\d+)/m;
+
+/** Germanic and most Romance languages */
+const TWO_FORMS = 'nplurals=2; plural=(n != 1);';
+
+/**
+ * `Plural-Forms` of languages whose rules differ from {@link TWO_FORMS},
+ * as listed in the GNU gettext manual
+ */
+const GETTEXT_PLURAL_FORMS: Record<string, string> = {
+  ja: 'nplurals=1; plural=0;',
+  ko: 'nplurals=1; plural=0;',
+  zh: 'nplurals=1; plural=0;',
+  vi: 'nplurals=1; plural=0;',
+  th: 'nplurals=1; plural=0;',
+  id: 'nplurals=1; plural=0;',
+  ms: 'nplurals=1; plural=0;',
+  fr: 'nplurals=2; plural=(n > 1);',
+  pt_BR: 'nplurals=2; plural=(n > 1);',
+  ru: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  uk: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  be: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  sr: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  hr: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  bs: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  pl: 'nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  cs: 'nplurals=3; plural=(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2);',
+  sk: 'nplurals=3; plural=(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2);',
+  lt: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  lv: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n != 0 ? 1 : 2);',
+  ro: 'nplurals=3; plural=(n==1 ? 0 : (n==0 || (n%100 > 0 && n%100 < 20)) ? 1 : 2);',
+  sl: 'nplurals=4; plural=(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3);',
+  ga: 'nplurals=5; plural=(n==1 ? 0 : n==2 ? 1 : n<7 ? 2 : n<11 ? 3 : 4);',
+  ar: 'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);',
+};
+
+interface PoEntry {
+  key: string;
+  msgctxt?: string;
+  msgid: string;
+  msgidPlural?: string;
+  msgstr: string[];
+  extractedComments: string[];
+  references: string[];
+  /** Flags from the `#,` comment, e.g. `fuzzy` or `c-format` */
+  flags: string[];
+  /** Line index of the first line of the entry */
+  start: number;
+  /** Line index of the first msgstr line */
+  msgstrStart: number;
+  /** Line index just past the entry */
+  end: number;
+}
+
+interface PoDocument {
+  lines: string[];
+  eol: string;
+  header: PoEntry | null;
+  entries: PoEntry[];
+}
+
+type PoField = 'msgctxt' | 'msgid' | 'msgid_plural' | 'msgstr';
+
+export class GettextFormat implements FormatHandler {
+  readonly flatKeys = true;
+
+  /**
+   * Parse a PO/POT catalog into flat translation data.
+   *
+   * Keys are the msgid, prefixed with `msgctxt` and the gettext EOT
+   * separator when a context is present. Plural entries produce one key per
+   * `msgstr[n]`, suffixed with `[n]`.
+   */
+  parse(content: string): ParsedContent {
+    const document = this.parseDocument(content);
+    const pluralForms = headerPluralForms(document) ?? 2;
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+    const sources: Record<string, string> = {};
+    const needsReview: string[] = [];
+
+    for (const entry of document.entries) {
+      const forms = entry.msgidPlural !== undefined ? entry.msgstr : null;
+      const keys: string[] = [];
+
+      if (forms) {
+        const count = Math.max(forms.length, pluralForms);
+        for (let n = 0; n < count; n++) {
+          const key = this.pluralKey(entry.key, n);
+          data[key] = forms[n] ?? '';
+          sources[key] = n === 0 ? entry.msgid : entry.msgidPlural!;
+          contexts[key] = this.buildContext(entry, n);
+          keys.push(key);
+        }
+      } else {
+        data[entry.key] = entry.msgstr[0] ?? '';
+        sources[entry.key] = entry.msgid;
+        contexts[entry.key] = this.buildContext(entry);
+        keys.push(entry.key);
+      }
+
+      if (entry.flags.includes('fuzzy')) {
+        needsReview.push(...keys);
+      }
+    }
+
+    for (const key of Object.keys(contexts)) {
+      if (!contexts[key]) {
+        delete contexts[key];
+      }
+    }
+
+    return { data, metadata: { contexts, sources, needsReview } };
+  }
+
+  /**
+   * Write translation data back to PO.
+   *
+   * When an original document is given only msgstr lines are rewritten; the
+   * header, comments, msgids and spacing of every entry are left as they
+   * were. Rewritten entries lose their `fuzzy` flag, and `needsReview`
+   * keys get it. Keys missing from the document are appended, copying
+   * comments and msgids from the template entry when one exists.
+   */
+  stringify(data: TranslationData, options: FormatWriteOptions = {}): string {
+    const originalContent = options.original?.originalContent;
+    const document = originalContent
+      ? this.parseDocument(originalContent)
+      : null;
+    const template = options.template?.originalContent
+      ? this.parseDocument(options.template.originalContent)
+      : null;
+
+    const eol = document?.eol ?? '\n';
+    const output: string[] = [];
+    const knownKeys = new Set<string>();
+
+    if (document) {
+      let cursor = 0;
+
+      const pluralForms =
+        headerPluralForms(document) ??
+        (options.language ? languagePluralForms(options.language) : 2);
+
+      // A header without Plural-Forms gets the language's, so msgfmt
+      // accepts the plural entries
+      const header = document.header;
+      if (
+        header &&
+        options.language &&
+        headerPluralForms(document) === undefined
+      ) {
+        output.push(
+          ...document.lines.slice(0, header.end),
+          this.quote(`Plural-Forms: ${gettextPluralForms(options.language)}\n`)
+        );
+        cursor = header.end;
+      }
+
+      for (const entry of document.entries) {
+        knownKeys.add(entry.key);
+        const values = this.collectValues(data, entry, pluralForms);
+        const changed = !values.every((value, n) => value === entry.msgstr[n]);
+        const fuzzy = entry.flags.includes('fuzzy');
+        const keys =
+          entry.msgidPlural === undefined
+            ? [entry.key]
+            : values.map((_, n) => this.pluralKey(entry.key, n));
+        const flagFuzzy = options.needsReview
+          ? keys.some(key => options.needsReview!.includes(key))
+          : fuzzy && !changed;
+
+        if (!changed && flagFuzzy === fuzzy) {
+          continue;
+        }
+
+        output.push(...document.lines.slice(cursor, entry.start));
+        output.push(
+          ...this.withFuzzyFlag(
+            document.lines.slice(entry.start, entry.msgstrStart),
+            flagFuzzy
+          )
+        );
+        output.push(
+          ...(changed
+            ? this.formatMsgstr(entry, values)
+            : document.lines.slice(entry.msgstrStart, entry.end))
+        );
+        cursor = entry.end;
+      }
+
+      output.push(...document.lines.slice(cursor));
+    } else {
+      output.push(...this.buildHeader(options.language), '');
+    }
+
+    const newEntries = this.buildNewEntries(data, knownKeys, template);
+    if (newEntries.length > 0) {
+      // Keep the trailing newline of the original document at the very end
+      const hadTrailingNewline = output[output.length - 1] === '';
+      if (hadTrailingNewline) {
+        output.pop();
+      }
+
+      for (const entryLines of newEntries) {
+        if (output.length > 0 && output[output.length - 1] !== '') {
+          output.push('');
+        }
+        output.push(...entryLines);
+      }
+
+      output.push('');
+    }
+
+    return output.join(eol);
+  }
+
+  /**
+   * The base catalog with as many plural forms per entry as the target
+   * language has: from the target's `Plural-Forms` header, or gettext's
+   * usual `nplurals` for `language` when it has none. Forms the base
+   * lacks (e.g. `msgstr[2]` for Russian) are translated from
+   * `msgid_plural`; forms the language doesn't have are left out.
+   */
+  baseForTarget(
+    base: ParsedFile,
+    target: ParsedFile,
+    language: string
+  ): ParsedFile {
+    const forms =
+      headerPluralForms(this.parseDocument(target.originalContent)) ??
+      languagePluralForms(language);
+
+    const data = { ...base.data };
+    const contexts = { ...base.metadata?.contexts };
+    const sources = { ...base.metadata?.sources };
+
+    for (const entry of this.parseDocument(base.originalContent).entries) {
+      if (entry.msgidPlural === undefined) {
+        continue;
+      }
+
+      for (let n = 0; n < forms; n++) {
+        const key = this.pluralKey(entry.key, n);
+        if (!(key in data)) {
+          data[key] = '';
+          sources[key] = entry.msgidPlural;
+          contexts[key] = this.buildContext(entry, n);
+        }
+      }
+      for (let n = forms; this.pluralKey(entry.key, n) in data; n++) {
+        const key = this.pluralKey(entry.key, n);
+        delete data[key];
+        delete sources[key];
+        delete contexts[key];
+      }
+    }
+
+    return { ...base, data, metadata: { ...base.metadata, contexts, sources } };
+  }
+
+  /**
+   * Build the key used for a single plural form
+   */
+  pluralKey(key: string, index: number): string {
+    return `${key}[${index}]`;
+  }
+
+  /**
+   * Parse a PO document, keeping line positions so writes can be surgical
+   */
+  private parseDocument(content: string): PoDocument {
+    const eol = detectLineEnding(content);
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const entries: PoEntry[] = [];
+    let header: PoEntry | null = null;
+
+    let index = 0;
+    while (index < lines.length) {
+      if (lines[index]!.trim() === '') {
+        index++;
+        continue;
+      }
+
+      const start = index;
+      while (index < lines.length && lines[index]!.trim() !== '') {
+        index++;
+      }
+
+      const entry = this.parseEntry(lines, start, index);
+      if (!entry) {
+        continue;
+      }
+
+      if (entry.msgid === '' && entry.msgctxt === undefined) {
+        header = entry;
+      } else {
+        entries.push(entry);
+      }
+    }
+
+    return { lines, eol, header, entries };
+  }
+
+  /**
+   * Parse a single blank-line delimited block. Obsolete (`#~`) and
+   * comment-only blocks are not entries.
+   */
+  private parseEntry(
+    lines: string[],
+    start: number,
+    end: number
+  ): PoEntry | null {
+    const fields: Partial<Record<PoField, string>> = {};
+    const msgstr: string[] = [];
+    const extractedComments: string[] = [];
+    const references: string[] = [];
+    const flags: string[] = [];
+    let msgstrStart = -1;
+    let current: { field: PoField; index?: number } | null = null;
+
+    for (let i = start; i < end; i++) {
+      const line = lines[i]!.trim();
+
+      if (line.startsWith('#~')) {
+        return null;
+      }
+
+      if (line.startsWith('#.')) {
+        extractedComments.push(line.slice(2).trim());
+        continue;
+      }
+
+      if (line.startsWith('#:')) {
+        references.push(...line.slice(2).trim().split(/\s+/).filter(Boolean));
+        continue;
+      }
+
+      if (line.startsWith('#,')) {
+        flags.push(...parseFlags(line));
+        continue;
+      }
+
+      if (line.startsWith('#')) {
+        continue;
+      }
+
+      const keyword = line.match(
+        /^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s+(".*")$/
+      );
+
+      if (keyword) {
+        const field = keyword[1] as PoField;
+        const value = this.unquote(keyword[3]!);
+
+        if (field === 'msgstr') {
+          if (msgstrStart === -1) {
+            msgstrStart = i;
+          }
+          const formIndex = keyword[2] !== undefined ? Number(keyword[2]) : 0;
+          msgstr[formIndex] = value;
+          current = { field, index: formIndex };
+        } else {
+          fields[field] = value;
+          current = { field };
+        }
+        continue;
+      }
+
+      if (line.startsWith('"') && current) {
+        const value = this.unquote(line);
+        if (current.field === 'msgstr') {
+          msgstr[current.index ?? 0] += value;
+        } else {
+          fields[current.field] += value;
+        }
+        continue;
+      }
+
+      throw new Error(`Invalid PO syntax at line ${i + 1}: ${line}`);
+    }
+
+    if (fields.msgid === undefined) {
+      return null;
+    }
+
+    if (msgstrStart === -1) {
+      throw new Error(`Missing msgstr for msgid "${fields.msgid}"`);
+    }
+
+    const entry: PoEntry = {
+      key: this.entryKey(fields.msgctxt, fields.msgid),
+      msgid: fields.msgid,
+      msgstr: Array.from(msgstr, value => value ?? ''),
+      extractedComments,
+      references,
+      flags,
+      start,
+      msgstrStart,
+      end,
+    };
+
+    if (fields.msgctxt !== undefined) {
+      entry.msgctxt = fields.msgctxt;
+    }
+    if (fields.msgid_plural !== undefined) {
+      entry.msgidPlural = fields.msgid_plural;
+    }
+
+    return entry;
+  }
+
+  private entryKey(msgctxt: string | undefined, msgid: string): string {
+    return msgctxt !== undefined
+      ? `${msgctxt}${GETTEXT_CONTEXT_SEPARATOR}${msgid}`
+      : msgid;
+  }
+
+  /**
+   * Describe an entry for the translation provider
+   */
+  private buildContext(entry: PoEntry, pluralIndex?: number): string {
+    const parts: string[] = [];
+
+    if (entry.extractedComments.length > 0) {
+      parts.push(`Translator notes: ${entry.extractedComments.join(' ')}`);
+    }
+
+    if (entry.references.length > 0) {
+      parts.push(`References: ${entry.references.join(', ')}`);
+    }
+
+    if (entry.msgctxt !== undefined) {
+      parts.push(`Message context: ${entry.msgctxt}`);
+    }
+
+    if (pluralIndex !== undefined) {
+      parts.push(
+        `Plural form ${pluralIndex} (singular: "${entry.msgid}", plural: "${entry.msgidPlural}")`
+      );
+    }
+
+    return parts.join('\n');
+  }
+
+  /**
+   * Resolve the msgstr values an entry should have after applying data
+   */
+  private collectValues(
+    data: TranslationData,
+    entry: PoEntry,
+    pluralForms: number
+  ): string[] {
+    if (entry.msgidPlural === undefined) {
+      return [getFlatValue(data, entry.key) ?? entry.msgstr[0] ?? ''];
+    }
+
+    const values: string[] = [];
+    const count = Math.max(entry.msgstr.length, pluralForms);
+    for (let n = 0; n < count; n++) {
+      values.push(
+        getFlatValue(data, this.pluralKey(entry.key, n)) ??
+          entry.msgstr[n] ??
+          ''
+      );
+    }
+
+    // Pick up additional forms for languages with more than two plurals
+    let n = count;
+    while (getFlatValue(data, this.pluralKey(entry.key, n)) !== undefined) {
+      values.push(getFlatValue(data, this.pluralKey(entry.key, n))!);
+      n++;
+    }
+
+    return values;
+  }
+
+  /**
+   * Build PO entries for keys that are not in the written document
+   */
+  private buildNewEntries(
+    data: TranslationData,
+    knownKeys: Set<string>,
+    template: PoDocument | null
+  ): string[][] {
+    const templateEntries = new Map(
+      (template?.entries ?? []).map(entry => [entry.key, entry])
+    );
+    const pending = new Map<string, Map<number, string>>();
+    const singular = new Map<string, string>();
+
+    for (const [key, value] of Object.entries(data)) {
+      if (typeof value !== 'string' || knownKeys.has(key)) {
+        continue;
+      }
+
+      const pluralMatch = key.match(/^([\s\S]*)\[(\d+)\]$/);
+      if (pluralMatch && !templateEntries.has(key)) {
+        const baseKey = pluralMatch[1]!;
+        // Extra forms of existing entries are written by collectValues
+        if (knownKeys.has(baseKey)) {
+          continue;
+        }
+        if (!pending.has(baseKey)) {
+          pending.set(baseKey, new Map());
+        }
+        pending.get(baseKey)!.set(Number(pluralMatch[2]), value);
+        continue;
+      }
+
+      singular.set(key, value);
+    }
+
+    const result: string[][] = [];
+
+    for (const [key, value] of singular) {
+      const templateEntry = templateEntries.get(key);
+      const entry: PoEntry = templateEntry ?? this.entryFromKey(key);
+      result.push([
+        ...this.templateLines(template, templateEntry, entry),
+        ...this.formatMsgstr({ ...entry, msgidPlural: undefined }, [value]),
+      ]);
+    }
+
+    for (const [key, forms] of pending) {
+      const templateEntry = templateEntries.get(key);
+      const entry: PoEntry = templateEntry ?? {
+        ...this.entryFromKey(key),
+        msgidPlural: this.entryFromKey(key).msgid,
+      };
+      const count = Math.max(...forms.keys()) + 1;
+      const values = Array.from(
+        { length: count },
+        (_, n) => forms.get(n) ?? ''
+      );
+      result.push([
+        ...this.templateLines(template, templateEntry, entry),
+        ...this.formatMsgstr(entry, values),
+      ]);
+    }
+
+    return result;
+  }
+
+  /**
+   * Lines preceding msgstr for a new entry. Extracted comments, references
+   * and msgids are copied from the template; translator comments and flags
+   * belong to the template's own translation and are left behind.
+   */
+  private templateLines(
+    template: PoDocument | null,
+    templateEntry: PoEntry | undefined,
+    entry: PoEntry
+  ): string[] {
+    if (template && templateEntry) {
+      return template.lines
+        .slice(templateEntry.start, templateEntry.msgstrStart)
+        .filter(line => {
+          const trimmed = line.trim();
+          return (
+            !trimmed.startsWith('#') ||
+            trimmed.startsWith('#.') ||
+            trimmed.startsWith('#:')
+          );
+        });
+    }
+
+    const lines: string[] = [];
+    if (entry.msgctxt !== undefined) {
+      lines.push(...this.formatField('msgctxt', entry.msgctxt));
+    }
+    lines.push(...this.formatField('msgid', entry.msgid));
+    if (entry.msgidPlural !== undefined) {
+      lines.push(...this.formatField('msgid_plural', entry.msgidPlural));
+    }
+    return lines;
+  }
+
+  private entryFromKey(key: string): PoEntry {
+    const separatorIndex = key.indexOf(GETTEXT_CONTEXT_SEPARATOR);
+    const entry: PoEntry = {
+      key,
+      msgid: separatorIndex === -1 ? key : key.slice(separatorIndex + 1),
+      msgstr: [],
+      extractedComments: [],
+      references: [],
+      flags: [],
+      start: -1,
+      msgstrStart: -1,
+      end: -1,
+    };
+
+    if (separatorIndex !== -1) {
+      entry.msgctxt = key.slice(0, separatorIndex);
+    }
+
+    return entry;
+  }
+
+  private buildHeader(language?: string): string[] {
+    const headerFields = [
+      ...(language ? [`Language: ${language}`] : []),
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: 8bit',
+      ...(language ? [`Plural-Forms: ${gettextPluralForms(language)}`] : []),
+    ];
+
+    return [
+      'msgid ""',
+      'msgstr ""',
+      ...headerFields.map(field => this.quote(`${field}\n`)),
+    ];
+  }
+
+  /**
+   * Comment and msgid lines of an entry with the `fuzzy` flag added or
+   * removed
+   */
+  private withFuzzyFlag(lines: string[], fuzzy: boolean): string[] {
+    const result = [...lines];
+    const flagsIndex = result.findIndex(line => line.trim().startsWith('#,'));
+    const flags =
+      flagsIndex === -1
+        ? []
+        : parseFlags(result[flagsIndex]!.trim()).filter(
+            flag => flag !== 'fuzzy'
+          );
+    const flagsLine =
+      fuzzy || flags.length > 0
+        ? [`#, ${[...(fuzzy ? ['fuzzy'] : []), ...flags].join(', ')}`]
+        : [];
+
+    if (flagsIndex !== -1) {
+      result.splice(flagsIndex, 1, ...flagsLine);
+      return result;
+    }
+
+    // Flags follow the other comments and precede `#|` previous msgids
+    const insertAt = result.findIndex(line => {
+      const trimmed = line.trim();
+      return !trimmed.startsWith('#') || trimmed.startsWith('#|');
+    });
+    result.splice(insertAt === -1 ? result.length : insertAt, 0, ...flagsLine);
+    return result;
+  }
+
+  private formatMsgstr(entry: PoEntry, values: string[]): string[] {
+    if (entry.msgidPlural === undefined) {
+      return this.formatField('msgstr', values[0] ?? '');
+    }
+
+    return values.flatMap((value, n) =>
+      this.formatField(`msgstr[${n}]`, value)
+    );
+  }
+
+  /**
+   * Format a keyword and value, splitting multi-line strings after each
+   * newline the way xgettext does
+   */
+  private formatField(keyword: string, value: string): string[] {
+    const segments = value.split(/(?<=\n)/);
+
+    if (segments.length <= 1 || (segments.length === 2 && !segments[1])) {
+      return [`${keyword} ${this.quote(value)}`];
+    }
+
+    return [
+      `${keyword} ""`,
+      ...segments.filter(Boolean).map(segment => this.quote(segment)),
+    ];
+  }
+
+  private quote(value: string): string {
+    const escaped = value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+    return `"${escaped}"`;
+  }
+
+  private unquote(value: string): string {
+    const inner = value.trim().slice(1, -1);
+    return inner.replace(/\\(.)/g, (_, char: string) => {
+      switch (char) {
+        case 'n':
+          return '\n';
+        case 'r':
+          return '\r';
+        case 't':
+          return '\t';
+        case 'a':
+          return '\x07';
+        case 'b':
+          return '\b';
+        case 'f':
+          return '\f';
+        case 'v':
+          return '\v';
+        default:
+          return char;
+      }
+    });
+  }
+}
+
+/**
+ * Flags of a `#,` comment line
+ */
+function parseFlags(line: string): string[] {
+  return line
+    .slice(2)
+    .split(',')
+    .map(flag => flag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * `nplurals` from the `Plural-Forms` header of a catalog
+ */
+function headerPluralForms(document: PoDocument): number | undefined {
+  const match = document.header?.msgstr[0]?.match(PLURAL_FORMS_FIELD);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * `Plural-Forms` header value for a language, e.g. `pt-BR` or `ru_RU`
+ */
+function gettextPluralForms(language: string): string {
+  const [code = '', region] = language.split(/[-_]/);
+  const base = code.toLowerCase();
+  return (
+    GETTEXT_PLURAL_FORMS[`${base}_${region?.toUpperCase()}`] ??
+    GETTEXT_PLURAL_FORMS[base] ??
+    TWO_FORMS
+  );
+}
+
+/**
+ * `nplurals` gettext uses for a language
+ */
+function languagePluralForms(language: string): number {
+  return Number(gettextPluralForms(language).match(/nplurals=(\d+)/)![1]);
+}
+
+export default GettextFormat;
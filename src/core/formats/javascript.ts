@@ -0,0 +1,743 @@
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+  orderLike,
+} from './base-format';
+
+export interface JavaScriptWriteOptions extends FormatWriteOptions {
+  /** Indent width for files that have no indentation to copy */
+  indent?: number;
+}
+
+interface Token {
+  type: 'punct' | 'name' | 'string' | 'number' | 'template';
+  /** Decoded value for strings and numbers, source text otherwise */
+  value: string | number;
+  start: number;
+  end: number;
+  newlineBefore: boolean;
+}
+
+interface LiteralNode {
+  value: unknown;
+  start: number;
+  end: number;
+}
+
+interface ModuleExports {
+  /** Exported literals by export name; `default` for default exports */
+  exports: Map<string, LiteralNode>;
+  /** Quote character of the first string in the exported literals */
+  quote?: string;
+  /** Whether object keys are written without quotes where possible */
+  bareKeys: boolean;
+  /** Whether multiline literals end their last item with a comma */
+  trailingComma: boolean;
+}
+
+interface LiteralStyle {
+  unit: string;
+  eol: string;
+  quote: string;
+  bareKeys: boolean;
+  trailingComma: boolean;
+}
+
+const IDENTIFIER = /^[\p{ID_Start}_$][\p{ID_Continue}$\u200C\u200D]*$/u;
+
+/** Tokens that continue a type on the next line, e.g. `| 'b'` */
+const TYPE_CONTINUATION = new Set([
+  '|',
+  '&',
+  '.',
+  '[',
+  '<',
+  '=>',
+  '?',
+  ':',
+  'extends',
+  'is',
+  'keyof',
+]);
+
+export class JavaScriptFormat implements FormatHandler {
+  readonly flatKeys = false;
+  private readonly moduleStyle: 'commonjs' | 'esm';
+
+  /**
+   * @param moduleStyle Export statement for files written without a
+   * template: `module.exports` or `export default`
+   */
+  constructor(moduleStyle: 'commonjs' | 'esm') {
+    this.moduleStyle = moduleStyle;
+  }
+
+  /**
+   * Read a JavaScript or TypeScript locale module without running it.
+   * `export default`, `module.exports`, named exports and `export { ... }`
+   * lists of top-level constants are supported, as are `as const`,
+   * `satisfies` and type annotations. Named exports without a default
+   * export become top-level keys. Anything other than a static literal
+   * is rejected with its line and column.
+   */
+  parse(content: string): ParsedContent {
+    return { data: exportedData(readModule(content), content) };
+  }
+
+  /**
+   * Write a locale module by replacing the exported literals of the
+   * original file, or of the template for new files, so imports, export
+   * style and type assertions are kept. Literals copy the file's indent,
+   * quotes and key quoting.
+   */
+  stringify(
+    data: TranslationData,
+    options: JavaScriptWriteOptions = {}
+  ): string {
+    const original = options.original?.originalContent ?? '';
+    const templateContent = options.template?.originalContent ?? '';
+    const content = original.trim() ? original : templateContent;
+    const template = templateContent.trim()
+      ? readData(templateContent)
+      : undefined;
+    const fallbackUnit = ' '.repeat(options.indent ?? 2);
+
+    if (!content.trim()) {
+      const style: LiteralStyle = {
+        unit: fallbackUnit,
+        eol: '\n',
+        quote: '"',
+        bareKeys: false,
+        trailingComma: false,
+      };
+      const literal = render(orderLike(data, template), '', style);
+      return this.moduleStyle === 'commonjs'
+        ? `module.exports = ${literal};`
+        : `export default ${literal};`;
+    }
+
+    if (original.trim() && sameData(readData(original), data)) {
+      return original;
+    }
+
+    const layout = readModule(content);
+    const eol = detectLineEnding(content);
+    const defaultExport = layout.exports.get('default');
+    const first = defaultExport ?? [...layout.exports.values()][0];
+    const style: LiteralStyle = {
+      unit: indentUnit(content, first) ?? fallbackUnit,
+      eol,
+      quote: layout.quote ?? '"',
+      bareKeys: layout.bareKeys,
+      trailingComma: layout.trailingComma,
+    };
+
+    const replacements: Array<{ node: LiteralNode; value: unknown }> = [];
+    let appended = '';
+
+    if (defaultExport) {
+      replacements.push({
+        node: defaultExport,
+        value: orderLike(data, template),
+      });
+    } else {
+      const named = isObject(template) ? template : {};
+      for (const [name, node] of layout.exports) {
+        if (replacements.some(entry => entry.node === node)) continue;
+        replacements.push({
+          node,
+          value: name in data ? orderLike(data[name], named[name]) : {},
+        });
+      }
+      for (const name of Object.keys(data)) {
+        if (layout.exports.has(name)) continue;
+        if (!IDENTIFIER.test(name)) {
+          throw new Error(`Cannot export "${name}": not a valid identifier`);
+        }
+        const value = orderLike(data[name], named[name]);
+        appended += `export const ${name} = ${render(value, '', style)};${eol}`;
+      }
+    }
+
+    let result = content;
+    for (const { node, value } of replacements.sort(
+      (a, b) => b.node.start - a.node.start
+    )) {
+      result =
+        result.slice(0, node.start) +
+        render(value, lineIndent(content, node.start), style) +
+        result.slice(node.end);
+    }
+
+    if (!appended) {
+      return result;
+    }
+    return `${result.replace(/\s*$/, '')}${eol}${eol}${appended}`;
+  }
+}
+
+function readData(content: string): TranslationData {
+  return exportedData(readModule(content), content);
+}
+
+function exportedData(module: ModuleExports, content: string): TranslationData {
+  const defaultExport = module.exports.get('default');
+
+  if (defaultExport) {
+    if (!isObject(defaultExport.value)) {
+      throw new Error(
+        `The default export must be an object literal ${location(content, defaultExport.start)}`
+      );
+    }
+    return defaultExport.value as TranslationData;
+  }
+
+  if (module.exports.size === 0) {
+    throw new Error('No exported translations found');
+  }
+
+  return Object.fromEntries(
+    [...module.exports].map(([name, node]) => [name, node.value])
+  ) as TranslationData;
+}
+
+/**
+ * Statically read the exported literals of a module
+ */
+function readModule(content: string): ModuleExports {
+  const tokens = tokenize(content);
+  const declarations = new Map<string, LiteralNode>();
+  const references: Array<{ name: string; local: Token }> = [];
+  const exports = new Map<string, LiteralNode>();
+  let bareKeys = false;
+  let quotedKeys = false;
+  let index = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[index + offset];
+  const is = (value: string, offset = 0) => {
+    const token = peek(offset);
+    return (
+      (token?.type === 'punct' || token?.type === 'name') &&
+      token.value === value
+    );
+  };
+  const fail = (message: string, token = peek()): never => {
+    throw new Error(
+      `${message} ${location(content, token?.start ?? content.length)}`
+    );
+  };
+  const describe = (token: Token | undefined) =>
+    token ? `"${content.slice(token.start, token.end)}"` : 'end of file';
+  const expect = (value: string): Token => {
+    if (!is(value)) fail(`Expected "${value}" but found ${describe(peek())}`);
+    return tokens[index++];
+  };
+
+  const endStatement = () => {
+    if (is(';')) {
+      index++;
+    } else if (peek() && !peek()!.newlineBefore) {
+      fail(`Expected ";" but found ${describe(peek())}`);
+    }
+  };
+
+  // Skip a type annotation or assertion, stopping at the token that
+  // ends it: a separator, a closing bracket or the end of the line
+  const skipType = () => {
+    let depth = 0;
+    let previous: Token | undefined;
+    while (peek()) {
+      const token = peek()!;
+      const value = token.type === 'string' ? '' : String(token.value);
+      if (depth === 0) {
+        if ([',', ';', ')', ']', '}', '=', 'as', 'satisfies'].includes(value))
+          return;
+        if (
+          previous &&
+          token.newlineBefore &&
+          !TYPE_CONTINUATION.has(value) &&
+          !TYPE_CONTINUATION.has(String(previous.value))
+        ) {
+          return;
+        }
+      }
+      if (['(', '[', '{', '<'].includes(value)) depth++;
+      if ([')', ']', '}', '>'].includes(value)) depth--;
+      previous = token;
+      index++;
+    }
+  };
+
+  const skipAssertions = () => {
+    while (is('as') || is('satisfies')) {
+      index++;
+      skipType();
+    }
+  };
+
+  const parseExpression = (): LiteralNode => {
+    const node = parsePrimary();
+    skipAssertions();
+    return node;
+  };
+
+  const parsePrimary = (): LiteralNode => {
+    const token = peek() ?? fail('Expected a value but found end of file');
+
+    if (token.type === 'string' || token.type === 'number') {
+      index++;
+      return { value: token.value, start: token.start, end: token.end };
+    }
+    if (token.type === 'template') {
+      fail('Template literals with ${} substitutions are not static', token);
+    }
+    if (is('{')) return parseObject();
+    if (is('[')) return parseArray();
+    if (is('(')) {
+      index++;
+      const node = parseExpression();
+      expect(')');
+      return node;
+    }
+    if ((is('-') || is('+')) && peek(1)?.type === 'number') {
+      const number = tokens[index + 1];
+      index += 2;
+      const value = Number(number.value);
+      return {
+        value: token.value === '-' ? -value : value,
+        start: token.start,
+        end: number.end,
+      };
+    }
+    if (
+      token.type === 'name' &&
+      ['true', 'false', 'null'].includes(String(token.value))
+    ) {
+      index++;
+      return {
+        value: token.value === 'null' ? null : token.value === 'true',
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    return fail(`Expected a static literal but found ${describe(token)}`);
+  };
+
+  const parseObject = (): LiteralNode => {
+    const start = expect('{').start;
+    const value: Record<string, unknown> = {};
+
+    while (!is('}')) {
+      const token = peek() ?? fail('Expected "}" but found end of file');
+      let key: string;
+
+      if (is('...')) {
+        fail('Spread properties are not supported');
+      }
+      if (token.type === 'string' || token.type === 'number') {
+        key = String(token.value);
+        quotedKeys = quotedKeys || token.type === 'string';
+        index++;
+      } else if (token.type === 'name') {
+        key = String(token.value);
+        bareKeys = true;
+        index++;
+      } else if (is('[') && peek(1)?.type === 'string' && is(']', 2)) {
+        key = String(tokens[index + 1].value);
+        index += 3;
+      } else {
+        return fail(`Expected a property name but found ${describe(token)}`);
+      }
+
+      if (is(',') || is('}')) {
+        fail(`Shorthand property "${key}" is not a static literal`, token);
+      }
+      if (is('(')) {
+        fail(`Method "${key}" is not a static literal`, token);
+      }
+      expect(':');
+      value[key] = parseExpression().value;
+
+      if (!is('}')) expect(',');
+    }
+
+    return { value, start, end: tokens[index++].end };
+  };
+
+  const parseArray = (): LiteralNode => {
+    const start = expect('[').start;
+    const value: unknown[] = [];
+
+    while (!is(']')) {
+      if (is(',')) fail('Array holes are not supported');
+      if (is('...')) fail('Spread elements are not supported');
+      value.push(parseExpression().value);
+      if (!is(']')) expect(',');
+    }
+
+    return { value, start, end: tokens[index++].end };
+  };
+
+  // `export default messages` and `module.exports = messages` may name a
+  // top-level constant instead of holding the literal
+  const parseExportValue = (name: string) => {
+    const token = peek();
+    const next = peek(1);
+    if (
+      token?.type === 'name' &&
+      !['true', 'false', 'null'].includes(String(token.value)) &&
+      (!next ||
+        next.newlineBefore ||
+        [';', 'as', 'satisfies'].includes(String(next.value)))
+    ) {
+      index++;
+      skipAssertions();
+      references.push({ name, local: token });
+    } else {
+      exports.set(name, parseExpression());
+    }
+    endStatement();
+  };
+
+  const parseDeclaration = (exported: boolean) => {
+    do {
+      index++; // const, let or var, then each ","
+      const name = peek();
+      if (name?.type !== 'name') {
+        fail(`Expected a variable name but found ${describe(name)}`);
+      }
+      index++;
+      if (is(':')) {
+        index++;
+        skipType();
+      }
+      expect('=');
+      const node = parseExpression();
+      declarations.set(String(name!.value), node);
+      if (exported) exports.set(String(name!.value), node);
+    } while (is(','));
+    endStatement();
+  };
+
+  const skipTypeDeclaration = () => {
+    if (is('interface')) {
+      while (peek() && !is('{')) index++;
+      let depth = 0;
+      do {
+        if (is('{')) depth++;
+        if (is('}')) depth--;
+        index++;
+      } while (peek() && depth > 0);
+      return;
+    }
+    index++; // type
+    skipType();
+    expect('=');
+    skipType();
+    endStatement();
+  };
+
+  while (index < tokens.length) {
+    const token = peek()!;
+
+    if (is(';')) {
+      index++;
+    } else if (token.type === 'string') {
+      index++; // directive such as 'use strict'
+      endStatement();
+    } else if (is('import')) {
+      while (peek() && peek()!.type !== 'string') index++;
+      index++;
+      endStatement();
+    } else if (is('const') || is('let') || is('var')) {
+      parseDeclaration(false);
+    } else if (is('type') || is('interface')) {
+      skipTypeDeclaration();
+    } else if (is('module') && is('.', 1) && is('exports', 2) && is('=', 3)) {
+      index += 4;
+      parseExportValue('default');
+    } else if (is('export')) {
+      index++;
+      if (is('default')) {
+        index++;
+        parseExportValue('default');
+      } else if (is('const') || is('let') || is('var')) {
+        parseDeclaration(true);
+      } else if (is('type') || is('interface')) {
+        skipTypeDeclaration();
+      } else if (is('{')) {
+        index++;
+        while (!is('}')) {
+          const local = peek();
+          if (local?.type !== 'name') {
+            fail(`Expected an export name but found ${describe(local)}`);
+          }
+          index++;
+          let name = String(local!.value);
+          if (is('as')) {
+            index++;
+            name = String((peek() ?? fail('Expected an export name')).value);
+            index++;
+          }
+          references.push({ name, local: local! });
+          if (!is('}')) expect(',');
+        }
+        index++;
+        if (is('from')) fail('Re-exports are not supported');
+        endStatement();
+      } else {
+        fail(`Expected a static literal but found ${describe(peek())}`);
+      }
+    } else {
+      fail(`Unsupported statement starting with ${describe(token)}`);
+    }
+  }
+
+  for (const { name, local } of references) {
+    const node = declarations.get(String(local.value));
+    if (!node) {
+      fail(`"${local.value}" is not a top-level constant`, local);
+    }
+    exports.set(name, node!);
+  }
+
+  const quote = tokens.find(
+    token =>
+      token.type === 'string' &&
+      content[token.start] !== '`' &&
+      [...exports.values()].some(
+        node => token.start >= node.start && token.end <= node.end
+      )
+  );
+
+  return {
+    exports,
+    ...(quote ? { quote: content[quote.start] } : {}),
+    bareKeys: bareKeys || !quotedKeys,
+    trailingComma: tokens.some(
+      (token, position) =>
+        token.value === ',' &&
+        token.type === 'punct' &&
+        tokens[position + 1]?.newlineBefore &&
+        ['}', ']'].includes(String(tokens[position + 1].value))
+    ),
+  };
+}
+
+/**
+ * Split a module into tokens, skipping whitespace and comments
+ */
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  let index = content.startsWith('\uFEFF') ? 1 : 0;
+  let newlineBefore = true;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} ${location(content, index)}`);
+  };
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (/\s/.test(char)) {
+      newlineBefore ||= char === '\n' || char === '\r';
+      index++;
+      continue;
+    }
+    if (content.startsWith('//', index) || content.startsWith('#!', index)) {
+      const end = content.indexOf('\n', index);
+      index = end === -1 ? content.length : end;
+      continue;
+    }
+    if (content.startsWith('/*', index)) {
+      const end = content.indexOf('*/', index + 2);
+      if (end === -1) fail('Unterminated comment');
+      newlineBefore ||= /[\r\n]/.test(content.slice(index, end));
+      index = end + 2;
+      continue;
+    }
+
+    const start = index;
+    let token: Omit<Token, 'start' | 'end' | 'newlineBefore'>;
+
+    if (char === '"' || char === "'" || char === '`') {
+      const { value, end, substitution } = readString(content, index);
+      token = { type: substitution ? 'template' : 'string', value };
+      index = end;
+    } else if (
+      /\d/.test(char) ||
+      (char === '.' && /\d/.test(content[index + 1] ?? ''))
+    ) {
+      const match =
+        /(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?)n?/y;
+      match.lastIndex = index;
+      const raw = match.exec(content)![0];
+      if (raw.endsWith('n')) fail('BigInt literals are not supported');
+      token = { type: 'number', value: Number(raw.replace(/_/g, '')) };
+      index += raw.length;
+    } else {
+      const match = /[\p{ID_Start}_$][\p{ID_Continue}$\u200C\u200D]*/uy;
+      match.lastIndex = index;
+      const name = match.exec(content)?.[0];
+      if (name) {
+        token = { type: 'name', value: name };
+      } else {
+        const punct =
+          ['...', '=>', '?.'].find(value => content.startsWith(value, index)) ??
+          char;
+        token = { type: 'punct', value: punct };
+      }
+      index += String(token.value).length;
+    }
+
+    tokens.push({ ...token, start, end: index, newlineBefore });
+    newlineBefore = false;
+  }
+
+  return tokens;
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  0: '\0',
+};
+
+function readString(
+  content: string,
+  start: number
+): { value: string; end: number; substitution: boolean } {
+  const quote = content[start];
+  const unterminated = () =>
+    new Error(`Unterminated string ${location(content, start)}`);
+  let value = '';
+  let index = start + 1;
+
+  while (index < content.length && content[index] !== quote) {
+    const char = content[index];
+
+    if (quote === '`' && content.startsWith('${', index)) {
+      const end = content.indexOf('`', index);
+      return {
+        value,
+        end: end === -1 ? content.length : end + 1,
+        substitution: true,
+      };
+    }
+    if (quote !== '`' && (char === '\n' || char === '\r')) {
+      throw unterminated();
+    }
+    if (char !== '\\') {
+      value += char === '\r' && quote === '`' ? '' : char;
+      index++;
+      continue;
+    }
+
+    const next = content[index + 1];
+    if (next === 'x') {
+      value += String.fromCharCode(
+        parseInt(content.slice(index + 2, index + 4), 16)
+      );
+      index += 4;
+    } else if (next === 'u' && content[index + 2] === '{') {
+      const end = content.indexOf('}', index);
+      value += String.fromCodePoint(
+        parseInt(content.slice(index + 3, end), 16)
+      );
+      index = end + 1;
+    } else if (next === 'u') {
+      value += String.fromCharCode(
+        parseInt(content.slice(index + 2, index + 6), 16)
+      );
+      index += 6;
+    } else if (next === '\r' || next === '\n') {
+      index += content.startsWith('\r\n', index + 1) ? 3 : 2;
+    } else {
+      value += ESCAPES[next] ?? next;
+      index += 2;
+    }
+  }
+
+  if (index >= content.length) throw unterminated();
+  return { value, end: index + 1, substitution: false };
+}
+
+/**
+ * Source text for a value, indented to continue a line starting with
+ * `indent`
+ */
+function render(value: unknown, indent: string, style: LiteralStyle): string {
+  const inner = indent + style.unit;
+  const comma = style.trailingComma ? ',' : '';
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const items = value.map(item => inner + render(item, inner, style));
+    return `[${style.eol}${items.join(`,${style.eol}`)}${comma}${style.eol}${indent}]`;
+  }
+
+  if (isObject(value)) {
+    const entries = Object.entries(value).filter(
+      ([, item]) => item !== undefined
+    );
+    if (entries.length === 0) return '{}';
+    const members = entries.map(
+      ([key, item]) =>
+        `${inner}${renderKey(key, style)}: ${render(item, inner, style)}`
+    );
+    return `{${style.eol}${members.join(`,${style.eol}`)}${comma}${style.eol}${indent}}`;
+  }
+
+  return typeof value === 'string'
+    ? quoteString(value, style.quote)
+    : JSON.stringify(value);
+}
+
+function renderKey(key: string, style: LiteralStyle): string {
+  return style.bareKeys && IDENTIFIER.test(key)
+    ? key
+    : quoteString(key, style.quote);
+}
+
+function quoteString(value: string, quote: string): string {
+  const escaped = JSON.stringify(value)
+    .slice(1, -1)
+    .replace(/\\"/g, '"')
+    .replace(/[\u2028\u2029]/g, char => `\\u${char.charCodeAt(0).toString(16)}`)
+    .replace(new RegExp(quote, 'g'), `\\${quote}`);
+  return `${quote}${escaped}${quote}`;
+}
+
+function indentUnit(content: string, node: LiteralNode): string | undefined {
+  const base = lineIndent(content, node.start);
+  const nested = content.slice(node.start, node.end).match(/\n([ \t]+)\S/)?.[1];
+  return nested && nested.length > base.length
+    ? nested.slice(base.length)
+    : undefined;
+}
+
+function lineIndent(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  return content.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+function location(content: string, offset: number): string {
+  const before = content.slice(0, offset).split('\n');
+  return `at line ${before.length}, column ${before[before.length - 1].length + 1}`;
+}
+
+function sameData(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,280 @@
+import type { TranslationData } from '../parser';
+import {
+  FormatWriteOptions,
+  detectLineEnding,
+  insertionOrder,
+  orderLike,
+} from './base-format';
+
+export interface JsonWriteOptions extends FormatWriteOptions {
+  /** Indent width for files that have no indentation to copy */
+  indent?: number;
+}
+
+interface JsonNode {
+  type: 'object' | 'array' | 'scalar';
+  start: number;
+  end: number;
+  members: JsonMember[];
+}
+
+interface JsonMember {
+  key: string;
+  /** Offset of the key's opening quote */
+  start: number;
+  value: JsonNode;
+}
+
+interface JsonStyle {
+  content: string;
+  eol: string;
+  unit: string;
+  /** Text between a key and its value, e.g. `: ` */
+  colon: string;
+  /** Whether empty objects are expanded over several lines */
+  multiline: boolean;
+}
+
+/**
+ * Write JSON translation data by editing the original text: only touched
+ * values change, and objects that gain or lose keys keep their indent,
+ * line endings and key order. New keys follow the template's order.
+ */
+export function writeJson(
+  data: TranslationData,
+  options: JsonWriteOptions = {}
+): string {
+  const original = options.original?.originalContent ?? '';
+  const reference = original.trim()
+    ? original
+    : (options.template?.originalContent ?? '');
+  const bom = original.startsWith('\uFEFF') ? '\uFEFF' : '';
+  const content = original.trim() ? original.slice(bom.length) : '{}';
+  const root = parseJson(content);
+
+  if (root.type !== 'object') {
+    throw new Error('Expected a JSON object');
+  }
+
+  const style: JsonStyle = {
+    content,
+    eol: detectLineEnding(reference),
+    unit:
+      reference.match(/^([ \t]+)"/m)?.[1] ?? ' '.repeat(options.indent ?? 2),
+    colon: reference.match(/"(\s*:\s*)["{[\dtfn-]/)?.[1] ?? ': ',
+    multiline: !original.trim() || content.trim().includes('\n'),
+  };
+
+  const updated = updateNode(root, data, templateData(options), style);
+  const trailing = original.trim()
+    ? content.slice(root.end)
+    : /\n\s*$/.test(reference) || !reference
+      ? style.eol
+      : '';
+
+  return `${bom}${content.slice(0, root.start)}${updated}${trailing}`;
+}
+
+function templateData(options: JsonWriteOptions): unknown {
+  try {
+    return options.template?.originalContent
+      ? JSON.parse(options.template.originalContent.replace(/^\uFEFF/, ''))
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * New text for a node holding `value`; untouched parts are copied from the
+ * original
+ */
+function updateNode(
+  node: JsonNode,
+  value: unknown,
+  template: unknown,
+  style: JsonStyle
+): string {
+  const { content } = style;
+  const raw = content.slice(node.start, node.end);
+
+  if (node.type !== 'object' || !isObject(value)) {
+    return JSON.stringify(JSON.parse(raw)) === JSON.stringify(value)
+      ? raw
+      : render(
+          orderLike(value, template),
+          lineIndent(content, node.start),
+          style
+        );
+  }
+
+  const { members } = node;
+  const kept = members.filter(member => member.key in value);
+  const added = Object.keys(value).filter(
+    key => !members.some(member => member.key === key)
+  );
+  const nested = (member: JsonMember) =>
+    updateNode(
+      member.value,
+      value[member.key],
+      isObject(template) ? template[member.key] : undefined,
+      style
+    );
+
+  // Same keys: splice nested changes into the original text
+  if (added.length === 0 && kept.length === members.length) {
+    let result = '';
+    let position = node.start;
+    for (const member of members) {
+      result += content.slice(position, member.value.start) + nested(member);
+      position = member.value.end;
+    }
+    return result + content.slice(position, node.end);
+  }
+
+  const order = insertionOrder(
+    kept.map(member => member.key),
+    added,
+    isObject(template) ? Object.keys(template) : []
+  );
+  const closingIndent = lineIndent(content, node.start);
+  const first = members[0];
+  const memberIndent =
+    first && startsLine(content, first.start)
+      ? lineIndent(content, first.start)
+      : closingIndent + style.unit;
+
+  const parts = order.map(key => {
+    const member = kept.find(candidate => candidate.key === key);
+    if (member) {
+      return content.slice(member.start, member.value.start) + nested(member);
+    }
+    const child = orderLike(
+      value[key],
+      isObject(template) ? template[key] : undefined
+    );
+    return `${JSON.stringify(key)}${style.colon}${render(child, memberIndent, style)}`;
+  });
+
+  if (parts.length === 0) {
+    return '{}';
+  }
+
+  const inline = members.length > 0 ? !raw.includes('\n') : !style.multiline;
+  if (inline) {
+    const padding = first ? content.slice(node.start + 1, first.start) : '';
+    return `{${padding}${parts.join(`,${padding || ' '}`)}${padding}}`;
+  }
+
+  return `{${style.eol}${memberIndent}${parts.join(`,${style.eol}${memberIndent}`)}${style.eol}${closingIndent}}`;
+}
+
+/**
+ * Serialize a new value with the document's indent at the given depth
+ */
+function render(value: unknown, indent: string, style: JsonStyle): string {
+  return JSON.stringify(value, null, style.unit).replace(
+    /\n/g,
+    style.eol + indent
+  );
+}
+
+function lineIndent(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  return content.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+function startsLine(content: string, offset: number): boolean {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*$/.test(content.slice(lineStart, offset));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse JSON into nodes that keep their source offsets
+ */
+function parseJson(content: string): JsonNode {
+  let index = 0;
+
+  const skipWhitespace = () => {
+    while (/\s/.test(content[index] ?? '')) index++;
+  };
+
+  const fail = (expected: string): never => {
+    throw new Error(`Invalid JSON: expected ${expected} at offset ${index}`);
+  };
+
+  const readString = (): string => {
+    const match = /"(?:[^"\\\r\n]|\\.)*"/y;
+    match.lastIndex = index;
+    const token = match.exec(content)?.[0] ?? fail('string');
+    index += token.length;
+    return JSON.parse(token);
+  };
+
+  const readValue = (): JsonNode => {
+    skipWhitespace();
+    const start = index;
+    const char = content[index];
+
+    if (char === '{') {
+      index++;
+      const members: JsonMember[] = [];
+      skipWhitespace();
+      while (content[index] !== '}') {
+        if (members.length > 0) {
+          if (content[index] !== ',') fail('","');
+          index++;
+          skipWhitespace();
+        }
+        const memberStart = index;
+        const key = readString();
+        skipWhitespace();
+        if (content[index] !== ':') fail('":"');
+        index++;
+        members.push({ key, start: memberStart, value: readValue() });
+        skipWhitespace();
+      }
+      index++;
+      return { type: 'object', start, end: index, members };
+    }
+
+    if (char === '[') {
+      index++;
+      skipWhitespace();
+      let first = true;
+      while (content[index] !== ']') {
+        if (!first) {
+          if (content[index] !== ',') fail('","');
+          index++;
+        }
+        readValue();
+        skipWhitespace();
+        first = false;
+      }
+      index++;
+      return { type: 'array', start, end: index, members: [] };
+    }
+
+    if (char === '"') {
+      readString();
+    } else {
+      const match = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+      match.lastIndex = index;
+      index += (match.exec(content)?.[0] ?? fail('value')).length;
+    }
+
+    return { type: 'scalar', start, end: index, members: [] };
+  };
+
+  const root = readValue();
+  skipWhitespace();
+  if (index < content.length) {
+    fail('end of document');
+  }
+
+  return root;
+}
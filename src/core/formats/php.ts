@@ -0,0 +1,651 @@
+import path from 'path';
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+  orderLike,
+} from './base-format';
+import { TextEdit, applyEdits } from './format-helpers';
+
+export interface PhpWriteOptions extends FormatWriteOptions {
+  /** Indent width for files that have no indentation to copy */
+  indent?: number;
+}
+
+interface Token {
+  type: 'punct' | 'name' | 'string' | 'number';
+  /** Decoded value for strings and numbers, source text otherwise */
+  value: string | number;
+  start: number;
+  end: number;
+  /** Quote character for strings */
+  quote?: string;
+}
+
+interface ArrayLiteral {
+  value: unknown;
+  start: number;
+  end: number;
+  /** Entries of an array, keyed as in `value` */
+  entries?: ArrayEntry[];
+}
+
+interface ArrayEntry {
+  key: string;
+  /** Offset of the key, or of the value when it has none */
+  start: number;
+  value: ArrayLiteral;
+  /** Offset after the entry's comma, or after its value */
+  end: number;
+  comma: boolean;
+}
+
+interface ReturnedArray extends ArrayLiteral {
+  /** Quote character of the first string in the array */
+  quote?: string;
+}
+
+interface ArrayStyle {
+  unit: string;
+  eol: string;
+  quote: string;
+  /** `[ ... ]` or `array( ... )` */
+  long: boolean;
+  trailingComma: boolean;
+}
+
+/** Laravel language folders, e.g. `lang/en/` or `lang/pt_BR/` */
+const LANGUAGE_FOLDER = /^[a-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*$/;
+
+const PUNCTUATION = ['=>', '::', '[', ']', '(', ')', ',', ';', '.', '-', '+'];
+
+export class PhpArrayFormat implements FormatHandler {
+  readonly flatKeys = false;
+
+  /**
+   * Read a Laravel language file, which returns a PHP array of strings:
+   * `return ['auth' => ['failed' => 'These credentials do not match.']];`.
+   * Both `[]` and `array()` syntax are supported. Keys without `=>` get
+   * PHP's numeric keys, and arrays without any keys become lists. Values
+   * other than literals, such as concatenation or interpolated variables,
+   * are rejected with their line and column.
+   */
+  parse(content: string): ParsedContent {
+    const literal = readReturnedArray(content);
+    if (!isObject(literal.value)) {
+      throw new Error(
+        `The returned array must have keys ${location(content, literal.start)}`
+      );
+    }
+    return { data: literal.value as TranslationData };
+  }
+
+  /**
+   * Write a language file by editing the returned array of the original
+   * file: only changed values are replaced, removed entries are dropped
+   * and new ones are added after the last entry, so comments and the
+   * quoting of unchanged strings are kept. New files replace the array of
+   * the template. Written values copy the file's indent, quotes, array
+   * syntax and trailing commas.
+   */
+  stringify(data: TranslationData, options: PhpWriteOptions = {}): string {
+    const original = options.original?.originalContent ?? '';
+    const templateContent = options.template?.originalContent ?? '';
+    const content = original.trim() ? original : templateContent;
+    const template = templateContent.trim()
+      ? readReturnedArray(templateContent).value
+      : undefined;
+    const value = orderLike(data, template);
+    const unit = ' '.repeat(options.indent ?? 4);
+
+    if (!content.trim()) {
+      const style: ArrayStyle = {
+        unit,
+        eol: '\n',
+        quote: "'",
+        long: false,
+        trailingComma: true,
+      };
+      return `<?php${style.eol}${style.eol}return ${render(value, '', style)};${style.eol}`;
+    }
+
+    const literal = readReturnedArray(content);
+    if (original.trim() && sameData(literal.value, data)) {
+      return original;
+    }
+
+    const source = content.slice(literal.start, literal.end);
+    const style: ArrayStyle = {
+      unit: indentUnit(content, literal) ?? unit,
+      eol: detectLineEnding(content),
+      quote: literal.quote ?? "'",
+      long: /^array\b/i.test(source),
+      trailingComma: !/\n/.test(source) || /,\s*[\])]\s*$/.test(source),
+    };
+
+    if (original.trim()) {
+      const edits: TextEdit[] = [];
+      valueEdits(original, literal, value, style, edits);
+      return applyEdits(original, edits);
+    }
+
+    return (
+      content.slice(0, literal.start) +
+      render(value, lineIndent(content, literal.start), style) +
+      content.slice(literal.end)
+    );
+  }
+}
+
+/**
+ * Statically read the array after the first `return` statement
+ */
+function readReturnedArray(content: string): ReturnedArray {
+  const tokens = tokenize(content);
+  let index = tokens.findIndex(
+    token => token.type === 'name' && token.value === 'return'
+  );
+
+  if (index === -1) {
+    throw new Error('No return statement found');
+  }
+  index++;
+
+  let quote: string | undefined;
+  const peek = (): Token | undefined => tokens[index];
+  const is = (value: string) => {
+    const token = peek();
+    return token?.type === 'punct' && token.value === value;
+  };
+  const fail = (message: string, token = peek()): never => {
+    throw new Error(
+      `${message} ${location(content, token?.start ?? content.length)}`
+    );
+  };
+  const describe = (token: Token | undefined) =>
+    token ? `"${content.slice(token.start, token.end)}"` : 'end of file';
+
+  const parseValue = (): ArrayLiteral => {
+    const token = peek() ?? fail('Unexpected end of file');
+    let literal: ArrayLiteral;
+
+    if (
+      is('[') ||
+      (token.type === 'name' && /^array$/i.test(String(token.value)))
+    ) {
+      literal = parseArray();
+    } else if (token.type === 'string' || token.type === 'number') {
+      quote ??= token.quote;
+      index++;
+      literal = { value: token.value, start: token.start, end: token.end };
+    } else if (is('-') || is('+')) {
+      index++;
+      const number = peek();
+      if (number?.type !== 'number') {
+        fail(`Expected a number but found ${describe(number)}`);
+      }
+      index++;
+      literal = {
+        value: token.value === '-' ? -Number(number!.value) : number!.value,
+        start: token.start,
+        end: number!.end,
+      };
+    } else if (
+      token.type === 'name' &&
+      /^(true|false|null)$/i.test(String(token.value))
+    ) {
+      index++;
+      const name = String(token.value).toLowerCase();
+      literal = {
+        value: name === 'null' ? null : name === 'true',
+        start: token.start,
+        end: token.end,
+      };
+    } else {
+      return fail(`Expected a static value but found ${describe(token)}`);
+    }
+
+    if (is('.')) {
+      fail('String concatenation is not supported');
+    }
+    return literal;
+  };
+
+  const parseArray = (): ArrayLiteral => {
+    const start = peek()!.start;
+    let close = ']';
+    if (!is('[')) {
+      index++;
+      if (!is('(')) fail(`Expected "(" but found ${describe(peek())}`);
+      close = ')';
+    }
+    index++;
+
+    const items: Array<{
+      key: string | number | undefined;
+      start: number;
+      value: ArrayLiteral;
+      end: number;
+      comma: boolean;
+    }> = [];
+    while (!is(close)) {
+      if (!peek()) fail(`Expected "${close}" but found end of file`);
+
+      const first = parseValue();
+      let key: string | number | undefined;
+      let item = first;
+      if (is('=>')) {
+        index++;
+        if (
+          typeof first.value !== 'string' &&
+          typeof first.value !== 'number'
+        ) {
+          fail('Array keys must be strings or integers');
+        }
+        key = first.value as string | number;
+        item = parseValue();
+      }
+
+      const comma = is(',');
+      const end = comma ? peek()!.end : item.end;
+      if (comma) {
+        index++;
+      } else if (!is(close)) {
+        fail(`Expected "," or "${close}" but found ${describe(peek())}`);
+      }
+      items.push({ key, start: first.start, value: item, end, comma });
+    }
+    const end = peek()!.end;
+    index++;
+
+    if (items.every(({ key }) => key === undefined)) {
+      return {
+        value: items.map(item => item.value.value),
+        start,
+        end,
+        entries: items.map((item, position) => ({
+          ...item,
+          key: String(position),
+        })),
+      };
+    }
+
+    // PHP gives entries without a key the next integer key
+    const value: Record<string, unknown> = {};
+    const entries: ArrayEntry[] = [];
+    let next = 0;
+    for (const item of items) {
+      const name = item.key ?? next;
+      if (typeof name === 'number' || /^(0|-?[1-9]\d*)$/.test(name)) {
+        next = Math.max(next, Number(name) + 1);
+      }
+      value[String(name)] = item.value.value;
+      entries.push({ ...item, key: String(name) });
+    }
+    return { value, start, end, entries };
+  };
+
+  const literal = parseValue();
+  if (!is(';')) {
+    fail(`Expected ";" but found ${describe(peek())}`);
+  }
+
+  return quote ? { ...literal, quote } : literal;
+}
+
+/**
+ * Split PHP source into tokens, skipping inline HTML before `<?php`,
+ * comments and whitespace
+ */
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  const open = content.indexOf('<?php');
+  let index = open === -1 ? 0 : open + 5;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} ${location(content, index)}`);
+  };
+
+  while (index < content.length) {
+    const char = content[index]!;
+    const next = content[index + 1];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if ((char === '/' && next === '/') || char === '#') {
+      while (index < content.length && content[index] !== '\n') index++;
+    } else if (char === '/' && next === '*') {
+      const end = content.indexOf('*/', index + 2);
+      if (end === -1) fail('Unterminated comment');
+      index = end + 2;
+    } else if (char === "'" || char === '"') {
+      const start = index;
+      const value = char === "'" ? readSingleQuoted() : readDoubleQuoted();
+      tokens.push({ type: 'string', value, start, end: index, quote: char });
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(next ?? ''))) {
+      const match =
+        /0[xX][\da-fA-F_]+|0[bB][01_]+|(?:\d[\d_]*)?\.?\d[\d_]*(?:[eE][+-]?\d+)?/y;
+      match.lastIndex = index;
+      const text = match.exec(content)![0];
+      const start = index;
+      index += text.length;
+      tokens.push({
+        type: 'number',
+        value: Number(text.replace(/_/g, '')),
+        start,
+        end: index,
+      });
+    } else if (/[A-Za-z_\\\x80-\uFFFF]/.test(char)) {
+      const start = index;
+      while (/[\w\\\x80-\uFFFF]/.test(content[index] ?? '')) index++;
+      tokens.push({
+        type: 'name',
+        value: content.slice(start, index),
+        start,
+        end: index,
+      });
+    } else {
+      const value =
+        PUNCTUATION.find(candidate => content.startsWith(candidate, index)) ??
+        char;
+      tokens.push({
+        type: 'punct',
+        value,
+        start: index,
+        end: index + value.length,
+      });
+      index += value.length;
+    }
+  }
+
+  return tokens;
+
+  function readSingleQuoted(): string {
+    let value = '';
+    index++;
+    while (content[index] !== "'") {
+      if (index >= content.length) fail('Unterminated string');
+      if (
+        content[index] === '\\' &&
+        (content[index + 1] === "'" || content[index + 1] === '\\')
+      ) {
+        index++;
+      }
+      value += content[index++];
+    }
+    index++;
+    return value;
+  }
+
+  function readDoubleQuoted(): string {
+    const escapes: Record<string, string> = {
+      n: '\n',
+      t: '\t',
+      r: '\r',
+      v: '\v',
+      e: '\x1b',
+      f: '\f',
+      '\\': '\\',
+      $: '$',
+      '"': '"',
+    };
+    let value = '';
+    index++;
+    while (content[index] !== '"') {
+      if (index >= content.length) fail('Unterminated string');
+      const char = content[index]!;
+
+      if (char === '$' && /[A-Za-z_{]/.test(content[index + 1] ?? '')) {
+        fail('Strings with interpolated variables are not static');
+      }
+      if (char === '{' && content[index + 1] === '$') {
+        fail('Strings with interpolated variables are not static');
+      }
+
+      if (char !== '\\') {
+        value += char;
+        index++;
+        continue;
+      }
+
+      const escape = content[index + 1] ?? '';
+      const octal = /^[0-7]{1,3}/.exec(content.slice(index + 1, index + 4));
+      const hex = /^x([\da-fA-F]{1,2})/.exec(
+        content.slice(index + 1, index + 4)
+      );
+      const unicode = /^u\{([\da-fA-F]+)\}/.exec(content.slice(index + 1));
+
+      if (escapes[escape] !== undefined) {
+        value += escapes[escape];
+        index += 2;
+      } else if (octal) {
+        value += String.fromCharCode(parseInt(octal[0], 8) & 0xff);
+        index += 1 + octal[0].length;
+      } else if (hex) {
+        value += String.fromCharCode(parseInt(hex[1]!, 16));
+        index += 1 + hex[0].length;
+      } else if (unicode) {
+        value += String.fromCodePoint(parseInt(unicode[1]!, 16));
+        index += 1 + unicode[0].length;
+      } else {
+        // Unknown escapes keep their backslash
+        value += char;
+        index++;
+      }
+    }
+    index++;
+    return value;
+  }
+}
+
+/**
+ * Source text for a value, indented to continue a line starting with
+ * `indent`
+ */
+function render(value: unknown, indent: string, style: ArrayStyle): string {
+  const inner = indent + style.unit;
+  const [open, close] = style.long ? ['array(', ')'] : ['[', ']'];
+  const comma = style.trailingComma ? ',' : '';
+
+  if (Array.isArray(value) || isObject(value)) {
+    const items = Array.isArray(value)
+      ? value.map(item => inner + render(item, inner, style))
+      : Object.entries(value)
+          .filter(([, item]) => item !== undefined)
+          .map(
+            ([key, item]) =>
+              `${inner}${renderKey(key, style)} => ${render(item, inner, style)}`
+          );
+    if (items.length === 0) return `${open}${close}`;
+    return `${open}${style.eol}${items.join(`,${style.eol}`)}${comma}${style.eol}${indent}${close}`;
+  }
+
+  if (typeof value === 'string') {
+    return quoteString(value, style.quote);
+  }
+  return value === null || value === undefined ? 'null' : String(value);
+}
+
+/**
+ * Edits that turn a literal of the original file into `value`. Entries
+ * that didn't change are left as written; single-line arrays, lists whose
+ * length changed and values of another type are rendered anew.
+ */
+function valueEdits(
+  content: string,
+  literal: ArrayLiteral,
+  value: unknown,
+  style: ArrayStyle,
+  edits: TextEdit[]
+): void {
+  if (sameData(literal.value, value)) {
+    return;
+  }
+
+  const entries = literal.entries;
+  const items = value as Record<string, unknown>;
+  const kept = entries?.filter(entry => items[entry.key] !== undefined) ?? [];
+  if (
+    !entries ||
+    !(Array.isArray(value) || isObject(value)) ||
+    Array.isArray(value) !== Array.isArray(literal.value) ||
+    (Array.isArray(value) && value.length !== entries.length) ||
+    !content.slice(literal.start, literal.end).includes('\n') ||
+    kept.length === 0
+  ) {
+    edits.push({
+      start: literal.start,
+      end: literal.end,
+      text: render(value, lineIndent(content, literal.start), style),
+    });
+    return;
+  }
+
+  for (const entry of entries) {
+    if (items[entry.key] === undefined) {
+      edits.push(removalEdit(content, entry));
+    } else {
+      valueEdits(content, entry.value, items[entry.key], style, edits);
+    }
+  }
+
+  const known = new Set(entries.map(entry => entry.key));
+  const added = Object.entries(items).filter(
+    ([key, item]) => !known.has(key) && item !== undefined
+  );
+  if (added.length === 0) {
+    return;
+  }
+
+  // New entries go on their own lines after the last kept entry
+  const last = kept[kept.length - 1]!;
+  const indent = lineIndent(content, last.start);
+  const newline = content.indexOf('\n', last.end);
+  const lineEnd =
+    newline === -1 || newline > literal.end
+      ? last.end
+      : content[newline - 1] === '\r'
+        ? newline - 1
+        : newline;
+
+  const text =
+    added
+      .map(
+        ([key, item]) =>
+          `${style.eol}${indent}${renderKey(key, style)} => ${render(item, indent, style)}`
+      )
+      .join(',') + (last.comma ? ',' : '');
+
+  if (last.comma || lineEnd === last.value.end) {
+    edits.push({
+      start: lineEnd,
+      end: lineEnd,
+      text: last.comma ? text : `,${text}`,
+    });
+  } else {
+    // A comment follows the value
+    edits.push({ start: last.value.end, end: last.value.end, text: ',' });
+    edits.push({ start: lineEnd, end: lineEnd, text });
+  }
+}
+
+/**
+ * Edit that removes an entry, with its line when nothing else is on it
+ */
+function removalEdit(content: string, entry: ArrayEntry): TextEdit {
+  const lineStart = content.lastIndexOf('\n', entry.start - 1) + 1;
+  const newline = content.indexOf('\n', entry.end);
+  const lineEnd = newline === -1 ? content.length : newline + 1;
+
+  if (
+    !content.slice(lineStart, entry.start).trim() &&
+    !content.slice(entry.end, lineEnd).trim()
+  ) {
+    return { start: lineStart, end: lineEnd, text: '' };
+  }
+  return { start: entry.start, end: entry.end, text: '' };
+}
+
+function renderKey(key: string, style: ArrayStyle): string {
+  return /^(0|-?[1-9]\d*)$/.test(key) ? key : quoteString(key, style.quote);
+}
+
+function quoteString(value: string, quote: string): string {
+  // Line breaks and tabs can only be escaped in double quotes
+  if (quote === "'" && !/[\n\r\t]/.test(value)) {
+    return `'${value.replace(/[\\']/g, char => `\\${char}`)}'`;
+  }
+
+  const escapes: Record<string, string> = {
+    '\\': '\\\\',
+    '"': '\\"',
+    $: '\\$',
+    '\n': '\\n',
+    '\r': '\\r',
+    '\t': '\\t',
+  };
+  return `"${value.replace(/[\\"$\n\r\t]/g, char => escapes[char]!)}"`;
+}
+
+function indentUnit(
+  content: string,
+  literal: ArrayLiteral
+): string | undefined {
+  const base = lineIndent(content, literal.start);
+  const nested = content
+    .slice(literal.start, literal.end)
+    .match(/\n([ \t]+)\S/)?.[1];
+  return nested && nested.length > base.length
+    ? nested.slice(base.length)
+    : undefined;
+}
+
+function lineIndent(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  return content.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+function location(content: string, offset: number): string {
+  const before = content.slice(0, offset).split('\n');
+  return `at line ${before.length}, column ${before[before.length - 1]!.length + 1}`;
+}
+
+function sameData(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Language of a Laravel language file from its folder,
+ * e.g. `lang/pt_BR/auth.php` -> `pt-BR`
+ */
+export function phpLanguageFromPath(filePath: string): string | null {
+  if (path.extname(filePath).toLowerCase() !== '.php') {
+    return null;
+  }
+
+  const folder = path.basename(path.dirname(filePath));
+  return LANGUAGE_FOLDER.test(folder) ? folder.replace(/_/g, '-') : null;
+}
+
+/**
+ * Path of the Laravel language file for a language next to the base file,
+ * e.g. `lang/en/auth.php` + `pt-BR` -> `lang/pt_BR/auth.php`
+ */
+export function phpResourcePath(
+  baseFilePath: string,
+  language: string
+): string {
+  return path.join(
+    path.dirname(path.dirname(baseFilePath)),
+    language.replace(/-/g, '_'),
+    path.basename(baseFilePath)
+  );
+}
+
+export default PhpArrayFormat;
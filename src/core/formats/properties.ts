@@ -0,0 +1,325 @@
+import path from 'path';
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+  getFlatValue,
+} from './base-format';
+
+interface PropertiesEntry {
+  key: string;
+  value: string;
+  /** Comment lines directly above the entry, without their markers */
+  comment?: string;
+  /** Raw comment lines, copied when the entry is added to another file */
+  rawComment?: string;
+  /** Offset where the value starts, after the key and separator */
+  valueStart: number;
+  /** Offset of the end of the logical line, before its line break */
+  end: number;
+}
+
+/** Locale suffix of a resource bundle name, e.g. `messages_pt_BR` */
+const BUNDLE_LOCALE = /_([a-z]{2,3})(?:_([A-Z]{2}|\d{3}))?$/;
+
+export class PropertiesFormat implements FormatHandler {
+  readonly flatKeys = true;
+
+  /**
+   * Parse a Java `.properties` resource bundle. Handles `#`/`!` comments,
+   * `=`, `:` and whitespace separators, line continuations and `\uXXXX`
+   * escapes; comment lines above an entry become translator context.
+   */
+  parse(content: string): ParsedContent {
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+
+    for (const entry of this.readEntries(content)) {
+      data[entry.key] = entry.value;
+      if (entry.comment) {
+        contexts[entry.key] = `Notes: ${entry.comment}`;
+      }
+    }
+
+    return { data, metadata: { contexts } };
+  }
+
+  /**
+   * Write a `.properties` file, rewriting only the values of changed
+   * entries. New entries are appended with their template comments.
+   * Non-ASCII text is written as `\uXXXX` when the file already uses
+   * escapes instead of raw UTF-8.
+   */
+  stringify(data: TranslationData, options: FormatWriteOptions = {}): string {
+    const content = options.original?.originalContent ?? '';
+    const templateContent = options.template?.originalContent ?? '';
+    const eol = detectLineEnding(content || templateContent);
+    const asciiOnly = usesUnicodeEscapes(content || templateContent);
+    const entries = this.readEntries(content);
+    const known = new Set(entries.map(entry => entry.key));
+    let result = content;
+
+    for (const entry of [...entries].reverse()) {
+      const value = getFlatValue(data, entry.key);
+      if (value === undefined || value === entry.value) {
+        continue;
+      }
+
+      result =
+        result.slice(0, entry.valueStart) +
+        escapePropertiesValue(value, asciiOnly) +
+        result.slice(entry.end);
+    }
+
+    const templateEntries = new Map(
+      this.readEntries(templateContent).map(entry => [entry.key, entry])
+    );
+    const added: string[] = [];
+
+    for (const [key, value] of Object.entries(data)) {
+      if (typeof value !== 'string' || known.has(key)) {
+        continue;
+      }
+
+      const comment = templateEntries.get(key)?.rawComment;
+      added.push(
+        `${comment ? comment + eol : ''}${escapePropertiesKey(key, asciiOnly)}=${escapePropertiesValue(value, asciiOnly)}`
+      );
+    }
+
+    if (added.length === 0) {
+      return result;
+    }
+
+    const head = result.replace(/\s*$/, '');
+    return `${head ? head + eol : ''}${added.join(eol)}${eol}`;
+  }
+
+  private readEntries(content: string): PropertiesEntry[] {
+    const entries: PropertiesEntry[] = [];
+    const lines = splitLines(content);
+    let comments: { text: string; start: number; end: number }[] = [];
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index]!;
+      const trimmed = line.text.trimStart();
+
+      if (trimmed === '') {
+        comments = [];
+        continue;
+      }
+
+      if (trimmed.startsWith('#') || trimmed.startsWith('!')) {
+        comments.push({
+          text: trimmed.slice(1).trim(),
+          start: line.start,
+          end: line.end,
+        });
+        continue;
+      }
+
+      // Join continuation lines into one logical line, keeping offsets
+      let logical = trimmed;
+      let logicalStart = line.end - trimmed.length;
+      const offsets: number[] = [];
+      for (let i = 0; i < trimmed.length; i++) offsets.push(logicalStart + i);
+      let end = line.end;
+
+      while (endsWithContinuation(logical) && index + 1 < lines.length) {
+        logical = logical.slice(0, -1);
+        offsets.pop();
+        const next = lines[++index]!;
+        const continued = next.text.trimStart();
+        logicalStart = next.end - continued.length;
+        for (let i = 0; i < continued.length; i++) {
+          offsets.push(logicalStart + i);
+        }
+        logical += continued;
+        end = next.end;
+      }
+
+      const { key, valueIndex } = splitKeyValue(logical);
+      const comment = comments.map(c => c.text).join(' ');
+
+      entries.push({
+        key: unescapeProperties(key),
+        value: unescapeProperties(logical.slice(valueIndex)),
+        ...(comments.length > 0
+          ? {
+              comment,
+              rawComment: content.slice(
+                comments[0]!.start,
+                comments[comments.length - 1]!.end
+              ),
+            }
+          : {}),
+        valueStart: offsets[valueIndex] ?? end,
+        end,
+      });
+      comments = [];
+    }
+
+    return entries;
+  }
+}
+
+function splitLines(
+  content: string
+): { text: string; start: number; end: number }[] {
+  const lines: { text: string; start: number; end: number }[] = [];
+  const pattern = /([^\r\n]*)(\r\n|\r|\n|$)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content)) !== null) {
+    if (match[0] === '') {
+      break;
+    }
+    lines.push({
+      text: match[1]!,
+      start: match.index,
+      end: match.index + match[1]!.length,
+    });
+  }
+
+  return lines;
+}
+
+function endsWithContinuation(line: string): boolean {
+  const backslashes = line.match(/\\*$/)?.[0].length ?? 0;
+  return backslashes % 2 === 1;
+}
+
+/**
+ * Split a logical line into its raw key and the index where the value
+ * starts, following `java.util.Properties#load`
+ */
+function splitKeyValue(line: string): { key: string; valueIndex: number } {
+  let index = 0;
+
+  while (index < line.length) {
+    const char = line[index]!;
+    if (char === '\\') {
+      index += 2;
+      continue;
+    }
+    if (char === '=' || char === ':' || /\s/.test(char)) {
+      break;
+    }
+    index++;
+  }
+
+  const key = line.slice(0, index);
+  let valueIndex = index;
+
+  while (valueIndex < line.length && /[ \t\f]/.test(line[valueIndex]!)) {
+    valueIndex++;
+  }
+  if (line[valueIndex] === '=' || line[valueIndex] === ':') {
+    valueIndex++;
+    while (valueIndex < line.length && /[ \t\f]/.test(line[valueIndex]!)) {
+      valueIndex++;
+    }
+  }
+
+  return { key, valueIndex };
+}
+
+function usesUnicodeEscapes(content: string): boolean {
+  // eslint-disable-next-line no-control-regex
+  return /\\u[0-9a-fA-F]{4}/.test(content) && !/[^\x00-\x7f]/.test(content);
+}
+
+/**
+ * Resolve `\uXXXX`, `\t`, `\n`, `\r`, `\f` and escaped characters
+ */
+export function unescapeProperties(raw: string): string {
+  return raw.replace(
+    /\\(?:u([0-9a-fA-F]{4})|(.))/gs,
+    (_match, hex: string | undefined, char: string | undefined) => {
+      if (hex) return String.fromCharCode(parseInt(hex, 16));
+      if (char === 't') return '\t';
+      if (char === 'n') return '\n';
+      if (char === 'r') return '\r';
+      if (char === 'f') return '\f';
+      return char ?? '';
+    }
+  );
+}
+
+/**
+ * Escape a value for a `.properties` file. Leading spaces are escaped so
+ * they survive the separator trimming on load.
+ */
+export function escapePropertiesValue(
+  value: string,
+  asciiOnly = false
+): string {
+  return escapeCommon(value, asciiOnly).replace(/^ /, '\\ ');
+}
+
+function escapePropertiesKey(key: string, asciiOnly: boolean): string {
+  return escapeCommon(key, asciiOnly)
+    .replace(/([ =:])/g, '\\$1')
+    .replace(/^([#!])/, '\\$1');
+}
+
+function escapeCommon(value: string, asciiOnly: boolean): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/\f/g, '\\f');
+
+  return asciiOnly
+    ? escaped.replace(
+        /[^\x20-\x7e]/g,
+        char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+      )
+    : escaped;
+}
+
+/**
+ * Language of a resource bundle from its `_de` / `_pt_BR` suffix. A bundle
+ * without a suffix (`messages.properties`) is the base language.
+ */
+export function propertiesLanguageFromPath(
+  filePath: string,
+  baseLanguage: string
+): string | null {
+  if (path.extname(filePath).toLowerCase() !== '.properties') {
+    return null;
+  }
+
+  const match = path
+    .basename(filePath, path.extname(filePath))
+    .match(BUNDLE_LOCALE);
+  if (!match) {
+    return baseLanguage;
+  }
+
+  return match[2] ? `${match[1]}-${match[2]}` : match[1]!;
+}
+
+/**
+ * Path of the bundle for a language next to the base bundle,
+ * e.g. `messages.properties` + `pt-BR` -> `messages_pt_BR.properties`
+ */
+export function propertiesResourcePath(
+  baseFilePath: string,
+  language: string
+): string {
+  const extension = path.extname(baseFilePath);
+  const name = path
+    .basename(baseFilePath, extension)
+    .replace(BUNDLE_LOCALE, '');
+
+  return path.join(
+    path.dirname(baseFilePath),
+    `${name}_${language.replace(/-/g, '_')}${extension}`
+  );
+}
+
+export default PropertiesFormat;
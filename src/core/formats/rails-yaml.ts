@@ -0,0 +1,116 @@
+import type { TranslationData, TranslationValue } from '../parser';
+import { formatKeyPath } from '../key-path';
+import { pluralCategories } from './base-format';
+
+/** CLDR plural categories, which Rails uses as pluralization subkeys */
+const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/**
+ * Locale key that wraps the whole document in Rails/Symfony YAML files
+ * (`en: { users: ... }`), or undefined when the data isn't wrapped. With
+ * `mode` `auto` the key must be one of `languages`, the languages the file
+ * may be written in, so a file with a single namespace such as `nav:` is
+ * left alone even though `nav` looks like a language code.
+ */
+export function detectRootLocale(
+  data: TranslationData,
+  mode: boolean | 'auto' = 'auto',
+  languages: string[] = []
+): string | undefined {
+  const keys = Object.keys(data);
+  const root = keys[0];
+
+  if (mode === false || keys.length !== 1 || !isRecord(data[root!])) {
+    return undefined;
+  }
+
+  return mode === true ||
+    languages.some(language => sameLanguage(language, root!))
+    ? root
+    : undefined;
+}
+
+/**
+ * Whether two locale codes name the same locale, e.g. `pt_BR` and `pt-br`
+ */
+function sameLanguage(a: string, b: string): boolean {
+  const normalize = (code: string) => code.replace(/_/g, '-').toLowerCase();
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Whether an object is a Rails pluralization hash: only plural category
+ * keys, `other` included, with string values
+ */
+export function isPluralGroup(value: TranslationValue | undefined): boolean {
+  if (!isRecord(value) || typeof value['other'] !== 'string') {
+    return false;
+  }
+
+  return Object.entries(value).every(
+    ([key, item]) => PLURAL_CATEGORIES.includes(key) && typeof item === 'string'
+  );
+}
+
+/**
+ * Translator notes for the entries of pluralization hashes, keyed like
+ * `extractKeys` output
+ */
+export function pluralContexts(data: TranslationData): Record<string, string> {
+  const contexts: Record<string, string> = {};
+
+  const visit = (value: TranslationValue, path: string[]): void => {
+    if (isPluralGroup(value)) {
+      for (const category of Object.keys(value as TranslationData)) {
+        contexts[formatKeyPath([...path, category])] =
+          `Plural form "${category}"; keep %{count}`;
+      }
+    } else if (typeof value === 'object' && value !== null) {
+      for (const [key, item] of Object.entries(value)) {
+        visit(item, [...path, key]);
+      }
+    }
+  };
+
+  visit(data, []);
+  return contexts;
+}
+
+/**
+ * Copy of `data` whose pluralization hashes have every category the
+ * language needs (e.g. `few` and `many` for Russian). Missing forms start
+ * out as the `other` form, which Rails would otherwise fail to find.
+ */
+export function completePluralForms(
+  data: TranslationData,
+  language: string
+): TranslationData {
+  const categories = pluralCategories(language);
+
+  const complete = (value: TranslationValue): TranslationValue => {
+    if (isPluralGroup(value)) {
+      const group = { ...(value as TranslationData) };
+      for (const category of categories) {
+        group[category] ??= group['other']!;
+      }
+      return group;
+    }
+    if (Array.isArray(value)) {
+      return value.map(complete);
+    }
+    if (isRecord(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, complete(item)])
+      );
+    }
+    return value;
+  };
+
+  return complete(data) as TranslationData;
+}
+
+function isRecord(
+  value: TranslationValue | undefined
+): value is TranslationData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,68 @@
+import { androidLanguageFromPath, androidResourcePath } from './android';
+import { appleLanguageFromPath, appleResourcePath } from './apple-strings';
+import { arbLanguageFromPath, arbResourcePath } from './arb';
+import { phpLanguageFromPath, phpResourcePath } from './php';
+import {
+  propertiesLanguageFromPath,
+  propertiesResourcePath,
+} from './properties';
+import { resxLanguageFromPath, resxResourcePath } from './resx';
+import {
+  webExtensionLanguageFromPath,
+  webExtensionResourcePath,
+} from './webextension';
+
+/**
+ * Language of a file laid out by a platform convention, such as Android
+ * `values-fr/`, Apple `fr.lproj/`, Flutter `app_fr.arb`, Java
+ * `messages_fr.properties`, .NET `Strings.fr-FR.resx`, Laravel
+ * `lang/fr/auth.php` or browser extension `_locales/fr/messages.json`.
+ * Returns null when the path follows none of them.
+ */
+export function languageFromResourcePath(
+  filePath: string,
+  baseLanguage: string
+): string | null {
+  return (
+    androidLanguageFromPath(filePath, baseLanguage) ??
+    appleLanguageFromPath(filePath, baseLanguage) ??
+    arbLanguageFromPath(filePath) ??
+    propertiesLanguageFromPath(filePath, baseLanguage) ??
+    resxLanguageFromPath(filePath, baseLanguage) ??
+    phpLanguageFromPath(filePath) ??
+    webExtensionLanguageFromPath(filePath)
+  );
+}
+
+/**
+ * Path of the file for `language` that sits next to a base file laid out
+ * by a platform convention, or null for plain `<lang>.<ext>` files
+ */
+export function resourcePathForLanguage(
+  baseFilePath: string,
+  language: string,
+  baseLanguage: string
+): string | null {
+  if (androidLanguageFromPath(baseFilePath, baseLanguage) !== null) {
+    return androidResourcePath(baseFilePath, language);
+  }
+  if (appleLanguageFromPath(baseFilePath, baseLanguage) !== null) {
+    return appleResourcePath(baseFilePath, language);
+  }
+  if (arbLanguageFromPath(baseFilePath) !== null) {
+    return arbResourcePath(baseFilePath, language);
+  }
+  if (propertiesLanguageFromPath(baseFilePath, baseLanguage) !== null) {
+    return propertiesResourcePath(baseFilePath, language);
+  }
+  if (resxLanguageFromPath(baseFilePath, baseLanguage) !== null) {
+    return resxResourcePath(baseFilePath, language);
+  }
+  if (phpLanguageFromPath(baseFilePath) !== null) {
+    return phpResourcePath(baseFilePath, language);
+  }
+  if (webExtensionLanguageFromPath(baseFilePath) !== null) {
+    return webExtensionResourcePath(baseFilePath, language);
+  }
+  return null;
+}
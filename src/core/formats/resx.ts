@@ -0,0 +1,314 @@
+import path from 'path';
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+  getFlatValue,
+} from './base-format';
+import { applyEdits } from './format-helpers';
+import {
+  XmlEdit,
+  XmlElement,
+  childElement,
+  childElements,
+  escapeXml,
+  indentationOf,
+  innerXml,
+  parseXml,
+  textContent,
+} from './xml';
+
+interface ResxEntry {
+  name: string;
+  element: XmlElement;
+  value?: XmlElement;
+  comment?: string;
+}
+
+interface ResxDocument {
+  content: string;
+  root: XmlElement;
+  entries: ResxEntry[];
+}
+
+/** Culture suffix of a resource file name, e.g. `Strings.de-DE` */
+const RESX_CULTURE = /\.([a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*)$/;
+
+const DEFAULT_INDENT = '  ';
+
+const READER_VERSION =
+  'System.Windows.Forms, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089';
+
+const SKELETON = `<?xml version="1.0" encoding="utf-8"?>
+<root>
+  <resheader name="resmimetype">
+    <value>text/microsoft-resx</value>
+  </resheader>
+  <resheader name="version">
+    <value>2.0</value>
+  </resheader>
+  <resheader name="reader">
+    <value>System.Resources.ResXResourceReader, ${READER_VERSION}</value>
+  </resheader>
+  <resheader name="writer">
+    <value>System.Resources.ResXResourceWriter, ${READER_VERSION}</value>
+  </resheader>
+</root>
+`;
+
+export class ResxFormat implements FormatHandler {
+  readonly flatKeys = true;
+
+  /**
+   * Parse a .NET `.resx` resource file. String `<data>` entries are keyed
+   * by name and their `<comment>` becomes translator context; embedded
+   * files and other typed resources are left out.
+   */
+  parse(content: string): ParsedContent {
+    const document = this.parseDocument(content);
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+
+    for (const entry of document.entries) {
+      data[entry.name] = entry.value ? textContent(entry.value) : '';
+      if (entry.comment) {
+        contexts[entry.name] = `Notes: ${entry.comment}`;
+      }
+    }
+
+    return { data, metadata: { contexts } };
+  }
+
+  /**
+   * Write translation data into a `.resx` file. Changed values are
+   * replaced in place; new entries, with their template comment, are
+   * appended before `</root>`. A new file reuses the template's headers
+   * and schema without its data.
+   */
+  stringify(data: TranslationData, options: FormatWriteOptions = {}): string {
+    const template = options.template?.originalContent
+      ? this.parseDocument(options.template.originalContent)
+      : null;
+    const content =
+      options.original?.originalContent ||
+      (template ? this.emptyCopy(template) : SKELETON);
+    const document = this.parseDocument(content);
+    const eol = detectLineEnding(content);
+    const indent = this.detectIndent(document);
+    const edits: XmlEdit[] = [];
+    const known = new Set<string>();
+
+    for (const entry of document.entries) {
+      known.add(entry.name);
+
+      const edit = this.valueEdit(document, entry, data, indent, eol);
+      if (edit) {
+        edits.push(edit);
+      }
+    }
+
+    const templateComments = new Map(
+      (template?.entries ?? []).map(entry => [entry.name, entry.comment])
+    );
+    const order = [
+      ...(template?.entries ?? []).map(entry => entry.name),
+      ...Object.keys(data),
+    ];
+    const rendered: string[] = [];
+
+    for (const name of order) {
+      const value = getFlatValue(data, name);
+      if (value === undefined || known.has(name)) {
+        continue;
+      }
+
+      known.add(name);
+      rendered.push(
+        this.renderEntry(name, value, templateComments.get(name), indent, eol)
+      );
+    }
+
+    if (rendered.length > 0) {
+      const { root } = document;
+      const insertAt =
+        root.contentStart + innerXml(content, root).trimEnd().length;
+      edits.push({
+        start: insertAt,
+        end: insertAt,
+        text: rendered.map(entry => `${eol}${indent}${entry}`).join(''),
+      });
+    }
+
+    return applyEdits(content, edits);
+  }
+
+  private parseDocument(content: string): ResxDocument {
+    const root = parseXml(content);
+
+    if (root.name !== 'root') {
+      throw new Error(`Expected <root> element in .resx, got <${root.name}>`);
+    }
+
+    const entries: ResxEntry[] = [];
+
+    for (const element of childElements(root, 'data')) {
+      const name = element.attributes['name'];
+
+      // Typed data holds images, files or serialized objects, not text
+      if (
+        !name ||
+        element.attributes['type'] !== undefined ||
+        element.attributes['mimetype'] !== undefined
+      ) {
+        continue;
+      }
+
+      const value = childElement(element, 'value');
+      const comment = childElement(element, 'comment');
+      const commentText = comment ? textContent(comment).trim() : '';
+
+      entries.push({
+        name,
+        element,
+        ...(value ? { value } : {}),
+        ...(commentText ? { comment: commentText } : {}),
+      });
+    }
+
+    return { content, root, entries };
+  }
+
+  private valueEdit(
+    document: ResxDocument,
+    entry: ResxEntry,
+    data: TranslationData,
+    indent: string,
+    eol: string
+  ): XmlEdit | null {
+    const { content } = document;
+    const value = getFlatValue(data, entry.name);
+    const current = entry.value ? textContent(entry.value) : '';
+
+    if (value === undefined || value === current) {
+      return null;
+    }
+
+    const text = escapeXml(value);
+
+    if (!entry.value) {
+      const { element } = entry;
+      const valueLine = `${eol}${indentationOf(content, element)}${indent}<value>${text}</value>`;
+
+      if (element.selfClosing) {
+        const openTag = content
+          .slice(element.start, element.end - 2)
+          .replace(/\s*$/, '');
+        return {
+          start: element.start,
+          end: element.end,
+          text: `${openTag}>${valueLine}${eol}${indentationOf(content, element)}</data>`,
+        };
+      }
+
+      return {
+        start: element.contentStart,
+        end: element.contentStart,
+        text: valueLine,
+      };
+    }
+
+    if (entry.value.selfClosing) {
+      return {
+        start: entry.value.start,
+        end: entry.value.end,
+        text: `<value>${text}</value>`,
+      };
+    }
+
+    return {
+      start: entry.value.contentStart,
+      end: entry.value.contentEnd,
+      text,
+    };
+  }
+
+  private renderEntry(
+    name: string,
+    value: string,
+    comment: string | undefined,
+    indent: string,
+    eol: string
+  ): string {
+    return [
+      `<data name="${escapeXml(name, true)}" xml:space="preserve">`,
+      `${indent}${indent}<value>${escapeXml(value)}</value>`,
+      ...(comment
+        ? [`${indent}${indent}<comment>${escapeXml(comment)}</comment>`]
+        : []),
+      `${indent}</data>`,
+    ].join(eol);
+  }
+
+  /**
+   * Template content with its string entries removed, keeping the schema,
+   * headers and any typed resources
+   */
+  private emptyCopy(template: ResxDocument): string {
+    const { content } = template;
+    const edits = template.entries.map(entry => {
+      let start =
+        entry.element.start - indentationOf(content, entry.element).length;
+      if (content[start - 1] === '\n') start--;
+      if (content[start - 1] === '\r') start--;
+      return { start, end: entry.element.end, text: '' };
+    });
+
+    return applyEdits(content, edits);
+  }
+
+  private detectIndent(document: ResxDocument): string {
+    const first = childElements(document.root)[0];
+    const indent = first ? indentationOf(document.content, first) : '';
+    return indent || DEFAULT_INDENT;
+  }
+}
+
+/**
+ * Language of a resource file from its culture suffix, e.g.
+ * `Strings.de-DE.resx` -> `de-DE`. A file without a suffix
+ * (`Strings.resx`) holds the neutral, base language resources.
+ */
+export function resxLanguageFromPath(
+  filePath: string,
+  baseLanguage: string
+): string | null {
+  if (path.extname(filePath).toLowerCase() !== '.resx') {
+    return null;
+  }
+
+  const match = path
+    .basename(filePath, path.extname(filePath))
+    .match(RESX_CULTURE);
+  return match ? match[1]! : baseLanguage;
+}
+
+/**
+ * Path of the resource file for a language next to the neutral file,
+ * e.g. `Strings.resx` + `de-DE` -> `Strings.de-DE.resx`
+ */
+export function resxResourcePath(
+  baseFilePath: string,
+  language: string
+): string {
+  const extension = path.extname(baseFilePath);
+  const name = path.basename(baseFilePath, extension).replace(RESX_CULTURE, '');
+
+  return path.join(
+    path.dirname(baseFilePath),
+    `${name}.${language}${extension}`
+  );
+}
+
+export default ResxFormat;
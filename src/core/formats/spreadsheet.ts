@@ -0,0 +1,254 @@
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatParseOptions,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+  getFlatValue,
+} from './base-format';
+
+export type SpreadsheetDelimiter = ',' | '\t';
+
+export interface Spreadsheet {
+  header: string[];
+  rows: string[][];
+  /** Whether the file started with a UTF-8 byte order mark */
+  bom: boolean;
+}
+
+export interface SpreadsheetColumns {
+  key: number;
+  description: number;
+  /** Column index per language code */
+  languages: Record<string, number>;
+}
+
+const BOM = '\uFEFF';
+
+/** Header cells that name a language column, e.g. `en`, `pt-BR`, `zh_Hant` */
+const LANGUAGE_HEADER = /^[a-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*$/;
+
+export class SpreadsheetFormat implements FormatHandler {
+  readonly flatKeys = true;
+  readonly multiLanguage = true;
+  private readonly delimiter: SpreadsheetDelimiter;
+
+  constructor(delimiter: SpreadsheetDelimiter) {
+    this.delimiter = delimiter;
+  }
+
+  /**
+   * Read one language column of a sheet with one row per key. The
+   * optional `description` column is passed along as context; empty cells
+   * are treated as missing translations.
+   */
+  parse(content: string, options: FormatParseOptions = {}): ParsedContent {
+    const sheet = this.read(content);
+    const columns = spreadsheetColumns(sheet.header);
+    const language = options.language ?? Object.keys(columns.languages)[0];
+    const column =
+      language !== undefined ? columns.languages[language] : undefined;
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+
+    for (const row of sheet.rows) {
+      const key = row[columns.key];
+      if (!key) {
+        continue;
+      }
+
+      const value = column !== undefined ? row[column] : undefined;
+      if (value) {
+        data[key] = value;
+      }
+
+      const description =
+        columns.description !== -1 ? row[columns.description] : undefined;
+      if (description) {
+        contexts[key] = `Description: ${description}`;
+      }
+    }
+
+    return { data, metadata: { contexts } };
+  }
+
+  /**
+   * Write one language column, keeping every other column. A missing
+   * language gets a new column and missing keys get new rows; the
+   * original text is returned unchanged when no cell differs.
+   */
+  stringify(data: TranslationData, options: FormatWriteOptions = {}): string {
+    const content =
+      options.original?.originalContent ||
+      options.template?.originalContent ||
+      '';
+    const sheet: Spreadsheet = content
+      ? this.read(content)
+      : { header: ['key'], rows: [], bom: true };
+    const columns = spreadsheetColumns(sheet.header);
+    const language =
+      options.language ?? Object.keys(columns.languages)[0] ?? 'en';
+    let changed = false;
+
+    let column = columns.languages[language];
+    if (column === undefined) {
+      column = sheet.header.length;
+      sheet.header.push(language);
+      changed = true;
+    }
+
+    const known = new Set<string>();
+    for (const row of sheet.rows) {
+      const key = row[columns.key];
+      if (!key) {
+        continue;
+      }
+
+      known.add(key);
+      const value = getFlatValue(data, key);
+      if (value !== undefined && value !== (row[column] ?? '')) {
+        setCell(row, column, value);
+        changed = true;
+      }
+    }
+
+    for (const [key, value] of Object.entries(data)) {
+      if (typeof value === 'string' && !known.has(key)) {
+        const row: string[] = [];
+        setCell(row, columns.key, key);
+        setCell(row, column, value);
+        sheet.rows.push(row);
+        changed = true;
+      }
+    }
+
+    if (!changed && content) {
+      return content;
+    }
+
+    return this.write(sheet, content ? detectLineEnding(content) : '\r\n');
+  }
+
+  /**
+   * Split content into a header and rows, dropping blank lines
+   */
+  read(content: string): Spreadsheet {
+    const bom = content.startsWith(BOM);
+    const [header = [], ...rows] = parseDelimited(
+      bom ? content.slice(1) : content,
+      this.delimiter
+    ).filter(row => row.some(cell => cell !== ''));
+
+    return { header: header.map(cell => cell.trim()), rows, bom };
+  }
+
+  /**
+   * Serialize a sheet, padding rows to the header width
+   */
+  write(sheet: Spreadsheet, eol = '\r\n'): string {
+    const width = sheet.header.length;
+    const lines = [sheet.header, ...sheet.rows].map(row =>
+      Array.from({ length: Math.max(width, row.length) }, (_, index) =>
+        quoteCell(row[index] ?? '', this.delimiter)
+      ).join(this.delimiter)
+    );
+
+    return `${sheet.bom ? BOM : ''}${lines.join(eol)}${eol}`;
+  }
+}
+
+/**
+ * Locate the key, description and language columns of a header row. The
+ * key column is the one named `key`, or the first column.
+ */
+export function spreadsheetColumns(header: string[]): SpreadsheetColumns {
+  const names = header.map(cell => cell.toLowerCase());
+  const key = Math.max(names.indexOf('key'), 0);
+  const description = names.indexOf('description');
+  const languages: Record<string, number> = {};
+
+  header.forEach((cell, index) => {
+    if (index !== key && index !== description && LANGUAGE_HEADER.test(cell)) {
+      languages[cell.replace(/_/g, '-')] = index;
+    }
+  });
+
+  return { key, description, languages };
+}
+
+/**
+ * Parse delimited text following RFC 4180: quoted cells may contain the
+ * delimiter, doubled quotes and line breaks
+ */
+export function parseDelimited(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]!;
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted cell');
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Quote a cell when it contains the delimiter, quotes, line breaks or
+ * surrounding whitespace
+ */
+function quoteCell(value: string, delimiter: string): string {
+  return value.includes(delimiter) ||
+    /["\r\n]/.test(value) ||
+    value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+function setCell(row: string[], index: number, value: string): void {
+  while (row.length < index) {
+    row.push('');
+  }
+  row[index] = value;
+}
+
+export default SpreadsheetFormat;
@@ -0,0 +1,403 @@
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+  getFlatValue,
+} from './base-format';
+import { applyEdits } from './format-helpers';
+import {
+  XmlEdit,
+  XmlElement,
+  childElement,
+  childElements,
+  escapeXml,
+  indentationOf,
+  innerXml,
+  parseXml,
+  textContent,
+} from './xml';
+
+interface PlistEntry {
+  key: string;
+  keyElement: XmlElement;
+  value: XmlElement;
+}
+
+interface PluralUnit {
+  key: string;
+  element: XmlElement;
+}
+
+interface PluralVariable {
+  name: string;
+  dict: XmlElement;
+  entries: PlistEntry[];
+  units: Map<string, PluralUnit>;
+}
+
+interface PluralRule {
+  key: string;
+  dict: XmlElement;
+  formatKey?: PluralUnit;
+  /** Raw NSStringLocalizedFormatKey value, e.g. `%#@files@` */
+  format?: string;
+  variables: PluralVariable[];
+}
+
+interface StringsdictDocument {
+  content: string;
+  root: XmlElement;
+  dict: XmlElement;
+  rules: PluralRule[];
+}
+
+const FORMAT_KEY = 'NSStringLocalizedFormatKey';
+const PLURAL_RULE_TYPE = 'NSStringPluralRuleType';
+const VARIABLE_REFERENCE = /%(?:\d+\$)?#@[^@]+@/g;
+
+const SKELETON = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+  '<plist version="1.0">',
+  '<dict>',
+  '</dict>',
+  '</plist>',
+  '',
+].join('\n');
+
+export class StringsdictFormat implements FormatHandler {
+  readonly flatKeys = true;
+
+  /**
+   * Parse a `.stringsdict` plist of plural rules.
+   *
+   * Each plural category is keyed as `key[variable.category]`. The format
+   * key is only exposed as `key[NSStringLocalizedFormatKey]` when it holds
+   * text besides its `%#@variable@` references.
+   */
+  parse(content: string): ParsedContent {
+    const document = this.parseDocument(content);
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+
+    for (const rule of document.rules) {
+      if (rule.formatKey) {
+        data[rule.formatKey.key] = textContent(rule.formatKey.element);
+        contexts[rule.formatKey.key] =
+          'Plural format string; keep %#@variable@ references unchanged';
+      }
+
+      for (const variable of rule.variables) {
+        for (const [category, unit] of variable.units) {
+          data[unit.key] = textContent(unit.element);
+          contexts[unit.key] = `Plural category: ${category}`;
+        }
+      }
+    }
+
+    return { data, metadata: { contexts } };
+  }
+
+  /**
+   * Write plural translations into a `.stringsdict` file.
+   *
+   * Changed strings are replaced in place and missing categories are added
+   * to their variable. Rules the file lacks are built from the template,
+   * copying its format key and variable settings.
+   */
+  stringify(data: TranslationData, options: FormatWriteOptions = {}): string {
+    const content = options.original?.originalContent || SKELETON;
+    const document = this.parseDocument(content);
+    const template = options.template?.originalContent
+      ? this.parseDocument(options.template.originalContent)
+      : null;
+    const eol = detectLineEnding(content);
+    const indent = this.detectIndent(document);
+    const edits: XmlEdit[] = [];
+    const knownRules = new Set<string>();
+
+    for (const rule of document.rules) {
+      knownRules.add(rule.key);
+
+      if (rule.formatKey) {
+        edits.push(...this.stringEdit(content, rule.formatKey, data));
+      }
+
+      for (const variable of rule.variables) {
+        for (const unit of variable.units.values()) {
+          edits.push(...this.stringEdit(content, unit, data));
+        }
+        edits.push(
+          ...this.missingCategoriesEdit(document, rule, variable, data, eol)
+        );
+      }
+    }
+
+    const rendered = (template?.rules ?? [])
+      .filter(rule => !knownRules.has(rule.key))
+      .map(rule => this.renderRule(template!, rule, data, indent, eol))
+      .filter((markup): markup is string => markup !== null);
+
+    if (rendered.length > 0) {
+      const { dict } = document;
+      const insertAt =
+        dict.contentStart + innerXml(content, dict).trimEnd().length;
+      const base = indentationOf(content, dict) + indent;
+      edits.push({
+        start: insertAt,
+        end: insertAt,
+        text: rendered
+          .map(markup => eol + this.indentLines(markup, base, eol))
+          .join(''),
+      });
+    }
+
+    return applyEdits(content, edits);
+  }
+
+  private parseDocument(content: string): StringsdictDocument {
+    const root = parseXml(content);
+    const dict = root.name === 'plist' ? childElement(root, 'dict') : root;
+
+    if (!dict || dict.name !== 'dict') {
+      throw new Error('Expected a plist with a top-level <dict>');
+    }
+
+    const rules: PluralRule[] = [];
+
+    for (const entry of dictEntries(dict)) {
+      if (entry.value.name !== 'dict') {
+        continue;
+      }
+
+      const rule: PluralRule = {
+        key: entry.key,
+        dict: entry.value,
+        variables: [],
+      };
+
+      for (const item of dictEntries(entry.value)) {
+        if (item.key === FORMAT_KEY && item.value.name === 'string') {
+          rule.format = textContent(item.value);
+          if (rule.format.replace(VARIABLE_REFERENCE, '').trim() !== '') {
+            rule.formatKey = {
+              key: `${entry.key}[${FORMAT_KEY}]`,
+              element: item.value,
+            };
+          }
+          continue;
+        }
+
+        if (item.value.name !== 'dict') {
+          continue;
+        }
+
+        const entries = dictEntries(item.value);
+        const specType = entries.find(
+          variable => variable.key === 'NSStringFormatSpecTypeKey'
+        );
+        if (!specType || textContent(specType.value) !== PLURAL_RULE_TYPE) {
+          continue;
+        }
+
+        const units = new Map<string, PluralUnit>();
+        for (const variable of entries) {
+          if (
+            !variable.key.startsWith('NSString') &&
+            variable.value.name === 'string'
+          ) {
+            units.set(variable.key, {
+              key: `${entry.key}[${item.key}.${variable.key}]`,
+              element: variable.value,
+            });
+          }
+        }
+
+        rule.variables.push({
+          name: item.key,
+          dict: item.value,
+          entries,
+          units,
+        });
+      }
+
+      rules.push(rule);
+    }
+
+    return { content, root, dict, rules };
+  }
+
+  private stringEdit(
+    content: string,
+    unit: PluralUnit,
+    data: TranslationData
+  ): XmlEdit[] {
+    const value = getFlatValue(data, unit.key);
+    const { element } = unit;
+
+    if (value === undefined || value === textContent(element)) {
+      return [];
+    }
+
+    return [
+      element.selfClosing
+        ? {
+            start: element.start,
+            end: element.end,
+            text: `<string>${escapeXml(value)}</string>`,
+          }
+        : {
+            start: element.contentStart,
+            end: element.contentEnd,
+            text: escapeXml(value),
+          },
+    ];
+  }
+
+  /**
+   * Add plural categories the target language needs but the file lacks
+   */
+  private missingCategoriesEdit(
+    document: StringsdictDocument,
+    rule: PluralRule,
+    variable: PluralVariable,
+    data: TranslationData,
+    eol: string
+  ): XmlEdit[] {
+    const { content } = document;
+    const prefix = `${rule.key}[${variable.name}.`;
+    const missing = Object.entries(data).filter(
+      ([key, value]) =>
+        typeof value === 'string' &&
+        key.startsWith(prefix) &&
+        key.endsWith(']') &&
+        !variable.units.has(key.slice(prefix.length, -1))
+    );
+    const last = variable.entries[variable.entries.length - 1];
+
+    if (missing.length === 0 || !last) {
+      return [];
+    }
+
+    const lineIndent = indentationOf(content, last.keyElement);
+    return [
+      {
+        start: last.value.end,
+        end: last.value.end,
+        text: missing
+          .map(
+            ([key, value]) =>
+              `${eol}${lineIndent}<key>${escapeXml(key.slice(prefix.length, -1))}</key>` +
+              `${eol}${lineIndent}<string>${escapeXml(value as string)}</string>`
+          )
+          .join(''),
+      },
+    ];
+  }
+
+  /**
+   * Build a rule for a new file from the template's structure
+   */
+  private renderRule(
+    template: StringsdictDocument,
+    rule: PluralRule,
+    data: TranslationData,
+    indent: string,
+    eol: string
+  ): string | null {
+    const lines: string[] = [];
+    let hasValues = false;
+
+    const format =
+      (rule.formatKey && getFlatValue(data, rule.formatKey.key)) ?? rule.format;
+    if (format !== undefined) {
+      lines.push(`${indent}<key>${FORMAT_KEY}</key>`);
+      lines.push(`${indent}<string>${escapeXml(format)}</string>`);
+    }
+
+    for (const variable of rule.variables) {
+      lines.push(`${indent}<key>${escapeXml(variable.name)}</key>`);
+      lines.push(`${indent}<dict>`);
+
+      for (const entry of variable.entries) {
+        if (entry.key.startsWith('NSString')) {
+          const raw = template.content.slice(
+            entry.value.start,
+            entry.value.end
+          );
+          lines.push(`${indent}${indent}<key>${escapeXml(entry.key)}</key>`);
+          lines.push(`${indent}${indent}${raw}`);
+        }
+      }
+
+      const prefix = `${rule.key}[${variable.name}.`;
+      for (const [key, value] of Object.entries(data)) {
+        if (
+          typeof value === 'string' &&
+          key.startsWith(prefix) &&
+          key.endsWith(']')
+        ) {
+          hasValues = true;
+          lines.push(
+            `${indent}${indent}<key>${escapeXml(key.slice(prefix.length, -1))}</key>`
+          );
+          lines.push(`${indent}${indent}<string>${escapeXml(value)}</string>`);
+        }
+      }
+
+      lines.push(`${indent}</dict>`);
+    }
+
+    if (!hasValues) {
+      return null;
+    }
+
+    return [
+      `<key>${escapeXml(rule.key)}</key>`,
+      '<dict>',
+      ...lines,
+      '</dict>',
+    ].join(eol);
+  }
+
+  private indentLines(markup: string, indent: string, eol: string): string {
+    return markup
+      .split(eol)
+      .map(line => indent + line)
+      .join(eol);
+  }
+
+  private detectIndent(document: StringsdictDocument): string {
+    const first = childElements(document.dict)[0];
+    const indent = first
+      ? indentationOf(document.content, first).slice(
+          indentationOf(document.content, document.dict).length
+        )
+      : '';
+    return indent || '\t';
+  }
+}
+
+/**
+ * Key/value pairs of a plist `<dict>`
+ */
+function dictEntries(dict: XmlElement): PlistEntry[] {
+  const elements = childElements(dict);
+  const entries: PlistEntry[] = [];
+
+  for (let i = 0; i < elements.length - 1; i++) {
+    const keyElement = elements[i]!;
+    const value = elements[i + 1]!;
+
+    if (keyElement.name === 'key' && value.name !== 'key') {
+      entries.push({ key: textContent(keyElement), keyElement, value });
+      i++;
+    }
+  }
+
+  return entries;
+}
+
+export default StringsdictFormat;
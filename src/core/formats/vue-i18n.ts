@@ -0,0 +1,234 @@
+import yaml from 'yaml';
+import type { ParsedFile, TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatParseOptions,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+} from './base-format';
+import { writeJson } from './json-writer';
+import { writeYaml } from './yaml-writer';
+
+export interface VueI18nWriteOptions extends FormatWriteOptions {
+  /** Indent width for blocks that have no indentation to copy */
+  indent?: number;
+}
+
+interface I18nBlock {
+  /** `json` or `yaml` */
+  lang: 'json' | 'yaml';
+  /** Set for blocks that hold a single locale: `<i18n locale="fr">` */
+  locale?: string;
+  /** Offsets of the text between the opening and closing tags */
+  start: number;
+  end: number;
+  data: TranslationData;
+}
+
+/** Top-level `<i18n>` custom blocks; `<i18n-t>` components don't match */
+const BLOCK = /^<i18n(?=[\s>])([^>]*)>([\s\S]*?)<\/i18n\s*>/gim;
+
+export class VueI18nFormat implements FormatHandler {
+  readonly flatKeys = false;
+  readonly multiLanguage = true;
+
+  /**
+   * Read one locale from the `<i18n>` custom blocks of a Vue single-file
+   * component. Blocks hold every locale (`{ "en": {...}, "fr": {...} }`)
+   * or, with a `locale` attribute, a single one; `lang` may be `json`
+   * (the default) or `yaml`. Without a language the first locale is read.
+   */
+  parse(content: string, options: FormatParseOptions = {}): ParsedContent {
+    const locales = readLocales(readBlocks(content));
+    const language = options.language ?? Object.keys(locales)[0];
+    return { data: (language && locales[language]) || {} };
+  }
+
+  /**
+   * Write one locale back into the component. Only the block holding the
+   * locale changes, edited in place so its formatting is kept; the rest
+   * of the file stays byte for byte. A locale that isn't there yet goes
+   * into the first block without a `locale` attribute, or a new block
+   * after the last one.
+   */
+  stringify(data: TranslationData, options: VueI18nWriteOptions = {}): string {
+    const content =
+      options.original?.originalContent || options.template?.originalContent;
+    if (!content) {
+      throw new Error('Vue components must exist before their <i18n> block');
+    }
+
+    const blocks = readBlocks(content);
+    const locales = readLocales(blocks);
+    const language = options.language ?? Object.keys(locales)[0];
+    if (!language) {
+      throw new Error('No locale to write into the <i18n> block');
+    }
+
+    const block =
+      blocks.find(candidate => candidate.locale === language) ??
+      blocks.find(
+        candidate => !candidate.locale && language in candidate.data
+      ) ??
+      blocks.find(candidate => !candidate.locale);
+
+    if (!block) {
+      const last = blocks[blocks.length - 1]!;
+      const eol = detectLineEnding(content);
+      const closing = content.indexOf('>', last.end) + 1;
+      const body = writeBlock(data, last.lang, eol, options.indent);
+      const lang = last.lang === 'yaml' ? ' lang="yaml"' : ' lang="json"';
+      return (
+        content.slice(0, closing) +
+        `${eol}${eol}<i18n locale="${language}"${lang}>${eol}${body}</i18n>` +
+        content.slice(closing)
+      );
+    }
+
+    const text = content.slice(block.start, block.end);
+    const updated = block.locale ? data : { ...block.data, [language]: data };
+    return (
+      content.slice(0, block.start) +
+      editBlock(text, block.data, updated, block.lang, options.indent) +
+      content.slice(block.end)
+    );
+  }
+}
+
+/**
+ * Data of every locale in the blocks, by locale code
+ */
+function readLocales(blocks: I18nBlock[]): Record<string, TranslationData> {
+  if (blocks.length === 0) {
+    throw new Error('No <i18n> block found');
+  }
+
+  const locales: Record<string, TranslationData> = {};
+  for (const block of blocks) {
+    const entries = block.locale
+      ? [[block.locale, block.data] as const]
+      : Object.entries(block.data);
+    for (const [locale, data] of entries) {
+      if (isObject(data)) {
+        locales[locale] = { ...locales[locale], ...data };
+      }
+    }
+  }
+  return locales;
+}
+
+/**
+ * Find the `<i18n>` blocks of a component and parse their contents
+ */
+function readBlocks(content: string): I18nBlock[] {
+  const blocks: I18nBlock[] = [];
+
+  for (const match of content.matchAll(BLOCK)) {
+    const attributes = readAttributes(match[1]!);
+    if (attributes['src'] !== undefined) {
+      continue;
+    }
+
+    const lang = (attributes['lang'] ?? 'json').toLowerCase();
+    if (lang !== 'json' && lang !== 'yaml' && lang !== 'yml') {
+      throw new Error(`Unsupported <i18n> block language: ${lang}`);
+    }
+
+    const start = match.index! + match[0].indexOf('>') + 1;
+    const text = match[2]!;
+    const data = text.trim()
+      ? parseBlock(text, lang === 'json' ? 'json' : 'yaml')
+      : {};
+
+    blocks.push({
+      lang: lang === 'json' ? 'json' : 'yaml',
+      ...(attributes['locale'] ? { locale: attributes['locale'] } : {}),
+      start,
+      end: start + text.length,
+      data,
+    });
+  }
+
+  return blocks;
+}
+
+function readAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(
+    /([\w:-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+  )) {
+    attributes[match[1]!.toLowerCase()] =
+      match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+function parseBlock(text: string, lang: 'json' | 'yaml'): TranslationData {
+  let data: unknown;
+  try {
+    data = lang === 'json' ? JSON.parse(text) : yaml.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid <i18n> block: ${(error as Error).message}`);
+  }
+
+  if (!isObject(data)) {
+    throw new Error('The <i18n> block must contain an object');
+  }
+  return data as TranslationData;
+}
+
+/**
+ * Apply new data to a block's text, keeping the whitespace around it
+ */
+function editBlock(
+  text: string,
+  current: TranslationData,
+  data: TranslationData,
+  lang: 'json' | 'yaml',
+  indent?: number
+): string {
+  const leading = text.match(/^\s*/)![0];
+  const trailing = text.slice(leading.length).match(/\s*$/)![0];
+  const body = text.slice(leading.length, text.length - trailing.length);
+
+  const eol = detectLineEnding(text);
+  if (!body) {
+    return leading + writeBlock(data, lang, eol, indent) + trailing;
+  }
+
+  const original: ParsedFile = {
+    data: current,
+    format: lang,
+    originalContent: lang === 'yaml' ? body + eol : body,
+    path: '',
+  };
+  const written =
+    lang === 'json'
+      ? writeJson(data, { original, indent: indent ?? 2 })
+      : writeYaml(data, { original, indent: indent ?? 2 });
+
+  return leading + written.replace(/\s*$/, '') + trailing;
+}
+
+/**
+ * Text for a new or empty block, ending with a line break
+ */
+function writeBlock(
+  data: TranslationData,
+  lang: 'json' | 'yaml',
+  eol: string,
+  indent = 2
+): string {
+  const text =
+    lang === 'json'
+      ? `${JSON.stringify(data, null, indent)}\n`
+      : yaml.stringify(data, { indent, lineWidth: 0 });
+  return text.replace(/\n/g, eol);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export default VueI18nFormat;
@@ -0,0 +1,186 @@
+import path from 'path';
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  insertionOrder,
+} from './base-format';
+import { writeJson } from './json-writer';
+
+export interface WebExtensionWriteOptions extends FormatWriteOptions {
+  /** Indent width for files that have no indentation to copy */
+  indent?: number;
+}
+
+interface WebExtensionPlaceholder {
+  content?: string;
+  example?: string;
+}
+
+interface WebExtensionMessage {
+  message: string;
+  description?: string;
+  placeholders?: Record<string, WebExtensionPlaceholder>;
+}
+
+type MessagesDocument = Record<string, unknown>;
+
+export class WebExtensionFormat implements FormatHandler {
+  readonly flatKeys = true;
+
+  /**
+   * Parse a browser extension `_locales/<locale>/messages.json` file.
+   * Each entry's `message` is the translatable value; its description and
+   * placeholders become translator context.
+   */
+  parse(content: string): ParsedContent {
+    const document = this.parseDocument(content);
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+    const placeholders: Record<string, string> = {};
+
+    for (const [key, entry] of Object.entries(document)) {
+      if (!isMessage(entry)) {
+        continue;
+      }
+
+      data[key] = entry.message;
+      const context = this.describeMessage(entry);
+      if (context) {
+        contexts[key] = context;
+      }
+
+      const names = Object.keys(entry.placeholders ?? {});
+      if (names.length > 0) {
+        placeholders[key] = names.map(name => `$${name}$`).join(', ');
+      }
+    }
+
+    return { data, metadata: { contexts, placeholders } };
+  }
+
+  /**
+   * Write a messages file by editing the original in place. Only
+   * `message` values change; descriptions and placeholder definitions are
+   * kept, and new entries copy them from the template in its order.
+   */
+  stringify(
+    data: TranslationData,
+    options: WebExtensionWriteOptions = {}
+  ): string {
+    const content = options.original?.originalContent ?? '';
+    const original = content.trim() ? this.parseDocument(content) : {};
+    const template = options.template?.originalContent
+      ? this.parseDocument(options.template.originalContent)
+      : {};
+    const document: MessagesDocument = {};
+
+    const added = Object.keys(data).filter(key => !(key in original));
+    for (const key of insertionOrder(
+      Object.keys(original),
+      added,
+      Object.keys(template)
+    )) {
+      const value = data[key];
+      const entry = original[key] ?? template[key];
+
+      if (typeof value !== 'string') {
+        document[key] = entry;
+      } else if (isMessage(entry)) {
+        document[key] = { ...entry, message: value };
+      } else {
+        document[key] = { message: value };
+      }
+    }
+
+    return writeJson(document as TranslationData, {
+      ...options,
+      indent: options.indent ?? 2,
+    });
+  }
+
+  private describeMessage(entry: WebExtensionMessage): string {
+    const parts: string[] = [];
+
+    if (entry.description) {
+      parts.push(`Description: ${entry.description}`);
+    }
+
+    const placeholders = Object.entries(entry.placeholders ?? {}).map(
+      ([name, placeholder]) =>
+        placeholder.example !== undefined
+          ? `$${name}$ (e.g. ${placeholder.example})`
+          : `$${name}$`
+    );
+    if (placeholders.length > 0) {
+      parts.push(`Placeholders, keep as written: ${placeholders.join('; ')}`);
+    }
+
+    return parts.join('\n');
+  }
+
+  private parseDocument(content: string): MessagesDocument {
+    let document: unknown;
+
+    try {
+      document = JSON.parse(content.replace(/^\uFEFF/, ''));
+    } catch (error) {
+      throw new Error(
+        `Invalid messages.json: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+      throw new Error('Invalid messages.json: file must contain a JSON object');
+    }
+
+    return document as MessagesDocument;
+  }
+}
+
+function isMessage(entry: unknown): entry is WebExtensionMessage {
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof (entry as WebExtensionMessage).message === 'string'
+  );
+}
+
+/**
+ * Whether a path is a browser extension messages file,
+ * `_locales/<locale>/messages.json`
+ */
+export function isWebExtensionMessages(filePath: string): boolean {
+  return (
+    path.basename(filePath) === 'messages.json' &&
+    path.basename(path.dirname(path.dirname(filePath))) === '_locales'
+  );
+}
+
+/**
+ * Language of a messages file from its locale folder,
+ * e.g. `_locales/pt_BR/messages.json` -> `pt-BR`
+ */
+export function webExtensionLanguageFromPath(filePath: string): string | null {
+  return isWebExtensionMessages(filePath)
+    ? path.basename(path.dirname(filePath)).replace(/_/g, '-')
+    : null;
+}
+
+/**
+ * Path of the messages file for a language next to the base file,
+ * e.g. `_locales/en/messages.json` + `pt-BR` -> `_locales/pt_BR/messages.json`
+ */
+export function webExtensionResourcePath(
+  baseFilePath: string,
+  language: string
+): string {
+  return path.join(
+    path.dirname(path.dirname(baseFilePath)),
+    language.replace(/-/g, '_'),
+    'messages.json'
+  );
+}
+
+export default WebExtensionFormat;
@@ -0,0 +1,294 @@
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatParseOptions,
+  FormatWriteOptions,
+  ParsedContent,
+  detectLineEnding,
+} from './base-format';
+
+interface StringUnit {
+  state?: string;
+  value: string;
+}
+
+interface Localization {
+  stringUnit?: StringUnit;
+  variations?: Record<string, Record<string, Localization>>;
+  [key: string]: unknown;
+}
+
+interface CatalogEntry {
+  comment?: string;
+  shouldTranslate?: boolean;
+  localizations?: Record<string, Localization>;
+  [key: string]: unknown;
+}
+
+interface StringCatalog {
+  sourceLanguage: string;
+  strings: Record<string, CatalogEntry>;
+  version?: string;
+  [key: string]: unknown;
+}
+
+/** Variation path segment, e.g. `[plural.one]` or `[device.iphone]` */
+const VARIATION_SUFFIX = /^(.*?)((?:\[[a-z]+\.[^[\]]+\])+)$/;
+
+/** States that mark a localization as not yet translated */
+export const XCSTRINGS_PENDING_STATES = ['new'];
+
+/** State of a localization whose translation needs review */
+export const XCSTRINGS_REVIEW_STATE = 'needs_review';
+
+export class XcstringsFormat implements FormatHandler {
+  readonly flatKeys = true;
+  readonly multiLanguage = true;
+
+  /**
+   * Read one language from an Xcode String Catalog.
+   *
+   * Strings are keyed by their catalog key; plural and device variations
+   * add suffixes such as `[plural.one]`. The source language falls back to
+   * the key itself, as Xcode does, when no localization is stored.
+   */
+  parse(content: string, options: FormatParseOptions = {}): ParsedContent {
+    const catalog = this.parseCatalog(content);
+    const language = options.language ?? catalog.sourceLanguage;
+    const isSource = language === catalog.sourceLanguage;
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+    const states: Record<string, string> = {};
+    const needsTranslation: string[] = [];
+    const needsReview: string[] = [];
+
+    for (const [key, entry] of Object.entries(catalog.strings)) {
+      if (entry.shouldTranslate === false) {
+        continue;
+      }
+
+      const localization = entry.localizations?.[language];
+      const units = localization ? this.collectUnits(key, localization) : [];
+
+      if (units.length === 0 && isSource) {
+        units.push([key, { value: key }, []]);
+      }
+
+      for (const [unitKey, unit, variations] of units) {
+        data[unitKey] = unit.value;
+
+        const notes = [
+          ...(entry.comment ? [`Notes: ${entry.comment}`] : []),
+          ...variations.map(
+            ([type, name]) => `${capitalize(type)} variation: ${name}`
+          ),
+        ];
+        if (notes.length > 0) {
+          contexts[unitKey] = notes.join('\n');
+        }
+
+        if (unit.state) {
+          states[unitKey] = unit.state;
+          if (!isSource && XCSTRINGS_PENDING_STATES.includes(unit.state)) {
+            needsTranslation.push(unitKey);
+          }
+          if (!isSource && unit.state === XCSTRINGS_REVIEW_STATE) {
+            needsReview.push(unitKey);
+          }
+        }
+      }
+    }
+
+    return {
+      data,
+      metadata: { contexts, states, needsTranslation, needsReview },
+    };
+  }
+
+  /**
+   * Write one language into a String Catalog, keeping every other
+   * language. Written units are marked `translated`, or `needs_review` for
+   * `needsReview` keys; the original text is returned unchanged when no
+   * unit differs.
+   */
+  stringify(data: TranslationData, options: FormatWriteOptions = {}): string {
+    const content =
+      options.original?.originalContent ||
+      options.template?.originalContent ||
+      '';
+    const catalog: StringCatalog = content
+      ? this.parseCatalog(content)
+      : {
+          sourceLanguage: options.language ?? 'en',
+          strings: {},
+          version: '1.0',
+        };
+    const language = options.language ?? catalog.sourceLanguage;
+    const needsReview = new Set(options.needsReview ?? []);
+    let changed = false;
+
+    for (const [dataKey, value] of Object.entries(data)) {
+      if (typeof value !== 'string') {
+        continue;
+      }
+
+      const [key, variations] = this.resolveKey(catalog, dataKey);
+
+      // Source strings without a localization already read as their key
+      if (
+        language === catalog.sourceLanguage &&
+        variations.length === 0 &&
+        value === key &&
+        !catalog.strings[key]?.localizations?.[language]
+      ) {
+        continue;
+      }
+
+      const entry = (catalog.strings[key] ??= {});
+      const localizations = (entry.localizations ??= {});
+
+      if (!localizations[language]) {
+        localizations[language] = {};
+        entry.localizations = sortKeys(localizations);
+      }
+
+      let localization = entry.localizations[language]!;
+      for (const [type, name] of variations) {
+        const group = ((localization.variations ??= {})[type] ??= {});
+        localization = group[name] ??= {};
+      }
+
+      const state = needsReview.has(dataKey)
+        ? XCSTRINGS_REVIEW_STATE
+        : 'translated';
+      const unit = localization.stringUnit;
+      if (unit?.value === value && unit.state === state) {
+        continue;
+      }
+
+      localization.stringUnit = { state, value };
+      changed = true;
+    }
+
+    if (!changed && content) {
+      return content;
+    }
+
+    return this.serialize(catalog, content);
+  }
+
+  private parseCatalog(content: string): StringCatalog {
+    let catalog: StringCatalog;
+
+    try {
+      catalog = JSON.parse(content.replace(/^\uFEFF/, ''));
+    } catch (error) {
+      throw new Error(
+        `Invalid String Catalog: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (
+      !catalog ||
+      typeof catalog !== 'object' ||
+      typeof catalog.strings !== 'object'
+    ) {
+      throw new Error('Invalid String Catalog: missing "strings" object');
+    }
+
+    return catalog;
+  }
+
+  /**
+   * Flatten a localization into string units with their variation path
+   */
+  private collectUnits(
+    key: string,
+    localization: Localization,
+    variations: [string, string][] = []
+  ): [string, StringUnit, [string, string][]][] {
+    const units: [string, StringUnit, [string, string][]][] = [];
+
+    if (localization.stringUnit) {
+      units.push([key, localization.stringUnit, variations]);
+    }
+
+    for (const [type, cases] of Object.entries(localization.variations ?? {})) {
+      for (const [name, nested] of Object.entries(cases)) {
+        units.push(
+          ...this.collectUnits(`${key}[${type}.${name}]`, nested, [
+            ...variations,
+            [type, name],
+          ])
+        );
+      }
+    }
+
+    return units;
+  }
+
+  /**
+   * Split a data key into its catalog key and variation path
+   */
+  private resolveKey(
+    catalog: StringCatalog,
+    dataKey: string
+  ): [string, [string, string][]] {
+    const match = dataKey.match(VARIATION_SUFFIX);
+
+    if (!match || catalog.strings[dataKey] || !catalog.strings[match[1]!]) {
+      return [dataKey, []];
+    }
+
+    const variations = [...match[2]!.matchAll(/\[([a-z]+)\.([^[\]]+)\]/g)].map(
+      part => [part[1]!, part[2]!] as [string, string]
+    );
+    return [match[1]!, variations];
+  }
+
+  /**
+   * Serialize like Xcode does (`"key" : value`, two-space indent) unless
+   * the original file uses plain JSON spacing
+   */
+  private serialize(catalog: StringCatalog, original: string): string {
+    const eol = detectLineEnding(original);
+    const separator = !original || /"\s:\s/.test(original) ? ' : ' : ': ';
+
+    const render = (value: unknown, indent: string): string => {
+      if (Array.isArray(value)) {
+        if (value.length === 0) return '[]';
+        const inner = indent + '  ';
+        return `[${eol}${value.map(item => inner + render(item, inner)).join(`,${eol}`)}${eol}${indent}]`;
+      }
+
+      if (value && typeof value === 'object') {
+        const entries = Object.entries(value);
+        if (entries.length === 0) return '{}';
+        const inner = indent + '  ';
+        return `{${eol}${entries
+          .map(
+            ([key, item]) =>
+              `${inner}${JSON.stringify(key)}${separator}${render(item, inner)}`
+          )
+          .join(`,${eol}`)}${eol}${indent}}`;
+      }
+
+      return JSON.stringify(value);
+    };
+
+    const trailing = original && !/\n$/.test(original) ? '' : eol;
+    return render(catalog, '') + trailing;
+  }
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(record).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export default XcstringsFormat;
@@ -0,0 +1,515 @@
+import type { TranslationData } from '../parser';
+import {
+  FormatHandler,
+  FormatWriteOptions,
+  ParsedContent,
+  getFlatValue,
+} from './base-format';
+import { applyEdits } from './format-helpers';
+import {
+  XmlEdit,
+  XmlElement,
+  childElement,
+  childElements,
+  escapeXml,
+  findElements,
+  hasChildElements,
+  indentationOf,
+  innerXml,
+  parseXml,
+  setAttributeEdit,
+  textContent,
+  withAttribute,
+} from './xml';
+
+/** States that mark a unit as not yet translated */
+export const XLIFF_PENDING_STATES = [
+  // XLIFF 1.2
+  'new',
+  'needs-translation',
+  'needs-adaptation',
+  'needs-l10n',
+  // XLIFF 2.0
+  'initial',
+];
+
+/** XLIFF 1.2 states that mark a translation as needing review */
+export const XLIFF_REVIEW_STATES = [
+  'needs-review-translation',
+  'needs-review-adaptation',
+  'needs-review-l10n',
+];
+
+interface XliffSegment {
+  key: string;
+  source: XmlElement | undefined;
+  target: XmlElement | undefined;
+  /** Element carrying the `state` attribute: target (1.2) or segment (2.0) */
+  stateHolder: XmlElement;
+  /** Element a new target is appended to */
+  container: XmlElement;
+}
+
+interface XliffUnit {
+  element: XmlElement;
+  segments: XliffSegment[];
+  notes: string[];
+}
+
+interface XliffDocument {
+  content: string;
+  root: XmlElement;
+  version: '1.2' | '2.0';
+  units: XliffUnit[];
+}
+
+export class XliffFormat implements FormatHandler {
+  readonly flatKeys = true;
+
+  /**
+   * Parse XLIFF 1.2 or 2.x into flat translation data keyed by unit id.
+   *
+   * Values are the target segments; sources and notes are returned as
+   * metadata and units in a pending state (e.g. `needs-translation`) are
+   * listed so the orchestrator can treat them as missing.
+   */
+  parse(content: string): ParsedContent {
+    const document = this.parseDocument(content);
+    const data: TranslationData = {};
+    const contexts: Record<string, string> = {};
+    const sources: Record<string, string> = {};
+    const states: Record<string, string> = {};
+    const needsTranslation: string[] = [];
+    const needsReview: string[] = [];
+
+    for (const unit of document.units) {
+      for (const segment of unit.segments) {
+        data[segment.key] = segment.target
+          ? this.elementValue(content, segment.target)
+          : '';
+
+        if (segment.source) {
+          sources[segment.key] = this.elementValue(content, segment.source);
+        }
+
+        if (unit.notes.length > 0) {
+          contexts[segment.key] = `Notes: ${unit.notes.join(' ')}`;
+        }
+
+        const state = segment.stateHolder.attributes['state'];
+        if (state) {
+          states[segment.key] = state;
+          if (XLIFF_PENDING_STATES.includes(state)) {
+            needsTranslation.push(segment.key);
+          }
+          if (XLIFF_REVIEW_STATES.includes(state)) {
+            needsReview.push(segment.key);
+          }
+        }
+      }
+    }
+
+    return {
+      data,
+      metadata: { contexts, sources, states, needsTranslation, needsReview },
+    };
+  }
+
+  /**
+   * Write translation data into an XLIFF document.
+   *
+   * Only targets whose value changed are touched; their state becomes
+   * `translated`. In XLIFF 1.2 files, `needsReview` keys get the
+   * `needs-review-translation` state instead. Units missing from the
+   * original are copied from the template (without its targets) and
+   * appended to the file.
+   */
+  stringify(data: TranslationData, options: FormatWriteOptions = {}): string {
+    const template = options.template?.originalContent
+      ? this.parseDocument(options.template.originalContent)
+      : null;
+    const originalContent =
+      options.original?.originalContent ||
+      this.buildSkeleton(template, options.language);
+
+    const document = this.parseDocument(originalContent);
+    const needsReview = options.needsReview
+      ? new Set(options.needsReview)
+      : undefined;
+    const edits: XmlEdit[] = [];
+    const knownKeys = new Set<string>();
+
+    for (const unit of document.units) {
+      for (const segment of unit.segments) {
+        knownKeys.add(segment.key);
+        edits.push(...this.segmentEdits(document, segment, data, needsReview));
+      }
+    }
+
+    const newUnits = this.buildNewUnits(data, knownKeys, template);
+    if (newUnits.length > 0) {
+      edits.push(this.insertUnitsEdit(document, newUnits));
+    }
+
+    return applyEdits(originalContent, edits);
+  }
+
+  private parseDocument(content: string): XliffDocument {
+    const root = parseXml(content);
+    const version = (root.attributes['version'] ?? '1.2').startsWith('2')
+      ? '2.0'
+      : '1.2';
+
+    const units =
+      version === '2.0'
+        ? findElements(root, 'unit').map(unit => this.readUnit20(unit))
+        : findElements(root, 'trans-unit').map(unit => this.readUnit12(unit));
+
+    return {
+      content,
+      root,
+      version,
+      units: units.filter(
+        unit => unit.element.attributes['translate'] !== 'no'
+      ),
+    };
+  }
+
+  private readUnit12(element: XmlElement): XliffUnit {
+    const target = childElement(element, 'target');
+
+    return {
+      element,
+      notes: childElements(element, 'note').map(note => textContent(note)),
+      segments: [
+        {
+          key: element.attributes['id'] ?? element.attributes['resname'] ?? '',
+          source: childElement(element, 'source'),
+          target,
+          stateHolder: target ?? element,
+          container: element,
+        },
+      ],
+    };
+  }
+
+  private readUnit20(element: XmlElement): XliffUnit {
+    const id = element.attributes['id'] ?? '';
+    const notesElement = childElement(element, 'notes');
+    const segments = childElements(element, 'segment');
+
+    return {
+      element,
+      notes: notesElement
+        ? childElements(notesElement, 'note').map(note => textContent(note))
+        : [],
+      segments: segments.map((segment, index) => ({
+        // Units with several segments get one key per segment
+        key:
+          segments.length === 1
+            ? id
+            : `${id}#${segment.attributes['id'] ?? index}`,
+        source: childElement(segment, 'source'),
+        target: childElement(segment, 'target'),
+        stateHolder: segment,
+        container: segment,
+      })),
+    };
+  }
+
+  /**
+   * Text of a source/target element; inline markup is kept as raw XML
+   */
+  private elementValue(content: string, element: XmlElement): string {
+    return hasChildElements(element)
+      ? innerXml(content, element)
+      : textContent(element);
+  }
+
+  /**
+   * Edits needed to put a new value into a segment, or to flag it for
+   * review or clear that flag
+   */
+  private segmentEdits(
+    document: XliffDocument,
+    segment: XliffSegment,
+    data: TranslationData,
+    needsReview?: Set<string>
+  ): XmlEdit[] {
+    const { content } = document;
+    const value = getFlatValue(data, segment.key);
+    const state = segment.stateHolder.attributes['state'];
+    const current = segment.target
+      ? this.elementValue(content, segment.target)
+      : '';
+    const stateOnTarget = document.version === '1.2';
+    // XLIFF 2.0 has no state for translations that need review
+    const review = stateOnTarget && needsReview?.has(segment.key) === true;
+    const newState = review ? 'needs-review-translation' : 'translated';
+
+    if (value === undefined) {
+      return [];
+    }
+
+    if (value === current && !(state && XLIFF_PENDING_STATES.includes(state))) {
+      const flagged = XLIFF_REVIEW_STATES.includes(state ?? '');
+      return needsReview && segment.target && flagged !== review
+        ? [setAttributeEdit(content, segment.target, 'state', newState)]
+        : [];
+    }
+
+    const markup =
+      segment.source && hasChildElements(segment.source)
+        ? value
+        : escapeXml(value);
+    const edits: XmlEdit[] = [];
+
+    if (segment.target && !segment.target.selfClosing) {
+      edits.push({
+        start: segment.target.contentStart,
+        end: segment.target.contentEnd,
+        text: markup,
+      });
+      if (stateOnTarget) {
+        edits.push(
+          setAttributeEdit(content, segment.target, 'state', newState)
+        );
+      }
+    } else if (segment.target) {
+      let openTag = content.slice(segment.target.start, segment.target.end - 2);
+      if (stateOnTarget) {
+        openTag = withAttribute(openTag, 'state', newState);
+      }
+      edits.push({
+        start: segment.target.start,
+        end: segment.target.end,
+        text: `${openTag.replace(/\s*$/, '')}>${markup}</${segment.target.name}>`,
+      });
+    } else {
+      const anchor = segment.source ?? segment.container;
+      const targetName = segment.source
+        ? segment.source.name.replace(/source$/, 'target')
+        : 'target';
+      const stateAttribute = stateOnTarget ? ` state="${newState}"` : '';
+      const position = segment.source
+        ? segment.source.end
+        : segment.container.contentStart;
+
+      edits.push({
+        start: position,
+        end: position,
+        text: `\n${indentationOf(content, anchor)}<${targetName}${stateAttribute}>${markup}</${targetName}>`,
+      });
+    }
+
+    if (!stateOnTarget) {
+      edits.push(
+        setAttributeEdit(content, segment.stateHolder, 'state', 'translated')
+      );
+    }
+
+    return edits;
+  }
+
+  /**
+   * Render template units for keys that are not in the written document
+   */
+  private buildNewUnits(
+    data: TranslationData,
+    knownKeys: Set<string>,
+    template: XliffDocument | null
+  ): string[] {
+    const rendered: string[] = [];
+    const handled = new Set<XliffUnit>();
+
+    for (const [key, value] of Object.entries(data)) {
+      if (typeof value !== 'string' || knownKeys.has(key)) {
+        continue;
+      }
+
+      const templateUnit = template?.units.find(unit =>
+        unit.segments.some(segment => segment.key === key)
+      );
+
+      if (template && templateUnit) {
+        if (!handled.has(templateUnit)) {
+          handled.add(templateUnit);
+          rendered.push(this.renderTemplateUnit(template, templateUnit, data));
+        }
+        continue;
+      }
+
+      const id = escapeXml(key, true);
+      const text = escapeXml(value);
+      rendered.push(
+        template?.version === '2.0'
+          ? `<unit id="${id}"><segment state="translated"><source></source><target>${text}</target></segment></unit>`
+          : `<trans-unit id="${id}"><source></source><target state="translated">${text}</target></trans-unit>`
+      );
+    }
+
+    return rendered;
+  }
+
+  /**
+   * Copy a template unit without its targets and fill in translations
+   */
+  private renderTemplateUnit(
+    template: XliffDocument,
+    unit: XliffUnit,
+    data: TranslationData
+  ): string {
+    const raw = template.content.slice(unit.element.start, unit.element.end);
+    const offset = unit.element.start;
+
+    // Drop the template's own targets and states first
+    const stripEdits: XmlEdit[] = [];
+    for (const segment of unit.segments) {
+      if (segment.target) {
+        const lineStart = raw.lastIndexOf('\n', segment.target.start - offset);
+        const leading = raw.slice(lineStart + 1, segment.target.start - offset);
+        const start =
+          lineStart !== -1 && /^[ \t]*$/.test(leading)
+            ? lineStart
+            : segment.target.start - offset;
+        stripEdits.push({
+          start,
+          end: segment.target.end - offset,
+          text: '',
+        });
+      }
+    }
+
+    const stripped = applyEdits(raw, stripEdits);
+    const unitDocument: XliffDocument = {
+      content: stripped,
+      root: parseXml(stripped),
+      version: template.version,
+      units: [],
+    };
+    unitDocument.units = [
+      template.version === '2.0'
+        ? this.readUnit20(unitDocument.root)
+        : this.readUnit12(unitDocument.root),
+    ];
+
+    const edits = unitDocument.units[0]!.segments.flatMap(segment =>
+      this.segmentEdits(unitDocument, segment, data)
+    );
+
+    return applyEdits(stripped, edits);
+  }
+
+  /**
+   * Insert rendered units at the end of the last body (1.2) or file (2.0)
+   */
+  private insertUnitsEdit(document: XliffDocument, units: string[]): XmlEdit {
+    const containerName = document.version === '2.0' ? 'file' : 'body';
+    const containers = findElements(document.root, containerName);
+    const container = containers[containers.length - 1];
+
+    if (!container || container.selfClosing) {
+      throw new Error(`XLIFF document has no <${containerName}> element`);
+    }
+
+    const { content } = document;
+    const lastUnit = document.units[document.units.length - 1]?.element;
+    const closingIndent = indentationOf(content, {
+      ...container,
+      start: container.contentEnd,
+    });
+    const unitIndent = lastUnit
+      ? indentationOf(content, lastUnit)
+      : `${closingIndent}  `;
+
+    // Place units after the last non-whitespace content of the container
+    const body = innerXml(content, container);
+    const insertAt = container.contentStart + body.trimEnd().length;
+
+    return {
+      start: insertAt,
+      end: insertAt,
+      text: units
+        .map(unit => `\n${unitIndent}${this.reindent(unit, unitIndent)}`)
+        .join(''),
+    };
+  }
+
+  /**
+   * Re-indent continuation lines of a copied unit to a new base indentation
+   */
+  private reindent(unit: string, indent: string): string {
+    const lines = unit.split('\n');
+    if (lines.length === 1) {
+      return unit;
+    }
+
+    const baseIndent = lines[lines.length - 1]!.match(/^[ \t]*/)?.[0] ?? '';
+    return lines
+      .map((line, index) =>
+        index === 0
+          ? line
+          : indent +
+            (line.startsWith(baseIndent)
+              ? line.slice(baseIndent.length)
+              : line.trimStart())
+      )
+      .join('\n');
+  }
+
+  /**
+   * Build an empty document for a new target file
+   */
+  private buildSkeleton(
+    template: XliffDocument | null,
+    language?: string
+  ): string {
+    const targetLanguage = escapeXml(language ?? '', true);
+
+    if (template?.version === '2.0') {
+      const sourceLanguage = escapeXml(
+        template.root.attributes['srcLang'] ?? 'en',
+        true
+      );
+      const fileId = escapeXml(
+        findElements(template.root, 'file')[0]?.attributes['id'] ?? 'f1',
+        true
+      );
+      return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${sourceLanguage}" trgLang="${targetLanguage}">`,
+        `  <file id="${fileId}">`,
+        '  </file>',
+        '</xliff>',
+        '',
+      ].join('\n');
+    }
+
+    const file = template ? findElements(template.root, 'file')[0] : undefined;
+    const sourceLanguage = escapeXml(
+      file?.attributes['source-language'] ?? 'en',
+      true
+    );
+    const original = escapeXml(
+      file?.attributes['original'] ?? 'messages',
+      true
+    );
+    const datatype = escapeXml(
+      file?.attributes['datatype'] ?? 'plaintext',
+      true
+    );
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<xliff xmlns="urn:oasis:names:tc:xliff:document:1.2" version="1.2">',
+      `  <file source-language="${sourceLanguage}" target-language="${targetLanguage}" datatype="${datatype}" original="${original}">`,
+      '    <body>',
+      '    </body>',
+      '  </file>',
+      '</xliff>',
+      '',
+    ].join('\n');
+  }
+}
+
+export default XliffFormat;
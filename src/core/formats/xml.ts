@@ -0,0 +1,413 @@
+/**
+ * Minimal XML reader for translation resource formats.
+ *
+ * Unlike a general purpose XML library it keeps the source offsets of every
+ * node, so writers can splice changed values into the original document and
+ * leave everything else byte-identical.
+ */
+
+import type { TextEdit } from './format-helpers';
+
+export interface XmlElement {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  /** Offset of `<` of the opening tag */
+  start: number;
+  /** Offset just past the closing tag (or `/>`) */
+  end: number;
+  /** Offset just past the opening tag */
+  contentStart: number;
+  /** Offset of `<` of the closing tag */
+  contentEnd: number;
+  selfClosing: boolean;
+}
+
+export interface XmlText {
+  type: 'text' | 'cdata';
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface XmlComment {
+  type: 'comment';
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type XmlNode = XmlElement | XmlText | XmlComment;
+
+export type XmlEdit = TextEdit;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(content: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let index = 0;
+
+  const append = (node: XmlNode): void => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children.push(node);
+    }
+  };
+
+  while (index < content.length) {
+    const next = content.indexOf('<', index);
+
+    if (next === -1 || next > index) {
+      const end = next === -1 ? content.length : next;
+      if (stack.length > 0) {
+        append({
+          type: 'text',
+          value: decodeXmlEntities(content.slice(index, end)),
+          start: index,
+          end,
+        });
+      } else if (content.slice(index, end).trim() !== '') {
+        throw new Error(`Unexpected text outside root element at ${index}`);
+      }
+      index = end;
+      continue;
+    }
+
+    if (content.startsWith('<!--', index)) {
+      const end = expectIndex(content, '-->', index, 'comment') + 3;
+      append({
+        type: 'comment',
+        value: content.slice(index + 4, end - 3),
+        start: index,
+        end,
+      });
+      index = end;
+      continue;
+    }
+
+    if (content.startsWith('<![CDATA[', index)) {
+      const end = expectIndex(content, ']]>', index, 'CDATA section') + 3;
+      append({
+        type: 'cdata',
+        value: content.slice(index + 9, end - 3),
+        start: index,
+        end,
+      });
+      index = end;
+      continue;
+    }
+
+    if (content.startsWith('<?', index)) {
+      index = expectIndex(content, '?>', index, 'processing instruction') + 2;
+      continue;
+    }
+
+    if (content.startsWith('<!', index)) {
+      index = skipDeclaration(content, index);
+      continue;
+    }
+
+    if (content.startsWith('</', index)) {
+      const end = expectIndex(content, '>', index, 'closing tag');
+      const name = content.slice(index + 2, end).trim();
+      const element = stack.pop();
+
+      if (!element || element.name !== name) {
+        throw new Error(
+          `Unexpected closing tag </${name}> at ${describePosition(content, index)}`
+        );
+      }
+
+      element.contentEnd = index;
+      element.end = end + 1;
+      if (stack.length === 0) {
+        root = element;
+      }
+      index = end + 1;
+      continue;
+    }
+
+    const tagEnd = findTagEnd(content, index);
+    const selfClosing = content[tagEnd - 1] === '/';
+    const tagBody = content.slice(index + 1, selfClosing ? tagEnd - 1 : tagEnd);
+    const nameMatch = tagBody.match(/^[^\s/>]+/);
+
+    if (!nameMatch) {
+      throw new Error(
+        `Invalid tag at ${describePosition(content, index)}: ${tagBody}`
+      );
+    }
+
+    const element: XmlElement = {
+      type: 'element',
+      name: nameMatch[0],
+      attributes: parseAttributes(tagBody.slice(nameMatch[0].length)),
+      children: [],
+      start: index,
+      end: tagEnd + 1,
+      contentStart: tagEnd + 1,
+      contentEnd: tagEnd + 1,
+      selfClosing,
+    };
+
+    append(element);
+
+    if (selfClosing) {
+      if (stack.length === 0) {
+        root = element;
+      }
+    } else {
+      stack.push(element);
+    }
+
+    index = tagEnd + 1;
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed element <${stack[stack.length - 1]!.name}>`);
+  }
+
+  if (!root) {
+    throw new Error('Document has no root element');
+  }
+
+  return root;
+}
+
+/**
+ * Child elements of an element, optionally filtered by name
+ */
+export function childElements(
+  element: XmlElement,
+  name?: string
+): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      child.type === 'element' && (!name || localName(child.name) === name)
+  );
+}
+
+/**
+ * First child element with the given name
+ */
+export function childElement(
+  element: XmlElement,
+  name: string
+): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/**
+ * All descendant elements with the given name, in document order
+ */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+
+  for (const child of childElements(element)) {
+    if (localName(child.name) === name) {
+      found.push(child);
+    }
+    found.push(...findElements(child, name));
+  }
+
+  return found;
+}
+
+/**
+ * Element name without its namespace prefix
+ */
+export function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/**
+ * Decoded text of an element and its descendants
+ */
+export function textContent(element: XmlElement): string {
+  return element.children
+    .map(child => {
+      if (child.type === 'element') return textContent(child);
+      if (child.type === 'comment') return '';
+      return child.value;
+    })
+    .join('');
+}
+
+/**
+ * Raw markup between the opening and closing tag
+ */
+export function innerXml(content: string, element: XmlElement): string {
+  return content.slice(element.contentStart, element.contentEnd);
+}
+
+/**
+ * Whether an element contains child elements (mixed or inline markup)
+ */
+export function hasChildElements(element: XmlElement): boolean {
+  return childElements(element).length > 0;
+}
+
+/**
+ * Whitespace preceding an element on its own line
+ */
+export function indentationOf(content: string, element: XmlElement): string {
+  const lineStart = content.lastIndexOf('\n', element.start - 1) + 1;
+  const prefix = content.slice(lineStart, element.start);
+  return /^[ \t]*$/.test(prefix) ? prefix : '';
+}
+
+/**
+ * Replace or add an attribute in the opening tag of an element
+ */
+export function setAttributeEdit(
+  content: string,
+  element: XmlElement,
+  name: string,
+  value: string
+): XmlEdit {
+  const tagEnd = element.selfClosing
+    ? element.end - 2
+    : element.contentStart - 1;
+
+  return {
+    start: element.start,
+    end: tagEnd,
+    text: withAttribute(content.slice(element.start, tagEnd), name, value),
+  };
+}
+
+/**
+ * Replace or add an attribute in raw opening tag markup (without the `>`)
+ */
+export function withAttribute(
+  openTag: string,
+  name: string,
+  value: string
+): string {
+  const pattern = new RegExp(
+    `(\\s${escapeRegExp(name)}\\s*=\\s*)(["'])[^]*?\\2`
+  );
+  const escaped = escapeXml(value, true);
+
+  if (pattern.test(openTag)) {
+    return openTag.replace(pattern, `$1$2${escaped}$2`);
+  }
+
+  return `${openTag.replace(/\s*$/, '')} ${name}="${escaped}"`;
+}
+
+/**
+ * Escape text for use in element content or attribute values
+ */
+export function escapeXml(value: string, attribute = false): string {
+  const escaped = value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+  return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
+
+/**
+ * Decode predefined and numeric character references
+ */
+export function decodeXmlEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g,
+    (match, entity: string) => {
+      if (entity.startsWith('#x')) {
+        return String.fromCodePoint(parseInt(entity.slice(2), 16));
+      }
+      if (entity.startsWith('#')) {
+        return String.fromCodePoint(parseInt(entity.slice(1), 10));
+      }
+      return NAMED_ENTITIES[entity] ?? match;
+    }
+  );
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*(["'])([^]*?)\2/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]!] = decodeXmlEntities(match[3]!);
+  }
+
+  return attributes;
+}
+
+/**
+ * Find the `>` closing a start tag, skipping quoted attribute values
+ */
+function findTagEnd(content: string, start: number): number {
+  let quote: string | null = null;
+
+  for (let i = start + 1; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+
+  throw new Error(`Unterminated tag at ${describePosition(content, start)}`);
+}
+
+/**
+ * Skip a `<!DOCTYPE ...>` declaration, including an internal subset
+ */
+function skipDeclaration(content: string, start: number): number {
+  let depth = 0;
+
+  for (let i = start; i < content.length; i++) {
+    if (content[i] === '[') depth++;
+    if (content[i] === ']') depth--;
+    if (content[i] === '>' && depth === 0) return i + 1;
+  }
+
+  throw new Error(
+    `Unterminated declaration at ${describePosition(content, start)}`
+  );
+}
+
+function expectIndex(
+  content: string,
+  token: string,
+  start: number,
+  description: string
+): number {
+  const index = content.indexOf(token, start);
+  if (index === -1) {
+    throw new Error(
+      `Unterminated ${description} at ${describePosition(content, start)}`
+    );
+  }
+  return index;
+}
+
+function describePosition(content: string, offset: number): string {
+  const before = content.slice(0, offset);
+  const line = before.split('\n').length;
+  const column = offset - before.lastIndexOf('\n');
+  return `line ${line}, column ${column}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,131 @@
+import yaml, { Document, YAMLMap, isMap, isNode, isPair, isScalar } from 'yaml';
+import type { TranslationData } from '../parser';
+import {
+  FormatWriteOptions,
+  detectLineEnding,
+  insertionOrder,
+  orderLike,
+} from './base-format';
+
+export interface YamlWriteOptions extends FormatWriteOptions {
+  /** Indent width for files that have no indentation to copy */
+  indent?: number;
+}
+
+/**
+ * Write YAML translation data into the original document. Comments,
+ * anchors, quoting and blank lines are kept; only touched values change
+ * and new keys follow the template's order.
+ */
+export function writeYaml(
+  data: TranslationData,
+  options: YamlWriteOptions = {}
+): string {
+  const original = options.original?.originalContent ?? '';
+  const reference = original.trim()
+    ? original
+    : (options.template?.originalContent ?? '');
+  const document = original.trim()
+    ? yaml.parseDocument(original)
+    : new Document({});
+
+  if (document.errors.length > 0) {
+    throw document.errors[0];
+  }
+  if (!isMap(document.contents)) {
+    throw new Error('Expected a YAML mapping');
+  }
+
+  const template = templateData(options);
+  const changed = updateMap(document, document.contents, data, template);
+
+  if (!changed && original.trim()) {
+    return original;
+  }
+
+  const indent =
+    reference.match(/^([ ]+)\S/m)?.[1]?.length ?? options.indent ?? 2;
+  const output = document.toString({ indent, lineWidth: 0 });
+
+  return output.replace(/\n/g, detectLineEnding(reference));
+}
+
+function templateData(options: YamlWriteOptions): unknown {
+  try {
+    const template = options.template?.originalContent
+      ? yaml.parse(options.template.originalContent)
+      : undefined;
+
+    // A Rails-style base file is keyed by its own locale, not the target's
+    const rootLocale = options.template?.metadata?.rootLocale;
+    return rootLocale && options.language && isObject(template)
+      ? { [options.language]: template[rootLocale] }
+      : template;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Apply `data` to a mapping node, returning whether anything changed
+ */
+function updateMap(
+  document: Document,
+  map: YAMLMap,
+  data: Record<string, unknown>,
+  template: unknown
+): boolean {
+  let changed = false;
+  const reference = isObject(template) ? template : {};
+  const keyOf = (item: unknown) =>
+    isPair(item) ? String(isScalar(item.key) ? item.key.value : item.key) : '';
+
+  for (const item of [...map.items]) {
+    const key = keyOf(item);
+
+    if (!(key in data)) {
+      map.items.splice(map.items.indexOf(item), 1);
+      changed = true;
+      continue;
+    }
+
+    const value = data[key];
+    if (isMap(item.value) && isObject(value)) {
+      changed =
+        updateMap(document, item.value, value, reference[key]) || changed;
+    } else if (isScalar(item.value) && !isObject(value)) {
+      if (item.value.value !== value) {
+        item.value.value = value;
+        changed = true;
+      }
+    } else if (
+      JSON.stringify(
+        isNode(item.value) ? item.value.toJS(document) : item.value
+      ) !== JSON.stringify(value)
+    ) {
+      item.value = document.createNode(orderLike(value, reference[key]));
+      changed = true;
+    }
+  }
+
+  const existing = map.items.map(keyOf);
+  const added = Object.keys(data).filter(key => !existing.includes(key));
+  if (added.length === 0) {
+    return changed;
+  }
+
+  const order = insertionOrder(existing, added, Object.keys(reference));
+  const pairs = new Map(map.items.map(item => [keyOf(item), item]));
+
+  map.items = order.map(
+    key =>
+      pairs.get(key) ??
+      document.createPair(key, orderLike(data[key], reference[key]))
+  );
+
+  return true;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,259 @@
+import type { TranslationData, TranslationValue } from './parser';
+
+/**
+ * How translation keys map onto data: `nested` keys are dot-separated
+ * paths into nested objects, `flat` keys are whole top-level property
+ * names such as `"auth.login.title"`
+ */
+export type KeyStyle = 'nested' | 'flat';
+
+/** Configured key style; `auto` detects it from the base file */
+export type KeyStyleOption = KeyStyle | 'auto';
+
+/** Property names leading from the root of the data to a value */
+export type KeyPath = string[];
+
+/**
+ * Split a nested key into its path. Dots separate segments; `\.` is a
+ * literal dot and `\\` a literal backslash, so `a.b\.c` is `['a', 'b.c']`.
+ */
+export function parseKeyPath(key: string): KeyPath {
+  const path: KeyPath = [];
+  let segment = '';
+
+  for (let index = 0; index < key.length; index++) {
+    const char = key[index];
+    if (char === '\\' && index + 1 < key.length) {
+      segment += key[++index];
+    } else if (char === '.') {
+      path.push(segment);
+      segment = '';
+    } else {
+      segment += char;
+    }
+  }
+
+  path.push(segment);
+  return path;
+}
+
+/**
+ * Join a path into a nested key, escaping dots and backslashes inside
+ * segments
+ */
+export function formatKeyPath(path: KeyPath): string {
+  return path
+    .map(segment => segment.replace(/[\\.]/g, char => `\\${char}`))
+    .join('.');
+}
+
+/**
+ * Flat when no top-level value is an object or array and at least one key
+ * contains a dot, e.g. `{"auth.login.title": "Sign in"}`
+ */
+export function detectKeyStyle(data: TranslationData): KeyStyle {
+  const entries = Object.entries(data);
+  return entries.length > 0 &&
+    entries.every(([, value]) => !isContainer(value)) &&
+    entries.some(([key]) => key.includes('.'))
+    ? 'flat'
+    : 'nested';
+}
+
+/**
+ * The configured key style, or the one detected from `data` for `auto`
+ */
+export function resolveKeyStyle(
+  option: KeyStyleOption | undefined,
+  data: TranslationData
+): KeyStyle {
+  return option === 'nested' || option === 'flat'
+    ? option
+    : detectKeyStyle(data);
+}
+
+/**
+ * Keys of every string in the data. Array items are addressed by index
+ * (`steps.0`); numbers, booleans and null aren't translated and are left
+ * out. Flat keys join nested objects with plain dots.
+ */
+export function listKeys(data: TranslationData, style: KeyStyle): string[] {
+  return listPaths(data).map(path =>
+    style === 'flat' ? path.join('.') : formatKeyPath(path)
+  );
+}
+
+function listPaths(value: TranslationValue, prefix: KeyPath = []): KeyPath[] {
+  if (typeof value === 'string') {
+    return [prefix];
+  }
+
+  return isContainer(value)
+    ? Object.entries(value).flatMap(([key, item]) =>
+        listPaths(item, [...prefix, key])
+      )
+    : [];
+}
+
+/**
+ * String value of a key, or undefined when it is missing or not a string.
+ * Flat keys that aren't top-level properties are looked up as plain
+ * dotted paths, so nested files can be read with flat keys.
+ */
+export function getKeyValue(
+  data: TranslationData,
+  key: string,
+  style: KeyStyle
+): string | undefined {
+  if (style === 'flat') {
+    const value = Object.prototype.hasOwnProperty.call(data, key)
+      ? data[key]
+      : undefined;
+    return typeof value === 'string'
+      ? value
+      : getPathValue(data, key.split('.'));
+  }
+
+  return getPathValue(data, parseKeyPath(key));
+}
+
+/**
+ * String value at a path, or undefined when it is missing or not a string
+ */
+export function getPathValue(
+  data: TranslationData,
+  path: KeyPath
+): string | undefined {
+  const value = getPathNode(data, path);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Value of any type at a path, or undefined when it is missing
+ */
+export function getPathNode(
+  data: TranslationData,
+  path: KeyPath
+): TranslationValue | undefined {
+  let current: TranslationValue | undefined = data;
+
+  for (const segment of path) {
+    if (!isContainer(current) || !hasSegment(current, segment)) {
+      return undefined;
+    }
+    current = childOf(current, segment);
+  }
+
+  return current;
+}
+
+/**
+ * Set a key's value: flat keys are top-level properties, nested keys
+ * create containers along their path. Missing containers are arrays where
+ * `template` (usually the base file) has an array.
+ */
+export function setKeyValue(
+  data: TranslationData,
+  key: string,
+  value: TranslationValue,
+  style: KeyStyle,
+  template?: TranslationData
+): void {
+  if (style === 'flat') {
+    data[key] = value;
+    return;
+  }
+
+  setPathValue(data, parseKeyPath(key), value, template);
+}
+
+/**
+ * Set the value at a path, replacing scalars along the way. Array items
+ * keep their index, so a list translated out of order has the same
+ * layout as the template.
+ */
+export function setPathValue(
+  data: TranslationData,
+  path: KeyPath,
+  value: TranslationValue,
+  template?: TranslationData
+): void {
+  let current: TranslationData | TranslationValue[] = data;
+
+  path.slice(0, -1).forEach((segment, index) => {
+    let next: TranslationValue | undefined = childOf(current, segment);
+    if (!isContainer(next)) {
+      next = Array.isArray(
+        template && getPathNode(template, path.slice(0, index + 1))
+      )
+        ? []
+        : {};
+      setChild(current, segment, next);
+    }
+    current = next;
+  });
+
+  setChild(current, path[path.length - 1]!, value);
+}
+
+/**
+ * Copy numbers, booleans and null from `source` into `target` where the
+ * target has no value, so untranslated leaves are carried over as they are
+ */
+export function copyScalarValues(
+  target: TranslationData,
+  source: TranslationData
+): void {
+  const visit = (value: TranslationValue, path: KeyPath): void => {
+    if (isContainer(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        visit(item, [...path, key]);
+      }
+    } else if (
+      typeof value !== 'string' &&
+      getPathNode(target, path) === undefined
+    ) {
+      setPathValue(target, path, value, source);
+    }
+  };
+
+  visit(source, []);
+}
+
+export function isContainer(
+  value: TranslationValue | undefined
+): value is TranslationData | TranslationValue[] {
+  return typeof value === 'object' && value !== null;
+}
+
+function hasSegment(
+  container: TranslationData | TranslationValue[],
+  segment: string
+): boolean {
+  return Array.isArray(container)
+    ? /^\d+$/.test(segment) && Number(segment) < container.length
+    : Object.prototype.hasOwnProperty.call(container, segment);
+}
+
+function childOf(
+  container: TranslationData | TranslationValue[],
+  segment: string
+): TranslationValue | undefined {
+  return hasSegment(container, segment)
+    ? Array.isArray(container)
+      ? container[Number(segment)]
+      : container[segment]
+    : undefined;
+}
+
+function setChild(
+  container: TranslationData | TranslationValue[],
+  segment: string,
+  value: TranslationValue
+): void {
+  if (Array.isArray(container) && /^\d+$/.test(segment)) {
+    container[Number(segment)] = value;
+  } else {
+    (container as TranslationData)[segment] = value;
+  }
+}
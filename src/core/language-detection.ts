@@ -0,0 +1,63 @@
+import path from 'path';
+import { Config } from '../types/index';
+import { languageFromResourcePath } from './formats/resource-paths';
+import { languageFromPathTemplate } from './path-template';
+
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+/**
+ * Language of a translation file from its path, or null when none can be
+ * told. Files that hold every language (`.pot` templates, String Catalogs,
+ * Vue single-file components) count as the base language.
+ */
+export function detectLanguageFromPath(
+  filePath: string,
+  config: Pick<Config, 'baseLanguage' | 'watchPath' | 'pathTemplate'>
+): string | null {
+  const extension = path.extname(filePath).toLowerCase();
+
+  // A configured layout such as {lang}/{ns}.{ext} takes precedence
+  const templateLanguage = languageFromPathTemplate(
+    config.pathTemplate,
+    config.watchPath,
+    filePath
+  );
+  if (templateLanguage) {
+    return templateLanguage;
+  }
+
+  // Gettext templates hold the base language strings; String Catalogs and
+  // Vue <i18n> blocks hold every language and are edited as the base file
+  if (['.pot', '.xcstrings', '.vue'].includes(extension)) {
+    return config.baseLanguage;
+  }
+
+  // Platform layouts: Android values-xx/, Apple xx.lproj/, Flutter
+  // app_xx.arb, Java messages_xx.properties, .NET Strings.xx-XX.resx,
+  // Laravel lang/xx/, browser extension _locales/xx/
+  const resourceLanguage = languageFromResourcePath(
+    filePath,
+    config.baseLanguage
+  );
+  if (resourceLanguage) {
+    return resourceLanguage;
+  }
+
+  // Language from the filename (e.g., en.json, fr.json)
+  const fileName = path.basename(filePath, path.extname(filePath));
+  if (LANGUAGE_CODE.test(fileName)) {
+    return fileName;
+  }
+
+  // Language from the directory structure (e.g., /locales/en/file.json)
+  const pathParts = filePath.split(path.sep);
+  const localesIndex = pathParts.findIndex(part =>
+    ['locales', 'i18n', 'translations', 'lang'].includes(part.toLowerCase())
+  );
+  const directory = pathParts[localesIndex + 1];
+  if (localesIndex !== -1 && directory && LANGUAGE_CODE.test(directory)) {
+    return directory;
+  }
+
+  return null;
+}
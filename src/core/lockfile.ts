@@ -0,0 +1,177 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+
+/**
+ * Default lockfile name. The CLI resolves `lockfile` against the config
+ * file's directory.
+ */
+export const LOCKFILE_NAME = 'i18n-copilot.lock.json';
+
+const LOCKFILE_VERSION = 1;
+
+/** How one translated value was produced */
+export interface LockEntry {
+  /** Hash of the base text the translation was made from */
+  sourceHash: string;
+  /** Hash of the translation as written, to notice manual edits */
+  translationHash: string;
+  provider: string;
+  model?: string;
+  /** ISO 8601 time of the translation */
+  translatedAt: string;
+}
+
+/** Entries by key */
+export type LockEntries = Record<string, LockEntry>;
+
+interface LockfileDocument {
+  version: number;
+  /** Entries by base file (relative to `watchPath`), language and key */
+  files: Record<string, Record<string, LockEntries>>;
+}
+
+/**
+ * Short, stable hash of a text
+ */
+export function hashText(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex').slice(0, 16);
+}
+
+/**
+ * Records which version of the base text every translated value was made
+ * from. The file is meant to be committed: it is written with sorted keys
+ * so runs on different machines produce the same content.
+ */
+export class TranslationLockfile {
+  private filePath: string;
+  private files: LockfileDocument['files'] = {};
+  private loaded = false;
+  private dirty = false;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Read the lockfile once; a file that doesn't exist yet is empty
+   */
+  async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.loaded = true;
+      return;
+    }
+
+    let document: LockfileDocument;
+    try {
+      document = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid lockfile ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (document?.version !== LOCKFILE_VERSION || !document.files) {
+      throw new Error(
+        `Invalid lockfile ${this.filePath}: expected version ${LOCKFILE_VERSION}`
+      );
+    }
+
+    this.files = document.files;
+    this.loaded = true;
+  }
+
+  /**
+   * Entries of one language of a base file
+   */
+  getEntries(baseFile: string, language: string): LockEntries {
+    return { ...this.files[baseFile]?.[language] };
+  }
+
+  record(
+    baseFile: string,
+    language: string,
+    key: string,
+    entry: LockEntry
+  ): void {
+    const languages = (this.files[baseFile] ??= {});
+    const entries = (languages[language] ??= {});
+    entries[key] = entry;
+    this.dirty = true;
+  }
+
+  /**
+   * Drop the entries of keys the base file no longer has
+   */
+  prune(baseFile: string, language: string, keys: string[]): void {
+    const entries = this.files[baseFile]?.[language];
+    if (!entries) {
+      return;
+    }
+
+    const kept = new Set(keys);
+    for (const key of Object.keys(entries)) {
+      if (!kept.has(key)) {
+        delete entries[key];
+        this.dirty = true;
+      }
+    }
+  }
+
+  /**
+   * Write the lockfile if anything changed since it was read
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    const document: LockfileDocument = {
+      version: LOCKFILE_VERSION,
+      files: sortKeys(this.files, languages =>
+        sortKeys(languages, entries => sortKeys(entries, entry => entry))
+      ),
+    };
+
+    await fs.writeFile(
+      this.filePath,
+      `${JSON.stringify(document, null, 2)}\n`,
+      'utf-8'
+    );
+    this.dirty = false;
+  }
+}
+
+/**
+ * Copy of a record with its keys in order and empty sections left out
+ */
+function sortKeys<T, U>(
+  record: Record<string, T>,
+  // eslint-disable-next-line
+  mapValue: (value: T) => U
+): Record<string, U> {
+  const sorted: Record<string, U> = {};
+
+  for (const key of Object.keys(record).sort()) {
+    const value = mapValue(record[key]!);
+    if (typeof value !== 'object' || Object.keys(value as object).length > 0) {
+      sorted[key] = value;
+    }
+  }
+
+  return sorted;
+}
+
+export default TranslationLockfile;
@@ -1,16 +1,108 @@
 import fs from 'fs/promises';
 import path from 'path';
 import yaml from 'yaml';
+import { AndroidStringsFormat } from './formats/android';
+import { AppleStringsFormat } from './formats/apple-strings';
+import { ArbFormat } from './formats/arb';
+import { FormatHandler, FormatWriteOptions } from './formats/base-format';
+import { FluentFormat } from './formats/fluent';
+import { GettextFormat } from './formats/gettext';
+import { JavaScriptFormat } from './formats/javascript';
+import { writeJson } from './formats/json-writer';
+import { PhpArrayFormat } from './formats/php';
+import { PropertiesFormat } from './formats/properties';
+import {
+  completePluralForms,
+  detectRootLocale,
+  pluralContexts,
+} from './formats/rails-yaml';
+import { ResxFormat } from './formats/resx';
+import { SpreadsheetFormat, spreadsheetColumns } from './formats/spreadsheet';
+import { StringsdictFormat } from './formats/stringsdict';
+import { VueI18nFormat } from './formats/vue-i18n';
+import {
+  WebExtensionFormat,
+  isWebExtensionMessages,
+} from './formats/webextension';
+import { XcstringsFormat } from './formats/xcstrings';
+import { XliffFormat } from './formats/xliff';
+import { writeYaml } from './formats/yaml-writer';
+import {
+  detectKeyStyle,
+  getKeyValue,
+  getPathValue,
+  listKeys,
+  parseKeyPath,
+  setPathValue,
+} from './key-path';
+
+/**
+ * Leaf values. Only strings are translated; numbers, booleans and null
+ * are copied to target files as they are.
+ */
+export type TranslationScalar = string | number | boolean | null;
+
+/** Arrays are containers whose items are addressed by index */
+export type TranslationValue =
+  | TranslationScalar
+  | TranslationValue[]
+  | TranslationData;
 
 export interface TranslationData {
-  [key: string]: string | TranslationData;
+  [key: string]: TranslationValue;
+}
+
+export type TranslationFormat =
+  | 'json'
+  | 'yaml'
+  | 'js'
+  | 'ts'
+  | 'po'
+  | 'xliff'
+  | 'android'
+  | 'strings'
+  | 'stringsdict'
+  | 'xcstrings'
+  | 'arb'
+  | 'properties'
+  | 'resx'
+  | 'fluent'
+  | 'csv'
+  | 'tsv'
+  | 'php'
+  | 'vue'
+  | 'webextension';
+
+export interface ParsedFileMetadata {
+  /** Per-key notes for the translator (comments, descriptions, references) */
+  contexts?: Record<string, string>;
+  /** Per-key source text, for formats that store it next to the translation */
+  sources?: Record<string, string>;
+  /** Per-key placeholder names, e.g. `$user$` in browser extension messages */
+  placeholders?: Record<string, string>;
+  /** Per-key workflow state, e.g. XLIFF `needs-translation` or `final` */
+  states?: Record<string, string>;
+  /** Keys that have a value but are flagged as not yet translated */
+  needsTranslation?: string[];
+  /** Keys whose translation is flagged for review, e.g. PO `#, fuzzy` */
+  needsReview?: string[];
+  /** Locale key a Rails-style YAML file was unwrapped from, e.g. `en` */
+  rootLocale?: string;
 }
 
 export interface ParsedFile {
   data: TranslationData;
-  format: 'json' | 'yaml' | 'js' | 'ts';
+  format: TranslationFormat;
   originalContent: string;
   path: string;
+  metadata?: ParsedFileMetadata;
+  /** Language read from a multi-language file such as `.xcstrings` */
+  language?: string;
+}
+
+export interface StringifyOptions extends FormatWriteOptions {
+  indent?: number;
+  preserveFormatting?: boolean;
 }
 
 export interface ParserOptions {
@@ -18,10 +110,37 @@ export interface ParserOptions {
   preserveFormatting?: boolean;
   allowFunctions?: boolean;
   strictMode?: boolean;
+  /**
+   * YAML files keyed by their locale (`en: { ... }`, as in Rails). `auto`
+   * unwraps a single top-level key that names the file's language: one of
+   * `languages`, or the language passed when reading the file.
+   */
+  rootLocale?: boolean | 'auto';
+  /** Languages of the project, usually the base and target languages */
+  languages?: string[];
 }
 
 export class TranslationParser {
   private options: ParserOptions;
+  private formats: Partial<Record<TranslationFormat, FormatHandler>> = {
+    po: new GettextFormat(),
+    xliff: new XliffFormat(),
+    android: new AndroidStringsFormat(),
+    strings: new AppleStringsFormat(),
+    stringsdict: new StringsdictFormat(),
+    xcstrings: new XcstringsFormat(),
+    arb: new ArbFormat(),
+    properties: new PropertiesFormat(),
+    resx: new ResxFormat(),
+    fluent: new FluentFormat(),
+    js: new JavaScriptFormat('commonjs'),
+    ts: new JavaScriptFormat('esm'),
+    csv: new SpreadsheetFormat(','),
+    tsv: new SpreadsheetFormat('\t'),
+    php: new PhpArrayFormat(),
+    vue: new VueI18nFormat(),
+    webextension: new WebExtensionFormat(),
+  };
 
   constructor(options: ParserOptions = {}) {
     this.options = {
@@ -29,29 +148,85 @@ export class TranslationParser {
       preserveFormatting: true,
       allowFunctions: false,
       strictMode: false,
+      rootLocale: 'auto',
       ...options,
     };
   }
 
   /**
-   * Parse a translation file from disk
+   * Parse a translation file from disk. For multi-language files
+   * `language` selects which language to read; for YAML it is the file's
+   * language, which a root locale key has to match.
    */
-  async parseFile(filePath: string): Promise<ParsedFile> {
+  async parseFile(filePath: string, language?: string): Promise<ParsedFile> {
     try {
       const content = await fs.readFile(filePath, 'utf-8');
-      const format = this.detectFormat(filePath);
-
-      const data = await this.parseContent(content, format);
+      return this.parseDocument(
+        content,
+        this.detectFormat(filePath),
+        filePath,
+        language
+      );
+    } catch (error) {
+      throw new Error(`Failed to parse file ${filePath}: ${error}`);
+    }
+  }
 
+  /**
+   * Parse the content of a file in a given format, with the metadata
+   * `parseFile` would read. For multi-language formats `language` selects
+   * which language to read.
+   */
+  parseDocument(
+    content: string,
+    format: TranslationFormat,
+    filePath: string,
+    language?: string
+  ): ParsedFile {
+    const handler = this.formats[format];
+
+    if (handler) {
+      const { data, metadata } = handler.parse(
+        content,
+        language ? { language } : {}
+      );
       return {
         data,
         format,
         originalContent: content,
         path: filePath,
+        ...(metadata ? { metadata } : {}),
+        ...(language && handler.multiLanguage ? { language } : {}),
       };
-    } catch (error) {
-      throw new Error(`Failed to parse file ${filePath}: ${error}`);
     }
+
+    const data =
+      format === 'yaml' ? this.parseYAML(content) : this.parseJSON(content);
+    const rootLocale =
+      format === 'yaml'
+        ? detectRootLocale(data, this.options.rootLocale, [
+            ...(language ? [language] : []),
+            ...(this.options.languages ?? []),
+          ])
+        : undefined;
+
+    if (rootLocale) {
+      const localeData = data[rootLocale] as TranslationData;
+      return {
+        data: localeData,
+        format,
+        originalContent: content,
+        path: filePath,
+        metadata: { rootLocale, contexts: pluralContexts(localeData) },
+      };
+    }
+
+    return {
+      data,
+      format,
+      originalContent: content,
+      path: filePath,
+    };
   }
 
   /**
@@ -61,14 +236,16 @@ export class TranslationParser {
     content: string,
     format: string
   ): Promise<TranslationData> {
+    const handler = this.formats[format as TranslationFormat];
+    if (handler) {
+      return handler.parse(content).data;
+    }
+
     switch (format) {
       case 'json':
         return this.parseJSON(content);
       case 'yaml':
         return this.parseYAML(content);
-      case 'js':
-      case 'ts':
-        return this.parseJavaScript(content);
       default:
         throw new Error(`Unsupported format: ${format}`);
     }
@@ -77,9 +254,14 @@ export class TranslationParser {
   /**
    * Detect file format from extension
    */
-  detectFormat(filePath: string): 'json' | 'yaml' | 'js' | 'ts' {
+  detectFormat(filePath: string): TranslationFormat {
     const ext = path.extname(filePath).toLowerCase();
 
+    // Browser extensions keep messages in _locales/<locale>/messages.json
+    if (isWebExtensionMessages(filePath)) {
+      return 'webextension';
+    }
+
     switch (ext) {
       case '.json':
         return 'json';
@@ -90,11 +272,70 @@ export class TranslationParser {
         return 'js';
       case '.ts':
         return 'ts';
+      case '.po':
+      case '.pot':
+        return 'po';
+      case '.xlf':
+      case '.xliff':
+        return 'xliff';
+      case '.xml':
+        return 'android';
+      case '.strings':
+        return 'strings';
+      case '.stringsdict':
+        return 'stringsdict';
+      case '.xcstrings':
+        return 'xcstrings';
+      case '.arb':
+        return 'arb';
+      case '.properties':
+        return 'properties';
+      case '.resx':
+        return 'resx';
+      case '.ftl':
+        return 'fluent';
+      case '.csv':
+        return 'csv';
+      case '.tsv':
+        return 'tsv';
+      case '.php':
+        return 'php';
+      case '.vue':
+        return 'vue';
       default:
         throw new Error(`Unsupported file extension: ${ext}`);
     }
   }
 
+  /**
+   * Whether a format uses opaque keys instead of dot-separated paths
+   */
+  isFlatFormat(format: TranslationFormat): boolean {
+    return this.formats[format]?.flatKeys ?? false;
+  }
+
+  /**
+   * The base file as the target in `language` needs it; see
+   * `FormatHandler.baseForTarget`
+   */
+  baseForTarget(
+    base: ParsedFile,
+    target: ParsedFile,
+    language: string
+  ): ParsedFile {
+    const handler = this.formats[base.format];
+    return handler?.baseForTarget && base.format === target.format
+      ? handler.baseForTarget(base, target, language)
+      : base;
+  }
+
+  /**
+   * Whether a format keeps every language in a single file
+   */
+  isMultiLanguageFormat(format: TranslationFormat): boolean {
+    return this.formats[format]?.multiLanguage ?? false;
+  }
+
   /**
    * Parse JSON content
    */
@@ -137,60 +378,6 @@ export class TranslationParser {
     }
   }
 
-  /**
-   * Parse JavaScript/TypeScript content
-   */
-  private parseJavaScript(content: string): TranslationData {
-    try {
-      // Remove export statements and module wrapper
-      const cleanContent = this.cleanJavaScriptContent(content);
-
-      // Use Function constructor for safer evaluation
-      const evaluateFunction = new Function(
-        'module',
-        'exports',
-        'require',
-        cleanContent + '\nreturn module.exports || exports;'
-      );
-
-      const result = evaluateFunction({}, {}, () => {
-        throw new Error('require() is not allowed in translation files');
-      });
-
-      if (typeof result !== 'object' || result === null) {
-        throw new Error('JavaScript file must export an object');
-      }
-
-      return result;
-    } catch (error) {
-      throw new Error(`Invalid JavaScript/TypeScript: ${error}`);
-    }
-  }
-
-  /**
-   * Clean JavaScript content for safe evaluation
-   */
-  private cleanJavaScriptContent(content: string): string {
-    let cleaned = content;
-
-    // Remove export statements
-    cleaned = cleaned.replace(/export\s+(default\s+)?/g, '');
-    cleaned = cleaned.replace(/module\.exports\s*=\s*/, '');
-    cleaned = cleaned.replace(/export\s*\{[^}]*\}/g, '');
-
-    // Remove import statements
-    cleaned = cleaned.replace(/import\s+.*?from\s+['"][^'"]*['"];?\s*/g, '');
-    cleaned = cleaned.replace(
-      /import\s+\{[^}]*\}\s+from\s+['"][^'"]*['"];?\s*/g,
-      ''
-    );
-
-    // Remove TypeScript type annotations
-    cleaned = cleaned.replace(/:\s*[a-zA-Z<>[\]{}|&,()\s]+(?=\s*[,}])/g, '');
-
-    return cleaned;
-  }
-
   /**
    * Fix common JSON parsing issues
    */
@@ -217,65 +404,34 @@ export class TranslationParser {
   }
 
   /**
-   * Extract all translation keys from parsed data
+   * Extract all translation keys from parsed data. Nested keys are
+   * dot-separated paths; dots inside a property name are escaped as `\.`.
    */
   extractKeys(data: TranslationData, prefix = ''): string[] {
-    const keys: string[] = [];
-
-    for (const [key, value] of Object.entries(data)) {
-      const fullKey = prefix ? `${prefix}.${key}` : key;
-
-      if (typeof value === 'string') {
-        keys.push(fullKey);
-      } else if (typeof value === 'object' && value !== null) {
-        keys.push(...this.extractKeys(value, fullKey));
-      }
-    }
-
-    return keys;
+    const keys = listKeys(data, 'nested');
+    return prefix ? keys.map(key => `${prefix}.${key}`) : keys;
   }
 
   /**
    * Get nested value by dot notation key
    */
   getNestedValue(data: TranslationData, key: string): string | undefined {
-    const keys = key.split('.');
-    let current: any = data;
-
-    for (const k of keys) {
-      if (current && typeof current === 'object' && k in current) {
-        current = current[k];
-      } else {
-        return undefined;
-      }
+    // Flat catalogs (e.g. gettext) store the whole key at the top level
+    const flatValue = Object.prototype.hasOwnProperty.call(data, key)
+      ? data[key]
+      : undefined;
+    if (typeof flatValue === 'string') {
+      return flatValue;
     }
 
-    return typeof current === 'string' ? current : undefined;
+    return getPathValue(data, parseKeyPath(key));
   }
 
   /**
    * Set nested value by dot notation key
    */
   setNestedValue(data: TranslationData, key: string, value: string): void {
-    const keys = key.split('.');
-    let current: any = data;
-
-    // Navigate to the parent of the target key
-    for (let i = 0; i < keys.length - 1; i++) {
-      const k = keys[i];
-      if (k && (!(k in current) || typeof current[k] !== 'object')) {
-        current[k] = {};
-      }
-      if (k) {
-        current = current[k];
-      }
-    }
-
-    // Set the final value
-    const finalKey = keys[keys.length - 1];
-    if (finalKey) {
-      current[finalKey] = value;
-    }
+    setPathValue(data, parseKeyPath(key), value);
   }
 
   /**
@@ -292,12 +448,9 @@ export class TranslationParser {
       if (strategy === 'replace') {
         result[key] = value;
       } else if (strategy === 'merge') {
-        if (typeof value === 'object' && typeof result[key] === 'object') {
-          result[key] = this.mergeTranslations(
-            result[key] as TranslationData,
-            value as TranslationData,
-            strategy
-          );
+        // Arrays are replaced as a whole so items keep their positions
+        if (isRecord(value) && isRecord(result[key])) {
+          result[key] = this.mergeTranslations(result[key], value, strategy);
         } else {
           result[key] = value;
         }
@@ -321,25 +474,23 @@ export class TranslationParser {
     const errors: string[] = [];
 
     const validateNode = (node: any, path: string): void => {
-      if (typeof node === 'string') {
-        // String values are valid
+      if (typeof node !== 'object' || node === null) {
+        errors.push(`Invalid node type at ${path}: ${typeof node}`);
         return;
       }
 
-      if (typeof node === 'object' && node !== null) {
-        for (const [key, value] of Object.entries(node)) {
-          const fullPath = path ? `${path}.${key}` : key;
-
-          if (typeof value === 'string') {
-            // String values are valid
-          } else if (typeof value === 'object' && value !== null) {
-            validateNode(value, fullPath);
-          } else {
-            errors.push(`Invalid value type at ${fullPath}: ${typeof value}`);
-          }
+      for (const [key, value] of Object.entries(node)) {
+        const fullPath = path ? `${path}.${key}` : key;
+
+        if (typeof value === 'object' && value !== null) {
+          // Objects and arrays
+          validateNode(value, fullPath);
+        } else if (
+          !['string', 'number', 'boolean'].includes(typeof value) &&
+          value !== null
+        ) {
+          errors.push(`Invalid value type at ${fullPath}: ${typeof value}`);
         }
-      } else {
-        errors.push(`Invalid node type at ${path}: ${typeof node}`);
       }
     };
 
@@ -352,26 +503,121 @@ export class TranslationParser {
   }
 
   /**
-   * Convert translation data to string format
+   * Read a CSV/TSV sheet with one row per key and one column per language
+   * and split it into flat translation data per language. Empty cells are
+   * left out.
+   */
+  async importSpreadsheet(
+    filePath: string
+  ): Promise<Record<string, TranslationData>> {
+    const format = this.detectFormat(filePath);
+    if (format !== 'csv' && format !== 'tsv') {
+      throw new Error(`Not a spreadsheet file: ${filePath}`);
+    }
+
+    const content = await fs.readFile(filePath, 'utf-8');
+    const handler = this.formats[format] as SpreadsheetFormat;
+    const { header } = handler.read(content);
+    const languages: Record<string, TranslationData> = {};
+
+    for (const language of Object.keys(spreadsheetColumns(header).languages)) {
+      languages[language] = handler.parse(content, { language }).data;
+    }
+
+    return languages;
+  }
+
+  /**
+   * Build a CSV/TSV sheet from translation data per language. Nested keys
+   * are written in dot notation; `contexts` fill the `description` column.
+   */
+  buildSpreadsheet(
+    languages: Record<string, TranslationData>,
+    format: 'csv' | 'tsv',
+    contexts: Record<string, string> = {}
+  ): string {
+    const handler = this.formats[format] as SpreadsheetFormat;
+    const codes = Object.keys(languages);
+    const keys = new Set<string>();
+
+    for (const data of Object.values(languages)) {
+      listKeys(data, detectKeyStyle(data)).forEach(key => keys.add(key));
+    }
+
+    const hasDescriptions = [...keys].some(key => contexts[key]);
+    const rows = [...keys].map(key => [
+      key,
+      ...(hasDescriptions ? [contexts[key] ?? ''] : []),
+      ...codes.map(code => {
+        const data = languages[code]!;
+        return getKeyValue(data, key, detectKeyStyle(data)) ?? '';
+      }),
+    ]);
+
+    return handler.write({
+      header: ['key', ...(hasDescriptions ? ['description'] : []), ...codes],
+      rows,
+      bom: true,
+    });
+  }
+
+  /**
+   * Convert translation data to string format. With `preserveFormatting`,
+   * JSON and YAML are written into the original file (or laid out like the
+   * template) so only touched keys change.
    */
   stringify(
     data: TranslationData,
-    format: 'json' | 'yaml' | 'js',
-    options?: { indent?: number; preserveFormatting?: boolean }
+    format: TranslationFormat,
+    options?: StringifyOptions
   ): string {
     const indent = options?.indent ?? 2;
+    const handler = this.formats[format];
+
+    if (handler) {
+      return handler.stringify(data, options);
+    }
+
+    // Rails-style YAML is rewrapped in the locale being written
+    const rootLocale =
+      options?.original?.metadata?.rootLocale ??
+      options?.template?.metadata?.rootLocale;
+    if (format === 'yaml' && rootLocale) {
+      const locale = options?.language ?? rootLocale;
+      data = { [locale]: completePluralForms(data, locale) };
+    }
+
+    const preserveFormatting =
+      options?.preserveFormatting ?? this.options.preserveFormatting;
+    if (
+      preserveFormatting &&
+      (format === 'json' || format === 'yaml') &&
+      (options?.original || options?.template)
+    ) {
+      try {
+        return format === 'json'
+          ? writeJson(data, { ...options, indent })
+          : writeYaml(data, { ...options, indent });
+      } catch {
+        // The original can't be edited in place; write it from scratch
+      }
+    }
 
     switch (format) {
       case 'json':
         return JSON.stringify(data, null, indent);
       case 'yaml':
         return yaml.stringify(data, { indent });
-      case 'js':
-        return `module.exports = ${JSON.stringify(data, null, indent)};`;
       default:
         throw new Error(`Unsupported output format: ${format}`);
     }
   }
 }
 
+function isRecord(
+  value: TranslationValue | undefined
+): value is TranslationData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 export default TranslationParser;
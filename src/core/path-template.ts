@@ -0,0 +1,90 @@
+import path from 'path';
+
+/**
+ * Values of the placeholders in a path template such as
+ * `{lang}/{ns}.{ext}`
+ */
+export interface PathTemplateParts {
+  lang: string;
+  ns?: string;
+  ext?: string;
+}
+
+const PLACEHOLDERS: Record<string, string> = {
+  lang: '[a-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*',
+  ns: '.+?',
+  ext: '[A-Za-z0-9]+',
+};
+
+/**
+ * Read the placeholders of a file laid out by `template`, relative to the
+ * watch path. Returns null when the file doesn't follow the template.
+ */
+export function matchPathTemplate(
+  template: string,
+  watchPath: string,
+  filePath: string
+): PathTemplateParts | null {
+  const relative = path
+    .relative(path.resolve(watchPath), path.resolve(filePath))
+    .split(path.sep)
+    .join('/');
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+
+  const names: string[] = [];
+  const source = template
+    .split(/(\{\w+\})/)
+    .map(part => {
+      const name = part.match(/^\{(\w+)\}$/)?.[1];
+      if (name && PLACEHOLDERS[name]) {
+        // A placeholder used twice must repeat the first match
+        if (names.includes(name)) {
+          return `\\${names.indexOf(name) + 1}`;
+        }
+        names.push(name);
+        return `(${PLACEHOLDERS[name]})`;
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = relative.match(new RegExp(`^${source}$`));
+  if (!match || !names.includes('lang')) {
+    return null;
+  }
+
+  return Object.fromEntries(
+    names.map((name, index) => [name, match[index + 1]])
+  ) as unknown as PathTemplateParts;
+}
+
+/**
+ * Path of the file with the given placeholder values under the watch path
+ */
+export function pathFromTemplate(
+  template: string,
+  watchPath: string,
+  parts: PathTemplateParts
+): string {
+  const relative = template.replace(
+    /\{(\w+)\}/g,
+    (placeholder, name: keyof PathTemplateParts) => parts[name] ?? placeholder
+  );
+  return path.join(watchPath, ...relative.split('/'));
+}
+
+/**
+ * Language of a file laid out by `template`, or null when the template is
+ * unset or the file doesn't follow it
+ */
+export function languageFromPathTemplate(
+  template: string | undefined,
+  watchPath: string,
+  filePath: string
+): string | null {
+  return template
+    ? (matchPathTemplate(template, watchPath, filePath)?.lang ?? null)
+    : null;
+}
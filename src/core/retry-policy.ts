@@ -0,0 +1,54 @@
+import { ProviderError, isRetryableError } from '../providers/errors';
+
+export interface RetryPolicyOptions {
+  /** Attempts in total, the first one included */
+  attempts: number;
+  /** Wait before the first retry, in milliseconds; doubles every retry */
+  baseDelay: number;
+  /** Longest wait between attempts, unless the server asks for longer */
+  maxDelay: number;
+  /** Share of each wait that is randomized, from 0 to 1 */
+  jitter: number;
+}
+
+/**
+ * Decides whether and when a failed provider call is tried again. Waits
+ * grow exponentially with random jitter, so parallel requests that fail
+ * together don't retry together. A wait the server asked for (Retry-After)
+ * is used as is, and errors that can't succeed on retry fail at once.
+ */
+export class RetryPolicy {
+  private options: RetryPolicyOptions;
+  private random: () => number;
+
+  constructor(options: RetryPolicyOptions, random = Math.random) {
+    this.options = options;
+    this.random = random;
+  }
+
+  /**
+   * Whether to try again after `attempt` (counted from 1) failed
+   */
+  shouldRetry(error: unknown, attempt: number): boolean {
+    return attempt < this.options.attempts && isRetryableError(error);
+  }
+
+  /**
+   * Milliseconds to wait before the attempt after `attempt`
+   */
+  delayFor(error: unknown, attempt: number): number {
+    if (error instanceof ProviderError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+
+    const { baseDelay, maxDelay, jitter } = this.options;
+    const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+    return Math.round(delay * (1 - jitter * this.random()));
+  }
+
+  getAttempts(): number {
+    return this.options.attempts;
+  }
+}
+
+export default RetryPolicy;
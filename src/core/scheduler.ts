@@ -0,0 +1,168 @@
+/**
+ * Runs async tasks with at most `limit` of them in flight. Tasks over the
+ * limit wait and start in the order they were scheduled.
+ */
+export class ConcurrencyLimiter {
+  private limit: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Concurrency limit must be a positive integer: ${limit}`);
+    }
+    this.limit = limit;
+  }
+
+  /**
+   * Run a task once a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      // The finishing task hands its slot over, so `active` stays the same
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  /**
+   * Number of tasks in flight
+   */
+  getActiveCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Number of tasks waiting for a slot
+   */
+  getPendingCount(): number {
+    return this.waiting.length;
+  }
+}
+
+export interface RateLimits {
+  /** Requests allowed per minute; unlimited when not set */
+  requestsPerMinute?: number;
+  /** Estimated tokens allowed per minute; unlimited when not set */
+  tokensPerMinute?: number;
+}
+
+export interface RateLimitReservation {
+  /** How long to wait before sending the request, in milliseconds */
+  waitMs: number;
+  /** Requests left in the current minute; Infinity without a limit */
+  requestsRemaining: number;
+  /** Tokens left in the current minute; Infinity without a limit */
+  tokensRemaining: number;
+  /** Less than `lowWatermark` of either budget is left */
+  nearLimit: boolean;
+}
+
+/**
+ * Token buckets for requests and tokens per minute. Each bucket starts
+ * full and refills continuously. A reservation takes its share right away,
+ * even from an empty bucket, and says how long to wait until the bucket
+ * would have held it; concurrent callers queue up behind each other.
+ */
+export class RateLimiter {
+  private limits: RateLimits;
+  private lowWatermark: number;
+  private now: () => number;
+  private requests: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(limits: RateLimits, lowWatermark = 0.1, now = Date.now) {
+    for (const [name, limit] of Object.entries(limits)) {
+      if (limit !== undefined && !(limit > 0)) {
+        throw new Error(`Rate limit ${name} must be positive: ${limit}`);
+      }
+    }
+    this.limits = limits;
+    this.lowWatermark = lowWatermark;
+    this.now = now;
+    this.requests = limits.requestsPerMinute ?? Infinity;
+    this.tokens = limits.tokensPerMinute ?? Infinity;
+    this.updatedAt = now();
+  }
+
+  /**
+   * Take one request and `tokens` tokens from the buckets. A request
+   * larger than the whole token budget only waits for a full bucket.
+   */
+  reserve(tokens = 0): RateLimitReservation {
+    this.refill();
+
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    const cost = tokensPerMinute ? Math.min(tokens, tokensPerMinute) : 0;
+    this.requests -= 1;
+    this.tokens -= cost;
+
+    const waitMs = Math.ceil(
+      Math.max(
+        0,
+        requestsPerMinute ? (-this.requests / requestsPerMinute) * 60000 : 0,
+        tokensPerMinute ? (-this.tokens / tokensPerMinute) * 60000 : 0
+      )
+    );
+
+    return {
+      waitMs,
+      requestsRemaining: Math.max(0, Math.floor(this.requests)),
+      tokensRemaining: Math.max(0, Math.floor(this.tokens)),
+      nearLimit:
+        waitMs > 0 ||
+        this.isLow(this.requests, requestsPerMinute) ||
+        this.isLow(this.tokens, tokensPerMinute),
+    };
+  }
+
+  getLimits(): RateLimits {
+    return { ...this.limits };
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsedMinutes = (now - this.updatedAt) / 60000;
+    this.updatedAt = now;
+
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    if (requestsPerMinute) {
+      this.requests = Math.min(
+        requestsPerMinute,
+        this.requests + elapsedMinutes * requestsPerMinute
+      );
+    }
+    if (tokensPerMinute) {
+      this.tokens = Math.min(
+        tokensPerMinute,
+        this.tokens + elapsedMinutes * tokensPerMinute
+      );
+    }
+  }
+
+  private isLow(remaining: number, limit: number | undefined): boolean {
+    return limit !== undefined && remaining < limit * this.lowWatermark;
+  }
+}
+
+/**
+ * Rough token count of a text, about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export default ConcurrencyLimiter;
@@ -1,7 +1,34 @@
 import { EventEmitter } from 'events';
-import { TranslationData, TranslationParser } from './parser';
+import fs from 'fs/promises';
+import path from 'path';
+import { ParsedFile, TranslationData, TranslationParser } from './parser';
 import { TranslationDiffDetector } from './diff-detector';
+import { LockEntries, TranslationLockfile, hashText } from './lockfile';
 import { Config } from '../types/index';
+import type { BatchTranslationItem } from '../providers/base-provider';
+import {
+  ProviderError,
+  ProviderErrorKind,
+  cancelledError,
+  isRetryableError,
+} from '../providers/errors';
+import { RetryPolicy } from './retry-policy';
+import {
+  ConcurrencyLimiter,
+  RateLimiter,
+  RateLimits,
+  estimateTokens,
+} from './scheduler';
+import { languageFromResourcePath } from './formats/resource-paths';
+import { languageFromPathTemplate } from './path-template';
+import {
+  KeyStyle,
+  getKeyValue,
+  getPathValue,
+  listKeys,
+  parseKeyPath,
+  resolveKeyStyle,
+} from './key-path';
 
 export interface TranslationRequest {
   key: string;
@@ -19,11 +46,16 @@ export interface TranslationResponse {
   targetLanguage: string;
   success: boolean;
   error?: string;
+  /** Class of the provider error, when the provider reported one */
+  errorKind?: ProviderErrorKind;
   provider: string;
   timestamp: Date;
 }
 
 export interface TranslationBatch {
+  /** File and language the batch translates for */
+  targetFile?: string;
+  targetLanguage?: string;
   requests: TranslationRequest[];
   responses: TranslationResponse[];
   startTime: Date;
@@ -32,13 +64,77 @@ export interface TranslationBatch {
   errorCount: number;
 }
 
+/** Totals for one target language across its batches */
+export interface LanguageTranslationStats {
+  batches: number;
+  /** Keys sent for translation */
+  requested: number;
+  succeeded: number;
+  failed: number;
+}
+
+/** Everything translated for one target file and language */
+export interface LanguagePairResult {
+  targetFile: string;
+  targetLanguage: string;
+  batches: TranslationBatch[];
+  stats: LanguageTranslationStats;
+}
+
 export interface TranslatorOptions {
   batchSize?: number;
   retryAttempts?: number;
+  /** Wait before the first retry; doubles with every retry */
   retryDelay?: number;
+  /** Longest wait between retries, unless the provider asks for longer */
+  maxRetryDelay?: number;
+  /** Share of each retry wait that is randomized, from 0 to 1 */
+  retryJitter?: number;
   rateLimitDelay?: number;
   preserveFormatting?: boolean;
   contextInjection?: boolean;
+  /** Language pairs translated at the same time */
+  concurrency?: number;
+  /** Requests each provider has in flight at the same time */
+  providerConcurrency?: number;
+  /**
+   * What happens to translations whose base text changed: `retranslate`
+   * overwrites them, `review` only reports them as outdated
+   */
+  onSourceChange?: 'retranslate' | 'review';
+}
+
+/** Translations of a target whose base text changed since they were made */
+export interface OutdatedTranslations {
+  targetFile: string;
+  /** Set for catalogs that hold several languages */
+  targetLanguage?: string;
+  keys: string[];
+}
+
+/** Translations of one target language that were written to its file */
+export interface WrittenTranslations {
+  targetFile: string;
+  targetLanguage: string;
+}
+
+/** Lock entries of a target's new translations, until the file is written */
+interface PendingLockEntries {
+  lockId: string;
+  lockLanguage: string;
+  entries: LockEntries;
+}
+
+/** Outdated keys of a target, with what's needed to mark them reviewed */
+interface OutdatedEntry {
+  targetFile: string;
+  targetLanguage?: string;
+  keys: Set<string>;
+  /** Hash of the current base text of every outdated key */
+  sourceHashes: Map<string, string>;
+  /** Where the target's keys are kept in the lockfile, if one is used */
+  lockId?: string;
+  lockLanguage?: string;
 }
 
 export abstract class TranslationProvider {
@@ -49,9 +145,30 @@ export abstract class TranslationProvider {
     // eslint-disable-next-line
     targetLanguage: string,
     // eslint-disable-next-line
-    context?: string
+    context?: string,
+    // eslint-disable-next-line
+    signal?: AbortSignal
   ): Promise<string>;
 
+  /**
+   * Translate several texts in one request, returning translations by
+   * item id. Optional; without it every key is a separate request.
+   */
+  translateBatch?(
+    // eslint-disable-next-line
+    items: BatchTranslationItem[],
+    // eslint-disable-next-line
+    targetLanguage: string,
+    // eslint-disable-next-line
+    signal?: AbortSignal
+  ): Promise<Record<string, string>>;
+
+  /**
+   * Limits the provider reports; `rateLimitPerMinute` sets the default
+   * requests per minute
+   */
+  getCapabilities?(): { rateLimitPerMinute?: number };
+
   // eslint-disable-next-line
   abstract validateConfig(config: any): boolean;
   abstract getSupportedLanguages(): string[];
@@ -60,32 +177,75 @@ export abstract class TranslationProvider {
 export class TranslationOrchestrator extends EventEmitter {
   private parser: TranslationParser;
   private diffDetector: TranslationDiffDetector;
+  private flatDiffDetector: TranslationDiffDetector;
   private config: Config;
   private options: TranslatorOptions;
   private provider: TranslationProvider | null = null;
   private isProcessing = false;
   private currentBatch: TranslationBatch | null = null;
+  private abortController: AbortController | null = null;
+  private activeBatches: TranslationBatch[] = [];
+  private pairLimiter: ConcurrencyLimiter;
+  private providerLimiters = new Map<string, ConcurrencyLimiter>();
+  private rateLimiters = new Map<string, RateLimiter>();
+  /** Providers whose last request had to wait or found little left */
+  private throttledProviders = new Set<string>();
+  private retryPolicy: RetryPolicy;
+  /** Base file last seen per base file path */
+  private baseSnapshots = new Map<string, ParsedFile>();
+  private outdatedKeys = new Map<string, OutdatedEntry>();
+  private lockfile: TranslationLockfile | null;
+  /** Lock entries by target file and language */
+  private pendingLockEntries = new Map<string, PendingLockEntries>();
 
   constructor(config: Config, options: TranslatorOptions = {}) {
     super();
     this.config = config;
     this.options = {
-      batchSize: 10,
+      batchSize: config.batchSize || 10,
       retryAttempts: 3,
       retryDelay: 1000,
+      maxRetryDelay: 30000,
+      retryJitter: 0.2,
       rateLimitDelay: 100,
       preserveFormatting: true,
       contextInjection: true,
+      concurrency: config.concurrency || 1,
+      onSourceChange: config.onSourceChange ?? 'retranslate',
       ...options,
     };
+    this.options.providerConcurrency ??=
+      config.provider.concurrency || this.options.concurrency;
+
+    this.lockfile = config.lockfile
+      ? new TranslationLockfile(config.lockfile)
+      : null;
+
+    this.pairLimiter = new ConcurrencyLimiter(this.options.concurrency!);
+    this.retryPolicy = new RetryPolicy({
+      attempts: this.options.retryAttempts!,
+      baseDelay: this.options.retryDelay!,
+      maxDelay: this.options.maxRetryDelay!,
+      jitter: this.options.retryJitter!,
+    });
 
     this.parser = new TranslationParser({
       preserveFormatting: this.options.preserveFormatting || false,
+      rootLocale: config.rootLocale ?? 'auto',
+      languages: [config.baseLanguage, ...config.targetLanguages],
     });
 
     this.diffDetector = new TranslationDiffDetector({
       ignoreWhitespace: true,
       deepComparison: true,
+      keyStyle: config.keyStyle ?? 'auto',
+    });
+
+    // Catalogs such as gettext use whole strings as keys, dots included
+    this.flatDiffDetector = new TranslationDiffDetector({
+      ignoreWhitespace: true,
+      deepComparison: true,
+      keyStyle: 'flat',
     });
   }
 
@@ -108,11 +268,14 @@ export class TranslationOrchestrator extends EventEmitter {
   }
 
   /**
-   * Process translation file changes
+   * Process translation file changes. Aborting `signal`, or calling
+   * `stop()`, cancels outstanding provider requests; the batches finished
+   * so far are still returned, with cancelled keys marked as failed.
    */
   async processFileChanges(
     baseLanguageFile: string,
-    targetLanguageFiles: string[]
+    targetLanguageFiles: string[],
+    signal?: AbortSignal
   ): Promise<TranslationBatch[]> {
     if (!this.provider) {
       throw new Error('No translation provider configured');
@@ -125,32 +288,92 @@ export class TranslationOrchestrator extends EventEmitter {
     this.isProcessing = true;
     const batches: TranslationBatch[] = [];
 
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    this.abortController = controller;
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', abort, { once: true });
+
     try {
-      // Parse base language file
-      const baseFile = await this.parser.parseFile(baseLanguageFile);
+      await this.lockfile?.load();
+      const baseFile = await this.parseBaseFile(baseLanguageFile);
 
-      // Process each target language file
-      for (const targetFile of targetLanguageFiles) {
-        try {
-          const targetFileData = await this.parser.parseFile(targetFile);
-          const batch = await this.processLanguagePair(
+      // Keys whose base text changed since the file was last seen
+      const previousBase = this.baseSnapshots.get(baseLanguageFile);
+      const changedKeys = previousBase
+        ? this.diffDetectorFor(baseFile).getChangedKeys(
             baseFile.data,
-            targetFileData.data,
-            this.config.baseLanguage,
-            targetFile
-          );
+            previousBase.data,
+            baseFile.metadata?.sources,
+            previousBase.metadata?.sources
+          )
+        : [];
 
-          if (batch && batch.requests.length > 0) {
-            batches.push(batch);
-          }
-        } catch (error) {
-          this.emit('error', {
-            file: targetFile,
-            error: error instanceof Error ? error.message : String(error),
-          });
+      // Multi-language catalogs are read once per target language
+      const languages = this.parser.isMultiLanguageFormat(baseFile.format)
+        ? this.config.targetLanguages
+        : [undefined];
+      const pairs = targetLanguageFiles.flatMap(targetFile =>
+        languages.map(language => ({ targetFile, language }))
+      );
+
+      // Language pairs run side by side up to the concurrency limit;
+      // batches are returned in target file order either way
+      const results = await Promise.all(
+        pairs.map(({ targetFile, language }) =>
+          this.pairLimiter.run(async () => {
+            if (controller.signal.aborted) {
+              return null;
+            }
+
+            try {
+              const targetFileData = await this.readTargetFile(
+                targetFile,
+                language
+              );
+              const result = await this.processLanguagePair(
+                baseFile,
+                targetFileData,
+                this.config.baseLanguage,
+                targetFile,
+                changedKeys,
+                controller.signal,
+                this.lockId(baseLanguageFile)
+              );
+
+              if (result) {
+                this.emit('languagePairCompleted', result);
+              }
+              return result;
+            } catch (error) {
+              this.emit('error', {
+                file: targetFile,
+                error: error instanceof Error ? error.message : String(error),
+              });
+              return null;
+            }
+          })
+        )
+      );
+
+      for (const result of results) {
+        if (result) {
+          batches.push(...result.batches);
         }
       }
+
+      // A cancelled run compares against the old snapshot again next time,
+      // so changes in targets it didn't reach aren't lost
+      if (!controller.signal.aborted) {
+        this.baseSnapshots.set(baseLanguageFile, baseFile);
+      }
     } finally {
+      signal?.removeEventListener('abort', abort);
+      if (this.abortController === controller) {
+        this.abortController = null;
+      }
       this.isProcessing = false;
     }
 
@@ -158,37 +381,262 @@ export class TranslationOrchestrator extends EventEmitter {
   }
 
   /**
-   * Process a single language pair
+   * Remember the current content of a base file, so the next change to it
+   * re-translates the keys whose text changed. Called for base files that
+   * exist before any change is seen, e.g. when the watcher starts.
+   */
+  async rememberBaseFile(baseLanguageFile: string): Promise<void> {
+    const baseFile = await this.parseBaseFile(baseLanguageFile);
+    this.baseSnapshots.set(baseLanguageFile, baseFile);
+  }
+
+  /**
+   * Translations whose base text changed and that haven't been
+   * re-translated or marked as reviewed yet
+   */
+  getOutdatedTranslations(): OutdatedTranslations[] {
+    return [...this.outdatedKeys.values()].map(entry => ({
+      targetFile: entry.targetFile,
+      ...(entry.targetLanguage ? { targetLanguage: entry.targetLanguage } : {}),
+      keys: [...entry.keys],
+    }));
+  }
+
+  /**
+   * Accept outdated translations of a target as they are; all of them when
+   * no keys are given
+   */
+  markReviewed(
+    targetFile: string,
+    keys?: string[],
+    targetLanguage?: string
+  ): void {
+    const id = outdatedId(targetFile, targetLanguage);
+    const entry = this.outdatedKeys.get(id);
+    if (!entry) {
+      return;
+    }
+
+    for (const key of keys ?? [...entry.keys]) {
+      if (!entry.keys.delete(key)) {
+        continue;
+      }
+
+      // The translation now counts as made from the current base text
+      const sourceHash = entry.sourceHashes.get(key);
+      const lockEntry =
+        entry.lockId && entry.lockLanguage
+          ? this.lockfile?.getEntries(entry.lockId, entry.lockLanguage)[key]
+          : undefined;
+      if (lockEntry && sourceHash) {
+        this.lockfile!.record(entry.lockId!, entry.lockLanguage!, key, {
+          ...lockEntry,
+          sourceHash,
+        });
+      }
+      entry.sourceHashes.delete(key);
+    }
+    if (entry.keys.size === 0) {
+      this.outdatedKeys.delete(id);
+    }
+  }
+
+  /**
+   * Record the translations that were written to their target files and
+   * write the lockfile, if one is configured and anything changed. Call it
+   * once the translations of a run are written; targets left out of
+   * `written` (e.g. because writing them failed) aren't recorded.
+   */
+  async saveLockfile(written: WrittenTranslations[] = []): Promise<void> {
+    for (const { targetFile, targetLanguage } of written) {
+      const id = outdatedId(targetFile, targetLanguage);
+      const pending = this.pendingLockEntries.get(id);
+      if (!pending) {
+        continue;
+      }
+
+      for (const [key, entry] of Object.entries(pending.entries)) {
+        this.lockfile?.record(pending.lockId, pending.lockLanguage, key, entry);
+      }
+      this.pendingLockEntries.delete(id);
+    }
+
+    await this.lockfile?.save();
+  }
+
+  /**
+   * Parse a base file; multi-language files are read in the base language
+   */
+  private parseBaseFile(filePath: string): Promise<ParsedFile> {
+    return this.parser.parseFile(
+      filePath,
+      this.parser.isMultiLanguageFormat(this.parser.detectFormat(filePath))
+        ? this.config.baseLanguage
+        : undefined
+    );
+  }
+
+  /**
+   * Catalogs such as gettext compare whole strings as keys, dots included
+   */
+  private diffDetectorFor(file: ParsedFile): TranslationDiffDetector {
+    return this.parser.isFlatFormat(file.format)
+      ? this.flatDiffDetector
+      : this.diffDetector;
+  }
+
+  /**
+   * Lockfile id of a base file: its path below `watchPath` with forward
+   * slashes, so the lockfile is the same on every machine
+   */
+  private lockId(baseLanguageFile: string): string {
+    return path
+      .relative(this.config.watchPath, baseLanguageFile)
+      .split(path.sep)
+      .join('/');
+  }
+
+  /**
+   * Parse a target file; a file that doesn't exist yet (e.g. a new
+   * namespace in a `{lang}/{ns}.{ext}` layout) is read as empty
+   */
+  private async readTargetFile(
+    filePath: string,
+    language?: string
+  ): Promise<ParsedFile> {
+    try {
+      return await this.parser.parseFile(filePath, language);
+    } catch (error) {
+      const exists = await fs.access(filePath).then(
+        () => true,
+        () => false
+      );
+      if (exists) {
+        throw error;
+      }
+      return {
+        data: {},
+        format: this.parser.detectFormat(filePath),
+        originalContent: '',
+        path: filePath,
+      };
+    }
+  }
+
+  /**
+   * Translate the keys a target file is missing, and with `retranslate`
+   * the ones whose base text changed, in batches of `batchSize`. With a
+   * lockfile, keys translated from an older base text count as changed
+   * too. Returns every batch, or null when nothing needed translating.
    */
   private async processLanguagePair(
-    baseData: TranslationData,
-    targetData: TranslationData,
+    baseFile: ParsedFile,
+    targetFile: ParsedFile,
     sourceLanguage: string,
-    targetFilePath: string
-  ): Promise<TranslationBatch | null> {
+    targetFilePath: string,
+    changedKeys: string[] = [],
+    signal?: AbortSignal,
+    lockId?: string
+  ): Promise<LanguagePairResult | null> {
+    const targetLanguage =
+      targetFile.language ?? this.detectTargetLanguage(targetFilePath);
+    // e.g. gettext catalogs gain the plural forms the target language has
+    baseFile = this.parser.baseForTarget(baseFile, targetFile, targetLanguage);
+
+    const baseData = baseFile.data;
+    const flatFormat = this.parser.isFlatFormat(baseFile.format);
+    const diffDetector = this.diffDetectorFor(baseFile);
+    const keyStyle: KeyStyle = flatFormat
+      ? 'flat'
+      : resolveKeyStyle(this.config.keyStyle, baseData);
+
     // Always use incremental translation - only translate missing or empty keys
     const keysNeedingTranslation =
-      this.diffDetector.getKeysNeedingIncrementalTranslation(
+      diffDetector.getKeysNeedingIncrementalTranslation(
         baseData,
-        targetData
+        targetFile.data
       );
 
+    // Units flagged as untranslated (e.g. XLIFF needs-translation) count as
+    // missing even when they already carry a value
+    for (const key of targetFile.metadata?.needsTranslation ?? []) {
+      if (
+        !keysNeedingTranslation.includes(key) &&
+        getKeyValue(baseData, key, keyStyle) !== undefined
+      ) {
+        keysNeedingTranslation.push(key);
+      }
+    }
+
+    const lock =
+      this.lockfile && lockId
+        ? { file: this.lockfile, id: lockId, language: targetLanguage }
+        : null;
+    if (lock) {
+      // Forget keys the base no longer has, and treat translations of an
+      // older base text like keys changed since the last run
+      lock.file.prune(lock.id, lock.language, listKeys(baseData, keyStyle));
+      const statuses = diffDetector.classifyKeys(
+        baseData,
+        targetFile.data,
+        lock.file.getEntries(lock.id, lock.language),
+        baseFile.metadata?.sources
+      );
+      changedKeys = [
+        ...new Set([
+          ...changedKeys,
+          ...Object.keys(statuses).filter(key => statuses[key] === 'stale'),
+        ]),
+      ];
+    }
+
+    const outdated = this.trackOutdatedKeys(
+      baseFile,
+      targetFile,
+      targetFilePath,
+      changedKeys,
+      keyStyle,
+      lock ? { id: lock.id, language: lock.language } : undefined
+    );
+    if (keysNeedingTranslation.length === 0 && outdated.length === 0) {
+      return null;
+    }
+
+    if (outdated.length > 0) {
+      this.emit('translationsOutdated', {
+        targetFile: targetFilePath,
+        targetLanguage,
+        keys: outdated,
+        review: this.options.onSourceChange === 'review',
+      });
+
+      if (this.options.onSourceChange !== 'review') {
+        keysNeedingTranslation.push(
+          ...outdated.filter(key => !keysNeedingTranslation.includes(key))
+        );
+      }
+    }
+
     if (keysNeedingTranslation.length === 0) {
       return null;
     }
 
     // Create translation requests
     const requests: TranslationRequest[] = keysNeedingTranslation.map(key => {
-      const text = this.parser.getNestedValue(baseData, key) || '';
+      // Catalogs like gettext keep the source text next to an empty msgstr
+      const text =
+        getKeyValue(baseData, key, keyStyle) ||
+        baseFile.metadata?.sources?.[key] ||
+        '';
       const context = this.options.contextInjection
-        ? this.extractContext(baseData, key)
+        ? this.extractContext(baseFile, key, keyStyle)
         : undefined;
 
       return {
         key,
         text,
         sourceLanguage,
-        targetLanguage: this.detectTargetLanguage(targetFilePath),
+        targetLanguage,
         context: context || undefined,
       };
     });
@@ -196,26 +644,143 @@ export class TranslationOrchestrator extends EventEmitter {
     // Process in batches
     const batches: TranslationBatch[] = [];
     for (let i = 0; i < requests.length; i += this.options.batchSize!) {
+      // Batches not started before cancelling are left out
+      if (signal?.aborted) {
+        break;
+      }
+
       const batchRequests = requests.slice(i, i + this.options.batchSize!);
-      const batch = await this.processBatch(batchRequests);
+      const batch = await this.processBatch(
+        batchRequests,
+        targetFilePath,
+        signal
+      );
       batches.push(batch);
 
       // Rate limiting between batches
       if (i + this.options.batchSize! < requests.length) {
-        await this.delay(this.options.rateLimitDelay!);
+        await this.delay(this.options.rateLimitDelay!, signal);
+      }
+    }
+
+    if (batches.length === 0) {
+      return null;
+    }
+
+    const translated = batches
+      .flatMap(batch => batch.responses)
+      .filter(response => response.success);
+
+    // Recorded by saveLockfile() once the target file is written
+    if (lock) {
+      const entries: LockEntries = {};
+      for (const response of translated) {
+        entries[response.key] = {
+          sourceHash: hashText(sourceText(baseFile, response.key, keyStyle)),
+          translationHash: hashText(response.translatedText),
+          provider: response.provider,
+          ...(this.config.provider.config.model
+            ? { model: String(this.config.provider.config.model) }
+            : {}),
+          translatedAt: response.timestamp.toISOString(),
+        };
+      }
+      this.pendingLockEntries.set(outdatedId(targetFilePath, targetLanguage), {
+        lockId: lock.id,
+        lockLanguage: lock.language,
+        entries,
+      });
+    }
+
+    // Re-translated keys are up to date again; their lock entries already
+    // hold the current base text
+    const id = outdatedId(targetFilePath, targetFile.language);
+    const entry = this.outdatedKeys.get(id);
+    if (entry) {
+      for (const { key } of translated) {
+        entry.keys.delete(key);
+        entry.sourceHashes.delete(key);
+      }
+      if (entry.keys.size === 0) {
+        this.outdatedKeys.delete(id);
+      }
+    }
+
+    return {
+      targetFile: targetFilePath,
+      targetLanguage,
+      batches,
+      stats: summarizeBatches(batches)[targetLanguage] ?? emptyStats(),
+    };
+  }
+
+  /**
+   * Mark the changed keys a target already has a translation for as
+   * outdated, along with the keys its file flags for review (e.g. PO
+   * `fuzzy`), and forget outdated keys the base no longer has. Returns
+   * every outdated key of the target.
+   */
+  private trackOutdatedKeys(
+    baseFile: ParsedFile,
+    targetFile: ParsedFile,
+    targetFilePath: string,
+    changedKeys: string[],
+    keyStyle: KeyStyle,
+    lock?: { id: string; language: string }
+  ): string[] {
+    const id = outdatedId(targetFilePath, targetFile.language);
+    const entry: OutdatedEntry = this.outdatedKeys.get(id) ?? {
+      targetFile: targetFilePath,
+      ...(targetFile.language ? { targetLanguage: targetFile.language } : {}),
+      keys: new Set<string>(),
+      sourceHashes: new Map<string, string>(),
+    };
+    if (lock) {
+      entry.lockId = lock.id;
+      entry.lockLanguage = lock.language;
+    }
+
+    for (const key of [
+      ...changedKeys,
+      ...(targetFile.metadata?.needsReview ?? []),
+    ]) {
+      if (getKeyValue(targetFile.data, key, keyStyle)?.trim()) {
+        entry.keys.add(key);
+      }
+    }
+    for (const key of entry.keys) {
+      if (getKeyValue(baseFile.data, key, keyStyle) === undefined) {
+        entry.keys.delete(key);
+        entry.sourceHashes.delete(key);
+      } else {
+        entry.sourceHashes.set(
+          key,
+          hashText(sourceText(baseFile, key, keyStyle))
+        );
       }
     }
 
-    return batches[0] || null; // Return first batch for now
+    if (entry.keys.size > 0) {
+      this.outdatedKeys.set(id, entry);
+    } else {
+      this.outdatedKeys.delete(id);
+    }
+    return [...entry.keys];
   }
 
   /**
-   * Process a batch of translation requests
+   * Process a batch of translation requests. Keys the provider leaves out
+   * of a batch response are translated one by one, side by side up to the
+   * provider's concurrency limit; responses keep the order of requests.
    */
   private async processBatch(
-    requests: TranslationRequest[]
+    requests: TranslationRequest[],
+    targetFile?: string,
+    signal?: AbortSignal
   ): Promise<TranslationBatch> {
     const batch: TranslationBatch = {
+      ...(targetFile ? { targetFile } : {}),
+      ...(requests[0] ? { targetLanguage: requests[0].targetLanguage } : {}),
       requests,
       responses: [],
       startTime: new Date(),
@@ -223,94 +788,301 @@ export class TranslationOrchestrator extends EventEmitter {
       errorCount: 0,
     };
 
+    this.activeBatches.push(batch);
     this.currentBatch = batch;
     this.emit('batchStarted', { batch });
 
-    for (const request of requests) {
-      try {
-        const response = await this.translateWithRetry(request);
-        batch.responses.push(response);
+    // A batch the provider rejected for good (e.g. an invalid API key)
+    // fails as a whole instead of falling back to single keys
+    let batchTranslations: Record<string, string> = {};
+    let batchError: unknown = null;
+    try {
+      batchTranslations = await this.translateBatchWithRetry(requests, signal);
+    } catch (error) {
+      batchError = error;
+    }
 
-        if (response.success) {
-          batch.successCount++;
-        } else {
+    await Promise.all(
+      requests.map(async (request, index) => {
+        try {
+          if (batchError !== null) {
+            throw batchError;
+          }
+
+          const batchTranslation = batchTranslations[String(index + 1)];
+          const response =
+            batchTranslation !== undefined
+              ? this.createResponse(request, batchTranslation)
+              : await this.translateWithRetry(request, signal);
+          batch.responses[index] = response;
+
+          if (response.success) {
+            batch.successCount++;
+          } else {
+            batch.errorCount++;
+          }
+
+          this.emit('translationCompleted', { request, response });
+        } catch (error) {
+          const response: TranslationResponse = {
+            key: request.key,
+            originalText: request.text,
+            translatedText: '',
+            sourceLanguage: request.sourceLanguage,
+            targetLanguage: request.targetLanguage,
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+            ...(error instanceof ProviderError
+              ? { errorKind: error.kind }
+              : {}),
+            provider: this.provider?.name || 'unknown',
+            timestamp: new Date(),
+          };
+
+          batch.responses[index] = response;
           batch.errorCount++;
+          if (response.errorKind !== 'cancelled') {
+            this.emit('translationFailed', { request, response, error });
+          }
         }
+      })
+    );
 
-        this.emit('translationCompleted', { request, response });
+    batch.endTime = new Date();
+    this.emit('batchCompleted', { batch });
+
+    // Batches of other languages may still be running
+    this.activeBatches = this.activeBatches.filter(active => active !== batch);
+    this.currentBatch =
+      this.activeBatches[this.activeBatches.length - 1] ?? null;
+
+    return batch;
+  }
+
+  /**
+   * Translate a whole batch with one provider call when the provider
+   * supports it. Items are numbered from 1 in request order; an empty
+   * result means every key falls back to single-key translation. Errors
+   * that retrying can't fix are thrown, since single keys would fail the
+   * same way.
+   */
+  private async translateBatchWithRetry(
+    requests: TranslationRequest[],
+    signal?: AbortSignal
+  ): Promise<Record<string, string>> {
+    const targetLanguage = requests[0]?.targetLanguage;
+    if (
+      !this.provider?.translateBatch ||
+      requests.length < 2 ||
+      requests.some(request => request.targetLanguage !== targetLanguage)
+    ) {
+      return {};
+    }
+
+    const items: BatchTranslationItem[] = requests.map((request, index) => ({
+      id: String(index + 1),
+      text: request.text,
+      ...(request.context ? { context: request.context } : {}),
+    }));
+
+    for (let attempt = 1; attempt <= this.options.retryAttempts!; attempt++) {
+      try {
+        const provider = this.provider;
+        await this.waitForRateLimit(
+          requests.reduce(
+            (total, request) => total + requestTokens(request),
+            0
+          ),
+          signal
+        );
+        return await this.providerLimiter().run(() => {
+          this.throwIfCancelled(signal);
+          return provider.translateBatch!(items, targetLanguage!, signal);
+        });
       } catch (error) {
-        const response: TranslationResponse = {
-          key: request.key,
-          originalText: request.text,
-          translatedText: '',
-          sourceLanguage: request.sourceLanguage,
-          targetLanguage: request.targetLanguage,
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-          provider: this.provider?.name || 'unknown',
-          timestamp: new Date(),
-        };
+        if (signal?.aborted) {
+          break;
+        }
+        if (this.retryPolicy.shouldRetry(error, attempt)) {
+          await this.delay(this.retryPolicy.delayFor(error, attempt), signal);
+          continue;
+        }
 
-        batch.responses.push(response);
-        batch.errorCount++;
-        this.emit('translationFailed', { request, response, error });
+        this.emit('batchTranslationFailed', {
+          requests,
+          error: error instanceof Error ? error.message : String(error),
+          ...(error instanceof ProviderError ? { errorKind: error.kind } : {}),
+        });
+        if (!isRetryableError(error)) {
+          throw error;
+        }
+        break;
       }
     }
 
-    batch.endTime = new Date();
-    this.emit('batchCompleted', { batch });
-    this.currentBatch = null;
-
-    return batch;
+    return {};
   }
 
   /**
    * Translate with retry logic
    */
   private async translateWithRetry(
-    request: TranslationRequest
+    request: TranslationRequest,
+    signal?: AbortSignal
   ): Promise<TranslationResponse> {
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= this.options.retryAttempts!; attempt++) {
       try {
-        const translatedText = await this.provider!.translate(
-          request.text,
-          request.targetLanguage,
-          request.context
-        );
+        await this.waitForRateLimit(requestTokens(request), signal);
+        const translatedText = await this.providerLimiter().run(() => {
+          this.throwIfCancelled(signal);
+          return this.provider!.translate(
+            request.text,
+            request.targetLanguage,
+            request.context,
+            signal
+          );
+        });
 
-        return {
-          key: request.key,
-          originalText: request.text,
-          translatedText,
-          sourceLanguage: request.sourceLanguage,
-          targetLanguage: request.targetLanguage,
-          success: true,
-          provider: this.provider!.name,
-          timestamp: new Date(),
-        };
+        return this.createResponse(request, translatedText);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
 
-        if (attempt < this.options.retryAttempts!) {
-          await this.delay(this.options.retryDelay! * attempt);
+        // Invalid keys, exhausted quotas and refused content fail at once
+        if (signal?.aborted || !this.retryPolicy.shouldRetry(error, attempt)) {
+          break;
         }
+        await this.delay(this.retryPolicy.delayFor(error, attempt), signal);
       }
     }
 
+    if (signal?.aborted) {
+      throw cancelledError(this.provider!.name);
+    }
+
     throw lastError || new Error('Translation failed after all retry attempts');
   }
 
+  /**
+   * Limiter shared by every request to the current provider, so parallel
+   * languages stay within the provider's concurrency limit
+   */
+  private providerLimiter(): ConcurrencyLimiter {
+    const name = this.provider!.name;
+    let limiter = this.providerLimiters.get(name);
+
+    if (!limiter) {
+      limiter = new ConcurrencyLimiter(this.options.providerConcurrency!);
+      this.providerLimiters.set(name, limiter);
+    }
+
+    return limiter;
+  }
+
+  /**
+   * Wait until the provider's request and token budgets allow another
+   * request. The budgets are shared by every language being translated.
+   * `rateLimited` fires when requests start to wait or find little left,
+   * and again with `nearLimit: false` once they no longer do.
+   */
+  private async waitForRateLimit(
+    tokens: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    this.throwIfCancelled(signal);
+
+    const provider = this.provider!.name;
+    let limiter = this.rateLimiters.get(provider);
+
+    if (!limiter) {
+      limiter = new RateLimiter(this.rateLimits());
+      this.rateLimiters.set(provider, limiter);
+    }
+
+    const reservation = limiter.reserve(tokens);
+    if (reservation.nearLimit !== this.throttledProviders.has(provider)) {
+      if (reservation.nearLimit) {
+        this.throttledProviders.add(provider);
+      } else {
+        this.throttledProviders.delete(provider);
+      }
+      this.emit('rateLimited', {
+        provider,
+        ...limiter.getLimits(),
+        ...reservation,
+      });
+    }
+    if (reservation.waitMs > 0) {
+      await this.delay(reservation.waitMs, signal);
+      this.throwIfCancelled(signal);
+    }
+  }
+
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw cancelledError(this.provider!.name);
+    }
+  }
+
+  /**
+   * Limits set in the config, falling back to the requests per minute the
+   * provider reports
+   */
+  private rateLimits(): RateLimits {
+    const configured = this.config.provider.rateLimit ?? {};
+    const requestsPerMinute =
+      configured.requestsPerMinute ??
+      this.provider!.getCapabilities?.().rateLimitPerMinute;
+
+    return {
+      ...(requestsPerMinute ? { requestsPerMinute } : {}),
+      ...(configured.tokensPerMinute
+        ? { tokensPerMinute: configured.tokensPerMinute }
+        : {}),
+    };
+  }
+
+  /**
+   * Successful response for a request
+   */
+  private createResponse(
+    request: TranslationRequest,
+    translatedText: string
+  ): TranslationResponse {
+    return {
+      key: request.key,
+      originalText: request.text,
+      translatedText,
+      sourceLanguage: request.sourceLanguage,
+      targetLanguage: request.targetLanguage,
+      success: true,
+      provider: this.provider!.name,
+      timestamp: new Date(),
+    };
+  }
+
   /**
    * Extract context for a translation key
    */
-  private extractContext(data: TranslationData, key: string): string {
-    const keys = key.split('.');
-    const parentKey = keys.slice(0, -1).join('.');
+  private extractContext(
+    file: ParsedFile,
+    key: string,
+    keyStyle: KeyStyle
+  ): string {
+    // Notes stored with the key (comments, ARB descriptions, ...) come first
+    const notes = file.metadata?.contexts?.[key];
+    if (notes) {
+      return notes;
+    }
+
+    // Flat keys are top-level properties, dots included
+    const data = file.data;
+    const keys = keyStyle === 'flat' ? [key] : parseKeyPath(key);
+    const parent = keys.slice(0, -1);
 
-    if (parentKey) {
-      const parentValue = this.parser.getNestedValue(data, parentKey);
+    if (parent.length > 0) {
+      const parentValue = getPathValue(data, parent);
       if (parentValue) {
         return `Context: ${parentValue}`;
       }
@@ -318,7 +1090,6 @@ export class TranslationOrchestrator extends EventEmitter {
 
     // Look for sibling keys
     const siblings: string[] = [];
-    const parent = keys.slice(0, -1);
     const currentLevel =
       parent.length > 0 ? this.getNestedObject(data, parent) : data;
 
@@ -333,6 +1104,14 @@ export class TranslationOrchestrator extends EventEmitter {
       }
     }
 
+    // Array items are translated one by one; say where they sit in the list
+    if (Array.isArray(currentLevel)) {
+      const position = `List item ${Number(keys[keys.length - 1]) + 1} of ${currentLevel.length}`;
+      return siblings.length > 0
+        ? `${position}. Related: ${siblings.slice(0, 3).join(', ')}`
+        : position;
+    }
+
     if (siblings.length > 0) {
       return `Related: ${siblings.slice(0, 3).join(', ')}`;
     }
@@ -361,11 +1140,16 @@ export class TranslationOrchestrator extends EventEmitter {
    * Detect target language from file path
    */
   private detectTargetLanguage(filePath: string): string {
-    // Extract filename from path (e.g., "/path/to/de.json" -> "de.json")
-    const fileName = filePath.split('/').pop() || '';
-
-    // Remove extension to get language code (e.g., "de.json" -> "de")
-    const languageCode = fileName.replace('.json', '');
+    // Remove directory and extension to get language code
+    // (e.g., "/path/to/de.json" -> "de", "res/values-de/strings.xml" -> "de")
+    const languageCode =
+      languageFromPathTemplate(
+        this.config.pathTemplate,
+        this.config.watchPath,
+        filePath
+      ) ??
+      languageFromResourcePath(filePath, this.config.baseLanguage) ??
+      path.basename(filePath, path.extname(filePath));
 
     // Validate that the detected language is in the configured target languages
     if (this.config.targetLanguages.includes(languageCode)) {
@@ -386,6 +1170,14 @@ export class TranslationOrchestrator extends EventEmitter {
     return this.currentBatch;
   }
 
+  /**
+   * Batches in progress; several run at once when languages are
+   * translated concurrently
+   */
+  getActiveBatches(): TranslationBatch[] {
+    return [...this.activeBatches];
+  }
+
   /**
    * Check if translation is in progress
    */
@@ -394,19 +1186,35 @@ export class TranslationOrchestrator extends EventEmitter {
   }
 
   /**
-   * Stop current translation process
+   * Stop the current translation process, cancelling outstanding provider
+   * requests
    */
   stop(): void {
+    this.abortController?.abort();
     this.isProcessing = false;
     this.currentBatch = null;
+    this.activeBatches = [];
     this.emit('stopped');
   }
 
   /**
-   * Utility delay function
+   * Wait for `ms`, or until `signal` aborts
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done, { once: true });
+    });
   }
 
   /**
@@ -425,4 +1233,67 @@ export class TranslationOrchestrator extends EventEmitter {
   }
 }
 
+/**
+ * Totals per target language of a set of batches
+ */
+export function summarizeBatches(
+  batches: TranslationBatch[]
+): Record<string, LanguageTranslationStats> {
+  const stats: Record<string, LanguageTranslationStats> = {};
+
+  for (const batch of batches) {
+    const languages = new Set<string>();
+
+    for (const response of batch.responses) {
+      const language = response.targetLanguage;
+      const totals = (stats[language] ??= emptyStats());
+      languages.add(language);
+
+      totals.requested++;
+      if (response.success) {
+        totals.succeeded++;
+      } else {
+        totals.failed++;
+      }
+    }
+
+    for (const language of languages) {
+      stats[language]!.batches++;
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Estimated tokens of a request: the text and its context, plus a reply
+ * about as long as the text
+ */
+function requestTokens(request: TranslationRequest): number {
+  return (
+    estimateTokens(request.text) * 2 + estimateTokens(request.context ?? '')
+  );
+}
+
+/**
+ * Base text a key is translated from, as the lockfile hashes it. Catalogs
+ * such as gettext and XLIFF keep it next to the (often empty) value.
+ */
+function sourceText(file: ParsedFile, key: string, keyStyle: KeyStyle): string {
+  return (
+    file.metadata?.sources?.[key] ?? getKeyValue(file.data, key, keyStyle) ?? ''
+  );
+}
+
+/**
+ * Identifies a target in the outdated keys; catalogs track each language
+ */
+function outdatedId(targetFile: string, targetLanguage?: string): string {
+  return targetLanguage ? `${targetFile}#${targetLanguage}` : targetFile;
+}
+
+function emptyStats(): LanguageTranslationStats {
+  return { batches: 0, requested: 0, succeeded: 0, failed: 0 };
+}
+
 export default TranslationOrchestrator;
@@ -3,6 +3,7 @@ import { EventEmitter } from 'events';
 import path from 'path';
 import fs from 'fs/promises';
 import { Config } from '../types/index';
+import { detectLanguageFromPath } from './language-detection';
 
 export interface FileChangeEvent {
   type: 'add' | 'change' | 'unlink';
@@ -354,7 +355,27 @@ export class TranslationWatcher extends EventEmitter {
     }
 
     // Default check for common translation file extensions
-    const validExtensions = ['.json', '.yaml', '.yml', '.js', '.ts'];
+    const validExtensions = [
+      '.json',
+      '.yaml',
+      '.yml',
+      '.js',
+      '.ts',
+      '.po',
+      '.pot',
+      '.xlf',
+      '.xliff',
+      '.xml',
+      '.strings',
+      '.stringsdict',
+      '.xcstrings',
+      '.arb',
+      '.properties',
+      '.resx',
+      '.ftl',
+      '.php',
+      '.vue',
+    ];
     const hasValidExtension = validExtensions.includes(extension);
     this.debugLog(
       `File ${fileName} has valid extension: ${hasValidExtension} (${extension})`
@@ -364,37 +385,9 @@ export class TranslationWatcher extends EventEmitter {
   }
 
   private detectLanguageFromPath(filePath: string): string | null {
-    const fileName = path.basename(filePath, path.extname(filePath));
-    this.debugLog(`Detecting language from path: ${filePath}`, { fileName });
-
-    // Try to extract language from filename (e.g., en.json, fr.json)
-    const languageMatch = fileName.match(/^([a-z]{2,3}(-[A-Z]{2})?)$/);
-    if (languageMatch) {
-      const language = languageMatch[1] || null;
-      this.debugLog(`Language detected from filename: ${language}`);
-      return language;
-    }
-
-    // Try to extract from directory structure (e.g., /locales/en/file.json)
-    const pathParts = filePath.split(path.sep);
-    this.debugLog(`Path parts:`, pathParts);
-
-    const localesIndex = pathParts.findIndex(part =>
-      ['locales', 'i18n', 'translations', 'lang'].includes(part.toLowerCase())
-    );
-
-    if (localesIndex !== -1 && pathParts[localesIndex + 1]) {
-      const potentialLang = pathParts[localesIndex + 1];
-      this.debugLog(`Potential language from directory: ${potentialLang}`);
-
-      if (potentialLang && /^[a-z]{2,3}(-[A-Z]{2})?$/.test(potentialLang)) {
-        this.debugLog(`Language detected from directory: ${potentialLang}`);
-        return potentialLang;
-      }
-    }
-
-    this.debugLog(`No language detected for ${filePath}`);
-    return null;
+    const language = detectLanguageFromPath(filePath, this.config);
+    this.debugLog(`Detecting language from path: ${filePath}`, { language });
+    return language;
   }
 
   private debounceFileChange(
@@ -10,6 +10,8 @@ export { type Config } from './types/index.js';
 export {
   TranslationParser,
   type TranslationData,
+  type TranslationScalar,
+  type TranslationValue,
   type ParsedFile,
   type ParserOptions,
 } from './core/parser.js';
@@ -20,14 +22,36 @@ export {
   type TranslationDiff,
   type DiffOptions,
   type DiffResult,
+  type KeyStatus,
 } from './core/diff-detector.js';
 
+// Lockfile exports
+export {
+  TranslationLockfile,
+  LOCKFILE_NAME,
+  hashText,
+  type LockEntry,
+  type LockEntries,
+} from './core/lockfile.js';
+
+// Converter exports
+export {
+  TranslationConverter,
+  type ConvertOptions,
+  type ConversionResult,
+  type DirectoryConversionResult,
+} from './core/converter.js';
+
 // Translator exports
 export {
   TranslationOrchestrator,
   type TranslationRequest,
   type TranslationResponse,
   type TranslationBatch,
+  type LanguagePairResult,
+  type LanguageTranslationStats,
+  type OutdatedTranslations,
+  type WrittenTranslations,
   type TranslatorOptions,
   type TranslationProvider,
 } from './core/translator.js';
@@ -63,6 +87,12 @@ export {
   type ProviderConfig,
 } from './providers/base-provider.js';
 
+export {
+  ProviderError,
+  type ProviderErrorKind,
+  type ProviderErrorDetails,
+} from './providers/errors.js';
+
 export {
   OpenAIProvider,
   type OpenAIConfig,
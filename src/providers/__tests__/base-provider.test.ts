@@ -0,0 +1,84 @@
+import {
+  BaseTranslationProvider,
+  BatchTranslationItem,
+} from '../base-provider';
+
+class TestProvider extends BaseTranslationProvider {
+  name = 'test';
+
+  async translate(text: string): Promise<string> {
+    return text;
+  }
+
+  validateConfig(): boolean {
+    return true;
+  }
+
+  getSupportedLanguages(): string[] {
+    return [];
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
+  async initialize(): Promise<void> {}
+
+  prompt(items: BatchTranslationItem[], targetLanguage: string): string {
+    return this.buildBatchPrompt(items, targetLanguage);
+  }
+
+  parse(
+    response: string,
+    items: BatchTranslationItem[]
+  ): Record<string, string> {
+    return this.parseBatchResponse(response, items);
+  }
+}
+
+describe('BaseTranslationProvider batch helpers', () => {
+  const items: BatchTranslationItem[] = [
+    { id: '1', text: 'Save', context: 'Button label' },
+    { id: '2', text: 'Hello {name}' },
+  ];
+  let provider: TestProvider;
+
+  beforeEach(() => {
+    provider = new TestProvider({});
+  });
+
+  it('should send the items as a JSON payload', () => {
+    const prompt = provider.prompt(items, 'fr');
+    const payload = JSON.parse(prompt.slice(prompt.indexOf('{\n')));
+
+    expect(payload).toEqual({
+      targetLanguage: 'fr',
+      items: [
+        { id: '1', text: 'Save', context: 'Button label' },
+        { id: '2', text: 'Hello {name}' },
+      ],
+    });
+  });
+
+  it('should read translations keyed by id', () => {
+    expect(
+      provider.parse('{"1": "Enregistrer", "2": "Bonjour {name}"}', items)
+    ).toEqual({ '1': 'Enregistrer', '2': 'Bonjour {name}' });
+    expect(
+      provider.parse(
+        '```json\n{"translations": {"1": "Enregistrer"}}\n```',
+        items
+      )
+    ).toEqual({ '1': 'Enregistrer' });
+  });
+
+  it('should leave out missing, empty and malformed translations', () => {
+    expect(provider.parse('{"1": "", "2": 42, "3": "Extra"}', items)).toEqual(
+      {}
+    );
+    expect(provider.parse('{"1": "Enregistrer"', items)).toEqual({});
+    expect(provider.parse('Sorry, I cannot help with that.', items)).toEqual(
+      {}
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  APIError,
+  APIConnectionError,
+  APIConnectionTimeoutError,
+  APIUserAbortError,
+} from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  ProviderError,
+  isRetryableError,
+  parseRetryAfter,
+  providerErrorFromResponse,
+  toProviderError,
+} from '../errors';
+
+/** An error as the OpenAI SDK throws it for a failed response */
+function apiError(
+  status: number,
+  message: string,
+  headers: Record<string, string> = {},
+  code?: string
+): Error {
+  return APIError.generate(
+    status,
+    { error: { message, code } },
+    undefined,
+    headers
+  );
+}
+
+describe('provider errors', () => {
+  describe('toProviderError', () => {
+    it('should classify SDK errors by status and code', () => {
+      const kind = (error: unknown) =>
+        toProviderError(error, 'OpenAI', 'OpenAI translation failed').kind;
+
+      expect(kind(apiError(401, 'Incorrect API key provided'))).toBe('auth');
+      expect(
+        kind(
+          apiError(
+            429,
+            'You exceeded your current quota',
+            {},
+            'insufficient_quota'
+          )
+        )
+      ).toBe('quota');
+      expect(kind(apiError(429, 'Rate limit reached for requests'))).toBe(
+        'rate_limit'
+      );
+      expect(
+        kind(
+          apiError(
+            400,
+            'Output blocked by content filtering policy',
+            {},
+            'content_filter'
+          )
+        )
+      ).toBe('content_policy');
+      expect(kind(apiError(529, 'Overloaded'))).toBe('network');
+      expect(kind(apiError(400, 'max_tokens is too large'))).toBe(
+        'invalid_request'
+      );
+      expect(kind(apiError(404, 'The model does not exist'))).toBe(
+        'invalid_request'
+      );
+      expect(kind(new Error('Something odd happened'))).toBe('unknown');
+    });
+
+    it('should classify connection failures and timeouts', () => {
+      const timeout = Object.assign(new Error('The operation timed out'), {
+        name: 'TimeoutError',
+      });
+      const kind = (error: unknown) =>
+        toProviderError(error, 'Local', 'Local translation failed').kind;
+
+      expect(kind(timeout)).toBe('timeout');
+      expect(kind(new TypeError('fetch failed'))).toBe('network');
+      expect(kind(new Error('connect ECONNREFUSED 127.0.0.1:11434'))).toBe(
+        'network'
+      );
+    });
+
+    it('should classify the connection errors the SDKs throw', () => {
+      const kind = (error: unknown) =>
+        toProviderError(error, 'OpenAI', 'OpenAI translation failed').kind;
+
+      expect(kind(new APIUserAbortError())).toBe('cancelled');
+      expect(kind(new APIConnectionError({}))).toBe('network');
+      expect(kind(new APIConnectionTimeoutError())).toBe('timeout');
+      expect(kind(new Anthropic.APIUserAbortError())).toBe('cancelled');
+      expect(
+        kind(new Anthropic.APIConnectionError({ cause: new Error('reset') }))
+      ).toBe('network');
+    });
+
+    it('should keep the retry hint and describe known kinds', () => {
+      const error = toProviderError(
+        apiError(429, 'Rate limit reached', { 'retry-after': '7' }),
+        'Anthropic',
+        'Anthropic translation failed'
+      );
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error.message).toBe(
+        'Anthropic translation failed: Anthropic rate limit exceeded. Please wait before retrying.'
+      );
+      expect(error.status).toBe(429);
+      expect(error.retryAfterMs).toBe(7000);
+      expect(error.retryable).toBe(true);
+    });
+
+    it('should pass provider errors through', () => {
+      const error = new ProviderError('bad_response', 'OpenAI', 'Empty reply');
+
+      expect(
+        toProviderError(error, 'OpenAI', 'OpenAI translation failed')
+      ).toBe(error);
+    });
+  });
+
+  describe('providerErrorFromResponse', () => {
+    it('should read the status and Retry-After of a fetch response', () => {
+      const error = providerErrorFromResponse(
+        { status: 503, headers: new Headers({ 'Retry-After': '2' }) },
+        'Local',
+        'Local translation failed'
+      );
+
+      expect(error.kind).toBe('network');
+      expect(error.message).toBe(
+        'Local translation failed: endpoint returned status 503'
+      );
+      expect(error.retryAfterMs).toBe(2000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read milliseconds, seconds and dates', () => {
+      const now = Date.parse('2024-05-01T12:00:00Z');
+
+      expect(parseRetryAfter({ 'retry-after-ms': '1500' })).toBe(1500);
+      expect(parseRetryAfter({ 'Retry-After': '0.5' })).toBe(500);
+      expect(
+        parseRetryAfter({ 'retry-after': 'Wed, 01 May 2024 12:00:30 GMT' }, now)
+      ).toBe(30000);
+      expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should fail fast only on errors that cannot succeed', () => {
+      expect(isRetryableError(new ProviderError('auth', 'OpenAI', 'x'))).toBe(
+        false
+      );
+      expect(isRetryableError(new ProviderError('quota', 'OpenAI', 'x'))).toBe(
+        false
+      );
+      expect(
+        isRetryableError(new ProviderError('content_policy', 'OpenAI', 'x'))
+      ).toBe(false);
+      expect(
+        isRetryableError(new ProviderError('timeout', 'OpenAI', 'x'))
+      ).toBe(true);
+      expect(isRetryableError(new Error('something else'))).toBe(true);
+    });
+  });
+});
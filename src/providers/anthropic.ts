@@ -1,4 +1,9 @@
-import { BaseTranslationProvider, ProviderConfig } from './base-provider';
+import {
+  BaseTranslationProvider,
+  BatchTranslationItem,
+  ProviderConfig,
+} from './base-provider';
+import { ProviderError, toProviderError } from './errors';
 
 export interface AnthropicConfig extends ProviderConfig {
   apiKey: string;
@@ -259,7 +264,8 @@ export class AnthropicProvider extends BaseTranslationProvider {
   async translate(
     text: string,
     targetLanguage: string,
-    context?: string
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     if (!this.isReady()) {
       await this.initialize();
@@ -272,52 +278,84 @@ export class AnthropicProvider extends BaseTranslationProvider {
     try {
       const prompt = this.buildPrompt(sanitizedText, targetLanguage, context);
 
-      const message = await this.client.messages.create({
-        model: this.config['model'] || 'claude-3-sonnet-20240229',
-        max_tokens: this.config['maxTokens'] || 1000,
-        temperature: this.config['temperature'] || 0.3,
-        system:
-          'You are a professional translator. Provide only the translated text without any explanations or additional text.',
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      });
+      const message = await this.client.messages.create(
+        {
+          model: this.config['model'] || 'claude-3-sonnet-20240229',
+          max_tokens: this.config['maxTokens'] || 1000,
+          temperature: this.config['temperature'] || 0.3,
+          system:
+            'You are a professional translator. Provide only the translated text without any explanations or additional text.',
+          messages: [
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+        },
+        { signal }
+      );
 
       const translatedText = message.content[0]?.text;
 
       if (!translatedText) {
-        throw new Error('No translation received from Anthropic');
+        throw new ProviderError(
+          'bad_response',
+          this.name,
+          'No translation received from Anthropic'
+        );
       }
 
       return translatedText.trim();
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('rate_limit')) {
-          throw new Error(
-            'Anthropic rate limit exceeded. Please wait before retrying.'
-          );
-        } else if (error.message.includes('quota_exceeded')) {
-          throw new Error(
-            'Anthropic quota exceeded. Please check your account limits.'
-          );
-        } else if (error.message.includes('invalid_api_key')) {
-          throw new Error(
-            'Invalid Anthropic API key. Please check your configuration.'
-          );
-        } else if (error.message.includes('content_policy')) {
-          throw new Error(
-            'Content policy violation. Please check your input text.'
-          );
-        }
-      }
+      throw toProviderError(error, this.name, 'Anthropic translation failed');
+    }
+  }
 
-      throw new Error(
-        `Anthropic translation failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`
+  /**
+   * Translate several texts with one message
+   */
+  async translateBatch(
+    items: BatchTranslationItem[],
+    targetLanguage: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string>> {
+    if (!this.isReady()) {
+      await this.initialize();
+    }
+
+    this.validateTargetLanguage(targetLanguage);
+    const batchItems = items.map(item => ({
+      ...item,
+      text: this.sanitizeInput(item.text),
+    }));
+
+    try {
+      const message = await this.client.messages.create(
+        {
+          model: this.config['model'] || 'claude-3-sonnet-20240229',
+          max_tokens: this.config['maxTokens'] || 4000,
+          temperature: this.config['temperature'] || 0.3,
+          system:
+            'You are a professional translator. Reply with a JSON object of translations only.',
+          messages: [
+            {
+              role: 'user',
+              content: this.buildBatchPrompt(batchItems, targetLanguage),
+            },
+          ],
+        },
+        { signal }
+      );
+
+      return this.parseBatchResponse(
+        message.content[0]?.text ?? '',
+        batchItems
+      );
+    } catch (error) {
+      throw toProviderError(
+        error,
+        this.name,
+        'Anthropic batch translation failed'
       );
     }
   }
@@ -361,16 +399,16 @@ export class AnthropicProvider extends BaseTranslationProvider {
       const translatedText = message.content[0]?.text;
 
       if (!translatedText) {
-        throw new Error('No translation received from Anthropic');
+        throw new ProviderError(
+          'bad_response',
+          this.name,
+          'No translation received from Anthropic'
+        );
       }
 
       return translatedText.trim();
     } catch (error) {
-      throw new Error(
-        `Anthropic translation failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toProviderError(error, this.name, 'Anthropic translation failed');
     }
   }
 
@@ -427,7 +465,7 @@ export class AnthropicProvider extends BaseTranslationProvider {
   } {
     return {
       supportsContext: true,
-      supportsBatchTranslation: false,
+      supportsBatchTranslation: true,
       maxTextLength: 200000, // Claude has much higher context limits
       rateLimitPerMinute: 50,
     };
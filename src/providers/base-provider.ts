@@ -2,15 +2,35 @@
 
 export interface TranslationProvider {
   name: string;
+  /**
+   * Translate one text. Aborting `signal` cancels the request.
+   */
   translate(
     text: string,
     targetLanguage: string,
-    context?: string
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string>;
+  /**
+   * Translate several texts in one request. Returns translations by item
+   * id; items missing from the result are translated one by one.
+   */
+  translateBatch?(
+    items: BatchTranslationItem[],
+    targetLanguage: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string>>;
   validateConfig(config: any): boolean;
   getSupportedLanguages(): string[];
 }
 
+export interface BatchTranslationItem {
+  /** Identifies the item's translation in the response */
+  id: string;
+  text: string;
+  context?: string;
+}
+
 export interface ProviderConfig {
   [key: string]: any;
 }
@@ -40,7 +60,8 @@ export abstract class BaseTranslationProvider implements TranslationProvider {
   abstract translate(
     text: string,
     targetLanguage: string,
-    context?: string
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string>;
 
   abstract validateConfig(config: any): boolean;
@@ -76,6 +97,78 @@ export abstract class BaseTranslationProvider implements TranslationProvider {
     return prompt;
   }
 
+  /**
+   * Build a prompt that sends several texts as a JSON payload and asks for
+   * a JSON object of translations keyed by item id
+   */
+  protected buildBatchPrompt(
+    items: BatchTranslationItem[],
+    targetLanguage: string
+  ): string {
+    const payload = {
+      targetLanguage,
+      items: items.map(item => ({
+        id: item.id,
+        text: item.text,
+        ...(item.context ? { context: item.context } : {}),
+      })),
+    };
+
+    let prompt = `Translate the "text" of each item below to ${targetLanguage}. `;
+    prompt += `Use "context" only to choose the right wording; do not translate it. `;
+    prompt += `Keep placeholders, markup and line breaks as they are.\n\n`;
+    prompt += `Reply with only a JSON object that maps each item's "id" to its translation, `;
+    prompt += `e.g. {"1": "...", "2": "..."}.\n\n`;
+    prompt += JSON.stringify(payload, null, 2);
+
+    return prompt;
+  }
+
+  /**
+   * Read the translations out of a batch response. Items whose translation
+   * is missing or isn't a non-empty string are left out, and so is every
+   * item when the response isn't JSON.
+   */
+  protected parseBatchResponse(
+    response: string,
+    items: BatchTranslationItem[]
+  ): Record<string, string> {
+    // Models sometimes wrap the object in a code fence or a sentence
+    const start = response.indexOf('{');
+    const end = response.lastIndexOf('}');
+    if (start === -1 || end < start) {
+      return {};
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(response.slice(start, end + 1));
+    } catch {
+      return {};
+    }
+
+    if (typeof parsed !== 'object' || parsed === null) {
+      return {};
+    }
+
+    const translations: Record<string, unknown> =
+      'translations' in parsed &&
+      typeof parsed.translations === 'object' &&
+      parsed.translations !== null
+        ? (parsed.translations as Record<string, unknown>)
+        : (parsed as Record<string, unknown>);
+
+    const result: Record<string, string> = {};
+    for (const item of items) {
+      const translation = translations[item.id];
+      if (typeof translation === 'string' && translation.trim()) {
+        result[item.id] = translation.trim();
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Clean and validate input text
    */
@@ -0,0 +1,293 @@
+/**
+ * What went wrong in a provider call:
+ * - `auth`: the API key is missing, invalid or lacks access
+ * - `quota`: the account is out of credit or over its plan
+ * - `rate_limit`: too many requests right now (HTTP 429)
+ * - `content_policy`: the provider refused the text
+ * - `timeout`: the request took too long
+ * - `network`: the connection failed or the service was briefly down (5xx)
+ * - `bad_response`: the reply was empty or unreadable
+ * - `invalid_request`: the provider rejected the request itself (another
+ *   4xx status, e.g. 400 or 404)
+ * - `cancelled`: the caller aborted the request
+ * - `unknown`: anything else
+ */
+export type ProviderErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate_limit'
+  | 'content_policy'
+  | 'timeout'
+  | 'network'
+  | 'bad_response'
+  | 'invalid_request'
+  | 'cancelled'
+  | 'unknown';
+
+/** Kinds that won't succeed however often they are retried */
+const PERMANENT_KINDS: ProviderErrorKind[] = [
+  'auth',
+  'quota',
+  'content_policy',
+  'invalid_request',
+  'cancelled',
+];
+
+export interface ProviderErrorDetails {
+  /** HTTP status of the failed request */
+  status?: number;
+  /** How long the server asked clients to wait, in milliseconds */
+  retryAfterMs?: number;
+}
+
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly provider: string;
+  readonly status: number | undefined;
+  readonly retryAfterMs: number | undefined;
+
+  constructor(
+    kind: ProviderErrorKind,
+    provider: string,
+    message: string,
+    details: ProviderErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.provider = provider;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  /**
+   * Whether trying again may succeed
+   */
+  get retryable(): boolean {
+    return !PERMANENT_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Error for a call given up because its AbortSignal fired
+ */
+export function cancelledError(provider: string): ProviderError {
+  return new ProviderError('cancelled', provider, 'Translation cancelled');
+}
+
+/**
+ * Whether a failed call is worth retrying; errors that weren't classified
+ * are retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  return !(error instanceof ProviderError) || error.retryable;
+}
+
+/**
+ * Classify an error thrown by a provider SDK or fetch call. Provider
+ * errors pass through unchanged; anything else becomes a ProviderError
+ * whose message starts with `action`.
+ */
+export function toProviderError(
+  error: unknown,
+  provider: string,
+  action: string
+): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+
+  const details = errorDetails(error);
+  const kind = classifyError(error, details.status);
+  const message = error instanceof Error ? error.message : String(error);
+
+  return new ProviderError(
+    kind,
+    provider,
+    `${action}: ${describeKind(kind, provider) ?? message}`,
+    details
+  );
+}
+
+/**
+ * Error for an HTTP response that wasn't ok, e.g. from a fetch call
+ */
+export function providerErrorFromResponse(
+  response: { status: number; headers?: unknown },
+  provider: string,
+  action: string
+): ProviderError {
+  const kind = classifyStatus(response.status) ?? 'unknown';
+  const retryAfterMs = parseRetryAfter(response.headers);
+
+  return new ProviderError(
+    kind,
+    provider,
+    `${action}: ${describeKind(kind, provider) ?? `endpoint returned status ${response.status}`}`,
+    {
+      status: response.status,
+      ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+    }
+  );
+}
+
+/**
+ * Wait time a server asked for in `retry-after-ms` or `retry-after`
+ * (seconds or an HTTP date). Headers may be a fetch Headers object or a
+ * plain record.
+ */
+export function parseRetryAfter(
+  headers: unknown,
+  now = Date.now()
+): number | undefined {
+  const retryAfterMs = Number(readHeader(headers, 'retry-after-ms'));
+  if (readHeader(headers, 'retry-after-ms') && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = readHeader(headers, 'retry-after')?.trim();
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(retryAfter)) {
+    return Math.round(Number(retryAfter) * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const entry = Object.entries(headers as Record<string, unknown>).find(
+    ([key]) => key.toLowerCase() === name
+  );
+  return entry && entry[1] !== undefined ? String(entry[1]) : undefined;
+}
+
+/**
+ * Status and retry hint of an SDK error; the OpenAI and Anthropic SDKs
+ * both put them on the error
+ */
+function errorDetails(error: unknown): ProviderErrorDetails {
+  if (!error || typeof error !== 'object') {
+    return {};
+  }
+
+  const { status, headers } = error as { status?: unknown; headers?: unknown };
+  const retryAfterMs = parseRetryAfter(headers);
+
+  return {
+    ...(typeof status === 'number' ? { status } : {}),
+    ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+  };
+}
+
+function classifyError(
+  error: unknown,
+  status: number | undefined
+): ProviderErrorKind {
+  const name = error instanceof Error ? error.name : '';
+  // SDK error codes and types ('insufficient_quota', 'authentication_error',
+  // ...) usually show up in the message as well
+  const text = [
+    error instanceof Error ? error.message : String(error),
+    (error as { code?: unknown })?.code,
+    (error as { type?: unknown })?.type,
+  ]
+    .filter(part => typeof part === 'string')
+    .join(' ')
+    .toLowerCase();
+
+  // AbortError from fetch; the SDKs' APIUserAbortError is named `Error`
+  // and only recognizable by its message
+  if (/abort/i.test(name) || /request was aborted/.test(text)) {
+    return 'cancelled';
+  }
+  if (/quota|insufficient|billing|credit/.test(text)) {
+    return 'quota';
+  }
+  if (/content[_ ]?(policy|filter)|safety|flagged/.test(text)) {
+    return 'content_policy';
+  }
+  if (/invalid_api_key|authentication|unauthorized|permission/.test(text)) {
+    return 'auth';
+  }
+
+  const statusKind = status !== undefined ? classifyStatus(status) : undefined;
+  if (statusKind) {
+    return statusKind;
+  }
+
+  if (/timeout|timed out/i.test(name) || /timed? ?out/.test(text)) {
+    return 'timeout';
+  }
+  if (/rate[_ ]?limit/.test(text)) {
+    return 'rate_limit';
+  }
+  // The SDKs' APIConnectionError says `Connection error.`
+  if (
+    /connection/i.test(name) ||
+    /connection error|fetch failed|econnreset|econnrefused|enotfound|etimedout|socket hang up|network|overloaded/.test(
+      text
+    )
+  ) {
+    return 'network';
+  }
+  if (/no translation received|invalid json|unexpected token/.test(text)) {
+    return 'bad_response';
+  }
+
+  return 'unknown';
+}
+
+function classifyStatus(status: number): ProviderErrorKind | undefined {
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 402) {
+    return 'quota';
+  }
+  if (status === 408) {
+    return 'timeout';
+  }
+  if (status === 429) {
+    return 'rate_limit';
+  }
+  if (status >= 500) {
+    return 'network';
+  }
+  // The same request would be rejected again
+  if (status >= 400) {
+    return 'invalid_request';
+  }
+  return undefined;
+}
+
+function describeKind(
+  kind: ProviderErrorKind,
+  provider: string
+): string | undefined {
+  switch (kind) {
+    case 'auth':
+      return `Invalid ${provider} API key. Please check your configuration.`;
+    case 'quota':
+      return `${provider} quota exceeded. Please check your account limits.`;
+    case 'rate_limit':
+      return `${provider} rate limit exceeded. Please wait before retrying.`;
+    case 'content_policy':
+      return 'Content policy violation. Please check your input text.';
+    case 'cancelled':
+      return 'Request cancelled';
+    default:
+      return undefined;
+  }
+}
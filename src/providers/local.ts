@@ -1,4 +1,13 @@
-import { BaseTranslationProvider, ProviderConfig } from './base-provider';
+import {
+  BaseTranslationProvider,
+  BatchTranslationItem,
+  ProviderConfig,
+} from './base-provider';
+import {
+  ProviderError,
+  providerErrorFromResponse,
+  toProviderError,
+} from './errors';
 
 export interface LocalProviderConfig extends ProviderConfig {
   endpoint?: string;
@@ -276,7 +285,8 @@ export class LocalProvider extends BaseTranslationProvider {
   async translate(
     text: string,
     targetLanguage: string,
-    context?: string
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     if (!this.isReady()) {
       await this.initialize();
@@ -286,6 +296,7 @@ export class LocalProvider extends BaseTranslationProvider {
     const sanitizedText = this.sanitizeInput(text);
     this.validateTargetLanguage(targetLanguage);
 
+    const request = this.requestSignal(signal);
     try {
       const prompt = this.buildPrompt(sanitizedText, targetLanguage, context);
 
@@ -304,11 +315,15 @@ export class LocalProvider extends BaseTranslationProvider {
           top_k: 40,
           max_tokens: this.config['maxTokens'] || 1000,
         }),
-        signal: AbortSignal.timeout(this.config['timeout'] || 30000),
+        signal: request.signal,
       });
 
       if (!response.ok) {
-        throw new Error(`Local endpoint returned status ${response.status}`);
+        throw providerErrorFromResponse(
+          response,
+          this.name,
+          'Local translation failed'
+        );
       }
 
       const data = await response.json();
@@ -316,30 +331,80 @@ export class LocalProvider extends BaseTranslationProvider {
       const rawTranslatedText = data.response || data.text || data.content;
 
       if (!rawTranslatedText) {
-        throw new Error('No translation received from local provider');
+        throw new ProviderError(
+          'bad_response',
+          this.name,
+          'No translation received from local provider'
+        );
       }
 
       // Clean the translation response to remove extra information
       const translatedText = this.cleanTranslationResponse(rawTranslatedText);
       return translatedText;
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.name === 'TimeoutError') {
-          throw new Error(
-            'Local provider request timed out. Please check if the service is running.'
-          );
-        } else if (error.message.includes('fetch')) {
-          throw new Error(
-            'Failed to connect to local provider. Please check if the service is running.'
-          );
-        }
+      throw toProviderError(error, this.name, 'Local translation failed');
+    } finally {
+      request.release();
+    }
+  }
+
+  /**
+   * Translate several texts with one generation, asking for JSON output
+   */
+  async translateBatch(
+    items: BatchTranslationItem[],
+    targetLanguage: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string>> {
+    if (!this.isReady()) {
+      await this.initialize();
+    }
+
+    this.validateTargetLanguage(targetLanguage);
+    const batchItems = items.map(item => ({
+      ...item,
+      text: this.sanitizeInput(item.text),
+    }));
+
+    const request = this.requestSignal(signal);
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.config['headers'],
+        },
+        body: JSON.stringify({
+          model: this.config['model'] || 'llama2',
+          prompt: this.buildBatchPrompt(batchItems, targetLanguage),
+          stream: false,
+          format: 'json',
+          temperature: this.config['temperature'] || 0.3,
+          max_tokens: this.config['maxTokens'] || 4000,
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        throw providerErrorFromResponse(
+          response,
+          this.name,
+          'Local batch translation failed'
+        );
       }
 
-      throw new Error(
-        `Local translation failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`
+      const data = await response.json();
+      // @ts-ignore
+      const rawResponse = data.response || data.text || data.content;
+
+      return this.parseBatchResponse(
+        typeof rawResponse === 'string' ? rawResponse : '',
+        batchItems
       );
+    } catch (error) {
+      throw toProviderError(error, this.name, 'Local batch translation failed');
+    } finally {
+      request.release();
     }
   }
 
@@ -381,7 +446,11 @@ export class LocalProvider extends BaseTranslationProvider {
       });
 
       if (!response.ok) {
-        throw new Error(`Local endpoint returned status ${response.status}`);
+        throw providerErrorFromResponse(
+          response,
+          this.name,
+          'Local translation failed'
+        );
       }
 
       const data = await response.json();
@@ -389,18 +458,18 @@ export class LocalProvider extends BaseTranslationProvider {
       const rawTranslatedText = data.response || data.text || data.content;
 
       if (!rawTranslatedText) {
-        throw new Error('No translation received from local provider');
+        throw new ProviderError(
+          'bad_response',
+          this.name,
+          'No translation received from local provider'
+        );
       }
 
       // Clean the translation response to remove extra information
       const translatedText = this.cleanTranslationResponse(rawTranslatedText);
       return translatedText;
     } catch (error) {
-      throw new Error(
-        `Local translation failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toProviderError(error, this.name, 'Local translation failed');
     }
   }
 
@@ -615,7 +684,7 @@ export class LocalProvider extends BaseTranslationProvider {
   } {
     return {
       supportsContext: true,
-      supportsBatchTranslation: false,
+      supportsBatchTranslation: true,
       maxTextLength: 8192, // Local models typically have lower limits
       rateLimitPerMinute: 100, // Local models can handle higher rates
     };
@@ -650,6 +719,38 @@ IMPORTANT INSTRUCTIONS:
     return prompt;
   }
 
+  /**
+   * Signal for a generation request: the configured timeout, or the
+   * caller's signal, whichever fires first. Combined by hand, as
+   * AbortSignal.any needs Node 20.3; `release` detaches it from the
+   * caller's signal once the request is done.
+   */
+  private requestSignal(signal?: AbortSignal): {
+    signal: AbortSignal;
+    release: () => void;
+  } {
+    const timeout = AbortSignal.timeout(this.config['timeout'] || 30000);
+    if (!signal) {
+      return { signal: timeout, release: () => {} };
+    }
+
+    const controller = new AbortController();
+    const onTimeout = () => controller.abort(timeout.reason);
+    const onAbort = () => controller.abort(signal.reason);
+    const release = () => {
+      timeout.removeEventListener('abort', onTimeout);
+      signal.removeEventListener('abort', onAbort);
+    };
+
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+    } else {
+      timeout.addEventListener('abort', onTimeout, { once: true });
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+    return { signal: controller.signal, release };
+  }
+
   /**
    * Clean and extract translation from model response
    */
@@ -1,4 +1,9 @@
-import { BaseTranslationProvider, ProviderConfig } from './base-provider';
+import {
+  BaseTranslationProvider,
+  BatchTranslationItem,
+  ProviderConfig,
+} from './base-provider';
+import { ProviderError, toProviderError } from './errors';
 
 export interface OpenAIConfig extends ProviderConfig {
   apiKey: string;
@@ -262,7 +267,8 @@ export class OpenAIProvider extends BaseTranslationProvider {
   async translate(
     text: string,
     targetLanguage: string,
-    context?: string
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     if (!this.isReady()) {
       await this.initialize();
@@ -275,54 +281,94 @@ export class OpenAIProvider extends BaseTranslationProvider {
     try {
       const prompt = this.buildPrompt(sanitizedText, targetLanguage, context);
 
-      const completion = await this.client.chat.completions.create({
-        model: this.config['model'] || 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a professional translator. Provide only the translated text without any explanations or additional text.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: this.config['temperature'] || 0.3,
-        max_tokens: this.config['maxTokens'] || 1000,
-        top_p: 1,
-        frequency_penalty: 0,
-        presence_penalty: 0,
-      });
+      const completion = await this.client.chat.completions.create(
+        {
+          model: this.config['model'] || 'gpt-3.5-turbo',
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You are a professional translator. Provide only the translated text without any explanations or additional text.',
+            },
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+          temperature: this.config['temperature'] || 0.3,
+          max_tokens: this.config['maxTokens'] || 1000,
+          top_p: 1,
+          frequency_penalty: 0,
+          presence_penalty: 0,
+        },
+        { signal }
+      );
 
       const translatedText = completion.choices[0]?.message?.content;
 
       if (!translatedText) {
-        throw new Error('No translation received from OpenAI');
+        throw new ProviderError(
+          'bad_response',
+          this.name,
+          'No translation received from OpenAI'
+        );
       }
 
       return translatedText.trim();
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('rate_limit')) {
-          throw new Error(
-            'OpenAI rate limit exceeded. Please wait before retrying.'
-          );
-        } else if (error.message.includes('quota_exceeded')) {
-          throw new Error(
-            'OpenAI quota exceeded. Please check your account limits.'
-          );
-        } else if (error.message.includes('invalid_api_key')) {
-          throw new Error(
-            'Invalid OpenAI API key. Please check your configuration.'
-          );
-        }
-      }
+      throw toProviderError(error, this.name, 'OpenAI translation failed');
+    }
+  }
 
-      throw new Error(
-        `OpenAI translation failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`
+  /**
+   * Translate several texts with one chat completion
+   */
+  async translateBatch(
+    items: BatchTranslationItem[],
+    targetLanguage: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string>> {
+    if (!this.isReady()) {
+      await this.initialize();
+    }
+
+    this.validateTargetLanguage(targetLanguage);
+    const batchItems = items.map(item => ({
+      ...item,
+      text: this.sanitizeInput(item.text),
+    }));
+
+    try {
+      const completion = await this.client.chat.completions.create(
+        {
+          model: this.config['model'] || 'gpt-3.5-turbo',
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You are a professional translator. Reply with a JSON object of translations only.',
+            },
+            {
+              role: 'user',
+              content: this.buildBatchPrompt(batchItems, targetLanguage),
+            },
+          ],
+          response_format: { type: 'json_object' },
+          temperature: this.config['temperature'] || 0.3,
+          max_tokens: this.config['maxTokens'] || 4000,
+        },
+        { signal }
+      );
+
+      return this.parseBatchResponse(
+        completion.choices[0]?.message?.content ?? '',
+        batchItems
+      );
+    } catch (error) {
+      throw toProviderError(
+        error,
+        this.name,
+        'OpenAI batch translation failed'
       );
     }
   }
@@ -369,16 +415,16 @@ export class OpenAIProvider extends BaseTranslationProvider {
       const translatedText = completion.choices[0]?.message?.content;
 
       if (!translatedText) {
-        throw new Error('No translation received from OpenAI');
+        throw new ProviderError(
+          'bad_response',
+          this.name,
+          'No translation received from OpenAI'
+        );
       }
 
       return translatedText.trim();
     } catch (error) {
-      throw new Error(
-        `OpenAI translation failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toProviderError(error, this.name, 'OpenAI translation failed');
     }
   }
 
@@ -435,7 +481,7 @@ export class OpenAIProvider extends BaseTranslationProvider {
   } {
     return {
       supportsContext: true,
-      supportsBatchTranslation: false,
+      supportsBatchTranslation: true,
       maxTextLength: 4000,
       rateLimitPerMinute: 60,
     };
@@ -4,18 +4,29 @@ export interface Config {
   baseLanguage: string;
   targetLanguages: string[];
   filePattern: string;
+  pathTemplate?: string; // e.g. '{lang}/{ns}.{ext}', relative to watchPath
+  rootLocale?: boolean; // YAML keyed by locale (Rails); detected when unset
 
   // LLM Configuration
   provider: {
     type: 'openai' | 'anthropic' | 'local' | 'custom';
     config: Record<string, any>;
+    concurrency?: number; // requests in flight at once; defaults to concurrency
+    rateLimit?: {
+      requestsPerMinute?: number; // defaults to the provider's reported limit
+      tokensPerMinute?: number; // estimated tokens; unlimited by default
+    };
   };
 
   // Translation settings
   preserveFormatting: boolean;
   contextInjection: boolean;
+  keyStyle?: 'nested' | 'flat' | 'auto'; // detected from the base file by default
   batchSize: number;
   retryAttempts: number;
+  concurrency?: number; // target languages translated at once; 1 by default
+  onSourceChange?: 'retranslate' | 'review'; // when base text changes; retranslate by default
+  lockfile?: string; // e.g. 'i18n-copilot.lock.json', relative to the config file; records what each translation was made from
 
   // Output settings
   logLevel: 'debug' | 'info' | 'warn' | 'error';
@@ -223,6 +223,89 @@ describe('ConfigValidator', () => {
         )
       ).toBe(true);
     });
+
+    it('should require a language placeholder in path templates', async () => {
+      const config = {
+        watchPath: '/path',
+        baseLanguage: 'en',
+        targetLanguages: ['es'],
+        provider: { type: 'openai', config: {} },
+        pathTemplate: '{ns}.{ext}',
+      };
+
+      const result = await validator.validateConfig(config);
+
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          path: 'pathTemplate',
+          message: 'Path template must contain a {lang} placeholder',
+        })
+      );
+
+      const valid = await validator.validateConfig({
+        ...config,
+        pathTemplate: '{lang}/{ns}.{ext}',
+      });
+      expect(valid.errors.map(e => e.path)).not.toContain('pathTemplate');
+    });
+
+    it('should check the range of concurrency limits', async () => {
+      const result = await validator.validateConfig({
+        watchPath: '/path',
+        baseLanguage: 'en',
+        targetLanguages: ['es'],
+        provider: { type: 'openai', config: {}, concurrency: 0 },
+        concurrency: 64,
+      });
+
+      expect(result.errors.map(e => e.path)).toEqual(
+        expect.arrayContaining(['concurrency', 'provider.concurrency'])
+      );
+    });
+
+    it('should only accept known source change policies', async () => {
+      const result = await validator.validateConfig({
+        watchPath: '/path',
+        baseLanguage: 'en',
+        targetLanguages: ['es'],
+        provider: { type: 'openai', config: {} },
+        onSourceChange: 'overwrite',
+      });
+
+      expect(result.errors.map(e => e.path)).toContain('onSourceChange');
+    });
+
+    it('should require a lockfile path to be a non-empty string', async () => {
+      const result = await validator.validateConfig({
+        watchPath: '/path',
+        baseLanguage: 'en',
+        targetLanguages: ['es'],
+        provider: { type: 'openai', config: {} },
+        lockfile: '',
+      });
+
+      expect(result.errors.map(e => e.path)).toContain('lockfile');
+    });
+
+    it('should require positive rate limits', async () => {
+      const result = await validator.validateConfig({
+        watchPath: '/path',
+        baseLanguage: 'en',
+        targetLanguages: ['es'],
+        provider: {
+          type: 'openai',
+          config: {},
+          rateLimit: { requestsPerMinute: 0, tokensPerMinute: 'many' },
+        },
+      });
+
+      expect(result.errors.map(e => e.path)).toEqual(
+        expect.arrayContaining([
+          'provider.rateLimit.requestsPerMinute',
+          'provider.rateLimit.tokensPerMinute',
+        ])
+      );
+    });
   });
 
   describe('business logic validation', () => {
@@ -441,6 +441,21 @@ export class ConfigValidator {
         type: 'string',
         minLength: 1,
       },
+      pathTemplate: {
+        type: 'string',
+        custom: (value, path) =>
+          value.includes('{lang}')
+            ? null
+            : {
+                path,
+                message: 'Path template must contain a {lang} placeholder',
+                value,
+                expected: "e.g. '{lang}/{ns}.{ext}'",
+              },
+      },
+      rootLocale: {
+        type: 'boolean',
+      },
       // provider object is validated through provider.type and provider.config
       'provider.type': {
         required: true,
@@ -451,12 +466,32 @@ export class ConfigValidator {
         required: true,
         type: 'object',
       },
+      'provider.concurrency': {
+        type: 'number',
+        minValue: 1,
+        maxValue: 32,
+      },
+      'provider.rateLimit': {
+        type: 'object',
+      },
+      'provider.rateLimit.requestsPerMinute': {
+        type: 'number',
+        minValue: 1,
+      },
+      'provider.rateLimit.tokensPerMinute': {
+        type: 'number',
+        minValue: 1,
+      },
       preserveFormatting: {
         type: 'boolean',
       },
       contextInjection: {
         type: 'boolean',
       },
+      keyStyle: {
+        type: 'string',
+        enum: ['nested', 'flat', 'auto'],
+      },
       batchSize: {
         type: 'number',
         minValue: 1,
@@ -467,6 +502,19 @@ export class ConfigValidator {
         minValue: 0,
         maxValue: 10,
       },
+      concurrency: {
+        type: 'number',
+        minValue: 1,
+        maxValue: 32,
+      },
+      onSourceChange: {
+        type: 'string',
+        enum: ['retranslate', 'review'],
+      },
+      lockfile: {
+        type: 'string',
+        minLength: 1,
+      },
 
       logLevel: {
         type: 'string',